@@ -0,0 +1,26 @@
+/**
+ * Alert Management Page
+ * 
+ * This page provides the admin interface for scheduler alerting. It allows
+ * admins to configure the webhooks notified when schedulers keep failing,
+ * collect nothing, or lose their cron or Redis, and to review deliveries.
+ */
+
+import { Metadata } from 'next';
+import { AlertManagementClient } from '@/components/admin/alert-management/components/AlertManagementClient';
+import { getAlertRules } from '@/lib/actions/alert.actions';
+
+export const metadata: Metadata = {
+  title: 'Scheduler Alerts | XBlade',
+  description: 'Manage scheduler alert rules and webhook deliveries',
+};
+
+export default async function AlertManagementPage() {
+  const rules = await getAlertRules();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AlertManagementClient initialRules={rules} />
+    </div>
+  );
+}
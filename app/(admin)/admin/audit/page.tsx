@@ -0,0 +1,26 @@
+/**
+ * Audit Log Page
+ * 
+ * This page provides the admin interface for the audit log. It lists
+ * every recorded mutation of leagues, seasons, schedulers, clubs and
+ * users, with search, filters and a CSV export.
+ */
+
+import { Metadata } from 'next';
+import { AuditLogClient } from '@/components/admin/audit-management/components/AuditLogClient';
+import { getAuditLogs } from '@/lib/actions/audit.actions';
+
+export const metadata: Metadata = {
+  title: 'Audit Log | XBlade',
+  description: 'Review who changed leagues, schedulers, clubs and users',
+};
+
+export default async function AuditLogPage() {
+  const { entries, pagination } = await getAuditLogs();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AuditLogClient initialEntries={entries} initialPages={pagination.pages} />
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+/**
+ * Club Record Page
+ * 
+ * This page shows a stored club: its EA record, the stats and recent
+ * results of its stored matches, and the seasons and schedulers that
+ * reference it.
+ */
+
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { ClubDetails } from '@/components/admin/club-management/ClubDetails';
+import { getClubById, getClubReferences } from '@/lib/actions/club.actions';
+import { getClubMatchStats, getRecentMatchesForClub } from '@/lib/actions/match.actions';
+
+interface ClubPageProps {
+  params: Promise<{ clubId: string }>;
+}
+
+export const metadata: Metadata = {
+  title: 'Club | XBlade',
+  description: 'Club record, matches and references',
+};
+
+export default async function ClubPage({ params }: ClubPageProps) {
+  const { clubId } = await params;
+  const club = await getClubById(clubId);
+
+  if (!club) {
+    notFound();
+  }
+
+  const [stats, recentMatches, references] = await Promise.all([
+    getClubMatchStats(clubId),
+    getRecentMatchesForClub(clubId),
+    getClubReferences(clubId)
+  ]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <ClubDetails
+        club={club}
+        stats={stats}
+        recentMatches={recentMatches}
+        references={references}
+      />
+    </div>
+  );
+}
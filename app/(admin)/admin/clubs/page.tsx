@@ -0,0 +1,30 @@
+/**
+ * Club Management Page
+ * 
+ * This page provides the admin interface for clubs. It allows admins to
+ * search EA's Pro Clubs API and import clubs, and to browse the stored
+ * clubs that seasons and schedulers collect matches for.
+ */
+
+import { Metadata } from 'next';
+import { ClubManagementClient } from '@/components/admin/club-management/ClubManagementClient';
+import { getClubs } from '@/lib/actions/club.actions';
+
+export const metadata: Metadata = {
+  title: 'Club Management | XBlade',
+  description: 'Import clubs from EA and manage the stored clubs',
+};
+
+export default async function ClubManagementPage() {
+  const { clubs, pagination } = await getClubs(1, 20);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <ClubManagementClient
+        initialClubs={clubs}
+        initialTotal={pagination.total}
+        initialPages={pagination.pages}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * Match Box Score Page
+ * 
+ * This page shows the box score of a stored match: both clubs' results
+ * and team stats, and every player's stat line.
+ */
+
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { BoxScore } from '@/components/matches/BoxScore';
+import { getMatchById } from '@/lib/actions/match.actions';
+
+interface MatchPageProps {
+  params: Promise<{ matchId: string }>;
+}
+
+export const metadata: Metadata = {
+  title: 'Match | XBlade',
+  description: 'Box score of a stored match',
+};
+
+export default async function MatchPage({ params }: MatchPageProps) {
+  const { matchId } = await params;
+  const match = await getMatchById(matchId);
+
+  if (!match) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto p-6 space-y-6">
+        <div>
+          <Link href="/admin/matches" className="text-sm text-muted-foreground hover:text-foreground">
+            ← Matches
+          </Link>
+          <h1 className="text-3xl font-bold mt-2">Box Score</h1>
+        </div>
+        <BoxScore match={match} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * Match Management Page
+ * 
+ * This page provides the admin list of stored matches, filterable by
+ * club, season, match type and date range, with links to each match's
+ * box score.
+ */
+
+import { Metadata } from 'next';
+import { MatchListClient } from '@/components/admin/match-management/MatchListClient';
+import { getMatches } from '@/lib/actions/match.actions';
+import { getClubs } from '@/lib/actions/club.actions';
+import { getSeasonsWithLeagues } from '@/lib/actions/league.actions';
+import { IClub } from '@/lib/models/club.model';
+
+// Most clubs offered in the club filter
+const MAX_CLUB_OPTIONS = 500;
+
+export const metadata: Metadata = {
+  title: 'Matches | XBlade',
+  description: 'Browse stored matches and their box scores',
+};
+
+export default async function MatchManagementPage() {
+  const [{ matches, pagination }, { clubs }, seasons] = await Promise.all([
+    getMatches(1, 20),
+    getClubs(1, MAX_CLUB_OPTIONS),
+    getSeasonsWithLeagues()
+  ]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <MatchListClient
+        initialMatches={matches}
+        initialTotal={pagination.total}
+        initialPages={pagination.pages}
+        clubOptions={clubs.map((club: IClub) => ({ value: club.clubId, label: club.name }))}
+        seasonOptions={seasons.map((season: { _id: string; name: string; leagueName: string }) => ({
+          value: season._id,
+          label: `${season.leagueName} – ${season.name}`
+        }))}
+      />
+    </div>
+  );
+}
@@ -16,7 +16,11 @@ import {
   Activity, 
   Settings,
   ArrowRight,
-  Shield
+  Shield,
+  Bell,
+  History,
+  Shirt,
+  ListOrdered
 } from 'lucide-react';
 import { getSchedulers } from '@/lib/actions/scheduler.actions';
 import { getLeagues } from '@/lib/actions/league.actions';
@@ -32,7 +36,7 @@ async function getDashboardData() {
     const [schedulersResult, leaguesResult, healthStatus] = await Promise.all([
       getSchedulers(1, 10, undefined),
       getLeagues(1, 10, undefined),
-      getServicesHealth().catch(() => ({ redis: false, scheduler: false, cron: false, overall: false }))
+      getServicesHealth().catch(() => ({ redis: false, scheduler: false, cron: false, eaApi: false, overall: false }))
     ]);
 
     return {
@@ -45,7 +49,7 @@ async function getDashboardData() {
     return {
       schedulers: [],
       leagues: [],
-      health: { redis: false, scheduler: false, cron: false, overall: false }
+      health: { redis: false, scheduler: false, cron: false, eaApi: false, overall: false }
     };
   }
 }
@@ -77,7 +81,7 @@ export default async function AdminDashboardPage() {
           <CardDescription>Current status of system services</CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div className="flex items-center justify-between p-3 border rounded-lg">
               <span className="text-sm font-medium">Redis</span>
               <span className={`px-2 py-1 rounded text-xs font-semibold ${
@@ -102,6 +106,14 @@ export default async function AdminDashboardPage() {
                 {health.cron ? 'Online' : 'Offline'}
               </span>
             </div>
+            <div className="flex items-center justify-between p-3 border rounded-lg">
+              <span className="text-sm font-medium">EA API</span>
+              <span className={`px-2 py-1 rounded text-xs font-semibold ${
+                health.eaApi ? 'bg-green-500 text-white' : 'bg-red-500 text-white'
+              }`}>
+                {health.eaApi ? 'Online' : 'Paused'}
+              </span>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -203,6 +215,46 @@ export default async function AdminDashboardPage() {
           </CardContent>
         </Card>
 
+        <Card className="hover:shadow-lg transition-shadow">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Shirt className="h-5 w-5" />
+              Club Management
+            </CardTitle>
+            <CardDescription>
+              Import clubs from EA and review their matches
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/admin/clubs">
+              <Button className="w-full" variant="outline">
+                Go to Clubs
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+
+        <Card className="hover:shadow-lg transition-shadow">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListOrdered className="h-5 w-5" />
+              Matches
+            </CardTitle>
+            <CardDescription>
+              Browse stored matches and their box scores
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/admin/matches">
+              <Button className="w-full" variant="outline">
+                Go to Matches
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+
         <Card className="hover:shadow-lg transition-shadow">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -222,6 +274,46 @@ export default async function AdminDashboardPage() {
             </Link>
           </CardContent>
         </Card>
+
+        <Card className="hover:shadow-lg transition-shadow">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bell className="h-5 w-5" />
+              Scheduler Alerts
+            </CardTitle>
+            <CardDescription>
+              Manage alert rules and webhook deliveries
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/admin/alerts">
+              <Button className="w-full" variant="outline">
+                Go to Alerts
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+
+        <Card className="hover:shadow-lg transition-shadow">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Audit Log
+            </CardTitle>
+            <CardDescription>
+              Review who changed what, and export it
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/admin/audit">
+              <Button className="w-full" variant="outline">
+                Go to Audit Log
+                <ArrowRight className="ml-2 h-4 w-4" />
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
@@ -3,6 +3,8 @@ import AdminHeader from "@/components/admin/AdminHeader"
 import { getSession } from "@/lib/actions/auth.actions"
 import { getUsers } from "@/lib/actions/user.actions"
 import UsersManagementClient from "@/components/admin/user-management/UsersManagementClient"
+import PlayerClaimsPanel from "@/components/admin/user-management/PlayerClaimsPanel"
+import { getPlayerClaims } from "@/lib/actions/playerClaim.actions"
 
 interface UsersPageProps {
   searchParams: Promise<{
@@ -49,20 +51,23 @@ export default async function UsersPage({ searchParams }: UsersPageProps) {
   const sortBy = params.sortBy || "createdAt"
   const sortOrder = params.sortOrder || "desc"
 
-  // Fetch users
-  const usersResult = await getUsers({
-    page,
-    limit: 10,
-    search,
-    role: role === "all" ? "all" : role,
-    sortBy,
-    sortOrder,
-  })
+  // Fetch users and pending player claims
+  const [usersResult, claimsResult] = await Promise.all([
+    getUsers({
+      page,
+      limit: 10,
+      search,
+      role: role === "all" ? "all" : role,
+      sortBy,
+      sortOrder,
+    }),
+    getPlayerClaims("pending"),
+  ])
 
   return (
     <>
       <AdminHeader user={user} />
-      <main className="container mx-auto px-4 py-8">
+      <main className="container mx-auto px-4 py-8 space-y-6">
         <UsersManagementClient
           initialUsers={usersResult.users || []}
           initialTotal={usersResult.total || 0}
@@ -74,6 +79,7 @@ export default async function UsersPage({ searchParams }: UsersPageProps) {
           initialSortOrder={sortOrder}
           currentUserId={currentUserId}
         />
+        <PlayerClaimsPanel initialClaims={claimsResult.claims || []} />
       </main>
     </>
   )
@@ -0,0 +1,94 @@
+/**
+ * Public League Page
+ * 
+ * This page shows a single league and its seasons, newest first.
+ * Each season links to its standings and results.
+ */
+
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { format } from 'date-fns';
+import { Calendar, Users } from 'lucide-react';
+import PublicHeader from '@/components/PublicHeader';
+import { Badge } from '@/components/ui/badge';
+import { getLeagueById, getSeasonsForLeague } from '@/lib/actions/league.actions';
+
+interface LeaguePageProps {
+  params: Promise<{ id: string }>;
+}
+
+interface PublicSeason {
+  _id: string;
+  name: string;
+  description?: string;
+  startDate: string;
+  endDate?: string;
+  clubs: string[];
+  isActive: boolean;
+}
+
+export default async function LeaguePage({ params }: LeaguePageProps) {
+  const { id } = await params;
+  const league = await getLeagueById(id);
+
+  if (!league || !league.isActive) {
+    notFound();
+  }
+
+  const seasons: PublicSeason[] = await getSeasonsForLeague(id);
+
+  return (
+    <>
+      <PublicHeader />
+      <div className="min-h-screen bg-slate-950 text-white">
+        <div className="container mx-auto px-4 py-8 space-y-6">
+          <div>
+            <Link href="/leagues/view" className="text-sm text-slate-400 hover:text-white">
+              ← All leagues
+            </Link>
+            <div className="mt-2 flex items-center gap-3">
+              <h1 className="text-3xl font-bold">{league.name}</h1>
+              <Badge variant="secondary">{league.type}</Badge>
+            </div>
+            {league.description && (
+              <p className="mt-1 text-slate-400">{league.description}</p>
+            )}
+          </div>
+
+          <h2 className="text-xl font-semibold">Seasons</h2>
+          {seasons.length === 0 ? (
+            <p className="text-slate-400">No seasons have been created yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {seasons.map((season) => (
+                <Link
+                  key={season._id}
+                  href={`/leagues/${id}/seasons/${season._id}`}
+                  className="block rounded-lg border border-slate-800 p-4 transition-colors hover:border-slate-600"
+                >
+                  <div className="flex items-center justify-between">
+                    <h3 className="font-semibold">{season.name}</h3>
+                    <Badge variant={season.isActive ? 'default' : 'outline'}>
+                      {season.isActive ? 'Active' : 'Completed'}
+                    </Badge>
+                  </div>
+                  <div className="mt-2 flex gap-4 text-xs text-slate-400">
+                    <span className="flex items-center gap-1">
+                      <Calendar className="h-3 w-3" />
+                      {format(new Date(season.startDate), 'PP')}
+                      {season.endDate ? ` – ${format(new Date(season.endDate), 'PP')}` : ' – ongoing'}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Users className="h-3 w-3" />
+                      {season.clubs.length} club(s)
+                    </span>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * Public Season Page
+ * 
+ * This page shows a season's participating clubs, its standings table
+ * and the most recent results played between its clubs.
+ */
+
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { format } from 'date-fns';
+import PublicHeader from '@/components/PublicHeader';
+import { Badge } from '@/components/ui/badge';
+import { StandingsTable } from '@/components/leagues/StandingsTable';
+import { MatchResultList } from '@/components/leagues/MatchResultList';
+import {
+  getLeagueById,
+  getSeasonById,
+  getClubsForSeason,
+  getSeasonStandings,
+  getSeasonResults
+} from '@/lib/actions/league.actions';
+
+interface SeasonPageProps {
+  params: Promise<{ id: string; seasonId: string }>;
+}
+
+export default async function SeasonPage({ params }: SeasonPageProps) {
+  const { id, seasonId } = await params;
+  const [league, season] = await Promise.all([
+    getLeagueById(id),
+    getSeasonById(seasonId)
+  ]);
+
+  if (!league || !league.isActive || !season || season.leagueId !== id) {
+    notFound();
+  }
+
+  const [clubs, standings, results] = await Promise.all([
+    getClubsForSeason(seasonId),
+    getSeasonStandings(seasonId),
+    getSeasonResults(seasonId, 10)
+  ]);
+
+  return (
+    <>
+      <PublicHeader />
+      <div className="min-h-screen bg-slate-950 text-white">
+        <div className="container mx-auto px-4 py-8 space-y-8">
+          <div>
+            <Link href={`/leagues/${id}`} className="text-sm text-slate-400 hover:text-white">
+              ← {league.name}
+            </Link>
+            <div className="mt-2 flex items-center gap-3">
+              <h1 className="text-3xl font-bold">{season.name}</h1>
+              <Badge variant={season.isActive ? 'default' : 'outline'}>
+                {season.isActive ? 'Active' : 'Completed'}
+              </Badge>
+            </div>
+            <p className="mt-1 text-sm text-slate-400">
+              {format(new Date(season.startDate), 'PP')}
+              {season.endDate ? ` – ${format(new Date(season.endDate), 'PP')}` : ' – ongoing'}
+            </p>
+            {season.description && (
+              <p className="mt-1 text-slate-400">{season.description}</p>
+            )}
+          </div>
+
+          <section className="space-y-3">
+            <h2 className="text-xl font-semibold">Standings</h2>
+            <StandingsTable standings={standings} />
+          </section>
+
+          <section className="space-y-3">
+            <h2 className="text-xl font-semibold">Recent Results</h2>
+            <MatchResultList matches={results} />
+          </section>
+
+          <section className="space-y-3">
+            <h2 className="text-xl font-semibold">Clubs</h2>
+            {clubs.length === 0 ? (
+              <p className="text-sm text-slate-400">No clubs in this season yet.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {clubs.map((club: { clubId: string; name: string }) => (
+                  <Badge key={club.clubId} variant="secondary">{club.name}</Badge>
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </>
+  );
+}
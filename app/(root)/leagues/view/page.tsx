@@ -0,0 +1,73 @@
+/**
+ * Public Leagues Page
+ * 
+ * This page lists every active league so the community can follow
+ * along without an account. Each league links to its seasons.
+ */
+
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { Trophy, Calendar } from 'lucide-react';
+import PublicHeader from '@/components/PublicHeader';
+import { Badge } from '@/components/ui/badge';
+import { getLeagues } from '@/lib/actions/league.actions';
+
+export const metadata: Metadata = {
+  title: 'Leagues | XBlade',
+  description: 'Browse active XBlade leagues, seasons and standings',
+};
+
+interface PublicLeague {
+  _id: string;
+  name: string;
+  description?: string;
+  type: string;
+  seasons?: { _id: string }[];
+}
+
+export default async function LeaguesViewPage() {
+  const { leagues } = await getLeagues(1, 100, '', '', true);
+
+  return (
+    <>
+      <PublicHeader />
+      <div className="min-h-screen bg-slate-950 text-white">
+        <div className="container mx-auto px-4 py-8 space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold">Leagues</h1>
+            <p className="text-slate-400">Active leagues on XBlade</p>
+          </div>
+
+          {leagues.length === 0 ? (
+            <p className="text-slate-400">No active leagues right now.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {leagues.map((league: PublicLeague) => (
+                <Link
+                  key={league._id}
+                  href={`/leagues/${league._id}`}
+                  className="rounded-lg border border-slate-800 p-4 transition-colors hover:border-slate-600"
+                >
+                  <div className="flex items-center justify-between">
+                    <h2 className="flex items-center gap-2 text-lg font-semibold">
+                      <Trophy className="h-5 w-5" />
+                      {league.name}
+                    </h2>
+                    <Badge variant="secondary">{league.type}</Badge>
+                  </div>
+                  {league.description && (
+                    <p className="mt-2 text-sm text-slate-400">{league.description}</p>
+                  )}
+                  <p className="mt-3 flex items-center gap-1 text-xs text-slate-400">
+                    <Calendar className="h-3 w-3" />
+                    {league.seasons?.length || 0} season(s)
+                  </p>
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * Public Match Page
+ * 
+ * This page shows the box score of a stored match: both clubs' results
+ * and team stats, and every player's skater or goalie line.
+ */
+
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import PublicHeader from '@/components/PublicHeader';
+import { BoxScore } from '@/components/matches/BoxScore';
+import { getMatchById } from '@/lib/actions/match.actions';
+
+interface MatchPageProps {
+  params: Promise<{ matchId: string }>;
+}
+
+export default async function MatchPage({ params }: MatchPageProps) {
+  const { matchId } = await params;
+  const match = await getMatchById(matchId);
+
+  if (!match) {
+    notFound();
+  }
+
+  return (
+    <>
+      <PublicHeader />
+      {/* The box score takes its colors from the theme, so switch it to the dark one */}
+      <div className="dark min-h-screen bg-slate-950 text-white">
+        <div className="container mx-auto px-4 py-8 space-y-8">
+          <Link href="/matches" className="text-sm text-slate-400 hover:text-white">
+            ← Matches
+          </Link>
+          <BoxScore match={match} />
+        </div>
+      </div>
+    </>
+  );
+}
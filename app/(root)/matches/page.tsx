@@ -0,0 +1,165 @@
+/**
+ * Public Match List Page
+ * 
+ * This page lists stored results, newest first. Visitors can filter by
+ * club, season, match type and date range; the filters live in the URL
+ * so a filtered list can be shared.
+ */
+
+import Link from 'next/link';
+import PublicHeader from '@/components/PublicHeader';
+import { MatchResultList } from '@/components/leagues/MatchResultList';
+import { getMatches } from '@/lib/actions/match.actions';
+import { getClubs } from '@/lib/actions/club.actions';
+import { getSeasonsWithLeagues } from '@/lib/actions/league.actions';
+import { EA_MATCH_TYPES } from '@/lib/config/eaApi';
+import { IClub } from '@/lib/models/club.model';
+
+// Number of matches per page
+const PAGE_SIZE = 20;
+
+// Most clubs offered in the club filter
+const MAX_CLUB_OPTIONS = 500;
+
+type MatchFilters = {
+  club?: string;
+  season?: string;
+  type?: string;
+  from?: string;
+  to?: string;
+  page?: string;
+};
+
+interface MatchesPageProps {
+  searchParams: Promise<MatchFilters>;
+}
+
+const fieldClassName = 'h-9 w-full rounded-md border border-slate-700 bg-slate-900 px-3 text-sm text-white';
+
+export default async function MatchesPage({ searchParams }: MatchesPageProps) {
+  const filters = await searchParams;
+  const page = Math.max(parseInt(filters.page || '1', 10) || 1, 1);
+
+  // Dates are whole days; "to" includes the whole day
+  const isDay = (value?: string) => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const from = isDay(filters.from) ? filters.from as string : '';
+  const to = isDay(filters.to) ? filters.to as string : '';
+
+  const [{ matches, pagination }, { clubs }, seasons] = await Promise.all([
+    getMatches(
+      page,
+      PAGE_SIZE,
+      filters.club || '',
+      from ? `${from}T00:00:00Z` : '',
+      to ? `${to}T23:59:59.999Z` : '',
+      filters.season || '',
+      filters.type || ''
+    ),
+    getClubs(1, MAX_CLUB_OPTIONS),
+    getSeasonsWithLeagues(true)
+  ]);
+
+  // Helper function to link to another page of the same filtered list
+  const pageHref = (target: number) => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value && key !== 'page') params.set(key, value);
+    }
+    params.set('page', target.toString());
+    return `/matches?${params}`;
+  };
+
+  return (
+    <>
+      <PublicHeader />
+      <div className="min-h-screen bg-slate-950 text-white">
+        <div className="container mx-auto px-4 py-8 space-y-8">
+          <div>
+            <h1 className="text-3xl font-bold">Matches</h1>
+            <p className="mt-1 text-slate-400">Results collected from EA, newest first.</p>
+          </div>
+
+          {/* Filters */}
+          <form action="/matches" className="grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+            <label className="space-y-1 text-sm text-slate-400">
+              <span>Club</span>
+              <select name="club" defaultValue={filters.club || ''} className={fieldClassName}>
+                <option value="">All clubs</option>
+                {clubs.map((club: IClub) => (
+                  <option key={club.clubId} value={club.clubId}>{club.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1 text-sm text-slate-400">
+              <span>Season</span>
+              <select name="season" defaultValue={filters.season || ''} className={fieldClassName}>
+                <option value="">All seasons</option>
+                {seasons.map((season: { _id: string; name: string; leagueName: string }) => (
+                  <option key={season._id} value={season._id}>
+                    {season.leagueName} – {season.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1 text-sm text-slate-400">
+              <span>Match Type</span>
+              <select name="type" defaultValue={filters.type || ''} className={fieldClassName}>
+                <option value="">All types</option>
+                {EA_MATCH_TYPES.map((type) => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1 text-sm text-slate-400">
+              <span>From</span>
+              <input type="date" name="from" defaultValue={from} className={fieldClassName} />
+            </label>
+            <label className="space-y-1 text-sm text-slate-400">
+              <span>To</span>
+              <input type="date" name="to" defaultValue={to} className={fieldClassName} />
+            </label>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                className="h-9 flex-1 rounded-md bg-white px-4 text-sm font-medium text-slate-950 hover:bg-slate-200"
+              >
+                Filter
+              </button>
+              <Link
+                href="/matches"
+                className="flex h-9 items-center rounded-md border border-slate-700 px-4 text-sm text-slate-300 hover:text-white"
+              >
+                Reset
+              </Link>
+            </div>
+          </form>
+
+          <section className="space-y-3">
+            <p className="text-sm text-slate-400">
+              {pagination.total} {pagination.total === 1 ? 'match' : 'matches'}
+            </p>
+            <MatchResultList matches={matches} />
+
+            {pagination.pages > 1 && (
+              <div className="flex items-center justify-end gap-4 text-sm">
+                {page > 1 && (
+                  <Link href={pageHref(page - 1)} className="text-slate-300 hover:text-white">
+                    ← Previous
+                  </Link>
+                )}
+                <span className="text-slate-400">
+                  Page {page} of {pagination.pages}
+                </span>
+                {page < pagination.pages && (
+                  <Link href={pageHref(page + 1)} className="text-slate-300 hover:text-white">
+                    Next →
+                  </Link>
+                )}
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,113 @@
+/**
+ * Public Player Profile Page
+ * 
+ * This page shows a player's bio, career totals, per-season splits and
+ * recent game log, with separate skater and goalie views.
+ */
+
+import { notFound } from 'next/navigation';
+import PublicHeader from '@/components/PublicHeader';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { PlayerSplitsTable, PlayerSplit } from '@/components/players/PlayerSplitsTable';
+import { PlayerGameLog } from '@/components/players/PlayerGameLog';
+import { getPlayerById, getPlayerSeasonSplits } from '@/lib/actions/player.actions';
+import { IMatchHistory, IPlayer } from '@/lib/models/player.model';
+import { summarizePlayerStats } from '@/lib/utils/playerStats';
+
+// Number of games shown in the recent game log
+const GAME_LOG_SIZE = 10;
+
+interface PlayerPageProps {
+  params: Promise<{ playerId: string }>;
+}
+
+export default async function PlayerPage({ params }: PlayerPageProps) {
+  const { playerId } = await params;
+  const player: IPlayer | null = await getPlayerById(playerId);
+
+  if (!player) {
+    notFound();
+  }
+
+  const seasonSplits = await getPlayerSeasonSplits(playerId);
+  const history: IMatchHistory[] = player.matchHistory || [];
+
+  const splits: PlayerSplit[] = [
+    { label: 'Career', ...summarizePlayerStats(history.map((entry) => entry.stats)) },
+    ...seasonSplits.map((split: PlayerSplit & { seasonName: string }) => ({
+      ...split,
+      label: split.seasonName
+    }))
+  ];
+
+  const recentGames = [...history]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, GAME_LOG_SIZE);
+
+  const { careerStats } = player;
+  const defaultView = player.position?.toLowerCase() === 'goalie' ? 'goalie' : 'skater';
+
+  return (
+    <>
+      <PublicHeader />
+      <div className="min-h-screen bg-slate-950 text-white">
+        <div className="container mx-auto px-4 py-8 space-y-8">
+          {/* Bio */}
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold">{player.playerName}</h1>
+              {player.isRegistered && <Badge>Registered</Badge>}
+            </div>
+            <div className="mt-2 flex gap-2">
+              <Badge variant="secondary" className="capitalize">{player.position}</Badge>
+              <Badge variant="outline" className="text-slate-300">{player.clientPlatform}</Badge>
+            </div>
+          </div>
+
+          {/* Career totals */}
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-4">
+            {[
+              { label: 'Games', value: careerStats.totalMatches },
+              { label: 'Goals', value: careerStats.totalGoals },
+              { label: 'Assists', value: careerStats.totalAssists },
+              { label: 'Points', value: careerStats.totalPoints },
+              { label: '+/-', value: careerStats.plusMinus },
+              { label: 'Shot %', value: careerStats.shotPercentage.toFixed(1) },
+              { label: 'Hits', value: careerStats.totalHits },
+              { label: 'PIM', value: careerStats.totalPIM }
+            ].map(({ label, value }) => (
+              <div key={label} className="rounded-lg border border-slate-800 p-4">
+                <p className="text-xs text-slate-400">{label}</p>
+                <p className="text-2xl font-bold">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Splits */}
+          <section className="space-y-3">
+            <h2 className="text-xl font-semibold">Stats</h2>
+            <Tabs defaultValue={defaultView}>
+              <TabsList>
+                <TabsTrigger value="skater">Skater</TabsTrigger>
+                <TabsTrigger value="goalie">Goalie</TabsTrigger>
+              </TabsList>
+              <TabsContent value="skater">
+                <PlayerSplitsTable splits={splits} mode="skater" />
+              </TabsContent>
+              <TabsContent value="goalie">
+                <PlayerSplitsTable splits={splits} mode="goalie" />
+              </TabsContent>
+            </Tabs>
+          </section>
+
+          {/* Game log */}
+          <section className="space-y-3">
+            <h2 className="text-xl font-semibold">Recent Games</h2>
+            <PlayerGameLog games={recentGames} />
+          </section>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,6 +1,10 @@
 import {redirect} from "next/navigation";
 import Header from "@/components/Header";
+import ClaimPlayerPanel from "@/components/dashboard/ClaimPlayerPanel";
+import PlayerDashboard from "@/components/dashboard/PlayerDashboard";
 import {getSession} from "@/lib/actions/auth.actions";
+import {getClaimablePlayers, getMyLinkedPlayer, getMyPlayerClaims} from "@/lib/actions/playerClaim.actions";
+import {getPlayerSeasonSplits} from "@/lib/actions/player.actions";
 
 const WelcomeUser = async () => {
   const result = await getSession();
@@ -12,6 +16,7 @@ const WelcomeUser = async () => {
   const session = result.session;
 
   const firstName = session?.user?.name?.split(' ')[0] || null;
+  const gamertag = (session?.user as { gamertag?: string })?.gamertag;
 
   const user = {
     name: session?.user?.name,
@@ -19,16 +24,38 @@ const WelcomeUser = async () => {
     image: session?.user?.image,
   };
 
+  const linkedPlayer = await getMyLinkedPlayer();
+
+  // Linked users get their stats dashboard, everyone else the claim flow
+  let content;
+  if (linkedPlayer) {
+    const seasonSplits = await getPlayerSeasonSplits(linkedPlayer.playerId);
+    content = <PlayerDashboard player={linkedPlayer} seasonSplits={seasonSplits} />;
+  } else {
+    const [playersResult, claimsResult] = await Promise.all([
+      getClaimablePlayers(),
+      getMyPlayerClaims(),
+    ]);
+    content = (
+      <ClaimPlayerPanel
+        gamertag={gamertag}
+        players={playersResult.players || []}
+        claims={claimsResult.claims || []}
+      />
+    );
+  }
+
   return (
     <>
       <Header user={user} />
-      <main className="flex min-h-screen flex-col items-center justify-center bg-slate-950 text-white">
+      <main className="flex min-h-screen flex-col items-center gap-10 bg-slate-950 px-4 py-16 text-white">
         <h1 className="text-6xl font-extrabold tracking-widest">
           WELCOME {firstName ? firstName.toUpperCase() : ''}
         </h1>
+        {content}
       </main>
     </>
   )
 }
 
-export default WelcomeUser
\ No newline at end of file
+export default WelcomeUser
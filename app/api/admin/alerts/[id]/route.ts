@@ -0,0 +1,61 @@
+/**
+ * API Route for Individual Alert Rule Operations
+ * 
+ * This route handles HTTP requests for updating and deleting alert rules.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { updateAlertRule, deleteAlertRule } from '@/lib/actions/alert.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
+
+export const PUT = withAdminAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    
+    const rule = await updateAlertRule(id, body);
+    
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Failed to update alert rule' },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(rule);
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to update alert rule' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withAdminAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const success = await deleteAlertRule(id);
+    
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Failed to delete alert rule' },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete alert rule' },
+      { status: 500 }
+    );
+  }
+});
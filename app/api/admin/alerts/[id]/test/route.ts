@@ -0,0 +1,33 @@
+/**
+ * API Route to Send a Test Alert through a Rule's Webhook
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { sendTestAlert } from '@/lib/actions/alert.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
+
+export const POST = withAdminAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const result = await sendTestAlert(id);
+    
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Alert rule not found' },
+        { status: 404 }
+      );
+    }
+    
+    // The delivery is logged either way; report a failed one as a bad gateway
+    return NextResponse.json(result, { status: result.delivered ? 200 : 502 });
+  } catch (error) {
+    console.error('Error sending test alert:', error);
+    return NextResponse.json(
+      { error: 'Failed to send test alert' },
+      { status: 500 }
+    );
+  }
+});
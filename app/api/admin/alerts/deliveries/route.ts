@@ -0,0 +1,27 @@
+/**
+ * API Route for the Alert Delivery Log
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAlertDeliveries } from '@/lib/actions/alert.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
+
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '20');
+    const ruleId = searchParams.get('ruleId') || '';
+    const status = searchParams.get('status') || '';
+
+    const result = await getAlertDeliveries(page, limit, ruleId, status);
+    
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching alert deliveries:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch alert deliveries' },
+      { status: 500 }
+    );
+  }
+});
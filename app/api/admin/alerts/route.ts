@@ -0,0 +1,46 @@
+/**
+ * API Route for Alert Rule Management
+ * 
+ * This route handles HTTP requests for listing and creating alert rules.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAlertRules, createAlertRule } from '@/lib/actions/alert.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
+
+export const GET = withAdminAuth(async () => {
+  try {
+    const rules = await getAlertRules();
+    
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Error fetching alert rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch alert rules' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+    
+    const rule = await createAlertRule(body);
+    
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Failed to create alert rule' },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to create alert rule' },
+      { status: 500 }
+    );
+  }
+});
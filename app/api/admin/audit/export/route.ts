@@ -0,0 +1,66 @@
+/**
+ * API Route to Export the Audit Log as CSV
+ * 
+ * Takes the same search and filter parameters as the audit log route;
+ * every matching entry is exported, up to the export limit.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { exportAuditLogsCsv } from '@/lib/actions/audit.actions';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES, AuditAction, AuditTargetType } from '@/lib/config/audit';
+import { withAdminAuth } from '@/lib/utils/authGuard';
+
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    
+    const action = searchParams.get('action') || undefined;
+    const targetType = searchParams.get('targetType') || undefined;
+    if (
+      (action && !AUDIT_ACTIONS.includes(action as AuditAction)) ||
+      (targetType && !AUDIT_TARGET_TYPES.includes(targetType as AuditTargetType))
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid action or targetType parameter' },
+        { status: 400 }
+      );
+    }
+    
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+    const from = fromParam ? new Date(fromParam) : undefined;
+    const to = toParam ? new Date(toParam) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json(
+        { error: 'Invalid from or to parameter' },
+        { status: 400 }
+      );
+    }
+    
+    const csv = await exportAuditLogsCsv({
+      search: searchParams.get('search') || undefined,
+      action: action as AuditAction | undefined,
+      targetType: targetType as AuditTargetType | undefined,
+      targetId: searchParams.get('targetId') || undefined,
+      actorId: searchParams.get('actorId') || undefined,
+      from,
+      to
+    });
+    
+    const fileName = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+    
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting audit log:', error);
+    return NextResponse.json(
+      { error: 'Failed to export audit log' },
+      { status: 500 }
+    );
+  }
+});
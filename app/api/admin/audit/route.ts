@@ -0,0 +1,70 @@
+/**
+ * API Route for the Audit Log
+ * 
+ * Supports pagination (page, limit), a search term (search) and filtering
+ * by action, target (targetType, targetId), actor (actorId) and date
+ * range (from, to).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuditLogs } from '@/lib/actions/audit.actions';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES, AuditAction, AuditTargetType } from '@/lib/config/audit';
+import { withAdminAuth } from '@/lib/utils/authGuard';
+
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '25', 10);
+    if (isNaN(page) || page < 1 || isNaN(limit) || limit < 1 || limit > 100) {
+      return NextResponse.json(
+        { error: 'Invalid page or limit parameter' },
+        { status: 400 }
+      );
+    }
+    
+    const action = searchParams.get('action') || undefined;
+    const targetType = searchParams.get('targetType') || undefined;
+    if (
+      (action && !AUDIT_ACTIONS.includes(action as AuditAction)) ||
+      (targetType && !AUDIT_TARGET_TYPES.includes(targetType as AuditTargetType))
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid action or targetType parameter' },
+        { status: 400 }
+      );
+    }
+    
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+    const from = fromParam ? new Date(fromParam) : undefined;
+    const to = toParam ? new Date(toParam) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json(
+        { error: 'Invalid from or to parameter' },
+        { status: 400 }
+      );
+    }
+    
+    const result = await getAuditLogs({
+      page,
+      limit,
+      search: searchParams.get('search') || undefined,
+      action: action as AuditAction | undefined,
+      targetType: targetType as AuditTargetType | undefined,
+      targetId: searchParams.get('targetId') || undefined,
+      actorId: searchParams.get('actorId') || undefined,
+      from,
+      to
+    });
+    
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch audit log' },
+      { status: 500 }
+    );
+  }
+});
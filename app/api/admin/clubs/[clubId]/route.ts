@@ -0,0 +1,62 @@
+/**
+ * API Route for Individual Club Operations
+ * 
+ * This route returns a stored club with the seasons and schedulers that
+ * reference it, and deletes clubs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getClubById, getClubReferences, deleteClub } from '@/lib/actions/club.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
+
+export const GET = withAdminAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ clubId: string }> }
+) => {
+  try {
+    const { clubId } = await params;
+    const club = await getClubById(clubId);
+    
+    if (!club) {
+      return NextResponse.json(
+        { error: 'Club not found' },
+        { status: 404 }
+      );
+    }
+    
+    const references = await getClubReferences(clubId);
+    
+    return NextResponse.json({ club, ...references });
+  } catch (error) {
+    console.error('Error fetching club:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch club' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withAdminAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ clubId: string }> }
+) => {
+  try {
+    const { clubId } = await params;
+    const success = await deleteClub(clubId);
+    
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Club not found or failed to delete' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting club:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete club' },
+      { status: 500 }
+    );
+  }
+});
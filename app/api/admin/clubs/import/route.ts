@@ -0,0 +1,42 @@
+/**
+ * API Route to Import Clubs from the EA API
+ * 
+ * Imports the clubs EA finds for a name (clubName) on a platform
+ * (platform), or only the search result with the given clubId.
+ * Clubs that are already stored are updated.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { importClubFromEA } from '@/lib/actions/club.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
+
+export const POST = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+    
+    // Validate required fields
+    if (!body.clubName?.trim()) {
+      return NextResponse.json(
+        { error: 'Club name is required' },
+        { status: 400 }
+      );
+    }
+
+    const clubs = await importClubFromEA(body.clubName.trim(), body.platform || 'common-gen5', body.clubId);
+    
+    if (!clubs || clubs.length === 0) {
+      return NextResponse.json(
+        { error: 'No club was found in EA to import' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ clubs }, { status: 201 });
+  } catch (error) {
+    console.error('Error importing club from EA:', error);
+    return NextResponse.json(
+      { error: 'Failed to import club from EA' },
+      { status: 500 }
+    );
+  }
+});
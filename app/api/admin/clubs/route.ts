@@ -0,0 +1,29 @@
+/**
+ * API Route for Club Management
+ * 
+ * This route lists the clubs stored in the database, with pagination
+ * (page, limit) and a name search (search).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getClubs } from '@/lib/actions/club.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
+
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '20');
+    const search = searchParams.get('search') || '';
+
+    const result = await getClubs(page, limit, search);
+    
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching clubs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch clubs' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,35 @@
+/**
+ * API Route to Search Clubs in the EA API
+ * 
+ * Looks clubs up by name (name) on a platform (platform, default
+ * "common-gen5") without storing them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { searchClubsInEA } from '@/lib/actions/club.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
+
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const name = searchParams.get('name')?.trim();
+    const platform = searchParams.get('platform') || 'common-gen5';
+    
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Club name is required' },
+        { status: 400 }
+      );
+    }
+
+    const clubs = await searchClubsInEA(name, platform);
+    
+    return NextResponse.json({ clubs });
+  } catch (error) {
+    console.error('Error searching clubs in EA:', error);
+    return NextResponse.json(
+      { error: 'Failed to search clubs in EA' },
+      { status: 500 }
+    );
+  }
+});
@@ -7,11 +7,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getLeagueById, updateLeague, deleteLeague } from '@/lib/actions/league.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
 
-export async function GET(
+export const GET = withAdminAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const league = await getLeagueById(id);
@@ -31,12 +32,12 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+}, 'leagues:update');
 
-export async function PUT(
+export const PUT = withAdminAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const body = await request.json();
@@ -66,12 +67,12 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+}, 'leagues:update');
 
-export async function DELETE(
+export const DELETE = withAdminAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const success = await deleteLeague(id);
@@ -91,5 +92,5 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
 
@@ -6,11 +6,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { removeClubFromSeason, getSeasonById } from '@/lib/actions/league.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
 
-export async function DELETE(
+export const DELETE = withAdminAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string; seasonId: string; clubId: string }> }
-) {
+) => {
   try {
     const { id, seasonId, clubId } = await params;
     // Verify the season belongs to the league
@@ -55,5 +56,5 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+}, 'seasons:manage');
 
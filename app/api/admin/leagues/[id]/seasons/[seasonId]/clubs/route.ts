@@ -7,11 +7,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getClubsForSeason, addClubToSeason } from '@/lib/actions/league.actions';
 import { getSeasonById } from '@/lib/actions/league.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
 
-export async function GET(
+export const GET = withAdminAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string; seasonId: string }> }
-) {
+) => {
   try {
     const { id, seasonId } = await params;
     // Verify the season belongs to the league
@@ -41,12 +42,12 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+}, 'seasons:manage');
 
-export async function POST(
+export const POST = withAdminAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string; seasonId: string }> }
-) {
+) => {
   try {
     const { id, seasonId } = await params;
     const body = await request.json();
@@ -93,5 +94,5 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+}, 'seasons:manage');
 
@@ -6,11 +6,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { updateSeasonInLeague, removeSeasonFromLeague, getSeasonById } from '@/lib/actions/league.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
 
-export async function GET(
+export const GET = withAdminAuth(async (
   request: NextRequest,
   { params }: { params: { id: string; seasonId: string } }
-) {
+) => {
   try {
     const season = await getSeasonById(params.seasonId);
     
@@ -37,12 +38,12 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+}, 'seasons:manage');
 
-export async function PUT(
+export const PUT = withAdminAuth(async (
   request: NextRequest,
   { params }: { params: { id: string; seasonId: string } }
-) {
+) => {
   try {
     const body = await request.json();
     
@@ -94,12 +95,12 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+}, 'seasons:manage');
 
-export async function DELETE(
+export const DELETE = withAdminAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string; seasonId: string }> }
-) {
+) => {
   try {
     const { id, seasonId } = await params;
     const league = await removeSeasonFromLeague(id, seasonId);
@@ -119,5 +120,5 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+}, 'seasons:manage');
 
@@ -6,11 +6,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { addSeasonToLeague, getSeasonsForLeague } from '@/lib/actions/league.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
 
-export async function GET(
+export const GET = withAdminAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const seasons = await getSeasonsForLeague(id);
@@ -23,12 +24,12 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+}, 'seasons:manage');
 
-export async function POST(
+export const POST = withAdminAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const body = await request.json();
@@ -114,4 +115,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+}, 'seasons:manage');
@@ -7,8 +7,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getLeagues, createLeague } from '@/lib/actions/league.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
 
-export async function GET(request: NextRequest) {
+export const GET = withAdminAuth(async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
@@ -29,9 +30,9 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, 'leagues:update');
 
-export async function POST(request: NextRequest) {
+export const POST = withAdminAuth(async (request: NextRequest) => {
   try {
     const body = await request.json();
     
@@ -50,13 +51,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!body.createdBy) {
-      return NextResponse.json(
-        { error: 'CreatedBy (admin user ID) is required' },
-        { status: 400 }
-      );
-    }
-    
     const league = await createLeague(body);
     
     if (!league) {
@@ -74,5 +68,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -0,0 +1,53 @@
+/**
+ * API Route for Match Management
+ *
+ * This route lists stored matches, newest first, with pagination (page,
+ * limit) and filtering by club (clubId), season (seasonId), match type
+ * (matchType) and date range (from, to).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMatches } from '@/lib/actions/match.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
+
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+    if (isNaN(page) || page < 1 || isNaN(limit) || limit < 1 || limit > 100) {
+      return NextResponse.json(
+        { error: 'Invalid page or limit parameter' },
+        { status: 400 }
+      );
+    }
+
+    const from = searchParams.get('from') || '';
+    const to = searchParams.get('to') || '';
+    if ((from && isNaN(new Date(from).getTime())) || (to && isNaN(new Date(to).getTime()))) {
+      return NextResponse.json(
+        { error: 'Invalid from or to parameter' },
+        { status: 400 }
+      );
+    }
+
+    const result = await getMatches(
+      page,
+      limit,
+      searchParams.get('clubId') || '',
+      from,
+      to,
+      searchParams.get('seasonId') || '',
+      searchParams.get('matchType') || ''
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching matches:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch matches' },
+      { status: 500 }
+    );
+  }
+});
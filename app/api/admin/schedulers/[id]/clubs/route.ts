@@ -0,0 +1,38 @@
+/**
+ * API Route to Get the Clubs a Scheduler Collects For
+ * 
+ * Resolves the scheduler's own clubs together with the clubs of the
+ * seasons and leagues it targets, as the next run will see them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSchedulerById } from '@/lib/actions/scheduler.actions';
+import { resolveSchedulerClubs } from '@/lib/services/schedulerRunService';
+import { withAdminAuth } from '@/lib/utils/authGuard';
+
+export const GET = withAdminAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    
+    // Clubs are resolved without a permission check (the worker resolves them too), so check access first
+    const result = await getSchedulerById(id) ? await resolveSchedulerClubs(id) : null;
+    
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Scheduler not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error resolving scheduler clubs:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve scheduler clubs' },
+      { status: 500 }
+    );
+  }
+}, 'schedulers:view');
@@ -0,0 +1,90 @@
+/**
+ * API Route to Stream Scheduler Run Events
+ *
+ * Streams the scheduler's lifecycle events (queued, club started, club
+ * finished, completed, failed) to the admin UI as server-sent events.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { subscribeToSchedulerEvents, ISchedulerEvent } from '@/lib/services/schedulerEvents';
+import { getSchedulerById } from '@/lib/actions/scheduler.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
+
+// Interval of the comment lines that keep idle connections open through proxies
+const KEEP_ALIVE_MS = 15 * 1000;
+
+export const GET = withAdminAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params;
+  
+  // Only stream schedulers the user may view
+  if (!(await getSchedulerById(id))) {
+    return NextResponse.json(
+      { error: 'Scheduler not found' },
+      { status: 404 }
+    );
+  }
+  
+  const encoder = new TextEncoder();
+
+  let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  let keepAlive: ReturnType<typeof setInterval> | null = null;
+  let unsubscribe: (() => Promise<void>) | null = null;
+  let closed = false;
+
+  const write = (chunk: string) => {
+    if (closed || !controller) return;
+    try {
+      controller.enqueue(encoder.encode(chunk));
+    } catch {
+      close();
+    }
+  };
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    if (keepAlive) clearInterval(keepAlive);
+    unsubscribe?.();
+    try {
+      controller?.close();
+    } catch {
+      // The stream was already closed by the client
+    }
+  };
+
+  try {
+    unsubscribe = await subscribeToSchedulerEvents(id, (event: ISchedulerEvent) => {
+      write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+  } catch (error) {
+    console.error('Error subscribing to scheduler events:', error);
+    return NextResponse.json(
+      { error: 'Failed to stream scheduler events' },
+      { status: 500 }
+    );
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController;
+      write(': connected\n\n');
+      keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+    },
+    cancel() {
+      close();
+    }
+  });
+
+  request.signal.addEventListener('abort', close);
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}, 'schedulers:view');
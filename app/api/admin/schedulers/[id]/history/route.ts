@@ -1,29 +1,62 @@
 /**
  * API Route to Get Scheduler Execution History
+ * 
+ * Supports pagination (page, limit) and filtering by run status,
+ * by a club included in the run (clubId) and by date range (from, to).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getSchedulerExecutionHistory } from '@/lib/actions/scheduler.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
 
-export async function GET(
+const runStatuses = ['success', 'error', 'partial'] as const;
+
+export const GET = withAdminAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const { searchParams } = new URL(request.url);
-    const limitParam = searchParams.get('limit');
-    const limit = limitParam ? parseInt(limitParam, 10) : 50;
-    if (isNaN(limit) || limit < 1) {
+    
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+    if (isNaN(page) || page < 1 || isNaN(limit) || limit < 1 || limit > 100) {
+      return NextResponse.json(
+        { error: 'Invalid page or limit parameter' },
+        { status: 400 }
+      );
+    }
+    
+    const status = searchParams.get('status') || undefined;
+    if (status && !runStatuses.includes(status as typeof runStatuses[number])) {
+      return NextResponse.json(
+        { error: 'Invalid status parameter' },
+        { status: 400 }
+      );
+    }
+    
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+    const from = fromParam ? new Date(fromParam) : undefined;
+    const to = toParam ? new Date(toParam) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
       return NextResponse.json(
-        { error: 'Invalid limit parameter' },
+        { error: 'Invalid from or to parameter' },
         { status: 400 }
       );
     }
     
-    const history = await getSchedulerExecutionHistory(id, limit);
+    const result = await getSchedulerExecutionHistory(id, {
+      page,
+      limit,
+      status: status as typeof runStatuses[number] | undefined,
+      clubId: searchParams.get('clubId') || undefined,
+      from,
+      to
+    });
     
-    return NextResponse.json({ history });
+    return NextResponse.json(result);
   } catch (error) {
     console.error('Error fetching scheduler history:', error);
     return NextResponse.json(
@@ -31,4 +64,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, 'schedulers:view');
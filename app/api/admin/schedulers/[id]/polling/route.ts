@@ -0,0 +1,35 @@
+/**
+ * API Route to Get a Scheduler's Polling Plan
+ * 
+ * Returns how often each club of the scheduler is polled, based on its
+ * recent match activity and the request budget shared by all schedulers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSchedulerPollPlan } from '@/lib/actions/scheduler.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
+
+export const GET = withAdminAuth(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const plan = await getSchedulerPollPlan(id);
+    
+    if (!plan) {
+      return NextResponse.json(
+        { error: 'Scheduler not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(plan);
+  } catch (error) {
+    console.error('Error fetching scheduler polling plan:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch scheduler polling plan' },
+      { status: 500 }
+    );
+  }
+}, 'schedulers:view');
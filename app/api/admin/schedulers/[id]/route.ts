@@ -8,11 +8,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSchedulerById, updateScheduler, deleteScheduler } from '@/lib/actions/scheduler.actions';
 import { startScheduler, stopScheduler, runSchedulerManually } from '@/lib/actions/scheduler.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
 
-export async function GET(
+export const GET = withAdminAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const scheduler = await getSchedulerById(id);
@@ -32,12 +33,12 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+}, 'schedulers:view');
 
-export async function PUT(
+export const PUT = withAdminAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const body = await request.json();
@@ -59,12 +60,12 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+}, 'schedulers:manage');
 
-export async function DELETE(
+export const DELETE = withAdminAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const success = await deleteScheduler(id);
@@ -84,4 +85,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, 'schedulers:manage');
\ No newline at end of file
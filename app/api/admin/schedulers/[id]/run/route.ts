@@ -4,11 +4,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { runSchedulerManually } from '@/lib/actions/scheduler.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
 
-export async function POST(
+export const POST = withAdminAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const result = await runSchedulerManually(id);
@@ -20,7 +21,15 @@ export async function POST(
       );
     }
     
-    return NextResponse.json(result);
+    if ('alreadyRunning' in result) {
+      return NextResponse.json(
+        { error: 'Scheduler is already running', alreadyRunning: true },
+        { status: 409 }
+      );
+    }
+    
+    // The run is processed by the scheduler worker
+    return NextResponse.json(result, { status: 202 });
   } catch (error) {
     console.error('Error running scheduler:', error);
     return NextResponse.json(
@@ -28,4 +37,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, 'schedulers:run');
\ No newline at end of file
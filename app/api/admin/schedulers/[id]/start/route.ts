@@ -4,11 +4,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { startScheduler } from '@/lib/actions/scheduler.actions';
+import { withAdminAuth } from '@/lib/utils/authGuard';
 
-export async function POST(
+export const POST = withAdminAuth(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const scheduler = await startScheduler(id);
@@ -28,4 +29,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}, 'schedulers:manage');
\ No newline at end of file
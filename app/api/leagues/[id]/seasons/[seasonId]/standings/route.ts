@@ -0,0 +1,44 @@
+/**
+ * API Route for Season Standings
+ * 
+ * This public route returns the standings table for a season,
+ * computed from the matches played between the season's clubs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSeasonById, getSeasonStandings } from '@/lib/actions/league.actions';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; seasonId: string }> }
+) {
+  try {
+    const { id, seasonId } = await params;
+    const season = await getSeasonById(seasonId);
+    
+    if (!season) {
+      return NextResponse.json(
+        { error: 'Season not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify the season belongs to the league
+    if (season.leagueId !== id) {
+      return NextResponse.json(
+        { error: 'Season does not belong to this league' },
+        { status: 400 }
+      );
+    }
+
+    const standings = await getSeasonStandings(seasonId);
+    
+    return NextResponse.json({ standings });
+  } catch (error) {
+    console.error('Error fetching season standings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch season standings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * API Route for the EA API Stand-in
+ * 
+ * This route serves the local EA API stand-in over HTTP so processes without
+ * network access can be pointed at it with EA_API_BASE_URL, e.g.
+ * http://localhost:3000/api/mock/ea. It is disabled in production unless
+ * EA_API_MOCK=true.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isEaApiMockServed, mockEaFetch } from '@/lib/mocks/eaApi/eaApiMock';
+
+export async function GET(request: NextRequest) {
+  if (!isEaApiMockServed()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  return mockEaFetch(request.url, { signal: request.signal });
+}
@@ -0,0 +1,78 @@
+/**
+ * API Route for EA API Stand-in Configuration
+ * 
+ * This route reads and changes how the EA API stand-in behaves (latency, 429s,
+ * outages, malformed and invalid payloads, new match frequency), so failure
+ * scenarios can be switched on while a scheduler is running. The options are
+ * shared through Redis, so the scheduler worker picks them up as well.
+ * DELETE restores the environment defaults. Only admins may change them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  configureEaApiMock,
+  getEaApiMockOptions,
+  isEaApiMockServed,
+  resetEaApiMock,
+  IEaApiMockOptions
+} from '@/lib/mocks/eaApi/eaApiMock';
+import { withAdminAuth } from '@/lib/utils/authGuard';
+
+const OPTION_KEYS: (keyof IEaApiMockOptions)[] = [
+  'latencyMs',
+  'rateLimitRate',
+  'retryAfterSeconds',
+  'serverErrorRate',
+  'malformedRate',
+  'invalidRate',
+  'newMatchIntervalSeconds'
+];
+
+export async function GET() {
+  if (!isEaApiMockServed()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(await getEaApiMockOptions());
+}
+
+export const POST = withAdminAuth(async (request: NextRequest) => {
+  if (!isEaApiMockServed()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const body = await request.json();
+    const options: Partial<IEaApiMockOptions> = {};
+
+    for (const key of OPTION_KEYS) {
+      if (body[key] === undefined) continue;
+
+      const value = Number(body[key]);
+      if (!Number.isFinite(value) || value < 0) {
+        return NextResponse.json(
+          { error: `${key} must be a non-negative number` },
+          { status: 400 }
+        );
+      }
+
+      options[key] = value;
+    }
+
+    return NextResponse.json(await configureEaApiMock(options));
+  } catch (error) {
+    console.error('Error configuring EA API stand-in:', error);
+    return NextResponse.json(
+      { error: 'Failed to configure EA API stand-in' },
+      { status: 400 }
+    );
+  }
+});
+
+export const DELETE = withAdminAuth(async () => {
+  if (!isEaApiMockServed()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(await resetEaApiMock());
+});
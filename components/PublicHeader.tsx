@@ -0,0 +1,30 @@
+import Link from "next/link"
+import BaseHeader from "@/components/shared/BaseHeader"
+import { Button } from "@/components/ui/button"
+
+/**
+ * Public header component
+ * Used by unauthenticated pages such as leagues and standings
+ */
+const PublicHeader = () => {
+  return (
+    <BaseHeader>
+      <Link href="/" className="flex items-center">
+        <h1 className="text-xl font-bold text-white">XBLADE</h1>
+      </Link>
+      <nav className="flex items-center gap-4">
+        <Link href="/leagues/view" className="text-sm text-slate-300 hover:text-white">
+          Leagues
+        </Link>
+        <Link href="/matches" className="text-sm text-slate-300 hover:text-white">
+          Matches
+        </Link>
+        <Link href="/sign-in">
+          <Button variant="default" size="sm">Sign In</Button>
+        </Link>
+      </nav>
+    </BaseHeader>
+  )
+}
+
+export default PublicHeader
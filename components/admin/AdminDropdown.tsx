@@ -10,7 +10,7 @@ import {
 } from "@/components/ui/dropdown-menu"
 import { signOut } from "@/lib/actions/auth.actions"
 import { useRouter, usePathname } from "next/navigation"
-import { LogOut, Users, Settings, Shield } from "lucide-react"
+import { LogOut, Users, Settings, Shield, Bell, History, Shirt, ListOrdered } from "lucide-react"
 import { useState } from "react"
 import Link from "next/link"
 
@@ -95,6 +95,34 @@ const AdminDropdown = ({ children }: AdminDropdownProps) => {
             <span>League Management</span>
           </Link>
         </DropdownMenuItem>
+
+        <DropdownMenuItem asChild className="cursor-pointer">
+          <Link href="/admin/clubs">
+            <Shirt className="mr-2 h-4 w-4" />
+            <span>Club Management</span>
+          </Link>
+        </DropdownMenuItem>
+
+        <DropdownMenuItem asChild className="cursor-pointer">
+          <Link href="/admin/matches">
+            <ListOrdered className="mr-2 h-4 w-4" />
+            <span>Matches</span>
+          </Link>
+        </DropdownMenuItem>
+
+        <DropdownMenuItem asChild className="cursor-pointer">
+          <Link href="/admin/alerts">
+            <Bell className="mr-2 h-4 w-4" />
+            <span>Scheduler Alerts</span>
+          </Link>
+        </DropdownMenuItem>
+
+        <DropdownMenuItem asChild className="cursor-pointer">
+          <Link href="/admin/audit">
+            <History className="mr-2 h-4 w-4" />
+            <span>Audit Log</span>
+          </Link>
+        </DropdownMenuItem>
         
         <DropdownMenuSeparator />
         
@@ -0,0 +1,165 @@
+/**
+ * Alert Delivery Log Component
+ *
+ * This component lists the webhook deliveries made for alert rules,
+ * newest first, with their status, attempts and last response.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RefreshCw } from 'lucide-react';
+import { IAlertDelivery, AlertDeliveryStatus } from '@/lib/models/alertDelivery.model';
+
+interface AlertDeliveryLogProps {
+  refreshKey?: number; // Changing it reloads the log (e.g. after a test alert)
+}
+
+// Number of deliveries per page
+const PAGE_SIZE = 20;
+
+const statusVariants: Record<AlertDeliveryStatus, 'default' | 'secondary' | 'destructive'> = {
+  delivered: 'default',
+  pending: 'secondary',
+  failed: 'destructive',
+};
+
+export function AlertDeliveryLog({ refreshKey = 0 }: AlertDeliveryLogProps) {
+  const [deliveries, setDeliveries] = useState<IAlertDelivery[]>([]);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(0);
+  const [status, setStatus] = useState('all');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchDeliveries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ page: page.toString(), limit: PAGE_SIZE.toString() });
+      if (status !== 'all') {
+        params.set('status', status);
+      }
+
+      const response = await fetch(`/api/admin/alerts/deliveries?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setDeliveries(data.deliveries || []);
+        setPages(data.pagination?.pages || 0);
+      }
+    } catch (error) {
+      console.error('Failed to fetch alert deliveries:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, status]);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries, refreshKey]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Delivery Log</CardTitle>
+          <CardDescription>
+            Webhook deliveries of every alert, newest first
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              <SelectItem value="delivered">Delivered</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={fetchDeliveries} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {deliveries.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            No alerts have been delivered yet
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="h-12 px-4 text-left align-middle font-medium">Sent</th>
+                  <th className="h-12 px-4 text-left align-middle font-medium">Rule</th>
+                  <th className="h-12 px-4 text-left align-middle font-medium">Message</th>
+                  <th className="h-12 px-4 text-left align-middle font-medium">Status</th>
+                  <th className="h-12 px-4 text-left align-middle font-medium">Attempts</th>
+                  <th className="h-12 px-4 text-left align-middle font-medium">Response</th>
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map((delivery) => (
+                  <tr
+                    key={delivery._id?.toString()}
+                    className="border-b transition-colors hover:bg-muted/50"
+                  >
+                    <td className="p-4 align-middle text-sm text-muted-foreground whitespace-nowrap">
+                      {new Date(delivery.createdAt).toLocaleString()}
+                    </td>
+                    <td className="p-4 align-middle text-sm font-medium">{delivery.ruleName}</td>
+                    <td className="p-4 align-middle text-sm">{delivery.message}</td>
+                    <td className="p-4 align-middle">
+                      <Badge variant={statusVariants[delivery.status]}>{delivery.status}</Badge>
+                    </td>
+                    <td className="p-4 align-middle text-sm">{delivery.attempts}</td>
+                    <td className="p-4 align-middle text-sm text-muted-foreground">
+                      {delivery.responseStatus && <div>HTTP {delivery.responseStatus}</div>}
+                      {delivery.lastError && <div className="text-red-600">{delivery.lastError}</div>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {pages > 1 && (
+          <div className="flex items-center justify-end gap-2 pt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1 || isLoading}
+            >
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {page} of {pages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pages || isLoading}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,314 @@
+/**
+ * Alert Management Client Component
+ *
+ * This component is the main orchestrator for the alerting UI. It lets
+ * admins create, edit, test and delete alert rules, and shows the log
+ * of webhook deliveries.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Plus, Send, Settings, Trash2, Copy } from 'lucide-react';
+import { AlertRuleForm, alertRuleTypes } from '@/components/admin/alert-management/components/AlertRuleForm';
+import { AlertDeliveryLog } from '@/components/admin/alert-management/components/AlertDeliveryLog';
+import { IAlertRule } from '@/lib/models/alertRule.model';
+
+interface AlertManagementClientProps {
+  initialRules?: IAlertRule[];
+}
+
+export function AlertManagementClient({ initialRules = [] }: AlertManagementClientProps) {
+  const [rules, setRules] = useState<IAlertRule[]>(initialRules);
+  const [editingRule, setEditingRule] = useState<IAlertRule | null>(null);
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [deliveryRefreshKey, setDeliveryRefreshKey] = useState(0);
+
+  // Fetch rules on component mount
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch('/api/admin/alerts');
+      if (!response.ok) {
+        throw new Error('Failed to fetch alert rules');
+      }
+
+      const data = await response.json();
+      setRules(data.rules || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleCreateRule = async (ruleData: Partial<IAlertRule>) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/alerts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(ruleData),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to create alert rule');
+      }
+
+      const newRule = await response.json();
+      setRules(prev => [newRule, ...prev]);
+      setIsCreateDialogOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUpdateRule = async (ruleId: string, updateData: Partial<IAlertRule>) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/alerts/${ruleId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updateData),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update alert rule');
+      }
+
+      const updatedRule = await response.json();
+      setRules(prev => prev.map(r => (r._id?.toString() || '') === ruleId ? updatedRule : r));
+      setEditingRule(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteRule = async (ruleId: string) => {
+    if (!confirm('Are you sure you want to delete this alert rule?')) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/alerts/${ruleId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete alert rule');
+      }
+
+      setRules(prev => prev.filter(r => (r._id?.toString() || '') !== ruleId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTestRule = async (ruleId: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/alerts/${ruleId}/test`, {
+        method: 'POST',
+      });
+
+      if (response.status === 404) {
+        throw new Error('Alert rule not found');
+      }
+
+      const result = await response.json();
+      alert(result.delivered
+        ? `Test alert delivered after ${result.attempts} attempt(s).`
+        : `Test alert failed after ${result.attempts} attempt(s): ${result.error}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+      setDeliveryRefreshKey(key => key + 1);
+    }
+  };
+
+  const handleCopySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      alert('Signing secret copied to the clipboard.');
+    } catch (err) {
+      console.error('Failed to copy secret:', err);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Scheduler Alerts</h1>
+          <p className="text-muted-foreground">
+            Get notified through webhooks when data collection needs attention
+          </p>
+        </div>
+
+        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="w-4 h-4 mr-2" />
+              Create Rule
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Create Alert Rule</DialogTitle>
+              <DialogDescription>
+                Choose a condition and the webhook to notify
+              </DialogDescription>
+            </DialogHeader>
+            <AlertRuleForm
+              onSubmit={handleCreateRule}
+              onCancel={() => setIsCreateDialogOpen(false)}
+              isLoading={isLoading}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-destructive/15 text-destructive p-4 rounded-md">
+          <p className="font-medium">Error:</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      {/* Alert Rules */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Alert Rules</CardTitle>
+          <CardDescription>
+            Each rule delivers at most one alert per cooldown
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rules.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">
+              No alert rules yet
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {rules.map((rule) => {
+                const ruleId = rule._id?.toString() || '';
+                return (
+                  <div key={ruleId} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{rule.name}</span>
+                        <Badge variant={rule.isActive ? 'default' : 'secondary'}>
+                          {rule.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                        <Badge variant="outline">{rule.format === 'discord' ? 'Discord' : 'JSON'}</Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {alertRuleTypes.find(type => type.value === rule.type)?.label}
+                        {rule.type === 'consecutive-failures' && ` (${rule.threshold} runs)`}
+                        {' • '}
+                        {rule.schedulerIds.length > 0 ? `${rule.schedulerIds.length} schedulers` : 'All schedulers'}
+                        {' • '}
+                        {rule.cooldownMinutes} min cooldown
+                      </p>
+                      <p className="text-xs text-muted-foreground break-all">{rule.webhookUrl}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Last triggered: {rule.lastTriggeredAt ? new Date(rule.lastTriggeredAt).toLocaleString() : 'Never'}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleCopySecret(rule.secret)}
+                        title="Copy signing secret"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleTestRule(ruleId)}
+                        disabled={isLoading}
+                        title="Send test alert"
+                      >
+                        <Send className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setEditingRule(rule)}
+                        disabled={isLoading}
+                      >
+                        <Settings className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDeleteRule(ruleId)}
+                        disabled={isLoading}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Delivery Log */}
+      <AlertDeliveryLog refreshKey={deliveryRefreshKey} />
+
+      {/* Edit Dialog */}
+      <Dialog open={!!editingRule} onOpenChange={(open) => !open && setEditingRule(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Alert Rule</DialogTitle>
+            <DialogDescription>
+              Update the alert condition and delivery
+            </DialogDescription>
+          </DialogHeader>
+          {editingRule && (
+            <AlertRuleForm
+              rule={editingRule}
+              onSubmit={(data) => handleUpdateRule(editingRule._id?.toString() || '', data)}
+              onCancel={() => setEditingRule(null)}
+              isLoading={isLoading}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,368 @@
+/**
+ * Alert Rule Form Component
+ *
+ * This component provides a form for creating and editing alert rules.
+ * It includes fields for the alert condition, the watched schedulers
+ * and the webhook the alert is delivered to.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { IAlertRule, AlertRuleType, AlertWebhookFormat } from '@/lib/models/alertRule.model';
+import { IScheduler } from '@/lib/models/scheduler.model';
+
+// Form data type
+type AlertRuleFormData = {
+  name: string;
+  type: AlertRuleType;
+  isActive: boolean;
+  schedulerIds: string[];
+  threshold: number;
+  webhookUrl: string;
+  format: AlertWebhookFormat;
+  secret: string;
+  cooldownMinutes: number;
+};
+
+interface AlertRuleFormProps {
+  rule?: IAlertRule;
+  onSubmit: (data: AlertRuleFormData) => void;
+  onCancel: () => void;
+  isLoading?: boolean;
+}
+
+export const alertRuleTypes: { value: AlertRuleType; label: string; description: string }[] = [
+  {
+    value: 'consecutive-failures',
+    label: 'Consecutive failures',
+    description: 'A scheduler fails a number of runs in a row',
+  },
+  {
+    value: 'zero-matches',
+    label: 'No matches in window',
+    description: 'A scheduler window ends without any new match',
+  },
+  {
+    value: 'cron-stopped',
+    label: 'Cron stopped',
+    description: 'The scheduler cron stops itself after repeated errors',
+  },
+  {
+    value: 'redis-unhealthy',
+    label: 'Redis unhealthy',
+    description: 'A scheduler worker can\'t reach Redis',
+  },
+];
+
+const webhookFormats = [
+  { value: 'json', label: 'Signed JSON' },
+  { value: 'discord', label: 'Discord' },
+];
+
+// Rule types that are raised for a specific scheduler
+const schedulerRuleTypes: AlertRuleType[] = ['consecutive-failures', 'zero-matches'];
+
+export function AlertRuleForm({ rule, onSubmit, onCancel, isLoading = false }: AlertRuleFormProps) {
+  const [schedulers, setSchedulers] = useState<IScheduler[]>([]);
+
+  const form = useForm<AlertRuleFormData>({
+    defaultValues: rule ? {
+      name: rule.name,
+      type: rule.type,
+      isActive: rule.isActive,
+      schedulerIds: rule.schedulerIds || [],
+      threshold: rule.threshold,
+      webhookUrl: rule.webhookUrl,
+      format: rule.format,
+      secret: '',
+      cooldownMinutes: rule.cooldownMinutes,
+    } : {
+      name: '',
+      type: 'consecutive-failures',
+      isActive: true,
+      schedulerIds: [],
+      threshold: 3,
+      webhookUrl: '',
+      format: 'json',
+      secret: '',
+      cooldownMinutes: 60,
+    },
+  });
+
+  useEffect(() => {
+    fetchSchedulers();
+  }, []);
+
+  const fetchSchedulers = async () => {
+    try {
+      const response = await fetch('/api/admin/schedulers?limit=100');
+      if (response.ok) {
+        const data = await response.json();
+        setSchedulers(data.schedulers || []);
+      }
+    } catch (error) {
+      console.error('Failed to fetch schedulers:', error);
+    }
+  };
+
+  const ruleType = form.watch('type');
+  const selectedSchedulers = form.watch('schedulerIds');
+
+  const handleSchedulerToggle = (schedulerId: string) => {
+    form.setValue(
+      'schedulerIds',
+      selectedSchedulers.includes(schedulerId)
+        ? selectedSchedulers.filter(id => id !== schedulerId)
+        : [...selectedSchedulers, schedulerId]
+    );
+  };
+
+  const handleSubmit = (data: AlertRuleFormData) => {
+    onSubmit({
+      ...data,
+      schedulerIds: schedulerRuleTypes.includes(data.type) ? data.schedulerIds : [],
+      threshold: Number(data.threshold),
+      cooldownMinutes: Number(data.cooldownMinutes),
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+        {/* Condition */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Condition</CardTitle>
+            <CardDescription>
+              Choose when this alert is raised
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              rules={{ required: 'Name is required' }}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rule Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Enter rule name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Alert When</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select condition" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {alertRuleTypes.map((type) => (
+                          <SelectItem key={type.value} value={type.value}>
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      {alertRuleTypes.find(type => type.value === field.value)?.description}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {ruleType === 'consecutive-failures' && (
+                <FormField
+                  control={form.control}
+                  name="threshold"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Failed Runs</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Number of failed runs in a row
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel>Active</FormLabel>
+                    <FormDescription>
+                      Deliver this alert when its condition is met
+                    </FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            {schedulerRuleTypes.includes(ruleType) && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Schedulers</p>
+                <p className="text-sm text-muted-foreground">
+                  {selectedSchedulers.length === 0
+                    ? 'Watching all schedulers'
+                    : `Watching ${selectedSchedulers.length} schedulers`}
+                </p>
+                <div className="max-h-40 overflow-y-auto space-y-2 border rounded-md p-2">
+                  {schedulers.map((scheduler) => {
+                    const schedulerId = scheduler._id?.toString() || '';
+                    return (
+                      <div key={schedulerId} className="flex items-center space-x-2 p-1">
+                        <Checkbox
+                          checked={selectedSchedulers.includes(schedulerId)}
+                          onCheckedChange={() => handleSchedulerToggle(schedulerId)}
+                        />
+                        <span className="text-sm">{scheduler.name}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Delivery */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Delivery</CardTitle>
+            <CardDescription>
+              Configure the webhook the alert is sent to
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="webhookUrl"
+              rules={{ required: 'Webhook URL is required' }}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Webhook URL</FormLabel>
+                  <FormControl>
+                    <Input type="url" placeholder="https://example.com/webhooks/alerts" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="format"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Format</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select format" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {webhookFormats.map((format) => (
+                          <SelectItem key={format.value} value={format.value}>
+                            {format.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="cooldownMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cooldown (minutes)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Minimum time between two alerts
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="secret"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Signing Secret</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder={rule ? 'Leave empty to keep the current secret' : 'Leave empty to generate one'}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Deliveries carry an HMAC-SHA256 signature of the timestamp and body
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Form Actions */}
+        <div className="flex justify-end space-x-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isLoading}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? 'Saving...' : rule ? 'Update Rule' : 'Create Rule'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,332 @@
+/**
+ * Audit Log Client Component
+ *
+ * This component lists the audit log, newest first. Admins can search by
+ * actor or target, filter by action, target type and date range, expand
+ * an entry to see its field changes and request metadata, and download
+ * the filtered log as CSV.
+ */
+
+'use client';
+
+import { Fragment, useState, useEffect, useCallback, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronDown, ChevronRight, Download, RefreshCw } from 'lucide-react';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES, AuditAction } from '@/lib/config/audit';
+import { IAuditLog } from '@/lib/models/auditLog.model';
+
+interface AuditLogClientProps {
+  initialEntries?: IAuditLog[];
+  initialPages?: number;
+}
+
+// Number of entries per page
+const PAGE_SIZE = 25;
+
+const actionVariants: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  create: 'default',
+  update: 'secondary',
+  delete: 'destructive',
+};
+
+// Helper function to pick the badge of an action from its verb (e.g. "league.delete")
+const getActionVariant = (action: AuditAction) => actionVariants[action.split('.')[1]] || 'outline';
+
+// Helper function to show a changed value
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+export function AuditLogClient({ initialEntries = [], initialPages = 0 }: AuditLogClientProps) {
+  const [entries, setEntries] = useState<IAuditLog[]>(initialEntries);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(initialPages);
+  const [search, setSearch] = useState('');
+  const [action, setAction] = useState('all');
+  const [targetType, setTargetType] = useState('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const isFirstLoad = useRef(true);
+
+  // Filters shared by the list and the CSV export
+  const buildFilterParams = useCallback(() => {
+    const params = new URLSearchParams();
+    if (search.trim()) params.set('search', search.trim());
+    if (action !== 'all') params.set('action', action);
+    if (targetType !== 'all') params.set('targetType', targetType);
+    // Date inputs are whole days in local time; "to" includes the whole day
+    if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString());
+    if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+    return params;
+  }, [search, action, targetType, from, to]);
+
+  const fetchEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = buildFilterParams();
+      params.set('page', page.toString());
+      params.set('limit', PAGE_SIZE.toString());
+
+      const response = await fetch(`/api/admin/audit?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setEntries(data.entries || []);
+        setPages(data.pagination?.pages || 0);
+      }
+    } catch (error) {
+      console.error('Failed to fetch audit log:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [buildFilterParams, page]);
+
+  // The first page comes from the server; later changes of page or filters reload it
+  useEffect(() => {
+    if (isFirstLoad.current) {
+      isFirstLoad.current = false;
+      return;
+    }
+
+    const timeout = setTimeout(fetchEntries, 300);
+    return () => clearTimeout(timeout);
+  }, [fetchEntries]);
+
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const handleExport = () => {
+    window.location.href = `/api/admin/audit/export?${buildFilterParams()}`;
+  };
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Audit Log</h1>
+          <p className="text-muted-foreground">
+            Every change made to leagues, seasons, schedulers, clubs and users
+          </p>
+        </div>
+
+        <Button variant="outline" onClick={handleExport}>
+          <Download className="w-4 h-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="audit-search">Search</Label>
+              <Input
+                id="audit-search"
+                placeholder="Actor, target name or ID"
+                value={search}
+                onChange={(e) => updateFilter(setSearch)(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select value={action} onValueChange={updateFilter(setAction)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  {AUDIT_ACTIONS.map((value) => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Target</Label>
+              <Select value={targetType} onValueChange={updateFilter(setTargetType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All targets</SelectItem>
+                  {AUDIT_TARGET_TYPES.map((value) => (
+                    <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="audit-from">From</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={from}
+                  onChange={(e) => updateFilter(setFrom)(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-to">To</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={to}
+                  onChange={(e) => updateFilter(setTo)(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Entries</CardTitle>
+            <CardDescription>
+              Newest first; entries are never changed or removed
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchEntries} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">
+              No audit entries match these filters
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="h-12 px-4 text-left align-middle font-medium w-8"></th>
+                    <th className="h-12 px-4 text-left align-middle font-medium">Time</th>
+                    <th className="h-12 px-4 text-left align-middle font-medium">Actor</th>
+                    <th className="h-12 px-4 text-left align-middle font-medium">Action</th>
+                    <th className="h-12 px-4 text-left align-middle font-medium">Target</th>
+                    <th className="h-12 px-4 text-left align-middle font-medium">Changes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map((entry) => {
+                    const entryId = entry._id?.toString() || '';
+                    const isExpanded = expandedId === entryId;
+                    return (
+                      <Fragment key={entryId}>
+                        <tr
+                          className="border-b transition-colors hover:bg-muted/50 cursor-pointer"
+                          onClick={() => setExpandedId(isExpanded ? null : entryId)}
+                        >
+                          <td className="p-4 align-middle">
+                            {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                          </td>
+                          <td className="p-4 align-middle text-sm text-muted-foreground whitespace-nowrap">
+                            {new Date(entry.createdAt).toLocaleString()}
+                          </td>
+                          <td className="p-4 align-middle text-sm">
+                            <div className="font-medium">{entry.actor.name || entry.actor.email}</div>
+                            <div className="text-muted-foreground">{entry.actor.email} · {entry.actor.role}</div>
+                          </td>
+                          <td className="p-4 align-middle">
+                            <Badge variant={getActionVariant(entry.action)}>{entry.action}</Badge>
+                          </td>
+                          <td className="p-4 align-middle text-sm">
+                            <div className="font-medium">{entry.targetName || entry.targetId}</div>
+                            <div className="text-muted-foreground capitalize">{entry.targetType}</div>
+                          </td>
+                          <td className="p-4 align-middle text-sm text-muted-foreground">
+                            {entry.changes.length > 0
+                              ? entry.changes.slice(0, 3).map((change) => change.field).join(', ') +
+                                (entry.changes.length > 3 ? ` +${entry.changes.length - 3} more` : '')
+                              : '—'}
+                          </td>
+                        </tr>
+                        {isExpanded && (
+                          <tr className="border-b bg-muted/30">
+                            <td></td>
+                            <td colSpan={5} className="p-4 space-y-4">
+                              {entry.changes.length > 0 && (
+                                <table className="w-full text-sm">
+                                  <thead>
+                                    <tr className="text-muted-foreground">
+                                      <th className="text-left font-medium pb-2">Field</th>
+                                      <th className="text-left font-medium pb-2">Before</th>
+                                      <th className="text-left font-medium pb-2">After</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {entry.changes.map((change) => (
+                                      <tr key={change.field} className="align-top">
+                                        <td className="pr-4 py-1 font-mono">{change.field}</td>
+                                        <td className="pr-4 py-1 font-mono text-red-600 break-all">{formatValue(change.before)}</td>
+                                        <td className="py-1 font-mono text-green-600 break-all">{formatValue(change.after)}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              )}
+                              {entry.details && (
+                                <div className="text-sm">
+                                  <span className="font-medium">Details: </span>
+                                  <span className="font-mono break-all">{JSON.stringify(entry.details)}</span>
+                                </div>
+                              )}
+                              <div className="text-sm text-muted-foreground space-y-1">
+                                <div>Target ID: <span className="font-mono">{entry.targetId}</span></div>
+                                {entry.metadata?.ip && <div>IP: {entry.metadata.ip}</div>}
+                                {entry.metadata?.userAgent && <div>User agent: {entry.metadata.userAgent}</div>}
+                                {entry.metadata?.referer && <div>Page: {entry.metadata.referer}</div>}
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {pages > 1 && (
+            <div className="flex items-center justify-end gap-2 pt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1 || isLoading}
+              >
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page} of {pages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pages || isLoading}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
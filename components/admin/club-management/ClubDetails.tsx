@@ -0,0 +1,357 @@
+/**
+ * Club Details Component
+ *
+ * This component shows a club's record: the details EA reports for it,
+ * the stats and recent results of its stored matches, and the seasons
+ * and schedulers that reference it. Admins can refresh the club from EA
+ * or delete it.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { RefreshCw, Trash2 } from 'lucide-react';
+import { getMatchOutcome, MatchOutcome } from '@/lib/utils/matchResults';
+import { IClub } from '@/lib/models/club.model';
+import { IClubStats } from '@/lib/models/match.model';
+import type { getClubMatchStats } from '@/lib/actions/match.actions';
+import type { getClubReferences } from '@/lib/actions/club.actions';
+
+// A stored match, as far as the recent results need it
+interface RecentMatch {
+  matchId: string;
+  timestamp: number;
+  clubs: Record<string, IClubStats>;
+}
+
+interface ClubDetailsProps {
+  club: IClub;
+  stats: Awaited<ReturnType<typeof getClubMatchStats>>;
+  recentMatches: RecentMatch[];
+  references: Awaited<ReturnType<typeof getClubReferences>>;
+}
+
+const outcomeVariants: Record<MatchOutcome, 'default' | 'secondary' | 'destructive'> = {
+  W: 'default',
+  L: 'destructive',
+  OTL: 'secondary',
+};
+
+// Helper function to show an outcome; results with an unknown EA code show as "?"
+const getOutcomeBadge = (outcome: MatchOutcome | null) => ({
+  label: outcome ?? '?',
+  variant: outcome ? outcomeVariants[outcome] : 'outline' as const,
+});
+
+const referenceLabels = {
+  club: 'Lists the club',
+  season: 'Targets its season',
+  league: 'Targets its league',
+};
+
+export function ClubDetails({ club, stats, recentMatches, references }: ClubDetailsProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRefresh = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/clubs/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clubName: club.name, platform: club.platform, clubId: club.clubId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to refresh club');
+      }
+
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refresh club');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const inUse = references.seasons.length + references.schedulers.length;
+    const warning = inUse > 0
+      ? ' It is still referenced by seasons or schedulers, which will keep its ID.'
+      : '';
+    if (!confirm(`Are you sure you want to delete ${club.name}?${warning} Its stored matches are kept.`)) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/clubs/${club.clubId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete club');
+      }
+
+      router.push('/admin/clubs');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete club');
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div>
+          <Link href="/admin/clubs" className="text-sm text-muted-foreground hover:text-foreground">
+            ← Clubs
+          </Link>
+          <h1 className="text-3xl font-bold mt-2">{club.name}</h1>
+          <p className="text-muted-foreground">
+            ID: {club.clubId} • Platform: {club.platform} • Updated {new Date(club.updatedAt).toLocaleString()}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleRefresh} disabled={isLoading}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh from EA
+          </Button>
+          <Button variant="destructive" onClick={handleDelete} disabled={isLoading}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-destructive/15 text-destructive p-4 rounded-md">
+          <p className="font-medium">Error:</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      {/* Stored Match Statistics */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Stored Matches</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.totalMatches}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Record (W-L-OTL)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.wins}-{stats.losses}-{stats.otLosses}</div>
+            {stats.ties > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {stats.ties} with an unknown result
+              </p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Goals For</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.goalsFor}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Goals Against</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{stats.goalsAgainst}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Goal Difference</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {stats.goalsFor - stats.goalsAgainst > 0 ? '+' : ''}{stats.goalsFor - stats.goalsAgainst}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Recent Matches */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Matches</CardTitle>
+            <CardDescription>The last stored matches of the club</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {recentMatches.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8">
+                No matches stored for this club yet
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {recentMatches.map((match) => {
+                  const clubStats = match.clubs[club.clubId];
+                  const [opponentId, opponentStats] =
+                    Object.entries(match.clubs).find(([id]) => id !== club.clubId) || [];
+                  const outcome = getOutcomeBadge(getMatchOutcome(clubStats?.result));
+                  return (
+                    <div key={match.matchId} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div className="flex items-center gap-3">
+                        <Badge variant={outcome.variant} className="w-10 justify-center">
+                          {outcome.label}
+                        </Badge>
+                        <div>
+                          <div className="font-medium">
+                            vs {opponentStats?.details?.name || opponentId || 'Unknown'}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {format(new Date(match.timestamp * 1000), 'PPp')}
+                          </div>
+                        </div>
+                      </div>
+                      <Link href={`/admin/matches/${match.matchId}`} className="font-mono font-bold hover:underline">
+                        {clubStats?.score ?? '-'} - {opponentStats?.score ?? '-'}
+                      </Link>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* EA Club Record */}
+        <Card>
+          <CardHeader>
+            <CardTitle>EA Record</CardTitle>
+            <CardDescription>As reported by EA at the last import</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-3 text-sm">
+              <div>
+                <dt className="text-muted-foreground">Record</dt>
+                <dd className="font-medium">{club.record}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Current Division</dt>
+                <dd className="font-medium">{club.currentDivision}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Goals / Against</dt>
+                <dd className="font-medium">{club.goals} / {club.goalsAgainst}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Best Division</dt>
+                <dd className="font-medium">{club.bestDivision}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Ranking Points</dt>
+                <dd className="font-medium">{club.rankingPoints}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Seasons Played</dt>
+                <dd className="font-medium">{club.seasons}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Titles / Cups Won</dt>
+                <dd className="font-medium">{club.titlesWon} / {club.totalCupsWon}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Previous Season</dt>
+                <dd className="font-medium">
+                  {club.prevSeasonWins}-{club.prevSeasonLosses}-{club.prevSeasonOtl}
+                </dd>
+              </div>
+            </dl>
+          </CardContent>
+        </Card>
+
+        {/* Seasons */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Seasons</CardTitle>
+            <CardDescription>League seasons the club takes part in</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {references.seasons.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8">
+                The club isn&apos;t in any season
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {references.seasons.map((season) => (
+                  <div key={season._id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <div className="font-medium">{season.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {season.leagueName} • {format(new Date(season.startDate), 'PP')}
+                        {season.endDate ? ` – ${format(new Date(season.endDate), 'PP')}` : ' – ongoing'}
+                      </div>
+                    </div>
+                    <Badge variant={season.isActive ? 'default' : 'secondary'}>
+                      {season.isActive ? 'Active' : 'Inactive'}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Schedulers */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Schedulers</CardTitle>
+            <CardDescription>Schedulers collecting matches for the club</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {references.schedulers.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8">
+                No scheduler collects matches for this club
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {references.schedulers.map((scheduler) => (
+                  <div key={scheduler._id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <div className="font-medium">{scheduler.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {scheduler.via.map((via) => referenceLabels[via]).join(' • ')}
+                        {scheduler.nextRun && ` • Next run ${new Date(scheduler.nextRun).toLocaleString()}`}
+                      </div>
+                    </div>
+                    <Badge variant={scheduler.isActive ? 'default' : 'secondary'}>
+                      {scheduler.isActive ? 'Active' : 'Inactive'}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
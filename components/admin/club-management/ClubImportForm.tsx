@@ -0,0 +1,178 @@
+/**
+ * Club Import Form Component
+ *
+ * This component searches EA's Pro Clubs API for clubs by name and
+ * imports the chosen result. Importing a club that is already stored
+ * refreshes its record from EA.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Search } from 'lucide-react';
+import { IClub } from '@/lib/models/club.model';
+
+interface ClubImportFormProps {
+  storedClubIds?: string[]; // Clubs already stored, marked in the results
+  onImported: (clubs: IClub[]) => void;
+}
+
+// A club as returned by the EA club search
+interface EaClubResult {
+  clubId: string;
+  name: string;
+  currentDivision?: string;
+  record?: string;
+  wins?: string;
+  losses?: string;
+  otl?: string;
+}
+
+const platforms = [
+  { value: 'common-gen5', label: 'Current Gen (PS5/Xbox Series X)' },
+  { value: 'common-gen4', label: 'Last Gen (PS4/Xbox One)' },
+];
+
+export function ClubImportForm({ storedClubIds = [], onImported }: ClubImportFormProps) {
+  const [clubName, setClubName] = useState('');
+  const [platform, setPlatform] = useState('common-gen5');
+  const [results, setResults] = useState<EaClubResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [importingId, setImportingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!clubName.trim()) return;
+
+    setIsSearching(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ name: clubName.trim(), platform });
+      const response = await fetch(`/api/admin/clubs/search?${params}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to search EA');
+      }
+
+      const data = await response.json();
+      setResults(data.clubs || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to search EA');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleImport = async (club: EaClubResult) => {
+    setImportingId(club.clubId);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/clubs/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clubName: club.name, platform, clubId: club.clubId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to import club');
+      }
+
+      const data = await response.json();
+      onImported(data.clubs || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import club');
+    } finally {
+      setImportingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSearch} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="ea-club-name">Club Name</Label>
+            <Input
+              id="ea-club-name"
+              placeholder="Search EA by club name"
+              value={clubName}
+              onChange={(e) => setClubName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Platform</Label>
+            <Select value={platform} onValueChange={setPlatform}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {platforms.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button type="submit" disabled={isSearching || !clubName.trim()}>
+          <Search className="w-4 h-4 mr-2" />
+          {isSearching ? 'Searching...' : 'Search EA'}
+        </Button>
+      </form>
+
+      {error && (
+        <div className="bg-destructive/15 text-destructive p-3 rounded-md text-sm">
+          {error}
+        </div>
+      )}
+
+      {results && (
+        results.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">
+            EA found no clubs with this name
+          </p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto space-y-2 border rounded-md p-2">
+            {results.map((club) => {
+              const isStored = storedClubIds.includes(club.clubId);
+              return (
+                <div key={club.clubId} className="flex items-center justify-between p-2 border rounded-lg">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{club.name}</span>
+                      {isStored && <Badge variant="secondary">Stored</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      ID: {club.clubId}
+                      {club.record && ` • Record: ${club.record}`}
+                      {club.currentDivision && ` • Division ${club.currentDivision}`}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant={isStored ? 'outline' : 'default'}
+                    onClick={() => handleImport(club)}
+                    disabled={importingId !== null}
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    {importingId === club.clubId ? 'Importing...' : isStored ? 'Refresh' : 'Import'}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
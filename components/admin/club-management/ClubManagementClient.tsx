@@ -0,0 +1,231 @@
+/**
+ * Club Management Client Component
+ *
+ * This component lists the clubs stored in the database with a name
+ * search and pagination, and lets admins import clubs from EA. Each
+ * club links to its record page.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Download, RefreshCw } from 'lucide-react';
+import { ClubImportForm } from '@/components/admin/club-management/ClubImportForm';
+import { IClub } from '@/lib/models/club.model';
+
+interface ClubManagementClientProps {
+  initialClubs?: IClub[];
+  initialTotal?: number;
+  initialPages?: number;
+}
+
+// Number of clubs per page
+const PAGE_SIZE = 20;
+
+export function ClubManagementClient({
+  initialClubs = [],
+  initialTotal = 0,
+  initialPages = 0
+}: ClubManagementClientProps) {
+  const [clubs, setClubs] = useState<IClub[]>(initialClubs);
+  const [total, setTotal] = useState(initialTotal);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(initialPages);
+  const [search, setSearch] = useState('');
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const isFirstLoad = useRef(true);
+
+  const fetchClubs = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ page: page.toString(), limit: PAGE_SIZE.toString() });
+      if (search.trim()) {
+        params.set('search', search.trim());
+      }
+
+      const response = await fetch(`/api/admin/clubs?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch clubs');
+      }
+
+      const data = await response.json();
+      setClubs(data.clubs || []);
+      setTotal(data.pagination?.total || 0);
+      setPages(data.pagination?.pages || 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch clubs');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, search]);
+
+  // The first page comes from the server; later changes of page or search reload it
+  useEffect(() => {
+    if (isFirstLoad.current) {
+      isFirstLoad.current = false;
+      return;
+    }
+
+    const timeout = setTimeout(fetchClubs, 300);
+    return () => clearTimeout(timeout);
+  }, [fetchClubs]);
+
+  const handleImported = (importedClubs: IClub[]) => {
+    setIsImportDialogOpen(false);
+    setNotice(
+      importedClubs.length === 1
+        ? `Imported ${importedClubs[0].name}`
+        : `Imported ${importedClubs.length} clubs`
+    );
+    fetchClubs();
+  };
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Club Management</h1>
+          <p className="text-muted-foreground">
+            Import clubs from EA and review the clubs data is collected for
+          </p>
+        </div>
+
+        <Dialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Download className="w-4 h-4 mr-2" />
+              Import from EA
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Import Club from EA</DialogTitle>
+              <DialogDescription>
+                Search EA&apos;s Pro Clubs by name and import the right club
+              </DialogDescription>
+            </DialogHeader>
+            <ClubImportForm
+              storedClubIds={clubs.map((club) => club.clubId)}
+              onImported={handleImported}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-destructive/15 text-destructive p-4 rounded-md">
+          <p className="font-medium">Error:</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-green-500/15 text-green-700 p-4 rounded-md">
+          {notice}
+        </div>
+      )}
+
+      {/* Clubs */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Clubs</CardTitle>
+            <CardDescription>
+              {total} stored {total === 1 ? 'club' : 'clubs'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="Search by name"
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setPage(1);
+              }}
+              className="w-56"
+            />
+            <Button variant="outline" size="sm" onClick={fetchClubs} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {clubs.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">
+              {search ? 'No clubs match this search' : 'No clubs imported yet'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="h-12 px-4 text-left align-middle font-medium">Name</th>
+                    <th className="h-12 px-4 text-left align-middle font-medium">Club ID</th>
+                    <th className="h-12 px-4 text-left align-middle font-medium">Platform</th>
+                    <th className="h-12 px-4 text-left align-middle font-medium">Record</th>
+                    <th className="h-12 px-4 text-left align-middle font-medium">Division</th>
+                    <th className="h-12 px-4 text-left align-middle font-medium">Updated</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {clubs.map((club) => (
+                    <tr key={club.clubId} className="border-b transition-colors hover:bg-muted/50">
+                      <td className="p-4 align-middle text-sm font-medium">
+                        <Link href={`/admin/clubs/${club.clubId}`} className="hover:underline">
+                          {club.name}
+                        </Link>
+                      </td>
+                      <td className="p-4 align-middle text-sm font-mono">{club.clubId}</td>
+                      <td className="p-4 align-middle text-sm">{club.platform}</td>
+                      <td className="p-4 align-middle text-sm">{club.record}</td>
+                      <td className="p-4 align-middle text-sm">{club.currentDivision}</td>
+                      <td className="p-4 align-middle text-sm text-muted-foreground whitespace-nowrap">
+                        {new Date(club.updatedAt).toLocaleString()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {pages > 1 && (
+            <div className="flex items-center justify-end gap-2 pt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1 || isLoading}
+              >
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page} of {pages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pages || isLoading}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
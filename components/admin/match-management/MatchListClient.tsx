@@ -0,0 +1,290 @@
+/**
+ * Match List Client Component
+ *
+ * This component lists the stored matches, newest first, with filters for
+ * club, season, match type and date range. Each match links to its box
+ * score.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RefreshCw } from 'lucide-react';
+import { EA_MATCH_TYPES } from '@/lib/config/eaApi';
+import { IClubStats } from '@/lib/models/match.model';
+
+// A stored match, as far as the list needs it
+interface MatchListItem {
+  matchId: string;
+  timestamp: number;
+  matchType?: string;
+  clubs: Record<string, IClubStats>;
+}
+
+// A club or season offered as a filter
+interface FilterOption {
+  value: string;
+  label: string;
+}
+
+interface MatchListClientProps {
+  initialMatches?: MatchListItem[];
+  initialTotal?: number;
+  initialPages?: number;
+  clubOptions: FilterOption[];
+  seasonOptions: FilterOption[];
+}
+
+// Number of matches per page
+const PAGE_SIZE = 20;
+
+export function MatchListClient({
+  initialMatches = [],
+  initialTotal = 0,
+  initialPages = 0,
+  clubOptions,
+  seasonOptions
+}: MatchListClientProps) {
+  const [matches, setMatches] = useState<MatchListItem[]>(initialMatches);
+  const [total, setTotal] = useState(initialTotal);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(initialPages);
+  const [clubId, setClubId] = useState('all');
+  const [seasonId, setSeasonId] = useState('all');
+  const [matchType, setMatchType] = useState('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isFirstLoad = useRef(true);
+
+  const fetchMatches = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ page: page.toString(), limit: PAGE_SIZE.toString() });
+      if (clubId !== 'all') params.set('clubId', clubId);
+      if (seasonId !== 'all') params.set('seasonId', seasonId);
+      if (matchType !== 'all') params.set('matchType', matchType);
+      // Date inputs are whole days in local time; "to" includes the whole day
+      if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString());
+      if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+
+      const response = await fetch(`/api/admin/matches?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch matches');
+      }
+
+      const data = await response.json();
+      setMatches(data.matches || []);
+      setTotal(data.pagination?.total || 0);
+      setPages(data.pagination?.pages || 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch matches');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, clubId, seasonId, matchType, from, to]);
+
+  // The first page comes from the server; later changes of page or filters reload it
+  useEffect(() => {
+    if (isFirstLoad.current) {
+      isFirstLoad.current = false;
+      return;
+    }
+
+    const timeout = setTimeout(fetchMatches, 300);
+    return () => clearTimeout(timeout);
+  }, [fetchMatches]);
+
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Matches</h1>
+        <p className="text-muted-foreground">
+          Browse the matches collected from EA and open their box scores
+        </p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="space-y-2">
+              <Label>Club</Label>
+              <Select value={clubId} onValueChange={updateFilter(setClubId)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All clubs</SelectItem>
+                  {clubOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Season</Label>
+              <Select value={seasonId} onValueChange={updateFilter(setSeasonId)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All seasons</SelectItem>
+                  {seasonOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Match Type</Label>
+              <Select value={matchType} onValueChange={updateFilter(setMatchType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All types</SelectItem>
+                  {EA_MATCH_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2 md:col-span-2">
+              <div className="space-y-2">
+                <Label htmlFor="match-from">From</Label>
+                <Input
+                  id="match-from"
+                  type="date"
+                  value={from}
+                  onChange={(e) => updateFilter(setFrom)(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="match-to">To</Label>
+                <Input
+                  id="match-to"
+                  type="date"
+                  value={to}
+                  onChange={(e) => updateFilter(setTo)(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-destructive/15 text-destructive p-4 rounded-md">
+          <p className="font-medium">Error:</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      {/* Matches */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Stored Matches</CardTitle>
+            <CardDescription>
+              {total} {total === 1 ? 'match' : 'matches'}; older matches whose type could not be backfilled only appear under all types
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchMatches} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {matches.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">
+              No matches match these filters
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="h-12 px-4 text-left align-middle font-medium">Date</th>
+                    <th className="h-12 px-4 text-left align-middle font-medium">Clubs</th>
+                    <th className="h-12 px-4 text-left align-middle font-medium">Score</th>
+                    <th className="h-12 px-4 text-left align-middle font-medium">Type</th>
+                    <th className="h-12 px-4 text-left align-middle font-medium">Match ID</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {matches.map((match) => {
+                    const [first, second] = Object.entries(match.clubs);
+                    return (
+                      <tr key={match.matchId} className="border-b transition-colors hover:bg-muted/50">
+                        <td className="p-4 align-middle text-sm text-muted-foreground whitespace-nowrap">
+                          {format(new Date(match.timestamp * 1000), 'PPp')}
+                        </td>
+                        <td className="p-4 align-middle text-sm font-medium">
+                          {first?.[1].details?.name || first?.[0]} vs {second?.[1].details?.name || second?.[0]}
+                        </td>
+                        <td className="p-4 align-middle text-sm font-mono font-bold">
+                          <Link href={`/admin/matches/${match.matchId}`} className="hover:underline">
+                            {first?.[1].score ?? '-'} - {second?.[1].score ?? '-'}
+                          </Link>
+                        </td>
+                        <td className="p-4 align-middle text-sm">
+                          {EA_MATCH_TYPES.find((type) => type.value === match.matchType)?.label || '—'}
+                        </td>
+                        <td className="p-4 align-middle text-sm font-mono">
+                          <Link href={`/admin/matches/${match.matchId}`} className="hover:underline">
+                            {match.matchId}
+                          </Link>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {pages > 1 && (
+            <div className="flex items-center justify-end gap-2 pt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1 || isLoading}
+              >
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page} of {pages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pages || isLoading}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
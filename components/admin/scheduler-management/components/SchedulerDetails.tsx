@@ -7,12 +7,13 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { format } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Play, 
   Pause, 
@@ -26,9 +27,43 @@ import {
   AlertCircle,
   CheckCircle,
   XCircle,
-  AlertTriangle
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight
 } from 'lucide-react';
 import { IScheduler } from '@/lib/models/scheduler.model';
+import type { IClubRunLog } from '@/lib/models/schedulerRun.model';
+import type { resolveSchedulerClubs } from '@/lib/services/schedulerRunService';
+import { IMatchImportCounts } from '@/lib/models/match.model';
+import type { ISchedulerEvent, SchedulerEventType } from '@/lib/services/schedulerEvents';
+import type { ClubActivityTier, ISchedulerPollPlan } from '@/lib/services/adaptivePolling';
+
+// Progress of the run currently streamed from the server
+interface ILiveRun {
+  runId: string;
+  clubsTotal: number;
+  clubsCompleted: number;
+  clubs: Record<string, 'running' | 'success' | 'error' | 'skipped'>;
+  status?: 'success' | 'error' | 'partial' | 'failed';
+}
+
+const schedulerEventTypes: SchedulerEventType[] = ['queued', 'club-started', 'club-finished', 'completed', 'failed', 'skipped'];
+
+// Clubs the scheduler collects for, as resolved from its seasons and leagues
+type ResolvedClubs = NonNullable<Awaited<ReturnType<typeof resolveSchedulerClubs>>>;
+
+const activityTierVariants: Record<ClubActivityTier, 'default' | 'secondary' | 'outline'> = {
+  hot: 'default',
+  active: 'secondary',
+  quiet: 'outline',
+  idle: 'outline',
+};
+
+// Number of events kept in the live activity log
+const MAX_LIVE_EVENTS = 20;
+
+// Number of runs per page of the execution history
+const HISTORY_PAGE_SIZE = 20;
 
 interface SchedulerDetailsProps {
   scheduler: IScheduler;
@@ -51,24 +86,135 @@ export function SchedulerDetails({
 }: SchedulerDetailsProps) {
   const [executionHistory, setExecutionHistory] = useState<any[]>([]);
   const [loadingHistory, setLoadingHistory] = useState(false);
+  const [historyPage, setHistoryPage] = useState(1);
+  const [historyPages, setHistoryPages] = useState(0);
+  const [historyStatus, setHistoryStatus] = useState('all');
+  const [historyClub, setHistoryClub] = useState('all');
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [expandedRun, setExpandedRun] = useState<string | null>(null);
+  const [resolvedClubs, setResolvedClubs] = useState<ResolvedClubs | null>(null);
+  const [pollPlan, setPollPlan] = useState<ISchedulerPollPlan | null>(null);
+  const [liveRun, setLiveRun] = useState<ILiveRun | null>(null);
+  const [liveEvents, setLiveEvents] = useState<ISchedulerEvent[]>([]);
 
-  useEffect(() => {
-    fetchExecutionHistory();
-  }, [scheduler._id]);
-
-  const fetchExecutionHistory = async () => {
+  const fetchExecutionHistory = useCallback(async () => {
     setLoadingHistory(true);
     try {
-      const response = await fetch(`/api/admin/schedulers/${scheduler._id}/history`);
+      const params = new URLSearchParams({ page: historyPage.toString(), limit: HISTORY_PAGE_SIZE.toString() });
+      if (historyStatus !== 'all') {
+        params.set('status', historyStatus);
+      }
+      if (historyClub !== 'all') {
+        params.set('clubId', historyClub);
+      }
+
+      const response = await fetch(`/api/admin/schedulers/${scheduler._id}/history?${params}`);
       if (response.ok) {
         const data = await response.json();
         setExecutionHistory(data.history || []);
+        setHistoryPages(data.pagination?.pages || 0);
       }
     } catch (error) {
       console.error('Failed to fetch execution history:', error);
     } finally {
       setLoadingHistory(false);
     }
+  }, [scheduler._id, historyPage, historyStatus, historyClub]);
+
+  const fetchResolvedClubs = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/schedulers/${scheduler._id}/clubs`);
+      if (response.ok) {
+        setResolvedClubs(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to resolve scheduler clubs:', error);
+    }
+  }, [scheduler._id]);
+
+  const fetchPollPlan = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/schedulers/${scheduler._id}/polling`);
+      if (response.ok) {
+        setPollPlan(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch polling plan:', error);
+    }
+  }, [scheduler._id]);
+
+  useEffect(() => {
+    fetchExecutionHistory();
+  }, [fetchExecutionHistory, historyRefreshKey]);
+
+  // Targets changed by an edit resolve to a different set of clubs
+  useEffect(() => {
+    fetchResolvedClubs();
+  }, [fetchResolvedClubs, scheduler.clubs, scheduler.seasonIds, scheduler.leagueIds]);
+
+  useEffect(() => {
+    fetchPollPlan();
+  }, [fetchPollPlan, scheduler.clubs, scheduler.seasonIds, scheduler.leagueIds, historyRefreshKey]);
+
+  // Stream run lifecycle events from the server
+  useEffect(() => {
+    setLiveRun(null);
+    setLiveEvents([]);
+    setHistoryPage(1);
+    setHistoryStatus('all');
+    setHistoryClub('all');
+
+    const source = new EventSource(`/api/admin/schedulers/${scheduler._id}/events`);
+
+    const handleEvent = (message: MessageEvent) => {
+      const event: ISchedulerEvent = JSON.parse(message.data);
+      setLiveEvents((events) => [event, ...events].slice(0, MAX_LIVE_EVENTS));
+
+      switch (event.type) {
+        case 'club-started':
+        case 'club-finished':
+          setLiveRun((run) => {
+            const current = run && run.runId === event.runId
+              ? run
+              : { runId: event.runId!, clubsTotal: event.clubsTotal ?? 0, clubsCompleted: 0, clubs: {} };
+
+            return {
+              ...current,
+              clubsCompleted: event.clubsCompleted ?? current.clubsCompleted,
+              clubs: {
+                ...current.clubs,
+                [event.clubId!]: event.type === 'club-started' ? 'running' : event.status as 'success' | 'error' | 'skipped'
+              }
+            };
+          });
+          break;
+        case 'completed':
+          setLiveRun((run) => run && run.runId === event.runId
+            ? { ...run, clubsCompleted: run.clubsTotal, status: event.status as ILiveRun['status'] }
+            : run);
+          setHistoryRefreshKey((key) => key + 1);
+          break;
+        case 'failed':
+          setLiveRun((run) => run ? { ...run, status: 'failed' } : run);
+          setHistoryRefreshKey((key) => key + 1);
+          break;
+      }
+    };
+
+    schedulerEventTypes.forEach((type) => source.addEventListener(type, handleEvent));
+
+    return () => source.close();
+  }, [scheduler._id]);
+
+  // Clubs collected at the next run, falling back to the scheduler's own list while resolving
+  const monitoredClubs = resolvedClubs?.clubs ?? scheduler.clubs;
+
+  const getClubSources = (clubId: string) => {
+    const seasons = (resolvedClubs?.seasons || []).filter(season => season.clubs.includes(clubId));
+    return [
+      ...(scheduler.clubs.includes(clubId) ? ['Direct'] : []),
+      ...seasons.map(season => season.name)
+    ];
   };
 
   const getStatusIcon = (status: string) => {
@@ -90,6 +236,42 @@ export function SchedulerDetails({
     return `${(ms / 60000).toFixed(1)}m`;
   };
 
+  const describeEvent = (event: ISchedulerEvent) => {
+    switch (event.type) {
+      case 'queued':
+        return `Run queued for ${format(new Date(event.runAt ?? event.timestamp), 'MMM d, HH:mm')}`;
+      case 'club-started':
+        return `Club ${event.clubId} started`;
+      case 'club-finished':
+        return `Club ${event.clubId} ${event.status}` +
+          (event.importCounts ? ` (${formatImportCounts(event.importCounts)})` : '') +
+          (event.error ? `: ${event.error}` : '');
+      case 'completed':
+        return `Run completed: ${event.status}` +
+          (event.importCounts ? ` (${formatImportCounts(event.importCounts)})` : '');
+      case 'failed':
+        return `Run failed: ${event.error}`;
+      case 'skipped':
+        return `Run skipped: ${event.error}`;
+    }
+  };
+
+  const formatInterval = (minutes: number) => {
+    if (minutes < 60) return `${minutes} min`;
+    const hours = Math.floor(minutes / 60);
+    return minutes % 60 === 0 ? `${hours} h` : `${hours} h ${minutes % 60} min`;
+  };
+
+  const formatImportCounts = (counts: IMatchImportCounts) => {
+    return `${counts.new} new • ${counts.duplicate} duplicate • ${counts.updated} updated • ${counts.rejected} rejected`;
+  };
+
+  const formatTime = (hour: number, minute = 0) => {
+    return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+  };
+
+  const scheduleMode = scheduler.scheduleConfig.mode || 'window';
+
   const getDayName = (dayNumber: number) => {
     const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
     return days[dayNumber];
@@ -198,7 +380,7 @@ export function SchedulerDetails({
               {executionHistory.reduce((sum, h) => sum + (h.matchesCollected || 0), 0)}
             </div>
             <p className="text-xs text-muted-foreground">
-              Collected overall
+              New matches collected overall
             </p>
           </CardContent>
         </Card>
@@ -243,6 +425,58 @@ export function SchedulerDetails({
         </Card>
       </div>
 
+      {/* Live Activity */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Live Activity</CardTitle>
+          <CardDescription>
+            Progress of the current run, updated in real time
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {liveRun && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span>{liveRun.clubsCompleted} of {liveRun.clubsTotal} clubs finished</span>
+                <Badge variant={liveRun.status === 'error' || liveRun.status === 'failed' ? 'destructive' : 
+                             liveRun.status === 'partial' ? 'secondary' : 'default'}>
+                  {liveRun.status ?? 'running'}
+                </Badge>
+              </div>
+              <div className="h-2 w-full rounded bg-muted">
+                <div
+                  className="h-2 rounded bg-primary transition-all"
+                  style={{ width: `${liveRun.clubsTotal > 0 ? (liveRun.clubsCompleted / liveRun.clubsTotal) * 100 : 100}%` }}
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(liveRun.clubs).map(([clubId, clubStatus]) => (
+                  <Badge
+                    key={clubId}
+                    variant={clubStatus === 'error' ? 'destructive' : clubStatus === 'running' ? 'outline' : 'secondary'}
+                  >
+                    {clubId}: {clubStatus}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+          
+          {liveEvents.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Waiting for scheduler activity...</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {liveEvents.map((event, index) => (
+                <li key={`${event.timestamp}-${index}`} className="flex gap-3">
+                  <span className="text-muted-foreground">{format(new Date(event.timestamp), 'HH:mm:ss')}</span>
+                  <span>{describeEvent(event)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Detailed Information */}
       <Tabs defaultValue="schedule" className="w-full">
         <TabsList className="grid w-full grid-cols-4">
@@ -259,12 +493,30 @@ export function SchedulerDetails({
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <p className="text-sm font-medium">Time Window</p>
-                  <p className="text-sm text-muted-foreground">
-                    {scheduler.scheduleConfig.startHour}:00 - {scheduler.scheduleConfig.endHour}:00
-                  </p>
-                </div>
+                {scheduleMode === 'cron' ? (
+                  <div>
+                    <p className="text-sm font-medium">Cron Expression</p>
+                    <p className="text-sm text-muted-foreground font-mono">
+                      {scheduler.scheduleConfig.cronExpression}
+                    </p>
+                  </div>
+                ) : scheduleMode === 'once' ? (
+                  <div>
+                    <p className="text-sm font-medium">Date Range</p>
+                    <p className="text-sm text-muted-foreground">
+                      {scheduler.scheduleConfig.startDate && format(new Date(scheduler.scheduleConfig.startDate), 'MMM d, yyyy HH:mm')} - {scheduler.scheduleConfig.endDate && format(new Date(scheduler.scheduleConfig.endDate), 'MMM d, yyyy HH:mm')}
+                    </p>
+                  </div>
+                ) : (
+                  <div>
+                    <p className="text-sm font-medium">Time Window</p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatTime(scheduler.scheduleConfig.startHour, scheduler.scheduleConfig.startMinute)} - {formatTime(scheduler.scheduleConfig.endHour, scheduler.scheduleConfig.endMinute)}
+                      {scheduler.scheduleConfig.endHour * 60 + (scheduler.scheduleConfig.endMinute ?? 0) <=
+                        scheduler.scheduleConfig.startHour * 60 + (scheduler.scheduleConfig.startMinute ?? 0) && ' (next day)'}
+                    </p>
+                  </div>
+                )}
                 <div>
                   <p className="text-sm font-medium">Timezone</p>
                   <p className="text-sm text-muted-foreground">
@@ -273,16 +525,18 @@ export function SchedulerDetails({
                 </div>
               </div>
               
-              <div>
-                <p className="text-sm font-medium mb-2">Days of Week</p>
-                <div className="flex flex-wrap gap-2">
-                  {scheduler.scheduleConfig.daysOfWeek.map((day) => (
-                    <Badge key={day} variant="secondary">
-                      {getDayName(day)}
-                    </Badge>
-                  ))}
+              {scheduleMode === 'window' && (
+                <div>
+                  <p className="text-sm font-medium mb-2">Days of Week</p>
+                  <div className="flex flex-wrap gap-2">
+                    {scheduler.scheduleConfig.daysOfWeek.map((day) => (
+                      <Badge key={day} variant="secondary">
+                        {getDayName(day)}
+                      </Badge>
+                    ))}
+                  </div>
                 </div>
-              </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -333,24 +587,92 @@ export function SchedulerDetails({
         </TabsContent>
         
         <TabsContent value="clubs" className="space-y-4">
+          {resolvedClubs && resolvedClubs.seasons.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <span>Targeted Seasons</span>
+                  <Badge variant="outline">{resolvedClubs.seasons.length}</Badge>
+                </CardTitle>
+                <CardDescription>
+                  Clubs are synced from these seasons at every run until the season ends
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {resolvedClubs.seasons.map((season) => (
+                    <div key={season.seasonId} className="flex items-center justify-between p-2 border rounded">
+                      <div>
+                        <span className="font-medium">{season.name}</span>
+                        <p className="text-sm text-muted-foreground">
+                          {season.endDate
+                            ? `Ends ${format(new Date(season.endDate), 'MMM d, yyyy')}`
+                            : 'No end date'} • {season.clubs.length} clubs
+                        </p>
+                      </div>
+                      <Badge variant={season.hasEnded ? 'secondary' : 'default'}>
+                        {season.hasEnded ? 'Ended' : 'Collecting'}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
                 <span>Monitored Clubs</span>
-                <Badge variant="outline">{scheduler.clubs.length}</Badge>
+                <Badge variant="outline">{monitoredClubs.length}</Badge>
               </CardTitle>
               <CardDescription>
-                Clubs that this scheduler monitors for match data
+                Clubs that this scheduler monitors for match data; active clubs are polled more often
               </CardDescription>
             </CardHeader>
             <CardContent>
+              {resolvedClubs?.targetsEnded && (
+                <p className="text-sm text-muted-foreground mb-2">
+                  All targeted seasons have ended; the scheduler stops at its next run.
+                </p>
+              )}
+              {pollPlan && pollPlan.budgetFactor > 1 && (
+                <p className="text-sm text-muted-foreground mb-2">
+                  All schedulers plan {Math.round(pollPlan.totalRequestsPerHour)} requests per hour, above the
+                  budget of {pollPlan.budgetPerHour}; polling intervals are stretched {pollPlan.budgetFactor.toFixed(1)}×.
+                </p>
+              )}
               <div className="space-y-2">
-                {scheduler.clubs.map((clubId) => (
-                  <div key={clubId} className="flex items-center justify-between p-2 border rounded">
-                    <span className="font-medium">{clubId}</span>
-                    <Badge variant="secondary">ID</Badge>
-                  </div>
-                ))}
+                {monitoredClubs.map((clubId) => {
+                  const clubPlan = pollPlan?.clubs.find(club => club.clubId === clubId);
+                  return (
+                    <div key={clubId} className="flex items-center justify-between p-2 border rounded">
+                      <div>
+                        <span className="font-medium">{clubId}</span>
+                        {clubPlan && (
+                          <p className="text-xs text-muted-foreground">
+                            {clubPlan.lastMatchAt
+                              ? `Last match ${format(new Date(clubPlan.lastMatchAt), 'MMM dd, HH:mm')} • ${clubPlan.recentMatches} recent matches`
+                              : 'No recent matches'}
+                            {' • '}
+                            Next poll {clubPlan.isDue ? 'at the next run' : format(new Date(clubPlan.nextPollAt), 'MMM dd, HH:mm')}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex gap-1">
+                        {clubPlan && (
+                          <>
+                            <Badge variant={activityTierVariants[clubPlan.tier]} className="capitalize">{clubPlan.tier}</Badge>
+                            <Badge variant="outline">Every {formatInterval(clubPlan.intervalMinutes)}</Badge>
+                          </>
+                        )}
+                        {getClubSources(clubId).map((source) => (
+                          <Badge key={source} variant="secondary">{source}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
             </CardContent>
           </Card>
@@ -358,11 +680,51 @@ export function SchedulerDetails({
         
         <TabsContent value="history" className="space-y-4">
           <Card>
-            <CardHeader>
-              <CardTitle>Execution History</CardTitle>
-              <CardDescription>
-                Recent execution results and performance metrics
-              </CardDescription>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle>Execution History</CardTitle>
+                <CardDescription>
+                  Recent execution results and performance metrics
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Select
+                  value={historyStatus}
+                  onValueChange={(value) => {
+                    setHistoryStatus(value);
+                    setHistoryPage(1);
+                  }}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All runs</SelectItem>
+                    <SelectItem value="success">Success</SelectItem>
+                    <SelectItem value="partial">Partial</SelectItem>
+                    <SelectItem value="error">Error</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={historyClub}
+                  onValueChange={(value) => {
+                    setHistoryClub(value);
+                    setHistoryPage(1);
+                  }}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All clubs</SelectItem>
+                    {monitoredClubs.map((clubId) => (
+                      <SelectItem key={clubId} value={clubId}>
+                        Club {clubId}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </CardHeader>
             <CardContent>
               {loadingHistory ? (
@@ -371,25 +733,101 @@ export function SchedulerDetails({
                 <p>No execution history available</p>
               ) : (
                 <div className="space-y-3">
-                  {executionHistory.map((execution, index) => (
-                    <div key={index} className="flex items-center justify-between p-3 border rounded">
-                      <div className="flex items-center space-x-3">
-                        {getStatusIcon(execution.status)}
-                        <div>
-                          <p className="font-medium">
-                            {format(new Date(execution.timestamp), 'MMM d, HH:mm:ss')}
-                          </p>
-                          <p className="text-sm text-muted-foreground">
-                            {execution.matchesCollected} matches • {execution.clubsProcessed} clubs • {formatDuration(execution.duration)}
-                          </p>
+                  {executionHistory.map((execution, index) => {
+                    const runKey = execution._id || index.toString();
+                    const isExpanded = expandedRun === runKey;
+                    const clubLogs: IClubRunLog[] = execution.clubs || [];
+
+                    return (
+                      <div key={runKey} className="border rounded">
+                        <div
+                          className="flex items-center justify-between p-3 cursor-pointer"
+                          onClick={() => setExpandedRun(isExpanded ? null : runKey)}
+                        >
+                          <div className="flex items-center space-x-3">
+                            {clubLogs.length > 0 && (isExpanded
+                              ? <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                              : <ChevronRight className="h-4 w-4 text-muted-foreground" />)}
+                            {getStatusIcon(execution.status)}
+                            <div>
+                              <p className="font-medium">
+                                {format(new Date(execution.timestamp), 'MMM d, HH:mm:ss')}
+                              </p>
+                              <p className="text-sm text-muted-foreground">
+                                {execution.importCounts
+                                  ? formatImportCounts(execution.importCounts)
+                                  : `${execution.matchesCollected} matches`} • {execution.clubsProcessed} clubs • {formatDuration(execution.duration)}
+                              </p>
+                            </div>
+                          </div>
+                          <Badge variant={execution.status === 'success' ? 'default' : 
+                                       execution.status === 'error' ? 'destructive' : 'secondary'}>
+                            {execution.status}
+                          </Badge>
                         </div>
+
+                        {isExpanded && clubLogs.length > 0 && (
+                          <div className="overflow-x-auto border-t">
+                            <table className="w-full text-sm">
+                              <thead>
+                                <tr className="border-b">
+                                  <th className="h-10 px-3 text-left align-middle font-medium">Club</th>
+                                  <th className="h-10 px-3 text-left align-middle font-medium">Status</th>
+                                  <th className="h-10 px-3 text-left align-middle font-medium">HTTP</th>
+                                  <th className="h-10 px-3 text-left align-middle font-medium">Returned</th>
+                                  <th className="h-10 px-3 text-left align-middle font-medium">New</th>
+                                  <th className="h-10 px-3 text-left align-middle font-medium">Duration</th>
+                                  <th className="h-10 px-3 text-left align-middle font-medium">Error</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {clubLogs.map((club) => (
+                                  <tr key={club.clubId} className="border-b last:border-0">
+                                    <td className="p-3 align-middle font-medium">{club.clubId}</td>
+                                    <td className="p-3 align-middle">
+                                      <Badge variant={club.status === 'success' ? 'default' :
+                                                   club.status === 'error' ? 'destructive' : 'secondary'}>
+                                        {club.status}
+                                      </Badge>
+                                    </td>
+                                    <td className="p-3 align-middle">{club.httpStatus ?? '—'}</td>
+                                    <td className="p-3 align-middle">{club.matchesReturned}</td>
+                                    <td className="p-3 align-middle">{club.matchesCollected}</td>
+                                    <td className="p-3 align-middle">{formatDuration(club.duration)}</td>
+                                    <td className="p-3 align-middle text-red-600">{club.error}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
+                        )}
                       </div>
-                      <Badge variant={execution.status === 'success' ? 'default' : 
-                                   execution.status === 'error' ? 'destructive' : 'secondary'}>
-                        {execution.status}
-                      </Badge>
-                    </div>
-                  ))}
+                    );
+                  })}
+                </div>
+              )}
+
+              {historyPages > 1 && (
+                <div className="flex items-center justify-end gap-2 pt-4">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setHistoryPage(historyPage - 1)}
+                    disabled={historyPage <= 1 || loadingHistory}
+                  >
+                    Previous
+                  </Button>
+                  <span className="text-sm text-muted-foreground">
+                    Page {historyPage} of {historyPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setHistoryPage(historyPage + 1)}
+                    disabled={historyPage >= historyPages || loadingHistory}
+                  >
+                    Next
+                  </Button>
                 </div>
               )}
             </CardContent>
@@ -8,7 +8,7 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useForm, type FieldValues, type ControllerRenderProps } from 'react-hook-form';
 import { Button } from '@/components/ui/button';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
@@ -18,18 +18,32 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { IScheduler } from '@/lib/models/scheduler.model';
+import { IScheduler, IScheduleConfig, ScheduleMode } from '@/lib/models/scheduler.model';
 import { getClubs } from '@/lib/actions/club.actions';
+import { getLeagues, getSeasonsForLeague } from '@/lib/actions/league.actions';
+import { ILeague } from '@/lib/models/league.model';
+import { ISeason } from '@/lib/models/season.model';
+import {
+  getUpcomingRuns,
+  validateScheduleConfig,
+  resolveTimeZone,
+  toZonedDateTimeString,
+  fromZonedDateTimeString,
+} from '@/lib/utils/scheduling';
 
-// Form data type
-type SchedulerFormData = {
+// Form values type (times and dates as input strings)
+type SchedulerFormValues = {
   name: string;
   description?: string;
   scheduleConfig: {
-    startHour: number;
-    endHour: number;
+    mode: ScheduleMode;
+    startTime: string; // HH:mm
+    endTime: string; // HH:mm
     daysOfWeek: number[];
     timezone: string;
+    cronExpression: string;
+    startDate: string; // YYYY-MM-DDTHH:mm in the scheduler's timezone
+    endDate: string;
   };
   collectionSettings: {
     platform: string;
@@ -39,9 +53,16 @@ type SchedulerFormData = {
     retryDelayMinutes: number;
   };
   clubs: string[];
+  seasonIds: string[];
+  leagueIds: string[];
   isActive: boolean;
 };
 
+// Submitted data type
+type SchedulerFormData = Omit<SchedulerFormValues, 'scheduleConfig'> & {
+  scheduleConfig: IScheduleConfig;
+};
+
 interface SchedulerFormProps {
   scheduler?: IScheduler;
   onSubmit: (data: SchedulerFormData) => void;
@@ -70,27 +91,90 @@ const matchTypes = [
 ];
 
 const timezones = [
-  { value: 'EST', label: 'Eastern Time (EST)' },
-  { value: 'CST', label: 'Central Time (CST)' },
-  { value: 'MST', label: 'Mountain Time (MST)' },
-  { value: 'PST', label: 'Pacific Time (PST)' },
+  { value: 'America/New_York', label: 'Eastern Time (New York)' },
+  { value: 'America/Chicago', label: 'Central Time (Chicago)' },
+  { value: 'America/Denver', label: 'Mountain Time (Denver)' },
+  { value: 'America/Phoenix', label: 'Mountain Time - no DST (Phoenix)' },
+  { value: 'America/Los_Angeles', label: 'Pacific Time (Los Angeles)' },
+  { value: 'America/Toronto', label: 'Eastern Time (Toronto)' },
+  { value: 'America/Vancouver', label: 'Pacific Time (Vancouver)' },
+  { value: 'Europe/London', label: 'UK Time (London)' },
+  { value: 'Europe/Stockholm', label: 'Central European Time (Stockholm)' },
+  { value: 'Europe/Helsinki', label: 'Eastern European Time (Helsinki)' },
   { value: 'UTC', label: 'Coordinated Universal Time (UTC)' },
 ];
 
+// Schedulers created before IANA time zones were supported used abbreviations
+const legacyTimezones: Record<string, string> = {
+  EST: 'America/New_York',
+  CST: 'America/Chicago',
+  MST: 'America/Denver',
+  PST: 'America/Los_Angeles',
+};
+
+const scheduleModes = [
+  { value: 'window', label: 'Daily time window' },
+  { value: 'cron', label: 'Cron expression' },
+  { value: 'once', label: 'One-off date range' },
+];
+
+// Number of upcoming runs shown in the preview
+const PREVIEW_RUNS = 5;
+
+const toTimeString = (hour: number, minute = 0) =>
+  `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+
+const parseTimeString = (value: string) => {
+  const [hour, minute] = value.split(':').map((part) => parseInt(part) || 0);
+  return { hour, minute };
+};
+
+// Converts the form's schedule values into the stored schedule configuration
+const toScheduleConfig = (values: SchedulerFormValues['scheduleConfig']): IScheduleConfig => {
+  const start = parseTimeString(values.startTime);
+  const end = parseTimeString(values.endTime);
+
+  return {
+    mode: values.mode,
+    cronExpression: values.mode === 'cron' ? values.cronExpression.trim() : undefined,
+    startDate: values.mode === 'once' ? fromZonedDateTimeString(values.startDate, values.timezone) ?? undefined : undefined,
+    endDate: values.mode === 'once' ? fromZonedDateTimeString(values.endDate, values.timezone) ?? undefined : undefined,
+    startHour: start.hour,
+    startMinute: start.minute,
+    endHour: end.hour,
+    endMinute: end.minute,
+    daysOfWeek: values.daysOfWeek,
+    timezone: values.timezone,
+  };
+};
+
 export function SchedulerForm({ scheduler, onSubmit, onCancel, isLoading = false }: SchedulerFormProps) {
   const [clubs, setClubs] = useState<any[]>([]);
   const [selectedClubs, setSelectedClubs] = useState<string[]>(scheduler?.clubs || []);
   const [loadingClubs, setLoadingClubs] = useState(false);
+  const [leagues, setLeagues] = useState<(ILeague & { seasons: ISeason[] })[]>([]);
+
+  const schedulerTimezone = scheduler
+    ? legacyTimezones[scheduler.scheduleConfig.timezone] || scheduler.scheduleConfig.timezone
+    : 'America/New_York';
 
-  const form = useForm<SchedulerFormData>({
+  const form = useForm<SchedulerFormValues>({
     defaultValues: scheduler ? {
       name: scheduler.name,
       description: scheduler.description || '',
       scheduleConfig: {
-        startHour: scheduler.scheduleConfig.startHour,
-        endHour: scheduler.scheduleConfig.endHour,
+        mode: scheduler.scheduleConfig.mode || 'window',
+        startTime: toTimeString(scheduler.scheduleConfig.startHour, scheduler.scheduleConfig.startMinute),
+        endTime: toTimeString(scheduler.scheduleConfig.endHour, scheduler.scheduleConfig.endMinute),
         daysOfWeek: scheduler.scheduleConfig.daysOfWeek,
-        timezone: scheduler.scheduleConfig.timezone,
+        timezone: schedulerTimezone,
+        cronExpression: scheduler.scheduleConfig.cronExpression || '',
+        startDate: scheduler.scheduleConfig.startDate
+          ? toZonedDateTimeString(scheduler.scheduleConfig.startDate, schedulerTimezone)
+          : '',
+        endDate: scheduler.scheduleConfig.endDate
+          ? toZonedDateTimeString(scheduler.scheduleConfig.endDate, schedulerTimezone)
+          : '',
       },
       collectionSettings: {
         platform: scheduler.collectionSettings.platform,
@@ -100,15 +184,21 @@ export function SchedulerForm({ scheduler, onSubmit, onCancel, isLoading = false
         retryDelayMinutes: scheduler.collectionSettings.retryDelayMinutes,
       },
       clubs: selectedClubs,
+      seasonIds: scheduler.seasonIds || [],
+      leagueIds: scheduler.leagueIds || [],
       isActive: scheduler.isActive,
     } : {
       name: '',
       description: '',
       scheduleConfig: {
-        startHour: 20, // 8 PM
-        endHour: 23, // 11 PM
+        mode: 'window',
+        startTime: '20:30', // 8:30 PM
+        endTime: '23:00', // 11 PM
         daysOfWeek: [2, 3], // Tuesday and Wednesday
-        timezone: 'EST',
+        timezone: 'America/New_York',
+        cronExpression: '',
+        startDate: '',
+        endDate: '',
       },
       collectionSettings: {
         platform: 'common-gen5',
@@ -118,14 +208,32 @@ export function SchedulerForm({ scheduler, onSubmit, onCancel, isLoading = false
         retryDelayMinutes: 5,
       },
       clubs: [],
+      seasonIds: [],
+      leagueIds: [],
       isActive: true,
     },
   });
 
   useEffect(() => {
     fetchClubs();
+    fetchLeagues();
   }, []);
 
+  const fetchLeagues = async () => {
+    try {
+      const response = await getLeagues(1, 100); // Get up to 100 leagues
+      const leaguesWithSeasons = await Promise.all(
+        (response.leagues || []).map(async (league: ILeague) => ({
+          ...league,
+          seasons: await getSeasonsForLeague(league._id?.toString() || ''),
+        }))
+      );
+      setLeagues(leaguesWithSeasons);
+    } catch (error) {
+      console.error('Failed to fetch leagues:', error);
+    }
+  };
+
   const fetchClubs = async () => {
     setLoadingClubs(true);
     try {
@@ -151,9 +259,47 @@ export function SchedulerForm({ scheduler, onSubmit, onCancel, isLoading = false
     });
   };
 
-  const handleSubmit = (data: SchedulerFormData) => {
+  const selectedSeasons = form.watch('seasonIds');
+  const selectedLeagues = form.watch('leagueIds');
+
+  const toggleTarget = (name: 'seasonIds' | 'leagueIds', id: string) => {
+    const selection = form.getValues(name);
+    form.setValue(name, selection.includes(id) ? selection.filter(value => value !== id) : [...selection, id]);
+  };
+
+  const scheduleValues = form.watch('scheduleConfig');
+  const frequencyMinutes = form.watch('collectionSettings.frequencyMinutes');
+
+  // Preview the next runs of the schedule as it is being edited
+  const schedulePreview = useMemo(() => {
+    const scheduleConfig = toScheduleConfig(scheduleValues);
+    const error = validateScheduleConfig(scheduleConfig);
+    if (error) return { error, runs: [] };
+
+    return { error: null, runs: getUpcomingRuns(scheduleConfig, frequencyMinutes || 30, PREVIEW_RUNS) };
+  }, [scheduleValues, frequencyMinutes]);
+
+  const previewFormatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: resolveTimeZone(scheduleValues.timezone),
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+  const handleSubmit = (data: SchedulerFormValues) => {
+    const scheduleConfig = toScheduleConfig(data.scheduleConfig);
+    const error = validateScheduleConfig(scheduleConfig);
+
+    if (error) {
+      form.setError('scheduleConfig.mode', { message: error });
+      return;
+    }
+
     onSubmit({
       ...data,
+      scheduleConfig,
       clubs: selectedClubs,
     });
   };
@@ -236,20 +382,20 @@ export function SchedulerForm({ scheduler, onSubmit, onCancel, isLoading = false
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
-                name="scheduleConfig.startHour"
+                name="scheduleConfig.mode"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Start Hour</FormLabel>
-                    <Select onValueChange={(value) => field.onChange(parseInt(value))}>
+                    <FormLabel>Schedule Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select start hour" />
+                          <SelectValue placeholder="Select schedule type" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {Array.from({ length: 24 }, (_, i) => (
-                          <SelectItem key={i} value={i.toString()}>
-                            {i.toString().padStart(2, '0')}:00
+                        {scheduleModes.map((mode) => (
+                          <SelectItem key={mode.value} value={mode.value}>
+                            {mode.label}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -261,20 +407,20 @@ export function SchedulerForm({ scheduler, onSubmit, onCancel, isLoading = false
 
               <FormField
                 control={form.control}
-                name="scheduleConfig.endHour"
+                name="scheduleConfig.timezone"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>End Hour</FormLabel>
-                    <Select onValueChange={(value) => field.onChange(parseInt(value))}>
+                    <FormLabel>Timezone</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select end hour" />
+                          <SelectValue placeholder="Select timezone" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {Array.from({ length: 24 }, (_, i) => (
-                          <SelectItem key={i} value={i.toString()}>
-                            {i.toString().padStart(2, '0')}:00
+                        {timezones.map((tz) => (
+                          <SelectItem key={tz.value} value={tz.value}>
+                            {tz.label}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -285,72 +431,152 @@ export function SchedulerForm({ scheduler, onSubmit, onCancel, isLoading = false
               />
             </div>
 
-            <FormField
-              control={form.control}
-              name="scheduleConfig.timezone"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Timezone</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+            {scheduleValues.mode === 'window' && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="scheduleConfig.startTime"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Start Time</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="scheduleConfig.endTime"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>End Time</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormDescription>
+                  If the end time is at or before the start time, the window runs past midnight into the next day.
+                </FormDescription>
+
+                <FormField
+                  control={form.control}
+                  name="scheduleConfig.daysOfWeek"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Days of Week</FormLabel>
+                      <FormDescription>
+                        Select the days when this scheduler should run
+                      </FormDescription>
+                      <div className="grid grid-cols-4 gap-2">
+                        {daysOfWeek.map((day) => (
+                          <FormField
+                            key={day.value}
+                            control={form.control}
+                            name="scheduleConfig.daysOfWeek"
+                            render={() => (
+                              <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                                <FormControl>
+                                  <Checkbox
+                                    checked={field.value.includes(day.value)}
+                                    onCheckedChange={(checked: boolean) => {
+                                      if (checked) {
+                                        field.onChange([...field.value, day.value]);
+                                      } else {
+                                        field.onChange(field.value.filter((value: number) => value !== day.value));
+                                      }
+                                    }}
+                                  />
+                                </FormControl>
+                                <FormLabel className="text-sm font-normal">
+                                  {day.label}
+                                </FormLabel>
+                              </FormItem>
+                            )}
+                          />
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            {scheduleValues.mode === 'cron' && (
+              <FormField
+                control={form.control}
+                name="scheduleConfig.cronExpression"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cron Expression</FormLabel>
                     <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select timezone" />
-                      </SelectTrigger>
+                      <Input placeholder="*/10 20-22 * * TUE,WED" {...field} />
                     </FormControl>
-                    <SelectContent>
-                      {timezones.map((tz) => (
-                        <SelectItem key={tz.value} value={tz.value}>
-                          {tz.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+                    <FormDescription>
+                      Five fields: minute, hour, day of month, month and day of week, evaluated in the selected timezone.
+                      The collection frequency is ignored in this mode.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
 
-            <FormField
-              control={form.control}
-              name="scheduleConfig.daysOfWeek"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Days of Week</FormLabel>
-                  <FormDescription>
-                    Select the days when this scheduler should run
-                  </FormDescription>
-                  <div className="grid grid-cols-4 gap-2">
-                    {daysOfWeek.map((day) => (
-                      <FormField
-                        key={day.value}
-                        control={form.control}
-                        name="scheduleConfig.daysOfWeek"
-                        render={() => (
-                          <FormItem className="flex flex-row items-start space-x-3 space-y-0">
-                            <FormControl>
-                              <Checkbox
-                                checked={field.value.includes(day.value)}
-                                onCheckedChange={(checked: boolean) => {
-                                  if (checked) {
-                                    field.onChange([...field.value, day.value]);
-                                  } else {
-                                    field.onChange(field.value.filter((value: number) => value !== day.value));
-                                  }
-                                }}
-                              />
-                            </FormControl>
-                            <FormLabel className="text-sm font-normal">
-                              {day.label}
-                            </FormLabel>
-                          </FormItem>
-                        )}
-                      />
-                    ))}
-                  </div>
-                  <FormMessage />
-                </FormItem>
+            {scheduleValues.mode === 'once' && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="scheduleConfig.startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Start</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="scheduleConfig.endDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>End</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <div className="rounded-md border p-4">
+              <h4 className="text-sm font-medium mb-2">Next Runs</h4>
+              {schedulePreview.error ? (
+                <p className="text-sm text-red-600">{schedulePreview.error}</p>
+              ) : schedulePreview.runs.length === 0 ? (
+                <p className="text-sm text-muted-foreground">This schedule has no upcoming runs</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {schedulePreview.runs.map((run) => (
+                    <li key={run.getTime()}>{previewFormatter.format(run)}</li>
+                  ))}
+                </ul>
               )}
-            />
+            </div>
           </CardContent>
         </Card>
 
@@ -482,12 +708,66 @@ export function SchedulerForm({ scheduler, onSubmit, onCancel, isLoading = false
           </CardContent>
         </Card>
 
+        {/* Season Targets */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Season Targets</CardTitle>
+            <CardDescription>
+              Collect for the clubs of these seasons, synced at every run until each season ends
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {leagues.length === 0 ? (
+              <p>No leagues available.</p>
+            ) : (
+              <div className="max-h-60 overflow-y-auto space-y-3 border rounded-md p-2">
+                {leagues.map((league) => {
+                  const leagueId = league._id?.toString() || '';
+                  const wholeLeague = selectedLeagues.includes(leagueId);
+
+                  return (
+                    <div key={leagueId} className="space-y-1">
+                      <div className="flex items-center space-x-2 p-1">
+                        <Checkbox
+                          checked={wholeLeague}
+                          onCheckedChange={() => toggleTarget('leagueIds', leagueId)}
+                        />
+                        <p className="font-medium">{league.name}</p>
+                        <Badge variant="outline">All active seasons</Badge>
+                      </div>
+                      {league.seasons.map((season) => {
+                        const seasonId = season._id?.toString() || '';
+                        const hasEnded = !!season.endDate && new Date(season.endDate) <= new Date();
+
+                        return (
+                          <div key={seasonId} className="flex items-center space-x-2 pl-8 py-1">
+                            <Checkbox
+                              checked={wholeLeague || selectedSeasons.includes(seasonId)}
+                              disabled={wholeLeague}
+                              onCheckedChange={() => toggleTarget('seasonIds', seasonId)}
+                            />
+                            <span className="text-sm">{season.name}</span>
+                            <span className="text-sm text-muted-foreground">
+                              {season.clubs.length} clubs
+                            </span>
+                            {hasEnded && <Badge variant="secondary">Ended</Badge>}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Club Selection */}
         <Card>
           <CardHeader>
             <CardTitle>Club Selection</CardTitle>
             <CardDescription>
-              Select the clubs to monitor for data collection
+              Select additional clubs to monitor for data collection
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -78,11 +78,11 @@ export function SchedulerList({
   };
 
   const getExecutionStatus = (scheduler: IScheduler) => {
-    if (!scheduler.executionHistory || scheduler.executionHistory.length === 0) {
+    const lastExecution = scheduler.lastExecution;
+
+    if (!lastExecution) {
       return { status: 'info', message: 'No execution history' };
     }
-
-    const lastExecution = scheduler.executionHistory[0];
     
     switch (lastExecution.status) {
       case 'success':
@@ -196,12 +196,16 @@ export function SchedulerManagementClient({ initialSchedulers = [] }: SchedulerM
         method: 'POST',
       });
       
+      if (response.status === 409) {
+        alert('This scheduler is already running. Wait for the current run to finish and try again.');
+        return;
+      }
+      
       if (!response.ok) {
         throw new Error('Failed to run scheduler');
       }
       
-      const result = await response.json();
-      alert(`Scheduler executed successfully:\nMatches collected: ${result.matchesCollected}\nClubs processed: ${result.clubsProcessed}`);
+      alert('Scheduler run queued. Follow its progress under Live Activity in the scheduler details.');
       
       // Refresh schedulers to get updated execution history
       await fetchSchedulers();
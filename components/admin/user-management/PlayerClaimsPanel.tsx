@@ -0,0 +1,130 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Check, X } from "lucide-react"
+import { format } from "date-fns"
+import {
+  approvePlayerClaim,
+  rejectPlayerClaim,
+  getPlayerClaims,
+  PlayerClaimData,
+} from "@/lib/actions/playerClaim.actions"
+
+interface PlayerClaimsPanelProps {
+  initialClaims: PlayerClaimData[]
+}
+
+export default function PlayerClaimsPanel({ initialClaims }: PlayerClaimsPanelProps) {
+  const [claims, setClaims] = useState(initialClaims)
+  const [processingId, setProcessingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const refreshClaims = async () => {
+    const result = await getPlayerClaims("pending")
+    if (result.success) {
+      setClaims(result.claims || [])
+    }
+  }
+
+  const handleReview = async (claim: PlayerClaimData, approve: boolean) => {
+    setProcessingId(claim.id)
+    setError(null)
+    try {
+      const result = approve
+        ? await approvePlayerClaim(claim.id)
+        : await rejectPlayerClaim(claim.id)
+
+      if (!result.success) {
+        setError(result.error || "Failed to review claim")
+      }
+      await refreshClaims()
+    } catch {
+      setError("An unexpected error occurred")
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Player Claims</CardTitle>
+        <CardDescription>
+          Users requesting to link their account to an EA player profile
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="mb-4 text-sm text-red-500">{error}</p>}
+        {claims.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No pending claims</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="h-12 px-4 text-left align-middle font-medium">User</th>
+                  <th className="h-12 px-4 text-left align-middle font-medium">Gamertag</th>
+                  <th className="h-12 px-4 text-left align-middle font-medium">Player</th>
+                  <th className="h-12 px-4 text-left align-middle font-medium">Requested</th>
+                  <th className="h-12 px-4 text-right align-middle font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {claims.map((claim) => (
+                  <tr
+                    key={claim.id}
+                    className="border-b transition-colors hover:bg-muted/50"
+                  >
+                    <td className="p-4 align-middle">
+                      <div className="font-medium">{claim.userName || "N/A"}</div>
+                      <div className="text-xs text-muted-foreground">{claim.userEmail}</div>
+                    </td>
+                    <td className="p-4 align-middle text-sm">{claim.gamertag}</td>
+                    <td className="p-4 align-middle text-sm">
+                      <Link href={`/players/${claim.playerId}`} className="underline">
+                        {claim.playerName}
+                      </Link>
+                    </td>
+                    <td className="p-4 align-middle text-sm text-muted-foreground">
+                      {format(new Date(claim.createdAt), "MMM d, yyyy")}
+                    </td>
+                    <td className="p-4 align-middle text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleReview(claim, true)}
+                          disabled={processingId === claim.id}
+                        >
+                          <Check className="h-4 w-4" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleReview(claim, false)}
+                          disabled={processingId === claim.id}
+                        >
+                          <X className="h-4 w-4" />
+                          Reject
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
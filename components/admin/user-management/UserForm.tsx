@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
 import {
   Select,
   SelectContent,
@@ -20,6 +21,16 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { UserData, checkEmailAvailability, checkGamertagAvailability } from "@/lib/actions/user.actions"
+import { getLeagues } from "@/lib/actions/league.actions"
+import { getClubs } from "@/lib/actions/club.actions"
+import { SCOPED_ROLES } from "@/lib/config/permissions"
+import type { IRoleAssignment, ScopedRole } from "@/lib/models/user.model"
+
+// Leagues and clubs offered as role scopes
+interface ScopeOption {
+  id: string
+  name: string
+}
 
 interface UserFormProps {
   open: boolean
@@ -30,6 +41,7 @@ interface UserFormProps {
     email: string
     password?: string 
     role: "admin" | "user"
+    roleAssignments: IRoleAssignment[]
     gamertag: string
   }) => Promise<{ success: boolean; error?: string } | void>
   isLoading?: boolean
@@ -48,8 +60,11 @@ export default function UserForm({
     email: "",
     password: "",
     role: "user" as "admin" | "user",
+    roleAssignments: [] as IRoleAssignment[],
     gamertag: "",
   })
+  const [leagueOptions, setLeagueOptions] = useState<ScopeOption[]>([])
+  const [clubOptions, setClubOptions] = useState<ScopeOption[]>([])
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [isValidatingEmail, setIsValidatingEmail] = useState(false)
   const [isValidatingGamertag, setIsValidatingGamertag] = useState(false)
@@ -63,6 +78,7 @@ export default function UserForm({
         email: user.email || "",
         password: "",
         role: user.role || "user",
+        roleAssignments: user.roleAssignments || [],
         gamertag: user.gamertag || "",
       })
     } else {
@@ -71,6 +87,7 @@ export default function UserForm({
         email: "",
         password: "",
         role: "user",
+        roleAssignments: [],
         gamertag: "",
       })
     }
@@ -88,6 +105,64 @@ export default function UserForm({
     }
   }, [user, open])
 
+  // Load the leagues and clubs scoped roles can be limited to
+  useEffect(() => {
+    if (!open) return
+
+    const fetchScopeOptions = async () => {
+      try {
+        const [leaguesResult, clubsResult] = await Promise.all([
+          getLeagues(1, 100), // Get up to 100 leagues
+          getClubs(1, 100), // Get up to 100 clubs
+        ])
+        setLeagueOptions(
+          (leaguesResult.leagues || []).map((league: { _id: string; name: string }) => ({
+            id: league._id,
+            name: league.name,
+          }))
+        )
+        setClubOptions(
+          (clubsResult.clubs || []).map((club: { clubId: string; name: string }) => ({
+            id: club.clubId,
+            name: club.name,
+          }))
+        )
+      } catch (error) {
+        console.error("Failed to fetch role scopes:", error)
+      }
+    }
+
+    fetchScopeOptions()
+  }, [open])
+
+  const getAssignment = (role: ScopedRole) =>
+    formData.roleAssignments.find((assignment) => assignment.role === role)
+
+  const toggleRole = (role: ScopedRole) => {
+    setFormData((prev) => ({
+      ...prev,
+      roleAssignments: prev.roleAssignments.some((assignment) => assignment.role === role)
+        ? prev.roleAssignments.filter((assignment) => assignment.role !== role)
+        : [...prev.roleAssignments, { role, leagueIds: [], clubIds: [] }],
+    }))
+  }
+
+  const toggleScope = (role: ScopedRole, field: "leagueIds" | "clubIds", id: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      roleAssignments: prev.roleAssignments.map((assignment) =>
+        assignment.role !== role
+          ? assignment
+          : {
+              ...assignment,
+              [field]: assignment[field].includes(id)
+                ? assignment[field].filter((scopeId) => scopeId !== id)
+                : [...assignment[field], id],
+            }
+      ),
+    }))
+  }
+
   // Debounced email validation
   const validateEmail = useCallback(async (email: string) => {
     // Clear previous timeout
@@ -209,6 +284,15 @@ export default function UserForm({
       newErrors.gamertag = "Gamertag is required"
     }
 
+    for (const scopedRole of SCOPED_ROLES) {
+      const assignment = getAssignment(scopedRole.value)
+      if (!assignment || !scopedRole.scope) continue
+      const scopeIds = scopedRole.scope === "leagues" ? assignment.leagueIds : assignment.clubIds
+      if (scopeIds.length === 0) {
+        newErrors.roleAssignments = `Choose at least one ${scopedRole.scope === "leagues" ? "league" : "club"} for ${scopedRole.label}`
+      }
+    }
+
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
@@ -226,6 +310,7 @@ export default function UserForm({
         email: formData.email.trim(),
         ...(isEditMode ? {} : { password: formData.password }),
         role: formData.role,
+        roleAssignments: formData.roleAssignments,
         gamertag: formData.gamertag.trim(),
       })
       
@@ -238,6 +323,8 @@ export default function UserForm({
           setErrors((prev) => ({ ...prev, email: errorMessage }))
         } else if (lowerError.includes('gamertag')) {
           setErrors((prev) => ({ ...prev, gamertag: errorMessage }))
+        } else if (lowerError.includes('role') || lowerError.includes('needs at least one')) {
+          setErrors((prev) => ({ ...prev, roleAssignments: errorMessage }))
         } else {
           // Generic error - show as email error for now
           setErrors((prev) => ({ ...prev, email: errorMessage }))
@@ -253,7 +340,7 @@ export default function UserForm({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{isEditMode ? "Edit User" : "Create New User"}</DialogTitle>
           <DialogDescription>
@@ -381,6 +468,60 @@ export default function UserForm({
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="grid gap-2">
+              <Label>Scoped Roles</Label>
+              <p className="text-sm text-muted-foreground">
+                {formData.role === "admin"
+                  ? "Admins already hold every permission; scoped roles apply if the user stops being an admin."
+                  : "Give access to parts of the admin panel, limited to the chosen leagues or clubs."}
+              </p>
+              {SCOPED_ROLES.map((scopedRole) => {
+                const assignment = getAssignment(scopedRole.value)
+                const options = scopedRole.scope === "leagues" ? leagueOptions : clubOptions
+                const field = scopedRole.scope === "leagues" ? "leagueIds" : "clubIds"
+                return (
+                  <div key={scopedRole.value} className="border rounded-md p-3 space-y-2">
+                    <div className="flex items-start space-x-2">
+                      <Checkbox
+                        id={`role-${scopedRole.value}`}
+                        checked={!!assignment}
+                        onCheckedChange={() => toggleRole(scopedRole.value)}
+                      />
+                      <div>
+                        <Label htmlFor={`role-${scopedRole.value}`}>{scopedRole.label}</Label>
+                        <p className="text-xs text-muted-foreground">{scopedRole.description}</p>
+                      </div>
+                    </div>
+                    {assignment && scopedRole.scope && (
+                      <div className="max-h-40 overflow-y-auto space-y-1 border rounded-md p-2">
+                        {options.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">
+                            No {scopedRole.scope} available
+                          </p>
+                        ) : (
+                          options.map((option) => (
+                            <div key={option.id} className="flex items-center space-x-2">
+                              <Checkbox
+                                id={`${scopedRole.value}-${option.id}`}
+                                checked={assignment[field].includes(option.id)}
+                                onCheckedChange={() => toggleScope(scopedRole.value, field, option.id)}
+                              />
+                              <Label htmlFor={`${scopedRole.value}-${option.id}`} className="font-normal">
+                                {option.name}
+                              </Label>
+                            </div>
+                          ))
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+              {errors.roleAssignments && (
+                <p className="text-sm text-destructive">{errors.roleAssignments}</p>
+              )}
+            </div>
           </div>
           <DialogFooter>
             <Button
@@ -12,6 +12,7 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
 import { UserData } from "@/lib/actions/user.actions"
+import { SCOPED_ROLES } from "@/lib/config/permissions"
 import UserActions from "./UserActions"
 import { ChevronLeft, ChevronRight, ArrowUpDown, ArrowUp, ArrowDown } from "lucide-react"
 import { format } from "date-fns"
@@ -158,11 +159,18 @@ export default function UserTable({
                     <div className="text-sm">{user.email}</div>
                   </td>
                   <td className="p-4 align-middle">
-                    <Badge
-                      variant={user.role === "admin" ? "default" : "secondary"}
-                    >
-                      {user.role === "admin" ? "Admin" : "User"}
-                    </Badge>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge
+                        variant={user.role === "admin" ? "default" : "secondary"}
+                      >
+                        {user.role === "admin" ? "Admin" : "User"}
+                      </Badge>
+                      {user.roleAssignments?.map((assignment) => (
+                        <Badge key={assignment.role} variant="outline">
+                          {SCOPED_ROLES.find((role) => role.value === assignment.role)?.label}
+                        </Badge>
+                      ))}
+                    </div>
                   </td>
                   <td className="p-4 align-middle">
                     <div className="text-sm">
@@ -24,6 +24,7 @@ import {
   UserData,
   getUsers,
 } from "@/lib/actions/user.actions"
+import type { IRoleAssignment } from "@/lib/models/user.model"
 
 interface UsersManagementClientProps {
   initialUsers: UserData[]
@@ -244,6 +245,7 @@ export default function UsersManagementClient({
     email: string
     password?: string
     role: "admin" | "user"
+    roleAssignments: IRoleAssignment[]
     gamertag: string
   }): Promise<{ success: boolean; error?: string }> => {
     setIsFormLoading(true)
@@ -263,6 +265,7 @@ export default function UsersManagementClient({
           name: data.name,
           email: data.email,
           role: data.role,
+          roleAssignments: data.roleAssignments,
           gamertag: data.gamertag, 
         })
       } else {
@@ -280,6 +283,7 @@ export default function UsersManagementClient({
           email: data.email,
           password: data.password,
           role: data.role,
+          roleAssignments: data.roleAssignments,
           gamertag: data.gamertag.trim(),
         })
       }
@@ -0,0 +1,108 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  requestPlayerClaim,
+  ClaimablePlayer,
+  PlayerClaimData,
+} from "@/lib/actions/playerClaim.actions"
+
+interface ClaimPlayerPanelProps {
+  gamertag?: string
+  players: ClaimablePlayer[]
+  claims: PlayerClaimData[]
+}
+
+/**
+ * Lets a signed-in user request to link their account to an EA player
+ * whose name matches their gamertag, and shows the status of past claims
+ */
+const ClaimPlayerPanel = ({ gamertag, players, claims }: ClaimPlayerPanelProps) => {
+  const router = useRouter()
+  const [claimingId, setClaimingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const pendingPlayerIds = new Set(
+    claims.filter((claim) => claim.status === "pending").map((claim) => claim.playerId)
+  )
+
+  const handleClaim = async (playerId: string) => {
+    setClaimingId(playerId)
+    setError(null)
+    try {
+      const result = await requestPlayerClaim(playerId)
+      if (!result.success) {
+        setError(result.error || "Failed to request claim")
+        return
+      }
+      router.refresh()
+    } catch {
+      setError("An unexpected error occurred")
+    } finally {
+      setClaimingId(null)
+    }
+  }
+
+  return (
+    <div className="w-full max-w-2xl space-y-6 rounded-lg border border-slate-800 p-6">
+      <div>
+        <h2 className="text-xl font-semibold">Claim your player profile</h2>
+        <p className="text-sm text-slate-400">
+          Link your account to the EA player matching your gamertag
+          {gamertag ? ` (${gamertag})` : ""} to unlock your personal stats.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {players.length === 0 ? (
+        <p className="text-sm text-slate-400">
+          No player matching your gamertag has been recorded yet. Players appear
+          once a match they played in has been collected.
+        </p>
+      ) : (
+        <ul className="divide-y divide-slate-800">
+          {players.map((player) => (
+            <li key={player.playerId} className="flex items-center justify-between py-3">
+              <div>
+                <p className="font-medium">{player.playerName}</p>
+                <p className="text-xs text-slate-400">
+                  <span className="capitalize">{player.position}</span> · {player.clientPlatform} · {player.totalMatches} games
+                </p>
+              </div>
+              {pendingPlayerIds.has(player.playerId) ? (
+                <Badge variant="secondary">Pending review</Badge>
+              ) : (
+                <Button
+                  size="sm"
+                  onClick={() => handleClaim(player.playerId)}
+                  disabled={claimingId !== null}
+                >
+                  {claimingId === player.playerId ? "Requesting..." : "Claim"}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {claims.some((claim) => claim.status === "rejected") && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium">Rejected claims</p>
+          {claims
+            .filter((claim) => claim.status === "rejected")
+            .map((claim) => (
+              <p key={claim.id} className="text-xs text-slate-400">
+                {claim.playerName}{claim.note ? ` — ${claim.note}` : ""}
+              </p>
+            ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ClaimPlayerPanel
@@ -0,0 +1,64 @@
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { PlayerSplitsTable, PlayerSplit } from "@/components/players/PlayerSplitsTable"
+import { PlayerGameLog } from "@/components/players/PlayerGameLog"
+import { IPlayer } from "@/lib/models/player.model"
+import { summarizePlayerStats } from "@/lib/utils/playerStats"
+
+interface PlayerDashboardProps {
+  player: IPlayer
+  seasonSplits: (PlayerSplit & { seasonName: string })[]
+}
+
+/**
+ * Personal stats dashboard for a user linked to an EA player
+ */
+const PlayerDashboard = ({ player, seasonSplits }: PlayerDashboardProps) => {
+  const history = player.matchHistory || []
+  const splits: PlayerSplit[] = [
+    { label: "Career", ...summarizePlayerStats(history.map((entry) => entry.stats)) },
+    ...seasonSplits.map((split) => ({ ...split, label: split.seasonName })),
+  ]
+  const recentGames = [...history]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, 5)
+  const defaultView = player.position?.toLowerCase() === "goalie" ? "goalie" : "skater"
+
+  return (
+    <div className="w-full max-w-5xl space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">{player.playerName}</h2>
+          <div className="mt-2 flex gap-2">
+            <Badge variant="secondary" className="capitalize">{player.position}</Badge>
+            <Badge variant="outline" className="text-slate-300">{player.clientPlatform}</Badge>
+          </div>
+        </div>
+        <Link href={`/players/${player.playerId}`} className="text-sm text-slate-400 hover:text-white">
+          Public profile →
+        </Link>
+      </div>
+
+      <Tabs defaultValue={defaultView}>
+        <TabsList>
+          <TabsTrigger value="skater">Skater</TabsTrigger>
+          <TabsTrigger value="goalie">Goalie</TabsTrigger>
+        </TabsList>
+        <TabsContent value="skater">
+          <PlayerSplitsTable splits={splits} mode="skater" />
+        </TabsContent>
+        <TabsContent value="goalie">
+          <PlayerSplitsTable splits={splits} mode="goalie" />
+        </TabsContent>
+      </Tabs>
+
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold">Recent Games</h3>
+        <PlayerGameLog games={recentGames} />
+      </div>
+    </div>
+  )
+}
+
+export default PlayerDashboard
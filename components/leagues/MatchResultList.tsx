@@ -0,0 +1,55 @@
+/**
+ * Match Result List Component
+ * 
+ * This component renders a compact list of final scores, showing both
+ * clubs of each match with their score and the date the game was played.
+ * Each score links to the match's box score.
+ */
+
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { IClubStats } from '@/lib/models/match.model';
+
+interface MatchResult {
+  matchId: string;
+  timestamp: number;
+  clubs: Record<string, IClubStats>;
+}
+
+interface MatchResultListProps {
+  matches: MatchResult[];
+}
+
+export function MatchResultList({ matches }: MatchResultListProps) {
+  if (!matches.length) {
+    return (
+      <p className="text-sm text-slate-400">No results recorded yet.</p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-slate-800 rounded-lg border border-slate-800">
+      {matches.map((match) => {
+        const [home, away] = Object.entries(match.clubs);
+
+        return (
+          <li key={match.matchId} className="flex items-center justify-between px-4 py-3 text-sm">
+            <div className="flex flex-1 items-center gap-3">
+              <span className="flex-1 text-right font-medium">{home?.[1].details?.name || home?.[0]}</span>
+              <Link
+                href={`/matches/${match.matchId}`}
+                className="rounded bg-slate-800 px-2 py-1 font-mono font-bold hover:bg-slate-700"
+              >
+                {home?.[1].score ?? '-'} - {away?.[1].score ?? '-'}
+              </Link>
+              <span className="flex-1 font-medium">{away?.[1].details?.name || away?.[0]}</span>
+            </div>
+            <span className="ml-4 text-xs text-slate-400">
+              {format(new Date(match.timestamp * 1000), 'PP')}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
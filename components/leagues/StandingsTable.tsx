@@ -0,0 +1,65 @@
+/**
+ * Standings Table Component
+ * 
+ * This component renders a season's standings table with one row per club,
+ * ranked by points, including record, goals, streak and last-10 columns.
+ */
+
+import { IStandingsRow } from '@/lib/services/standingsService';
+
+interface StandingsTableProps {
+  standings: IStandingsRow[];
+}
+
+export function StandingsTable({ standings }: StandingsTableProps) {
+  if (!standings.length) {
+    return (
+      <p className="text-sm text-slate-400">No clubs in this season yet.</p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-slate-800">
+      <table className="w-full text-sm">
+        <thead className="bg-slate-900 text-slate-400">
+          <tr>
+            <th className="px-3 py-2 text-left">#</th>
+            <th className="px-3 py-2 text-left">Club</th>
+            <th className="px-3 py-2 text-right">GP</th>
+            <th className="px-3 py-2 text-right">W</th>
+            <th className="px-3 py-2 text-right">L</th>
+            <th className="px-3 py-2 text-right">OTL</th>
+            <th className="px-3 py-2 text-right">PTS</th>
+            <th className="px-3 py-2 text-right">GF</th>
+            <th className="px-3 py-2 text-right">GA</th>
+            <th className="px-3 py-2 text-right">DIFF</th>
+            <th className="px-3 py-2 text-right">STRK</th>
+            <th className="px-3 py-2 text-right">L10</th>
+          </tr>
+        </thead>
+        <tbody>
+          {standings.map((row) => (
+            <tr key={row.clubId} className="border-t border-slate-800">
+              <td className="px-3 py-2 text-slate-400">{row.rank}</td>
+              <td className="px-3 py-2 font-medium">{row.clubName}</td>
+              <td className="px-3 py-2 text-right">{row.gamesPlayed}</td>
+              <td className="px-3 py-2 text-right">{row.wins}</td>
+              <td className="px-3 py-2 text-right">{row.losses}</td>
+              <td className="px-3 py-2 text-right">{row.otLosses}</td>
+              <td className="px-3 py-2 text-right font-bold">{row.points}</td>
+              <td className="px-3 py-2 text-right">{row.goalsFor}</td>
+              <td className="px-3 py-2 text-right">{row.goalsAgainst}</td>
+              <td className={`px-3 py-2 text-right ${
+                row.goalDifferential > 0 ? 'text-green-500' : row.goalDifferential < 0 ? 'text-red-500' : ''
+              }`}>
+                {row.goalDifferential > 0 ? `+${row.goalDifferential}` : row.goalDifferential}
+              </td>
+              <td className="px-3 py-2 text-right">{row.streak}</td>
+              <td className="px-3 py-2 text-right">{row.lastTen}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
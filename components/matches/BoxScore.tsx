@@ -0,0 +1,263 @@
+/**
+ * Box Score Component
+ *
+ * This component renders the full box score of a stored match: the final
+ * score of both clubs, their team stats as reported by EA next to the
+ * totals of their players, and every player's stat line, split into
+ * skaters and goalies. Colors come from the theme so the component fits
+ * both the admin area and the dark public pages.
+ */
+
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { EA_MATCH_TYPES } from '@/lib/config/eaApi';
+import { IAggregateStats, IClubStats, IPlayerStats } from '@/lib/models/match.model';
+import { getMatchOutcome, MatchOutcome } from '@/lib/utils/matchResults';
+import { isGoalieLine, statToNumber } from '@/lib/utils/playerStats';
+
+export interface BoxScoreMatch {
+  matchId: string;
+  timestamp: number;
+  matchType?: string;
+  clubs: Record<string, IClubStats>;
+  players: Record<string, Record<string, IPlayerStats>>;
+  aggregate: Record<string, IAggregateStats>;
+}
+
+interface BoxScoreProps {
+  match: BoxScoreMatch;
+}
+
+// One row of the team stats table
+interface TeamStatRow {
+  label: string;
+  value: (club: IClubStats | undefined, totals: IAggregateStats | undefined) => string | number;
+}
+
+const outcomeVariants: Record<MatchOutcome, 'default' | 'secondary' | 'destructive'> = {
+  W: 'default',
+  L: 'destructive',
+  OTL: 'secondary',
+};
+
+// Helper function to show an outcome; results with an unknown EA code show as "?"
+const getOutcomeBadge = (outcome: MatchOutcome | null) => ({
+  label: outcome ?? '?',
+  variant: outcome ? outcomeVariants[outcome] : 'outline' as const,
+});
+
+const positionLabels: Record<string, string> = {
+  center: 'C',
+  leftWing: 'LW',
+  rightWing: 'RW',
+  defenseMen: 'D',
+  goalie: 'G',
+};
+
+// Helper function to show a number of seconds as m:ss
+const formatSeconds = (value: string | number | undefined) => {
+  const seconds = statToNumber(value);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Helper function to show a made/attempted pair with its percentage
+const formatRatio = (made: string | number | undefined, attempted: string | number | undefined) => {
+  const total = statToNumber(attempted);
+  const percentage = total > 0 ? ` (${Math.round((statToNumber(made) / total) * 100)}%)` : '';
+  return `${statToNumber(made)}/${total}${percentage}`;
+};
+
+// Stats EA reports for each club
+const clubStatRows: TeamStatRow[] = [
+  { label: 'Shots', value: (club) => statToNumber(club?.shots) },
+  { label: 'Power Play', value: (club) => `${statToNumber(club?.ppg)}/${statToNumber(club?.ppo)}` },
+  { label: 'Passing', value: (club) => formatRatio(club?.passc, club?.passa) },
+  { label: 'Time on Attack', value: (club) => formatSeconds(club?.toa) },
+];
+
+// Totals of each club's player stats; EA sums every field, so only counts are shown
+const aggregateStatRows: TeamStatRow[] = [
+  { label: 'Goals', value: (_, totals) => totals?.skgoals ?? 0 },
+  { label: 'Assists', value: (_, totals) => totals?.skassists ?? 0 },
+  { label: 'Hits', value: (_, totals) => totals?.skhits ?? 0 },
+  { label: 'Faceoffs', value: (_, totals) => formatRatio(totals?.skfow, (totals?.skfow ?? 0) + (totals?.skfol ?? 0)) },
+  { label: 'Penalty Minutes', value: (_, totals) => totals?.skpim ?? 0 },
+  { label: 'Blocked Shots', value: (_, totals) => totals?.skbs ?? 0 },
+  { label: 'Takeaways', value: (_, totals) => totals?.sktakeaways ?? 0 },
+  { label: 'Giveaways', value: (_, totals) => totals?.skgiveaways ?? 0 },
+  { label: 'Interceptions', value: (_, totals) => totals?.skinterceptions ?? 0 },
+  { label: 'Saves', value: (_, totals) => formatRatio(totals?.glsaves, totals?.glshots) },
+];
+
+export function BoxScore({ match }: BoxScoreProps) {
+  const clubs = Object.entries(match.clubs);
+  const matchTypeLabel = EA_MATCH_TYPES.find((type) => type.value === match.matchType)?.label;
+
+  return (
+    <div className="space-y-8">
+      {/* Final score */}
+      <div className="rounded-lg border p-6">
+        <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-4">
+          {clubs.map(([clubId, club], index) => {
+            const outcome = getOutcomeBadge(getMatchOutcome(club.result));
+            return (
+              <div
+                key={clubId}
+                className={`flex flex-col gap-2 ${index === 0 ? 'items-end text-right order-1' : 'items-start order-3'}`}
+              >
+                <span className="text-xl font-bold">{club.details?.name || clubId}</span>
+                <Badge variant={outcome.variant}>{outcome.label}</Badge>
+              </div>
+            );
+          })}
+          <span className="order-2 rounded bg-muted px-4 py-2 font-mono text-3xl font-bold">
+            {clubs[0]?.[1].score ?? '-'} - {clubs[1]?.[1].score ?? '-'}
+          </span>
+        </div>
+        <p className="mt-4 text-center text-sm text-muted-foreground">
+          {format(new Date(match.timestamp * 1000), 'PPp')}
+          {matchTypeLabel && ` • ${matchTypeLabel}`}
+          {` • Match ${match.matchId}`}
+        </p>
+      </div>
+
+      {/* Team stats */}
+      <section className="space-y-3">
+        <h2 className="text-xl font-semibold">Team Stats</h2>
+        <div className="overflow-x-auto rounded-lg border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50 text-muted-foreground">
+              <tr>
+                <th className="px-3 py-2 text-left">Stat</th>
+                {clubs.map(([clubId, club]) => (
+                  <th key={clubId} className="px-3 py-2 text-right">{club.details?.name || clubId}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {[...clubStatRows, ...aggregateStatRows].map((row) => (
+                <tr key={row.label} className="border-t">
+                  <td className="px-3 py-2">{row.label}</td>
+                  {clubs.map(([clubId, club]) => (
+                    <td key={clubId} className="px-3 py-2 text-right font-mono">
+                      {row.value(club, match.aggregate?.[clubId])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {/* Player lines per club */}
+      {clubs.map(([clubId, club]) => {
+        const lines = Object.entries(match.players?.[clubId] || {})
+          .sort(([, a], [, b]) => statToNumber(a.posSorted) - statToNumber(b.posSorted));
+        const skaters = lines.filter(([, stats]) => !isGoalieLine(stats));
+        const goalies = lines.filter(([, stats]) => isGoalieLine(stats));
+
+        return (
+          <section key={clubId} className="space-y-3">
+            <h2 className="text-xl font-semibold">{club.details?.name || clubId}</h2>
+
+            {lines.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No player stats recorded.</p>
+            ) : (
+              <>
+                {skaters.length > 0 && (
+                  <div className="overflow-x-auto rounded-lg border">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted/50 text-muted-foreground">
+                        <tr>
+                          <th className="px-3 py-2 text-left">Skater</th>
+                          <th className="px-3 py-2 text-left">Pos</th>
+                          <th className="px-3 py-2 text-right">G</th>
+                          <th className="px-3 py-2 text-right">A</th>
+                          <th className="px-3 py-2 text-right">P</th>
+                          <th className="px-3 py-2 text-right">+/-</th>
+                          <th className="px-3 py-2 text-right">S</th>
+                          <th className="px-3 py-2 text-right">HITS</th>
+                          <th className="px-3 py-2 text-right">PIM</th>
+                          <th className="px-3 py-2 text-right">FO</th>
+                          <th className="px-3 py-2 text-right">TK</th>
+                          <th className="px-3 py-2 text-right">GV</th>
+                          <th className="px-3 py-2 text-right">BS</th>
+                          <th className="px-3 py-2 text-right">TOI</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {skaters.map(([playerId, stats]) => (
+                          <tr key={playerId} className="border-t">
+                            <td className="px-3 py-2 font-medium">
+                              <Link href={`/players/${playerId}`} className="hover:underline">
+                                {stats.playername || playerId}
+                              </Link>
+                            </td>
+                            <td className="px-3 py-2">{positionLabels[stats.position] || stats.position}</td>
+                            <td className="px-3 py-2 text-right">{statToNumber(stats.skgoals)}</td>
+                            <td className="px-3 py-2 text-right">{statToNumber(stats.skassists)}</td>
+                            <td className="px-3 py-2 text-right">
+                              {statToNumber(stats.skgoals) + statToNumber(stats.skassists)}
+                            </td>
+                            <td className="px-3 py-2 text-right">{statToNumber(stats.skplusmin)}</td>
+                            <td className="px-3 py-2 text-right">{statToNumber(stats.skshots)}</td>
+                            <td className="px-3 py-2 text-right">{statToNumber(stats.skhits)}</td>
+                            <td className="px-3 py-2 text-right">{statToNumber(stats.skpim)}</td>
+                            <td className="px-3 py-2 text-right">
+                              {statToNumber(stats.skfow)}-{statToNumber(stats.skfol)}
+                            </td>
+                            <td className="px-3 py-2 text-right">{statToNumber(stats.sktakeaways)}</td>
+                            <td className="px-3 py-2 text-right">{statToNumber(stats.skgiveaways)}</td>
+                            <td className="px-3 py-2 text-right">{statToNumber(stats.skbs)}</td>
+                            <td className="px-3 py-2 text-right">{formatSeconds(stats.toiseconds)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {goalies.length > 0 && (
+                  <div className="overflow-x-auto rounded-lg border">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted/50 text-muted-foreground">
+                        <tr>
+                          <th className="px-3 py-2 text-left">Goalie</th>
+                          <th className="px-3 py-2 text-right">SA</th>
+                          <th className="px-3 py-2 text-right">SV</th>
+                          <th className="px-3 py-2 text-right">GA</th>
+                          <th className="px-3 py-2 text-right">SV%</th>
+                          <th className="px-3 py-2 text-right">GAA</th>
+                          <th className="px-3 py-2 text-right">TOI</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {goalies.map(([playerId, stats]) => (
+                          <tr key={playerId} className="border-t">
+                            <td className="px-3 py-2 font-medium">
+                              <Link href={`/players/${playerId}`} className="hover:underline">
+                                {stats.playername || playerId}
+                              </Link>
+                            </td>
+                            <td className="px-3 py-2 text-right">{statToNumber(stats.glshots)}</td>
+                            <td className="px-3 py-2 text-right">{statToNumber(stats.glsaves)}</td>
+                            <td className="px-3 py-2 text-right">{statToNumber(stats.glga)}</td>
+                            <td className="px-3 py-2 text-right">{statToNumber(stats.glsavepct).toFixed(3)}</td>
+                            <td className="px-3 py-2 text-right">{statToNumber(stats.glgaa).toFixed(2)}</td>
+                            <td className="px-3 py-2 text-right">{formatSeconds(stats.toiseconds)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
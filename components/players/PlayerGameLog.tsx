@@ -0,0 +1,55 @@
+/**
+ * Player Game Log Component
+ * 
+ * This component renders a player's most recent games from their match
+ * history, showing the skater or goalie stat line for each game.
+ */
+
+import { format } from 'date-fns';
+import { IMatchHistory } from '@/lib/models/player.model';
+import { isGoalieLine } from '@/lib/utils/playerStats';
+
+interface PlayerGameLogProps {
+  games: IMatchHistory[];
+}
+
+export function PlayerGameLog({ games }: PlayerGameLogProps) {
+  if (!games.length) {
+    return (
+      <p className="text-sm text-slate-400">No games recorded yet.</p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-slate-800">
+      <table className="w-full text-sm">
+        <thead className="bg-slate-900 text-slate-400">
+          <tr>
+            <th className="px-3 py-2 text-left">Date</th>
+            <th className="px-3 py-2 text-left">Pos</th>
+            <th className="px-3 py-2 text-left">Score</th>
+            <th className="px-3 py-2 text-left">Line</th>
+            <th className="px-3 py-2 text-right">Rating (O/D/T)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {games.map(({ matchId, timestamp, stats }) => (
+            <tr key={matchId} className="border-t border-slate-800">
+              <td className="px-3 py-2">{format(new Date(timestamp * 1000), 'PP')}</td>
+              <td className="px-3 py-2 capitalize">{stats.position}</td>
+              <td className="px-3 py-2">{stats.score} - {stats.opponentScore}</td>
+              <td className="px-3 py-2">
+                {isGoalieLine(stats)
+                  ? `${stats.glsaves} SV on ${stats.glshots} SA, ${stats.glga} GA`
+                  : `${stats.skgoals} G, ${stats.skassists} A, ${stats.skshots} S, ${stats.skplusmin} +/-`}
+              </td>
+              <td className="px-3 py-2 text-right">
+                {stats.ratingOffense} / {stats.ratingDefense} / {stats.ratingTeamplay}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
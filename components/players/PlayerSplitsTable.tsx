@@ -0,0 +1,96 @@
+/**
+ * Player Splits Table Component
+ * 
+ * This component renders summed player stats as a table, one row per
+ * split (career, or a season). Skaters and goalies use different columns.
+ */
+
+import { ISkaterTotals, IGoalieTotals } from '@/lib/utils/playerStats';
+
+export interface PlayerSplit {
+  label: string;
+  skater: ISkaterTotals;
+  goalie: IGoalieTotals;
+}
+
+interface PlayerSplitsTableProps {
+  splits: PlayerSplit[];
+  mode: 'skater' | 'goalie';
+}
+
+export function PlayerSplitsTable({ splits, mode }: PlayerSplitsTableProps) {
+  const rows = splits.filter((split) => split[mode].gamesPlayed > 0);
+
+  if (!rows.length) {
+    return (
+      <p className="text-sm text-slate-400">No {mode} games recorded.</p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-slate-800">
+      <table className="w-full text-sm">
+        <thead className="bg-slate-900 text-slate-400">
+          {mode === 'skater' ? (
+            <tr>
+              <th className="px-3 py-2 text-left">Split</th>
+              <th className="px-3 py-2 text-right">GP</th>
+              <th className="px-3 py-2 text-right">G</th>
+              <th className="px-3 py-2 text-right">A</th>
+              <th className="px-3 py-2 text-right">P</th>
+              <th className="px-3 py-2 text-right">+/-</th>
+              <th className="px-3 py-2 text-right">S</th>
+              <th className="px-3 py-2 text-right">S%</th>
+              <th className="px-3 py-2 text-right">HITS</th>
+              <th className="px-3 py-2 text-right">PIM</th>
+              <th className="px-3 py-2 text-right">TK</th>
+              <th className="px-3 py-2 text-right">GV</th>
+              <th className="px-3 py-2 text-right">BS</th>
+            </tr>
+          ) : (
+            <tr>
+              <th className="px-3 py-2 text-left">Split</th>
+              <th className="px-3 py-2 text-right">GP</th>
+              <th className="px-3 py-2 text-right">SA</th>
+              <th className="px-3 py-2 text-right">SV</th>
+              <th className="px-3 py-2 text-right">GA</th>
+              <th className="px-3 py-2 text-right">SV%</th>
+              <th className="px-3 py-2 text-right">GAA</th>
+              <th className="px-3 py-2 text-right">SO</th>
+            </tr>
+          )}
+        </thead>
+        <tbody>
+          {rows.map(({ label, skater, goalie }) => mode === 'skater' ? (
+            <tr key={label} className="border-t border-slate-800">
+              <td className="px-3 py-2 font-medium">{label}</td>
+              <td className="px-3 py-2 text-right">{skater.gamesPlayed}</td>
+              <td className="px-3 py-2 text-right">{skater.goals}</td>
+              <td className="px-3 py-2 text-right">{skater.assists}</td>
+              <td className="px-3 py-2 text-right font-bold">{skater.points}</td>
+              <td className="px-3 py-2 text-right">{skater.plusMinus}</td>
+              <td className="px-3 py-2 text-right">{skater.shots}</td>
+              <td className="px-3 py-2 text-right">{skater.shotPercentage.toFixed(1)}</td>
+              <td className="px-3 py-2 text-right">{skater.hits}</td>
+              <td className="px-3 py-2 text-right">{skater.pim}</td>
+              <td className="px-3 py-2 text-right">{skater.takeaways}</td>
+              <td className="px-3 py-2 text-right">{skater.giveaways}</td>
+              <td className="px-3 py-2 text-right">{skater.blockedShots}</td>
+            </tr>
+          ) : (
+            <tr key={label} className="border-t border-slate-800">
+              <td className="px-3 py-2 font-medium">{label}</td>
+              <td className="px-3 py-2 text-right">{goalie.gamesPlayed}</td>
+              <td className="px-3 py-2 text-right">{goalie.shotsAgainst}</td>
+              <td className="px-3 py-2 text-right">{goalie.saves}</td>
+              <td className="px-3 py-2 text-right">{goalie.goalsAgainst}</td>
+              <td className="px-3 py-2 text-right font-bold">{goalie.savePercentage.toFixed(3)}</td>
+              <td className="px-3 py-2 text-right">{goalie.goalsAgainstAverage.toFixed(2)}</td>
+              <td className="px-3 py-2 text-right">{goalie.shutouts}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+/**
+ * Alert Server Actions
+ *
+ * These server actions handle CRUD operations for alert rules and
+ * provide the delivery log shown in the admin. Alerts themselves are
+ * raised and delivered by the alert service in the scheduler worker.
+ */
+
+'use server';
+
+import { randomBytes } from 'crypto';
+import { revalidatePath } from 'next/cache';
+import { connectToDatabase } from '@/database/mongoose';
+import AlertRule, { IAlertRule } from '@/lib/models/alertRule.model';
+import AlertDelivery from '@/lib/models/alertDelivery.model';
+import { deliverAlert } from '@/lib/services/alertService';
+import { requireAdmin } from '@/lib/utils/authGuard';
+
+/**
+ * Helper function to check a webhook URL before it is stored
+ */
+function validateWebhookUrl(webhookUrl?: string) {
+  if (!webhookUrl) {
+    throw new Error('Webhook URL is required');
+  }
+
+  const url = new URL(webhookUrl);
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error('Webhook URL must use http or https');
+  }
+}
+
+/**
+ * Creates a new alert rule in the database
+ * A signing secret is generated when none is given, and the signed-in
+ * admin is recorded as its creator.
+ * @param ruleData - The alert rule data to create
+ * @returns The created alert rule or null if error
+ */
+export async function createAlertRule(ruleData: Partial<IAlertRule>) {
+  try {
+    const user = await requireAdmin();
+    await connectToDatabase();
+
+    validateWebhookUrl(ruleData.webhookUrl);
+
+    const newRule = new AlertRule({
+      ...ruleData,
+      secret: ruleData.secret || randomBytes(32).toString('hex'),
+      createdBy: user.id,
+      lastTriggeredAt: undefined
+    });
+    await newRule.save();
+
+    // Revalidate the alerts page to show the new rule
+    revalidatePath('/admin/alerts');
+
+    return JSON.parse(JSON.stringify(newRule));
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    return null;
+  }
+}
+
+/**
+ * Gets all alert rules
+ * @returns Array of alert rules, newest first
+ */
+export async function getAlertRules() {
+  try {
+    await requireAdmin();
+    await connectToDatabase();
+
+    const rules = await AlertRule.find({}).sort({ createdAt: -1 });
+
+    return JSON.parse(JSON.stringify(rules));
+  } catch (error) {
+    console.error('Error fetching alert rules:', error);
+    return [];
+  }
+}
+
+/**
+ * Updates an existing alert rule
+ * @param ruleId - The ID of the alert rule to update
+ * @param updateData - The data to update
+ * @returns The updated alert rule or null if error
+ */
+export async function updateAlertRule(ruleId: string, updateData: Partial<IAlertRule>) {
+  try {
+    await requireAdmin();
+    await connectToDatabase();
+
+    if (updateData.webhookUrl !== undefined) {
+      validateWebhookUrl(updateData.webhookUrl);
+    }
+
+    // The cooldown state and creator are never set from the admin form
+    const data = { ...updateData };
+    delete data.lastTriggeredAt;
+    delete data.createdBy;
+    if (!data.secret) {
+      delete data.secret;
+    }
+
+    const updatedRule = await AlertRule.findByIdAndUpdate(
+      ruleId,
+      { $set: data },
+      { new: true, runValidators: true }
+    );
+
+    if (!updatedRule) return null;
+
+    // Revalidate the alerts page to show the changes
+    revalidatePath('/admin/alerts');
+
+    return JSON.parse(JSON.stringify(updatedRule));
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    return null;
+  }
+}
+
+/**
+ * Deletes an alert rule
+ * Its deliveries stay in the log.
+ * @param ruleId - The ID of the alert rule to delete
+ * @returns True if deleted successfully, false otherwise
+ */
+export async function deleteAlertRule(ruleId: string) {
+  try {
+    await requireAdmin();
+    await connectToDatabase();
+
+    const result = await AlertRule.findByIdAndDelete(ruleId);
+
+    // Revalidate the alerts page
+    revalidatePath('/admin/alerts');
+
+    return !!result;
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    return false;
+  }
+}
+
+/**
+ * Sends a test alert through a rule's webhook, ignoring its cooldown
+ * @param ruleId - The ID of the alert rule to test
+ * @returns The delivery result or null if the rule doesn't exist
+ */
+export async function sendTestAlert(ruleId: string) {
+  try {
+    await requireAdmin();
+    await connectToDatabase();
+
+    const rule = await AlertRule.findById(ruleId);
+    if (!rule) return null;
+
+    const result = await deliverAlert(rule, {
+      type: rule.type,
+      message: `Test alert for rule "${rule.name}"`,
+      details: { Test: true }
+    });
+
+    revalidatePath('/admin/alerts');
+
+    return result;
+  } catch (error) {
+    console.error('Error sending test alert:', error);
+    return null;
+  }
+}
+
+/**
+ * Gets the alert delivery log with optional filtering and pagination
+ * @param page - The page number (default: 1)
+ * @param limit - The number of deliveries per page (default: 20)
+ * @param ruleId - Optional alert rule ID to filter deliveries
+ * @param status - Optional delivery status filter (pending, delivered or failed)
+ * @returns Object with deliveries array and pagination info
+ */
+export async function getAlertDeliveries(page = 1, limit = 20, ruleId = '', status = '') {
+  try {
+    await requireAdmin();
+    await connectToDatabase();
+
+    const skip = (page - 1) * limit;
+
+    // Build query
+    const query: Record<string, string> = {};
+
+    if (ruleId) {
+      query.ruleId = ruleId;
+    }
+
+    if (status) {
+      query.status = status;
+    }
+
+    // Get total count for pagination
+    const total = await AlertDelivery.countDocuments(query);
+
+    // Get deliveries with pagination
+    const deliveries = await AlertDelivery.find(query)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    return {
+      deliveries: JSON.parse(JSON.stringify(deliveries)),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  } catch (error) {
+    console.error('Error fetching alert deliveries:', error);
+    return {
+      deliveries: [],
+      pagination: {
+        page,
+        limit,
+        total: 0,
+        pages: 0
+      }
+    };
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Audit Server Actions
+ *
+ * These server actions read the audit log for the admin: a searchable,
+ * paginated list and a CSV export. Entries are written by the audit
+ * service from the league, scheduler, club and user actions; there is
+ * deliberately no action to change or remove them.
+ */
+
+'use server';
+
+import { connectToDatabase } from '@/database/mongoose';
+import AuditLog, { IAuditChange, IAuditLog } from '@/lib/models/auditLog.model';
+import { AuditAction, AuditTargetType } from '@/lib/config/audit';
+import { requireAdmin } from '@/lib/utils/authGuard';
+
+// Interface for the filters of the audit log
+export interface IAuditLogFilters {
+  page?: number;
+  limit?: number;
+  search?: string; // Matches the actor's name or email and the target's ID or name
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  actorId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Maximum number of entries in one CSV export
+const AUDIT_EXPORT_LIMIT = 10000;
+
+/**
+ * Helper function to build the audit log query from filters
+ */
+function buildAuditQuery(filters: IAuditLogFilters) {
+  const query: Record<string, unknown> = {};
+
+  if (filters.search) {
+    const search = { $regex: filters.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+    query.$or = [
+      { 'actor.email': search },
+      { 'actor.name': search },
+      { targetId: search },
+      { targetName: search }
+    ];
+  }
+
+  if (filters.action) {
+    query.action = filters.action;
+  }
+
+  if (filters.targetType) {
+    query.targetType = filters.targetType;
+  }
+
+  if (filters.targetId) {
+    query.targetId = filters.targetId;
+  }
+
+  if (filters.actorId) {
+    query['actor.id'] = filters.actorId;
+  }
+
+  if (filters.from || filters.to) {
+    query.createdAt = {
+      ...(filters.from && { $gte: filters.from }),
+      ...(filters.to && { $lte: filters.to })
+    };
+  }
+
+  return query;
+}
+
+/**
+ * Gets audit log entries with optional filtering and pagination
+ * @param filters - Optional filters: page (default: 1), limit (default: 25),
+ *   a search term, action, target type or ID, actor and a from/to date range
+ * @returns Object with entries array (newest first) and pagination info
+ */
+export async function getAuditLogs(filters: IAuditLogFilters = {}) {
+  const { page = 1, limit = 25 } = filters;
+
+  try {
+    await requireAdmin();
+    await connectToDatabase();
+
+    const skip = (page - 1) * limit;
+    const query = buildAuditQuery(filters);
+
+    // Get total count for pagination
+    const total = await AuditLog.countDocuments(query);
+
+    // Get entries with pagination
+    const entries = await AuditLog.find(query)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    return {
+      entries: JSON.parse(JSON.stringify(entries)),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return {
+      entries: [],
+      pagination: {
+        page,
+        limit,
+        total: 0,
+        pages: 0
+      }
+    };
+  }
+}
+
+/**
+ * Helper function to quote a CSV cell
+ * Cells that a spreadsheet would read as a formula are prefixed with an apostrophe.
+ */
+function toCsvCell(value: unknown) {
+  if (value === undefined || value === null) return '';
+  const raw = typeof value === 'string' ? value : JSON.stringify(value);
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Helper function to write the changes of an entry into one CSV cell
+ */
+function formatChanges(changes: IAuditChange[]) {
+  return changes
+    .map(change => `${change.field}: ${JSON.stringify(change.before) ?? '-'} -> ${JSON.stringify(change.after) ?? '-'}`)
+    .join('; ');
+}
+
+/**
+ * Exports audit log entries as CSV
+ * Pagination filters are ignored; at most AUDIT_EXPORT_LIMIT entries, newest first, are exported.
+ * @param filters - The same filters as getAuditLogs
+ * @returns The CSV text
+ * @throws AuthorizationError if the signed-in user isn't an admin
+ */
+export async function exportAuditLogsCsv(filters: IAuditLogFilters = {}) {
+  await requireAdmin();
+  await connectToDatabase();
+
+  const entries: IAuditLog[] = await AuditLog.find(buildAuditQuery(filters))
+    .sort({ createdAt: -1 })
+    .limit(AUDIT_EXPORT_LIMIT)
+    .lean();
+
+  const header = [
+    'Timestamp',
+    'Actor ID',
+    'Actor Email',
+    'Actor Name',
+    'Actor Role',
+    'Action',
+    'Target Type',
+    'Target ID',
+    'Target Name',
+    'Changes',
+    'Details',
+    'IP',
+    'User Agent',
+    'Referer'
+  ];
+
+  const rows = entries.map(entry => [
+    new Date(entry.createdAt).toISOString(),
+    entry.actor.id,
+    entry.actor.email,
+    entry.actor.name,
+    entry.actor.role,
+    entry.action,
+    entry.targetType,
+    entry.targetId,
+    entry.targetName,
+    formatChanges(entry.changes || []),
+    entry.details,
+    entry.metadata?.ip,
+    entry.metadata?.userAgent,
+    entry.metadata?.referer
+  ]);
+
+  return [header, ...rows].map(row => row.map(toCsvCell).join(',')).join('\r\n');
+}
@@ -12,7 +12,12 @@
 import { revalidatePath } from 'next/cache';
 import { connectToDatabase } from '@/database/mongoose';
 import Club, { IClub } from '@/lib/models/club.model';
+import Season, { ISeason } from '@/lib/models/season.model';
+import League, { ILeague } from '@/lib/models/league.model';
+import Scheduler, { IScheduler } from '@/lib/models/scheduler.model';
 import { getClubId } from '@/lib/services/eaApiService';
+import { recordAudit } from '@/lib/services/auditService';
+import { requireAdmin } from '@/lib/utils/authGuard';
 
 /**
  * Creates a new club in the database
@@ -21,11 +26,21 @@ import { getClubId } from '@/lib/services/eaApiService';
  */
 export async function createClub(clubData: Partial<IClub>) {
   try {
+    const user = await requireAdmin();
     await connectToDatabase();
     
     const newClub = new Club(clubData);
     await newClub.save();
     
+    await recordAudit({
+      actor: user,
+      action: 'club.create',
+      targetType: 'club',
+      targetId: newClub.clubId,
+      targetName: newClub.name,
+      after: newClub
+    });
+    
     // Revalidate the clubs page to show the new club
     revalidatePath('/admin/clubs');
     
@@ -107,6 +122,67 @@ export async function getClubs(page = 1, limit = 10, search = '') {
   }
 }
 
+/**
+ * Gets the seasons and schedulers that reference a club
+ * A scheduler references the club when it lists it directly, targets one of
+ * its seasons, or targets the league of one of its active seasons.
+ * @param clubId - The ID of the club
+ * @returns Object with the club's seasons (with their league names) and the
+ *   schedulers collecting for it (with how they reach it)
+ */
+export async function getClubReferences(clubId: string) {
+  try {
+    await requireAdmin();
+    await connectToDatabase();
+    
+    const seasons: ISeason[] = await Season.find({ clubs: clubId }).sort({ startDate: -1 });
+    const seasonIds = seasons.map(season => season._id.toString());
+    const activeLeagueIds = [...new Set(seasons.filter(season => season.isActive).map(season => season.leagueId))];
+    
+    const [leagues, schedulers]: [ILeague[], IScheduler[]] = await Promise.all([
+      League.find({ _id: { $in: [...new Set(seasons.map(season => season.leagueId))] } }).select('name'),
+      Scheduler.find({
+        $or: [
+          { clubs: clubId },
+          { seasonIds: { $in: seasonIds } },
+          { leagueIds: { $in: activeLeagueIds } }
+        ]
+      })
+        .select('name isActive clubs seasonIds leagueIds nextRun')
+        .sort({ name: 1 })
+    ]);
+    
+    const leagueNames = new Map(leagues.map(league => [league._id.toString(), league.name]));
+    
+    return {
+      seasons: seasons.map(season => ({
+        _id: season._id.toString(),
+        name: season.name,
+        leagueId: season.leagueId,
+        leagueName: leagueNames.get(season.leagueId) || 'Unknown league',
+        startDate: season.startDate.toISOString(),
+        endDate: season.endDate?.toISOString(),
+        isActive: season.isActive
+      })),
+      schedulers: schedulers.map(scheduler => ({
+        _id: scheduler._id.toString(),
+        name: scheduler.name,
+        isActive: scheduler.isActive,
+        nextRun: scheduler.nextRun?.toISOString(),
+        // How the scheduler reaches the club; a scheduler can reach it several ways
+        via: [
+          ...(scheduler.clubs.includes(clubId) ? ['club' as const] : []),
+          ...((scheduler.seasonIds || []).some(id => seasonIds.includes(id)) ? ['season' as const] : []),
+          ...((scheduler.leagueIds || []).some(id => activeLeagueIds.includes(id)) ? ['league' as const] : [])
+        ]
+      }))
+    };
+  } catch (error) {
+    console.error('Error fetching club references:', error);
+    return { seasons: [], schedulers: [] };
+  }
+}
+
 /**
  * Updates a club in the database
  * @param clubId - The ID of the club to update
@@ -115,8 +191,12 @@ export async function getClubs(page = 1, limit = 10, search = '') {
  */
 export async function updateClub(clubId: string, updateData: Partial<IClub>) {
   try {
+    const user = await requireAdmin();
     await connectToDatabase();
     
+    const existingClub = await Club.findOne({ clubId });
+    if (!existingClub) return null;
+    
     const updatedClub = await Club.findOneAndUpdate(
       { clubId },
       updateData,
@@ -125,6 +205,16 @@ export async function updateClub(clubId: string, updateData: Partial<IClub>) {
     
     if (!updatedClub) return null;
     
+    await recordAudit({
+      actor: user,
+      action: 'club.update',
+      targetType: 'club',
+      targetId: clubId,
+      targetName: updatedClub.name,
+      before: existingClub,
+      after: updatedClub
+    });
+    
     // Revalidate the clubs page to show the updated club
     revalidatePath('/admin/clubs');
     
@@ -142,11 +232,21 @@ export async function updateClub(clubId: string, updateData: Partial<IClub>) {
  */
 export async function deleteClub(clubId: string) {
   try {
+    const user = await requireAdmin();
     await connectToDatabase();
     
-    const result = await Club.deleteOne({ clubId });
+    const deletedClub = await Club.findOneAndDelete({ clubId });
     
-    if (result.deletedCount === 0) return false;
+    if (!deletedClub) return false;
+    
+    await recordAudit({
+      actor: user,
+      action: 'club.delete',
+      targetType: 'club',
+      targetId: clubId,
+      targetName: deletedClub.name,
+      before: deletedClub
+    });
     
     // Revalidate the clubs page to reflect the deletion
     revalidatePath('/admin/clubs');
@@ -162,32 +262,39 @@ export async function deleteClub(clubId: string) {
  * Imports club data from EA API
  * @param clubName - The name of the club to import
  * @param platform - The platform (default: "common-gen5")
+ * @param clubId - Optional ID of the one search result to import (default: every result)
  * @returns Array of imported clubs or null if error
  */
-export async function importClubFromEA(clubName: string, platform = "common-gen5") {
+export async function importClubFromEA(clubName: string, platform = "common-gen5", clubId?: string) {
     try {
+      await requireAdmin();
+      
       // Fetch club data from EA API
-      const clubData = await getClubId(clubName, platform);
+      const result = await getClubId(clubName, platform);
       
-      if (!clubData || !Object.keys(clubData).length) {
+      if (!result.ok || !Object.keys(result.data).length) {
         return null;
       }
       
+      const clubData = result.data;
+      
       const importedClubs = [];
       await connectToDatabase();
       
-      // Process all clubs returned by the API (not just the first one)
-      for (const clubId of Object.keys(clubData)) {
+      // Process all clubs returned by the API (not just the first one), unless one was picked
+      const resultIds = Object.keys(clubData).filter(resultId => !clubId || resultId === clubId);
+      
+      for (const resultId of resultIds) {
         // Reconstruct clubInfo to include clubId as a field
-        const clubInfo = { clubId, ...clubData[clubId] };
+        const clubInfo = { clubId: resultId, ...clubData[resultId] };
         
         // Check if club already exists
       
-        const existingClub = await Club.findOne({ clubId });
+        const existingClub = await Club.findOne({ clubId: resultId });
         
         if (existingClub) {
           // Update existing club
-          const updatedClub = await updateClub(clubId, clubInfo);
+          const updatedClub = await updateClub(resultId, clubInfo);
           if (updatedClub) importedClubs.push(updatedClub);
         } else {
           // Create new club
@@ -211,12 +318,15 @@ export async function importClubFromEA(clubName: string, platform = "common-gen5
  */
 export async function searchClubsInEA(clubName: string, platform = "common-gen5") {
   try {
-    const clubData = await getClubId(clubName, platform);
+    await requireAdmin();
+    const result = await getClubId(clubName, platform);
     
-    if (!clubData || !Object.keys(clubData).length) {
+    if (!result.ok || !Object.keys(result.data).length) {
       return [];
     }
     
+    const clubData = result.data;
+    
     // Convert the object to an array of clubs
     const clubs = Object.keys(clubData).map(key => ({
       clubId: key,
@@ -14,19 +14,34 @@ import { connectToDatabase } from '@/database/mongoose';
 import League, { ILeague } from '@/lib/models/league.model';
 import Season from '@/lib/models/season.model';
 import Club from '@/lib/models/club.model';
+import Match from '@/lib/models/match.model';
+import { buildSeasonMatchQuery, computeSeasonStandings } from '@/lib/services/standingsService';
+import { recordAudit } from '@/lib/services/auditService';
+import { requirePermission } from '@/lib/utils/authGuard';
 
 /**
  * Creates a new league in the database
+ * The signed-in admin is recorded as its creator.
  * @param leagueData - The league data to create
  * @returns The created league or null if error
  */
 export async function createLeague(leagueData: Partial<ILeague>) {
   try {
+    const user = await requirePermission('leagues:create');
     await connectToDatabase();
     
-    const newLeague = new League(leagueData);
+    const newLeague = new League({ ...leagueData, createdBy: user.id });
     await newLeague.save();
     
+    await recordAudit({
+      actor: user,
+      action: 'league.create',
+      targetType: 'league',
+      targetId: newLeague._id.toString(),
+      targetName: newLeague.name,
+      after: newLeague
+    });
+    
     // Revalidate the leagues page to show the new league
     revalidatePath('/admin/leagues');
     
@@ -139,8 +154,15 @@ export async function getLeagues(
  */
 export async function updateLeague(leagueId: string, updateData: Partial<ILeague>) {
   try {
+    const user = await requirePermission('leagues:update', { leagueIds: [leagueId] });
     await connectToDatabase();
     
+    // The creator is set once from the session and never changed by an update
+    delete updateData.createdBy;
+    
+    const existingLeague = await League.findById(leagueId);
+    if (!existingLeague) return null;
+    
     const updatedLeague = await League.findByIdAndUpdate(
       leagueId,
       updateData,
@@ -149,6 +171,16 @@ export async function updateLeague(leagueId: string, updateData: Partial<ILeague
     
     if (!updatedLeague) return null;
     
+    await recordAudit({
+      actor: user,
+      action: 'league.update',
+      targetType: 'league',
+      targetId: leagueId,
+      targetName: updatedLeague.name,
+      before: existingLeague,
+      after: updatedLeague
+    });
+    
     // Revalidate the leagues page to show the updated league
     revalidatePath('/admin/leagues');
     revalidatePath(`/admin/leagues/${leagueId}`);
@@ -167,9 +199,11 @@ export async function updateLeague(leagueId: string, updateData: Partial<ILeague
  */
 export async function deleteLeague(leagueId: string) {
   try {
+    const user = await requirePermission('leagues:delete');
     await connectToDatabase();
     
     // First, delete all seasons associated with this league
+    const seasons = await Season.find({ leagueId }).select('name');
     await Season.deleteMany({ leagueId });
     
     // Then delete the league
@@ -177,6 +211,16 @@ export async function deleteLeague(leagueId: string) {
     
     if (!result) return false;
     
+    await recordAudit({
+      actor: user,
+      action: 'league.delete',
+      targetType: 'league',
+      targetId: leagueId,
+      targetName: result.name,
+      before: result,
+      details: { deletedSeasons: seasons.map(season => ({ id: season._id.toString(), name: season.name })) }
+    });
+    
     // Revalidate the leagues page to reflect the deletion
     revalidatePath('/admin/leagues');
     
@@ -195,6 +239,7 @@ export async function deleteLeague(leagueId: string) {
  */
 export async function addSeasonToLeague(leagueId: string, seasonData: any) {
   try {
+    const user = await requirePermission('seasons:manage', { leagueIds: [leagueId] });
     await connectToDatabase();
     
     // Create the season
@@ -225,6 +270,16 @@ export async function addSeasonToLeague(leagueId: string, seasonData: any) {
     
     if (!updatedLeague) return null;
     
+    await recordAudit({
+      actor: user,
+      action: 'season.create',
+      targetType: 'season',
+      targetId: newSeason._id.toString(),
+      targetName: newSeason.name,
+      after: newSeason,
+      details: { leagueId, leagueName: updatedLeague.name }
+    });
+    
     // Revalidate paths
     revalidatePath('/admin/leagues');
     revalidatePath(`/admin/leagues/${leagueId}`);
@@ -245,17 +300,32 @@ export async function addSeasonToLeague(leagueId: string, seasonData: any) {
  */
 export async function updateSeasonInLeague(leagueId: string, seasonId: string, updateData: any) {
   try {
+    const user = await requirePermission('seasons:manage', { leagueIds: [leagueId] });
     await connectToDatabase();
     
-    // Update the season
-    const updatedSeason = await Season.findByIdAndUpdate(
-      seasonId,
-      updateData,
+    const existingSeason = await Season.findOne({ _id: seasonId, leagueId });
+    if (!existingSeason) return null;
+    
+    // Update the season (only within the league the permission was checked for)
+    const updatedSeason = await Season.findOneAndUpdate(
+      { _id: seasonId, leagueId },
+      { ...updateData, leagueId },
       { new: true }
     );
     
     if (!updatedSeason) return null;
     
+    await recordAudit({
+      actor: user,
+      action: 'season.update',
+      targetType: 'season',
+      targetId: seasonId,
+      targetName: updatedSeason.name,
+      before: existingSeason,
+      after: updatedSeason,
+      details: { leagueId }
+    });
+    
     // Revalidate paths
     revalidatePath('/admin/leagues');
     revalidatePath(`/admin/leagues/${leagueId}`);
@@ -276,10 +346,12 @@ export async function updateSeasonInLeague(leagueId: string, seasonId: string, u
  */
 export async function removeSeasonFromLeague(leagueId: string, seasonId: string) {
   try {
+    const user = await requirePermission('seasons:manage', { leagueIds: [leagueId] });
     await connectToDatabase();
     
-    // Delete the season
-    await Season.findByIdAndDelete(seasonId);
+    // Delete the season (only within the league the permission was checked for)
+    const deletedSeason = await Season.findOneAndDelete({ _id: seasonId, leagueId });
+    if (!deletedSeason) return null;
     
     // Remove the season from the league
     const updatedLeague = await League.findByIdAndUpdate(
@@ -290,6 +362,16 @@ export async function removeSeasonFromLeague(leagueId: string, seasonId: string)
     
     if (!updatedLeague) return null;
     
+    await recordAudit({
+      actor: user,
+      action: 'season.delete',
+      targetType: 'season',
+      targetId: seasonId,
+      targetName: deletedSeason.name,
+      before: deletedSeason,
+      details: { leagueId, leagueName: updatedLeague.name }
+    });
+    
     // Revalidate paths
     revalidatePath('/admin/leagues');
     revalidatePath(`/admin/leagues/${leagueId}`);
@@ -310,21 +392,36 @@ export async function removeSeasonFromLeague(leagueId: string, seasonId: string)
  */
 export async function addClubToSeason(leagueId: string, seasonId: string, clubId: string) {
   try {
+    const user = await requirePermission('seasons:manage', { leagueIds: [leagueId] });
     await connectToDatabase();
     
     // Verify the club exists
     const club = await Club.findOne({ clubId });
     if (!club) return null;
     
+    const existingSeason = await Season.findOne({ _id: seasonId, leagueId });
+    if (!existingSeason) return null;
+    
     // Add the club to the season
-    const updatedSeason = await Season.findByIdAndUpdate(
-      seasonId,
+    const updatedSeason = await Season.findOneAndUpdate(
+      { _id: seasonId, leagueId },
       { $addToSet: { clubs: clubId } },
       { new: true }
     );
     
     if (!updatedSeason) return null;
     
+    await recordAudit({
+      actor: user,
+      action: 'season.add-club',
+      targetType: 'season',
+      targetId: seasonId,
+      targetName: updatedSeason.name,
+      before: { clubs: existingSeason.clubs },
+      after: { clubs: updatedSeason.clubs },
+      details: { leagueId, clubId, clubName: club.name }
+    });
+    
     // Revalidate paths
     revalidatePath('/admin/leagues');
     revalidatePath(`/admin/leagues/${leagueId}`);
@@ -346,17 +443,32 @@ export async function addClubToSeason(leagueId: string, seasonId: string, clubId
  */
 export async function removeClubFromSeason(leagueId: string, seasonId: string, clubId: string) {
   try {
+    const user = await requirePermission('seasons:manage', { leagueIds: [leagueId] });
     await connectToDatabase();
     
+    const existingSeason = await Season.findOne({ _id: seasonId, leagueId });
+    if (!existingSeason) return null;
+    
     // Remove the club from the season
-    const updatedSeason = await Season.findByIdAndUpdate(
-      seasonId,
+    const updatedSeason = await Season.findOneAndUpdate(
+      { _id: seasonId, leagueId },
       { $pull: { clubs: clubId } },
       { new: true }
     );
     
     if (!updatedSeason) return null;
     
+    await recordAudit({
+      actor: user,
+      action: 'season.remove-club',
+      targetType: 'season',
+      targetId: seasonId,
+      targetName: updatedSeason.name,
+      before: { clubs: existingSeason.clubs },
+      after: { clubs: updatedSeason.clubs },
+      details: { leagueId, clubId }
+    });
+    
     // Revalidate paths
     revalidatePath('/admin/leagues');
     revalidatePath(`/admin/leagues/${leagueId}`);
@@ -388,6 +500,35 @@ export async function getSeasonsForLeague(leagueId: string) {
   }
 }
 
+/**
+ * Gets every season with the name of its league, for season pickers
+ * @param activeLeaguesOnly - Only include seasons of active leagues (default: false)
+ * @returns Array of seasons (newest first) with their league names or empty array if error
+ */
+export async function getSeasonsWithLeagues(activeLeaguesOnly = false) {
+  try {
+    await connectToDatabase();
+    
+    const leagues = await League.find(activeLeaguesOnly ? { isActive: true } : {})
+      .select('name')
+      .lean();
+    const leagueNames = new Map(leagues.map(league => [league._id.toString(), league.name as string]));
+    
+    const seasons = await Season.find({ leagueId: { $in: [...leagueNames.keys()] } })
+      .select('name leagueId startDate endDate isActive')
+      .sort({ startDate: -1 })
+      .lean();
+    
+    return JSON.parse(JSON.stringify(seasons.map(season => ({
+      ...season,
+      leagueName: leagueNames.get(season.leagueId.toString()) || 'Unknown league'
+    }))));
+  } catch (error) {
+    console.error('Error fetching seasons with leagues:', error);
+    return [];
+  }
+}
+
 /**
  * Gets a season by its ID
  * @param seasonId - The ID of the season to retrieve
@@ -431,4 +572,53 @@ export async function getClubsForSeason(seasonId: string) {
     console.error('Error fetching clubs for season:', error);
     return [];
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Gets the standings table for a season
+ * @param seasonId - The ID of the season
+ * @returns Array of ranked standings rows or empty array if error
+ */
+export async function getSeasonStandings(seasonId: string) {
+  try {
+    await connectToDatabase();
+    
+    const season = await Season.findById(seasonId);
+    if (!season) return [];
+    
+    const standings = await computeSeasonStandings(season);
+    
+    return JSON.parse(JSON.stringify(standings));
+  } catch (error) {
+    console.error('Error fetching season standings:', error);
+    return [];
+  }
+}
+
+/**
+ * Gets the most recent results played between a season's clubs
+ * @param seasonId - The ID of the season
+ * @param limit - Number of results to return (default: 10)
+ * @returns Array of matches (newest first) or empty array if error
+ */
+export async function getSeasonResults(seasonId: string, limit = 10) {
+  try {
+    await connectToDatabase();
+    
+    const season = await Season.findById(seasonId);
+    if (!season) return [];
+    
+    const query = buildSeasonMatchQuery(season);
+    if (!query) return [];
+    
+    const matches = await Match.find(query)
+      .sort({ timestamp: -1 })
+      .limit(limit)
+      .lean();
+    
+    return JSON.parse(JSON.stringify(matches));
+  } catch (error) {
+    console.error('Error fetching season results:', error);
+    return [];
+  }
+}
@@ -4,42 +4,62 @@
  * These server actions handle CRUD operations for match data.
  * They provide the server-side functions that components can call
  * to interact with the database, following Next.js best practices
- * for data mutations.
+ * for data mutations. Matches are only written by the EA import
+ * (lib/services/matchImportService.ts), which is not callable from clients.
  */
 
 'use server';
 
-import { revalidatePath } from 'next/cache';
 import { connectToDatabase } from '@/database/mongoose';
-import Match, { IMatch } from '@/lib/models/match.model';
-import { getClubMatches } from '@/lib/services/eaApiService';
+import Match from '@/lib/models/match.model';
+import QuarantinedMatch from '@/lib/models/quarantinedMatch.model';
+import Season from '@/lib/models/season.model';
+import { buildSeasonMatchQuery } from '@/lib/services/standingsService';
+import { WIN_RESULT_CODES, LOSS_RESULT_CODES, OTL_RESULT_CODES } from '@/lib/utils/matchResults';
+import { requireAdmin } from '@/lib/utils/authGuard';
 
 /**
- * Creates a new match in the database
- * @param matchData - The match data to create
- * @returns The created match or null if error
+ * Gets quarantined EA match payloads with pagination
+ * Only admins may read them.
+ * @param page - The page number (default: 1)
+ * @param limit - The number of payloads per page (default: 10)
+ * @returns Object with quarantined payloads array and pagination info
  */
-export async function createMatch(matchData: Partial<IMatch>) {
+export async function getQuarantinedMatches(page = 1, limit = 10) {
   try {
+    await requireAdmin();
     await connectToDatabase();
     
-    // Check if match already exists to prevent duplicates
-    const existingMatch = await Match.findOne({ matchId: matchData.matchId });
-    if (existingMatch) {
-      return JSON.parse(JSON.stringify(existingMatch));
-    }
-    
-    const newMatch = new Match(matchData);
-    await newMatch.save();
+    const skip = (page - 1) * limit;
     
-    // Revalidate relevant paths
-    revalidatePath('/admin/matches');
-    revalidatePath(`/admin/clubs/${Object.keys(matchData.clubs || {})[0]}`);
+    const [total, quarantined] = await Promise.all([
+      QuarantinedMatch.countDocuments(),
+      QuarantinedMatch.find()
+        .sort({ lastSeenAt: -1 })
+        .skip(skip)
+        .limit(limit)
+    ]);
     
-    return JSON.parse(JSON.stringify(newMatch));
+    return {
+      quarantined: JSON.parse(JSON.stringify(quarantined)),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
   } catch (error) {
-    console.error('Error creating match:', error);
-    return null;
+    console.error('Error fetching quarantined matches:', error);
+    return {
+      quarantined: [],
+      pagination: {
+        page,
+        limit,
+        total: 0,
+        pages: 0
+      }
+    };
   }
 }
 
@@ -70,6 +90,8 @@ export async function getMatchById(matchId: string) {
  * @param clubId - Optional club ID to filter matches
  * @param startDate - Optional start date for filtering
  * @param endDate - Optional end date for filtering
+ * @param seasonId - Optional season ID; only matches between two of its clubs within its dates
+ * @param matchType - Optional EA match type (e.g. "club_private")
  * @returns Object with matches array and pagination info
  */
 export async function getMatches(
@@ -77,33 +99,52 @@ export async function getMatches(
   limit = 10, 
   clubId = '', 
   startDate = '', 
-  endDate = ''
+  endDate = '',
+  seasonId = '',
+  matchType = ''
 ) {
   try {
     await connectToDatabase();
     
     const skip = (page - 1) * limit;
     
-    // Build query
-    const query: any = {};
+    // Build query; each filter is a separate condition so the season's
+    // date window and the requested date range both apply
+    const conditions: Record<string, unknown>[] = [];
     
     if (clubId) {
       // Find matches where this club participated
-      query[`clubs.${clubId}`] = { $exists: true };
+      conditions.push({ [`clubs.${clubId}`]: { $exists: true } });
     }
     
     if (startDate || endDate) {
-      query.timestamp = {};
+      const timestamp: { $gte?: number; $lte?: number } = {};
       if (startDate) {
         const start = new Date(startDate).getTime() / 1000;
-        query.timestamp.$gte = start;
+        timestamp.$gte = start;
       }
       if (endDate) {
         const end = new Date(endDate).getTime() / 1000;
-        query.timestamp.$lte = end;
+        timestamp.$lte = end;
+      }
+      conditions.push({ timestamp });
+    }
+    
+    if (seasonId) {
+      const season = await Season.findById(seasonId);
+      const seasonQuery = season && buildSeasonMatchQuery(season);
+      if (!seasonQuery) {
+        return { matches: [], pagination: { page, limit, total: 0, pages: 0 } };
       }
+      conditions.push(seasonQuery);
+    }
+    
+    if (matchType) {
+      conditions.push({ matchType });
     }
     
+    const query = conditions.length ? { $and: conditions } : {};
+    
     // Get total count for pagination
     const total = await Match.countDocuments(query);
     
@@ -186,47 +227,6 @@ export async function getClubMatchesFromDB(clubId: string, page = 1, limit = 10)
   }
 }
 
-/**
- * Imports matches for a club from EA API
- * @param clubId - The ID of the club to import matches for
- * @param platform - The platform (default: "common-gen5")
- * @param matchType - The type of match (default: "club_private")
- * @returns Array of imported matches or null if error
- */
-export async function importMatchesFromEA(
-  clubId: string, 
-  platform = "common-gen5",
-  matchType = "club_private"
-) {
-  try {
-    // Fetch match data from EA API
-    const matchesData = await getClubMatches(clubId, platform, matchType);
-    
-    if (!matchesData || !Array.isArray(matchesData) || matchesData.length === 0) {
-      return [];
-    }
-    
-    const importedMatches = [];
-    
-    // Process each match
-    for (const matchData of matchesData) {
-      const match = await createMatch(matchData);
-      if (match) {
-        importedMatches.push(match);
-      }
-    }
-    
-    // Revalidate paths to show new matches
-    revalidatePath('/admin/matches');
-    revalidatePath(`/admin/clubs/${clubId}`);
-    
-    return importedMatches;
-  } catch (error) {
-    console.error('Error importing matches from EA:', error);
-    return [];
-  }
-}
-
 /**
  * Gets recent matches for a club (last 5 matches)
  * @param clubId - The ID of the club
@@ -253,8 +253,20 @@ export async function getRecentMatchesForClub(clubId: string) {
   }
 }
 
+/**
+ * Helper function to convert an EA stat string to a number inside an aggregation
+ * Missing or non-numeric values become null, like the normalized stats leave them out.
+ */
+function toNumberExpression(path: string) {
+  return { $convert: { input: path, to: "double", onError: null, onNull: null } };
+}
+
 /**
  * Gets match statistics for a club
+ * Results with a missing or unknown EA code count as played but are only
+ * reported in `ties`, never as a win, loss or overtime loss.
+ * Matches the normalized stats backfill hasn't reached yet are counted from
+ * their stats as sent by EA.
  * @param clubId - The ID of the club
  * @returns Object with match statistics
  */
@@ -266,7 +278,23 @@ export async function getClubMatchStats(clubId: string) {
         { $match: { [`clubs.${clubId}`]: { $exists: true } } },
         {
           $project: {
-            clubData: { $getField: { field: clubId, input: "$clubs" } }
+            clubData: {
+              $ifNull: [
+                { $getField: { field: clubId, input: "$normalized.clubs" } },
+                {
+                  $let: {
+                    vars: { raw: { $getField: { field: clubId, input: "$clubs" } } },
+                    in: {
+                      result: toNumberExpression("$$raw.result"),
+                      score: toNumberExpression("$$raw.score"),
+                      opponentScore: toNumberExpression("$$raw.opponentScore"),
+                      goals: toNumberExpression("$$raw.goals"),
+                      goalsAgainst: toNumberExpression("$$raw.goalsAgainst")
+                    }
+                  }
+                }
+              ]
+            }
           }
         },
         {
@@ -275,30 +303,36 @@ export async function getClubMatchStats(clubId: string) {
             totalMatches: { $sum: 1 },
             wins: {
               $sum: {
-                $cond: [{ $in: [{ $toInt: "$clubData.result" }, [1, 16385]] }, 1, 0]
+                $cond: [{ $in: ["$clubData.result", WIN_RESULT_CODES] }, 1, 0]
               }
             },
             losses: {
               $sum: {
-                $cond: [{ $in: [{ $toInt: "$clubData.result" }, [2, 10]] }, 1, 0]
+                $cond: [{ $in: ["$clubData.result", LOSS_RESULT_CODES] }, 1, 0]
+              }
+            },
+            otLosses: {
+              $sum: {
+                $cond: [{ $in: ["$clubData.result", OTL_RESULT_CODES] }, 1, 0]
               }
             },
-            goalsFor: { $sum: { $toInt: { $ifNull: ["$clubData.goals", "0"] } } },
-            goalsAgainst: { $sum: { $toInt: { $ifNull: ["$clubData.goalsAgainst", "0"] } } }
+            goalsFor: { $sum: { $ifNull: ["$clubData.goals", "$clubData.score", 0] } },
+            goalsAgainst: { $sum: { $ifNull: ["$clubData.goalsAgainst", "$clubData.opponentScore", 0] } }
           }
         }
       ]);
       
       if (!stats.length) {
-        return { totalMatches: 0, wins: 0, losses: 0, ties: 0, goalsFor: 0, goalsAgainst: 0 };
+        return { totalMatches: 0, wins: 0, losses: 0, otLosses: 0, ties: 0, goalsFor: 0, goalsAgainst: 0 };
       }
       
-      const { totalMatches, wins, losses, goalsFor, goalsAgainst } = stats[0];
+      const { totalMatches, wins, losses, otLosses, goalsFor, goalsAgainst } = stats[0];
       return {
         totalMatches,
         wins,
         losses,
-        ties: totalMatches - wins - losses,
+        otLosses,
+        ties: totalMatches - wins - losses - otLosses,
         goalsFor,
         goalsAgainst
       };
@@ -308,6 +342,7 @@ export async function getClubMatchStats(clubId: string) {
         totalMatches: 0,
         wins: 0,
         losses: 0,
+        otLosses: 0,
         ties: 0,
         goalsFor: 0,
         goalsAgainst: 0
@@ -0,0 +1,84 @@
+/**
+ * Player Server Actions
+ *
+ * These server actions handle CRUD operations for player data.
+ * Players are never created by hand: they are derived from the
+ * per-player stat lines stored inside each ingested Match (see
+ * lib/services/playerIngestService.ts), so a player's match history
+ * and career totals grow as matches arrive.
+ */
+
+'use server';
+
+import { connectToDatabase } from '@/database/mongoose';
+import Player, { IPlayer } from '@/lib/models/player.model';
+import Season, { ISeason } from '@/lib/models/season.model';
+import { summarizePlayerStats } from '@/lib/utils/playerStats';
+
+/**
+ * Gets a player by their EA player ID
+ * @param playerId - The EA player ID
+ * @returns The player or null if not found
+ */
+export async function getPlayerById(playerId: string) {
+  try {
+    await connectToDatabase();
+    
+    const player = await Player.findOne({ playerId });
+    
+    if (!player) return null;
+    
+    return JSON.parse(JSON.stringify(player));
+  } catch (error) {
+    console.error('Error fetching player:', error);
+    return null;
+  }
+}
+
+/**
+ * Gets a player's stats split by season
+ * A match counts toward a season when it falls inside the season's date
+ * window and the player was playing for one of the season's clubs.
+ * @param playerId - The EA player ID
+ * @returns Array of season splits (newest season first) or empty array if error
+ */
+export async function getPlayerSeasonSplits(playerId: string) {
+  try {
+    await connectToDatabase();
+    
+    const player = await Player.findOne({ playerId }).select('clubs matchHistory').lean<IPlayer>();
+    if (!player || !player.clubs?.length) return [];
+    
+    const seasons = await Season.find({ clubs: { $in: player.clubs } })
+      .sort({ startDate: -1 })
+      .lean<ISeason[]>();
+    
+    const splits = seasons.map(season => {
+      // Match timestamps are stored in seconds
+      const start = new Date(season.startDate).getTime() / 1000;
+      const end = (season.endDate ? new Date(season.endDate).getTime() : Date.now()) / 1000;
+      
+      const lines = player.matchHistory
+        .filter(entry =>
+          season.clubs.includes(entry.clubId) &&
+          entry.timestamp >= start &&
+          entry.timestamp <= end
+        )
+        .map(entry => entry.stats);
+      
+      return {
+        seasonId: season._id.toString(),
+        seasonName: season.name,
+        leagueId: season.leagueId,
+        ...summarizePlayerStats(lines)
+      };
+    });
+    
+    return JSON.parse(JSON.stringify(
+      splits.filter(split => split.skater.gamesPlayed + split.goalie.gamesPlayed > 0)
+    ));
+  } catch (error) {
+    console.error('Error fetching player season splits:', error);
+    return [];
+  }
+}
@@ -0,0 +1,451 @@
+'use server';
+
+import { connectToDatabase } from "@/database/mongoose";
+import User, { UserDocument } from "@/lib/models/user.model";
+import Player, { IPlayer } from "@/lib/models/player.model";
+import PlayerClaim, { IPlayerClaim, PlayerClaimStatus } from "@/lib/models/playerClaim.model";
+import { revalidatePath } from "next/cache";
+import { IActingUser, requireAdmin, requireUser } from "@/lib/utils/authGuard";
+import { recordAudit } from "@/lib/services/auditService";
+
+// Types
+export interface PlayerClaimData {
+  id: string;
+  userId: string;
+  playerId: string;
+  playerName: string;
+  gamertag: string;
+  status: PlayerClaimStatus;
+  userName?: string;
+  userEmail?: string;
+  reviewedAt?: Date;
+  note?: string;
+  createdAt: Date;
+}
+
+export interface ClaimablePlayer {
+  playerId: string;
+  playerName: string;
+  clientPlatform: string;
+  position: string;
+  totalMatches: number;
+  clubs: string[];
+}
+
+// Helper function to get the database record of a signed-in user
+async function getUserRecord(user: IActingUser) {
+  await connectToDatabase();
+
+  const dbUser = await User.findOne({ email: user.email.toLowerCase().trim() });
+  if (!dbUser) {
+    throw new Error("User not found in database");
+  }
+
+  return dbUser;
+}
+
+// Helper function to match a player name against a gamertag (case-insensitive, exact)
+function gamertagQuery(gamertag: string) {
+  const escaped = gamertag.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return { $regex: `^${escaped}$`, $options: "i" };
+}
+
+// Helper function to shape a claim document for the client
+function toClaimData(
+  claim: {
+    _id: { toString(): string };
+    userId: string;
+    playerId: string;
+    playerName: string;
+    gamertag: string;
+    status: PlayerClaimStatus;
+    reviewedAt?: Date;
+    note?: string;
+    createdAt: Date;
+  },
+  user?: { name?: string; email?: string }
+): PlayerClaimData {
+  return {
+    id: claim._id.toString(),
+    userId: claim.userId,
+    playerId: claim.playerId,
+    playerName: claim.playerName,
+    gamertag: claim.gamertag,
+    status: claim.status,
+    userName: user?.name,
+    userEmail: user?.email,
+    reviewedAt: claim.reviewedAt,
+    note: claim.note,
+    createdAt: claim.createdAt,
+  };
+}
+
+// GET: Players whose name matches the signed-in user's gamertag
+export async function getClaimablePlayers(): Promise<{
+  success: boolean;
+  players?: ClaimablePlayer[];
+  error?: string;
+}> {
+  try {
+    const dbUser = await getUserRecord(await requireUser());
+
+    if (!dbUser.gamertag) {
+      return { success: true, players: [] };
+    }
+
+    const players = await Player.find({
+      playerName: gamertagQuery(dbUser.gamertag),
+      isRegistered: { $ne: true },
+    })
+      .select("playerId playerName clientPlatform position clubs careerStats.totalMatches")
+      .lean<IPlayer[]>();
+
+    return {
+      success: true,
+      players: JSON.parse(JSON.stringify(players.map((player) => ({
+        playerId: player.playerId,
+        playerName: player.playerName,
+        clientPlatform: player.clientPlatform,
+        position: player.position,
+        totalMatches: player.careerStats?.totalMatches || 0,
+        clubs: player.clubs || [],
+      })))),
+    };
+  } catch (error) {
+    console.error("Get claimable players failed:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return {
+      success: false,
+      error: `Failed to fetch claimable players: ${message}`,
+    };
+  }
+}
+
+// GET: Claims made by the signed-in user
+export async function getMyPlayerClaims(): Promise<{
+  success: boolean;
+  claims?: PlayerClaimData[];
+  error?: string;
+}> {
+  try {
+    const dbUser = await getUserRecord(await requireUser());
+
+    const claims = await PlayerClaim.find({ userId: dbUser._id.toString() })
+      .sort({ createdAt: -1 })
+      .lean<IPlayerClaim[]>();
+
+    return {
+      success: true,
+      claims: JSON.parse(JSON.stringify(claims.map((claim) => toClaimData(claim)))),
+    };
+  } catch (error) {
+    console.error("Get my player claims failed:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return {
+      success: false,
+      error: `Failed to fetch claims: ${message}`,
+    };
+  }
+}
+
+// GET: The player linked to the signed-in user, if any
+export async function getMyLinkedPlayer() {
+  try {
+    const dbUser = await getUserRecord(await requireUser());
+
+    const player = await Player.findOne({ userId: dbUser._id.toString(), isRegistered: true });
+
+    if (!player) return null;
+
+    return JSON.parse(JSON.stringify(player));
+  } catch (error) {
+    console.error("Get linked player failed:", error);
+    return null;
+  }
+}
+
+// CREATE: Request to link a player to the signed-in user
+export async function requestPlayerClaim(playerId: string): Promise<{
+  success: boolean;
+  claim?: PlayerClaimData;
+  error?: string;
+}> {
+  try {
+    const dbUser = await getUserRecord(await requireUser());
+    const userId = dbUser._id.toString();
+
+    if (!dbUser.gamertag) {
+      return {
+        success: false,
+        error: "Add a gamertag to your account before claiming a player",
+      };
+    }
+
+    // The player's EA name must match the user's gamertag
+    const player = await Player.findOne({
+      playerId,
+      playerName: gamertagQuery(dbUser.gamertag),
+    });
+    if (!player) {
+      return {
+        success: false,
+        error: "Player not found or does not match your gamertag",
+      };
+    }
+
+    if (player.isRegistered) {
+      return {
+        success: false,
+        error: "This player has already been claimed",
+      };
+    }
+
+    // One linked player per user
+    const linkedPlayer = await Player.findOne({ userId, isRegistered: true });
+    if (linkedPlayer) {
+      return {
+        success: false,
+        error: "Your account is already linked to a player",
+      };
+    }
+
+    const existingClaim = await PlayerClaim.findOne({ userId, playerId, status: "pending" });
+    if (existingClaim) {
+      return {
+        success: false,
+        error: "You already have a pending claim for this player",
+      };
+    }
+
+    const claim = await PlayerClaim.create({
+      userId,
+      playerId,
+      playerName: player.playerName,
+      gamertag: dbUser.gamertag,
+      status: "pending",
+    });
+
+    revalidatePath("/welcome-user");
+    revalidatePath("/admin/users");
+
+    return {
+      success: true,
+      claim: JSON.parse(JSON.stringify(toClaimData(claim))),
+    };
+  } catch (error) {
+    console.error("Request player claim failed:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return {
+      success: false,
+      error: `Failed to request claim: ${message}`,
+    };
+  }
+}
+
+// GET: Claims for admin review
+export async function getPlayerClaims(
+  status: PlayerClaimStatus | "all" = "pending"
+): Promise<{
+  success: boolean;
+  claims?: PlayerClaimData[];
+  error?: string;
+}> {
+  try {
+    await requireAdmin();
+    await connectToDatabase();
+
+    const query = status === "all" ? {} : { status };
+
+    const claims = await PlayerClaim.find(query).sort({ createdAt: -1 }).lean<IPlayerClaim[]>();
+
+    // Attach requesting user's name and email
+    const users = await User.find({ _id: { $in: claims.map((claim) => claim.userId) } })
+      .select("name email")
+      .lean<UserDocument[]>();
+    const usersById = new Map(users.map((user) => [String(user._id), user]));
+
+    return {
+      success: true,
+      claims: JSON.parse(JSON.stringify(
+        claims.map((claim) => toClaimData(claim, usersById.get(claim.userId)))
+      )),
+    };
+  } catch (error) {
+    console.error("Get player claims failed:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return {
+      success: false,
+      error: `Failed to fetch claims: ${message}`,
+    };
+  }
+}
+
+// UPDATE: Approve a claim and link the player to the user
+export async function approvePlayerClaim(claimId: string): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    const admin = await requireAdmin();
+    const dbAdmin = await getUserRecord(admin);
+
+    const claim = await PlayerClaim.findById(claimId);
+    if (!claim || claim.status !== "pending") {
+      return {
+        success: false,
+        error: "Claim not found or already reviewed",
+      };
+    }
+
+    const before = claim.toObject();
+    const reviewedAt = new Date();
+    const reviewedBy = dbAdmin._id.toString();
+
+    // One linked player per user: a claim left open after another was approved can't be
+    const linkedPlayer = await Player.findOne({ userId: claim.userId, isRegistered: true });
+    if (linkedPlayer) {
+      claim.status = "rejected";
+      claim.reviewedBy = reviewedBy;
+      claim.reviewedAt = reviewedAt;
+      claim.note = "User is already linked to another player";
+      await claim.save();
+
+      await recordAudit({
+        actor: admin,
+        action: "player-claim.reject",
+        targetType: "player-claim",
+        targetId: claimId,
+        targetName: claim.playerName,
+        before,
+        after: claim,
+      });
+
+      return {
+        success: false,
+        error: "This user is already linked to another player",
+      };
+    }
+
+    // Link the player only if nobody else has been linked in the meantime.
+    // The unique index on userId rejects a concurrent approval for the same user.
+    let player: IPlayer | null;
+    try {
+      player = await Player.findOneAndUpdate(
+        { playerId: claim.playerId, isRegistered: { $ne: true } },
+        { $set: { isRegistered: true, userId: claim.userId } },
+        { new: true }
+      );
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        return {
+          success: false,
+          error: "This user is already linked to another player",
+        };
+      }
+      throw error;
+    }
+    if (!player) {
+      return {
+        success: false,
+        error: "Player not found or already linked to another user",
+      };
+    }
+
+    claim.status = "approved";
+    claim.reviewedBy = reviewedBy;
+    claim.reviewedAt = reviewedAt;
+    await claim.save();
+
+    await recordAudit({
+      actor: admin,
+      action: "player-claim.approve",
+      targetType: "player-claim",
+      targetId: claimId,
+      targetName: claim.playerName,
+      before,
+      after: claim,
+      details: { playerId: claim.playerId, userId: claim.userId },
+    });
+
+    // Close any other open claims on the same player
+    await PlayerClaim.updateMany(
+      { playerId: claim.playerId, status: "pending", _id: { $ne: claim._id } },
+      { $set: { status: "rejected", reviewedBy, reviewedAt, note: "Player claimed by another user" } }
+    );
+
+    // Close the user's open claims on other players
+    await PlayerClaim.updateMany(
+      { userId: claim.userId, status: "pending", _id: { $ne: claim._id } },
+      { $set: { status: "rejected", reviewedBy, reviewedAt, note: "User linked to another player" } }
+    );
+
+    revalidatePath("/admin/users");
+    revalidatePath("/welcome-user");
+    revalidatePath(`/players/${claim.playerId}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Approve player claim failed:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return {
+      success: false,
+      error: `Failed to approve claim: ${message}`,
+    };
+  }
+}
+
+// UPDATE: Reject a claim
+export async function rejectPlayerClaim(
+  claimId: string,
+  note?: string
+): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  try {
+    const admin = await requireAdmin();
+    const dbAdmin = await getUserRecord(admin);
+
+    const review = {
+      status: "rejected" as const,
+      reviewedBy: dbAdmin._id.toString(),
+      reviewedAt: new Date(),
+      note: note?.trim() || undefined,
+    };
+
+    // The claim as it was before the review
+    const claim = await PlayerClaim.findOneAndUpdate(
+      { _id: claimId, status: "pending" },
+      { $set: review }
+    );
+
+    if (!claim) {
+      return {
+        success: false,
+        error: "Claim not found or already reviewed",
+      };
+    }
+
+    await recordAudit({
+      actor: admin,
+      action: "player-claim.reject",
+      targetType: "player-claim",
+      targetId: claimId,
+      targetName: claim.playerName,
+      before: claim,
+      after: { ...claim.toObject(), ...review },
+    });
+
+    revalidatePath("/admin/users");
+    revalidatePath("/welcome-user");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Reject player claim failed:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return {
+      success: false,
+      error: `Failed to reject claim: ${message}`,
+    };
+  }
+}
@@ -4,7 +4,8 @@
  * These server actions handle CRUD operations for scheduler data.
  * They provide the server-side functions that components can call
  * to interact with the database, following Next.js best practices
- * for data mutations.
+ * for data mutations. Reads and writes made while running schedulers
+ * live in lib/services/schedulerRunService.ts, out of clients' reach.
  */
 
 'use server';
@@ -12,27 +13,158 @@
 import { revalidatePath } from 'next/cache';
 import { connectToDatabase } from '@/database/mongoose';
 import Scheduler, { IScheduler, IExecutionHistory } from '@/lib/models/scheduler.model';
-import Club from '@/lib/models/club.model';
-import { importMatchesFromEA } from '@/lib/actions/match.actions';
+import SchedulerRun from '@/lib/models/schedulerRun.model';
+import Season, { ISeason } from '@/lib/models/season.model';
+import { calculateNextRun, validateScheduleConfig } from '@/lib/utils/scheduling';
+import { isSchedulerRunning } from '@/lib/services/schedulerLease';
+import { clearSchedulerPolls, planClubPolls } from '@/lib/services/adaptivePolling';
+import { recordAudit } from '@/lib/services/auditService';
+import { resolveSchedulerClubs } from '@/lib/services/schedulerRunService';
+import {
+  AuthorizationError,
+  hasPermission,
+  requirePermission,
+  IActingUser,
+  IPermissionTarget
+} from '@/lib/utils/authGuard';
+import { Permission } from '@/lib/config/permissions';
+
+// Interface for the filters of a scheduler's run history
+export interface ISchedulerHistoryFilters {
+  page?: number;
+  limit?: number;
+  status?: IExecutionHistory['status'];
+  clubId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Helper function to find the leagues and clubs a scheduler collects for, to check permissions against
+ * Targeted seasons count as their leagues, and listed clubs carry the leagues they play a season in.
+ */
+async function getSchedulerTarget(
+  scheduler: { clubs?: string[]; seasonIds?: string[]; leagueIds?: string[] }
+): Promise<IPermissionTarget> {
+  const clubIds = scheduler.clubs || [];
+  const [seasons, clubSeasons]: ISeason[][] = await Promise.all([
+    scheduler.seasonIds?.length
+      ? Season.find({ _id: { $in: scheduler.seasonIds } }).select('leagueId')
+      : [],
+    clubIds.length
+      ? Season.find({ clubs: { $in: clubIds } }).select('leagueId clubs')
+      : []
+  ]);
+  
+  const clubLeagueIds: Record<string, string[]> = {};
+  for (const season of clubSeasons) {
+    for (const clubId of season.clubs.filter(clubId => clubIds.includes(clubId))) {
+      clubLeagueIds[clubId] = [...(clubLeagueIds[clubId] || []), season.leagueId];
+    }
+  }
+  
+  return {
+    leagueIds: [...new Set([...(scheduler.leagueIds || []), ...seasons.map(season => season.leagueId)])],
+    clubIds,
+    clubLeagueIds
+  };
+}
+
+/**
+ * Helper function to load a scheduler after checking a permission on it
+ * @returns The acting user and the scheduler, which is null if it doesn't exist
+ * @throws AuthorizationError if the signed-in user lacks the permission for this scheduler
+ */
+async function requireSchedulerPermission(schedulerId: string, permission: Permission) {
+  const user = await requirePermission(permission);
+  await connectToDatabase();
+  
+  const scheduler = await Scheduler.findById(schedulerId);
+  if (!scheduler) return { user, scheduler: null };
+  
+  if (!hasPermission(user, permission, await getSchedulerTarget(scheduler))) {
+    throw new AuthorizationError(403, 'Forbidden: Missing permission');
+  }
+  
+  return { user, scheduler };
+}
+
+/**
+ * Helper function to build the query limiting schedulers to the ones a user may view
+ * Mirrors hasPermission: a scheduler is visible when its leagues are leagues the
+ * user runs and each of its clubs is captained by the user or plays in one of them.
+ */
+async function getSchedulerScopeQuery(user: IActingUser) {
+  if (user.role === 'admin' || user.roleAssignments.some(assignment => assignment.role === 'stats-editor')) {
+    return {};
+  }
+  
+  const leagueIds = user.roleAssignments
+    .filter(assignment => assignment.role === 'league-manager')
+    .flatMap(assignment => assignment.leagueIds);
+  const seasons: ISeason[] = leagueIds.length > 0
+    ? await Season.find({ leagueId: { $in: leagueIds } }).select('_id clubs')
+    : [];
+  const seasonIds = seasons.map(season => season._id.toString());
+  const clubIds = [
+    ...user.roleAssignments
+      .filter(assignment => assignment.role === 'club-captain')
+      .flatMap(assignment => assignment.clubIds),
+    ...seasons.flatMap(season => season.clubs)
+  ];
+  
+  return {
+    $or: [{ leagueIds: { $in: leagueIds } }, { seasonIds: { $in: seasonIds } }, { clubs: { $in: clubIds } }],
+    leagueIds: { $not: { $elemMatch: { $nin: leagueIds } } },
+    seasonIds: { $not: { $elemMatch: { $nin: seasonIds } } },
+    clubs: { $not: { $elemMatch: { $nin: clubIds } } }
+  };
+}
 
 /**
  * Creates a new scheduler in the database
+ * The signed-in user is recorded as its creator; league managers may only
+ * create schedulers for their own leagues.
  * @param schedulerData - The scheduler data to create
  * @returns The created scheduler or null if error
  */
 export async function createScheduler(schedulerData: Partial<IScheduler>) {
   try {
+    // Anonymous calls are refused before the target's seasons are read
+    const user = await requirePermission('schedulers:manage');
     await connectToDatabase();
+
+    if (!hasPermission(user, 'schedulers:manage', await getSchedulerTarget(schedulerData))) {
+      throw new AuthorizationError(403, 'Forbidden: Missing permission');
+    }
+
+    const scheduleError = validateScheduleConfig(schedulerData.scheduleConfig!);
+    if (scheduleError) {
+      throw new Error(`Invalid schedule: ${scheduleError}`);
+    }
     
     // Calculate next run time based on schedule
-    const nextRun = calculateNextRun(schedulerData.scheduleConfig!);
+    const nextRun = calculateNextRun(
+      schedulerData.scheduleConfig!,
+      schedulerData.collectionSettings?.frequencyMinutes ?? 30
+    );
     
     const newScheduler = new Scheduler({
       ...schedulerData,
+      createdBy: user.id,
       nextRun
     });
     await newScheduler.save();
     
+    await recordAudit({
+      actor: user,
+      action: 'scheduler.create',
+      targetType: 'scheduler',
+      targetId: newScheduler._id.toString(),
+      targetName: newScheduler.name,
+      after: newScheduler
+    });
+    
     // Revalidate the schedulers page to show the new scheduler
     revalidatePath('/admin/schedulers');
     
@@ -50,9 +182,7 @@ export async function createScheduler(schedulerData: Partial<IScheduler>) {
  */
 export async function getSchedulerById(schedulerId: string) {
   try {
-    await connectToDatabase();
-    
-    const scheduler = await Scheduler.findById(schedulerId);
+    const { scheduler } = await requireSchedulerPermission(schedulerId, 'schedulers:view');
     
     if (!scheduler) return null;
     
@@ -70,7 +200,7 @@ export async function getSchedulerById(schedulerId: string) {
  * @param search - Optional search term for scheduler names
  * @param createdBy - Optional admin user ID to filter schedulers
  * @param isActive - Optional filter for active schedulers
- * @returns Object with schedulers array and pagination info
+ * @returns Object with schedulers array and pagination info, limited to the schedulers the user may view
  */
 export async function getSchedulers(
   page = 1, 
@@ -80,12 +210,13 @@ export async function getSchedulers(
   isActive = true
 ) {
   try {
+    const user = await requirePermission('schedulers:view');
     await connectToDatabase();
     
     const skip = (page - 1) * limit;
     
     // Build query
-    const query: any = {};
+    const query: any = { ...(await getSchedulerScopeQuery(user)) };
     
     if (search) {
       query.name = { $regex: search, $options: 'i' };
@@ -139,11 +270,32 @@ export async function getSchedulers(
  */
 export async function updateScheduler(schedulerId: string, updateData: Partial<IScheduler>) {
   try {
-    await connectToDatabase();
+    const { user, scheduler: existingScheduler } = await requireSchedulerPermission(schedulerId, 'schedulers:manage');
+    if (!existingScheduler) return null;
+    
+    // The scheduler must stay within the user's scope after the update
+    await requirePermission('schedulers:manage', await getSchedulerTarget({
+      clubs: updateData.clubs ?? existingScheduler.clubs,
+      seasonIds: updateData.seasonIds ?? existingScheduler.seasonIds,
+      leagueIds: updateData.leagueIds ?? existingScheduler.leagueIds
+    }));
+    
+    // The creator is set once from the session and never changed by an update
+    delete updateData.createdBy;
     
-    // If schedule config is updated, recalculate next run time
     if (updateData.scheduleConfig) {
-      updateData.nextRun = calculateNextRun(updateData.scheduleConfig);
+      const scheduleError = validateScheduleConfig(updateData.scheduleConfig);
+      if (scheduleError) {
+        throw new Error(`Invalid schedule: ${scheduleError}`);
+      }
+    }
+    
+    // If schedule config or frequency is updated, recalculate next run time
+    if (updateData.scheduleConfig || updateData.collectionSettings) {
+      updateData.nextRun = calculateNextRun(
+        updateData.scheduleConfig || existingScheduler.scheduleConfig,
+        (updateData.collectionSettings || existingScheduler.collectionSettings).frequencyMinutes
+      ) ?? undefined;
     }
     
     const updatedScheduler = await Scheduler.findByIdAndUpdate(
@@ -154,6 +306,16 @@ export async function updateScheduler(schedulerId: string, updateData: Partial<I
     
     if (!updatedScheduler) return null;
     
+    await recordAudit({
+      actor: user,
+      action: 'scheduler.update',
+      targetType: 'scheduler',
+      targetId: schedulerId,
+      targetName: updatedScheduler.name,
+      before: existingScheduler,
+      after: updatedScheduler
+    });
+    
     // Revalidate the schedulers page to show the updated scheduler
     revalidatePath('/admin/schedulers');
     revalidatePath(`/admin/schedulers/${schedulerId}`);
@@ -172,12 +334,26 @@ export async function updateScheduler(schedulerId: string, updateData: Partial<I
  */
 export async function deleteScheduler(schedulerId: string) {
   try {
-    await connectToDatabase();
+    const { user, scheduler: existingScheduler } = await requireSchedulerPermission(schedulerId, 'schedulers:manage');
+    if (!existingScheduler) return false;
     
     const result = await Scheduler.findByIdAndDelete(schedulerId);
     
     if (!result) return false;
     
+    // Run logs are kept only as long as their scheduler
+    await SchedulerRun.deleteMany({ schedulerId });
+    await clearSchedulerPolls(schedulerId);
+    
+    await recordAudit({
+      actor: user,
+      action: 'scheduler.delete',
+      targetType: 'scheduler',
+      targetId: schedulerId,
+      targetName: result.name,
+      before: result
+    });
+    
     // Revalidate the schedulers page to reflect the deletion
     revalidatePath('/admin/schedulers');
     
@@ -195,19 +371,33 @@ export async function deleteScheduler(schedulerId: string) {
  */
 export async function startScheduler(schedulerId: string) {
   try {
-    await connectToDatabase();
+    const { user, scheduler: existingScheduler } = await requireSchedulerPermission(schedulerId, 'schedulers:manage');
+    if (!existingScheduler) return null;
     
     const scheduler = await Scheduler.findByIdAndUpdate(
       schedulerId,
       { 
         isActive: true,
-        nextRun: calculateNextRun() // Calculate next run time for now
+        nextRun: calculateNextRun(
+          existingScheduler.scheduleConfig,
+          existingScheduler.collectionSettings.frequencyMinutes
+        )
       },
       { new: true }
     );
     
     if (!scheduler) return null;
     
+    await recordAudit({
+      actor: user,
+      action: 'scheduler.start',
+      targetType: 'scheduler',
+      targetId: schedulerId,
+      targetName: scheduler.name,
+      before: existingScheduler,
+      after: scheduler
+    });
+    
     // Revalidate paths
     revalidatePath('/admin/schedulers');
     revalidatePath(`/admin/schedulers/${schedulerId}`);
@@ -226,7 +416,8 @@ export async function startScheduler(schedulerId: string) {
  */
 export async function stopScheduler(schedulerId: string) {
   try {
-    await connectToDatabase();
+    const { user, scheduler: existingScheduler } = await requireSchedulerPermission(schedulerId, 'schedulers:manage');
+    if (!existingScheduler) return null;
     
     const scheduler = await Scheduler.findByIdAndUpdate(
       schedulerId,
@@ -239,6 +430,19 @@ export async function stopScheduler(schedulerId: string) {
     
     if (!scheduler) return null;
     
+    // A stopped scheduler no longer takes a share of the poll budget
+    await clearSchedulerPolls(schedulerId);
+    
+    await recordAudit({
+      actor: user,
+      action: 'scheduler.stop',
+      targetType: 'scheduler',
+      targetId: schedulerId,
+      targetName: scheduler.name,
+      before: existingScheduler,
+      after: scheduler
+    });
+    
     // Revalidate paths
     revalidatePath('/admin/schedulers');
     revalidatePath(`/admin/schedulers/${schedulerId}`);
@@ -252,90 +456,35 @@ export async function stopScheduler(schedulerId: string) {
 
 /**
  * Manually runs a scheduler
+ * The run is queued for the scheduler worker; it is refused while another
+ * run of the scheduler holds its lease. Unlike queued runs, a manual run
+ * imports every club, whatever its polling interval.
  * @param schedulerId - The ID of the scheduler to run
- * @returns Execution result or null if error
+ * @returns `{ queued: true, jobId }`, `{ alreadyRunning: true }` if another run holds the lease, or null if error
  */
 export async function runSchedulerManually(schedulerId: string) {
   try {
-    await connectToDatabase();
-    
-    const scheduler = await Scheduler.findById(schedulerId);
+    const { user, scheduler } = await requireSchedulerPermission(schedulerId, 'schedulers:run');
     if (!scheduler || !scheduler.isActive) return null;
     
-    const startTime = Date.now();
-    let matchesCollected = 0;
-    let clubsProcessed = 0;
-    let status: 'success' | 'error' | 'partial' = 'success';
-    let errorMessage: string | undefined;
-    
-    try {
-      // Process each club in the scheduler
-      for (const clubId of scheduler.clubs) {
-        // Verify club exists
-        const club = await Club.findOne({ clubId });
-        if (!club) continue;
-        
-        clubsProcessed++;
-        
-        // Import matches for this club
-        const matches = await importMatchesFromEA(
-          clubId,
-          scheduler.collectionSettings.platform,
-          scheduler.collectionSettings.matchType
-        );
-        
-        if (matches) {
-          matchesCollected += matches.length;
-        }
-      }
-      
-      // Update scheduler with execution details
-      await Scheduler.findByIdAndUpdate(schedulerId, {
-        lastRun: new Date(),
-        nextRun: calculateNextRun(scheduler.scheduleConfig),
-        $push: {
-          executionHistory: {
-            timestamp: new Date(),
-            status,
-            matchesCollected,
-            clubsProcessed,
-            error: errorMessage,
-            duration: Date.now() - startTime
-          }
-        }
-      });
-      
-    } catch (error) {
-      status = 'error';
-      errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      
-      // Update scheduler with error
-      await Scheduler.findByIdAndUpdate(schedulerId, {
-        lastRun: new Date(),
-        $push: {
-          executionHistory: {
-            timestamp: new Date(),
-            status,
-            matchesCollected,
-            clubsProcessed,
-            error: errorMessage,
-            duration: Date.now() - startTime
-          }
-        }
-      });
+    if (await isSchedulerRunning(schedulerId)) {
+      return { alreadyRunning: true as const };
     }
     
-    // Revalidate paths
-    revalidatePath('/admin/schedulers');
-    revalidatePath(`/admin/schedulers/${schedulerId}`);
+    // Imported lazily because the scheduler service depends on these actions
+    const { addSchedulerJob } = await import('@/lib/services/schedulerService');
+    const job = await addSchedulerJob(schedulerId, 0, true);
+    
+    await recordAudit({
+      actor: user,
+      action: 'scheduler.run',
+      targetType: 'scheduler',
+      targetId: schedulerId,
+      targetName: scheduler.name,
+      details: { jobId: String(job.id) }
+    });
     
-    return {
-      status,
-      matchesCollected,
-      clubsProcessed,
-      duration: Date.now() - startTime,
-      error: errorMessage
-    };
+    return { queued: true as const, jobId: String(job.id) };
   } catch (error) {
     console.error('Error running scheduler manually:', error);
     return null;
@@ -343,143 +492,94 @@ export async function runSchedulerManually(schedulerId: string) {
 }
 
 /**
- * Gets schedulers that need to run
- * @returns Array of schedulers that are due to run
+ * Gets how often each club of a scheduler is polled
+ * Clubs are resolved as the next run sees them, and their intervals follow
+ * their recent match activity and the shared request budget.
+ * @param schedulerId - The ID of the scheduler
+ * @returns The scheduler's polling plan, or null if error
  */
-export async function getSchedulersToRun() {
+export async function getSchedulerPollPlan(schedulerId: string) {
   try {
-    await connectToDatabase();
+    const { scheduler } = await requireSchedulerPermission(schedulerId, 'schedulers:view');
+    if (!scheduler) return null;
     
-    const now = new Date();
+    const resolved = await resolveSchedulerClubs(schedulerId);
+    if (!resolved) return null;
     
-    const schedulers = await Scheduler.find({
-      isActive: true,
-      nextRun: { $lte: now }
-    });
-    
-    return JSON.parse(JSON.stringify(schedulers));
+    return await planClubPolls(schedulerId, resolved.clubs, scheduler.collectionSettings.frequencyMinutes);
   } catch (error) {
-    console.error('Error fetching schedulers to run:', error);
-    return [];
+    console.error('Error planning scheduler club polls:', error);
+    return null;
   }
 }
 
 /**
- * Updates scheduler execution history
+ * Gets the run history of a scheduler with optional filtering and pagination
  * @param schedulerId - The ID of the scheduler
- * @param executionData - The execution data to add
- * @returns True if successful, false otherwise
+ * @param filters - Optional filters: page (default: 1), limit (default: 20),
+ *   run status, a club the run included (clubId) and a from/to date range
+ * @returns Object with history array (newest first) and pagination info
  */
-export async function updateSchedulerExecution(
-  schedulerId: string, 
-  executionData: {
-    status: 'success' | 'error' | 'partial';
-    matchesCollected: number;
-    clubsProcessed: number;
-    error?: string;
-    duration: number;
-  }
+export async function getSchedulerExecutionHistory(
+  schedulerId: string,
+  filters: ISchedulerHistoryFilters = {}
 ) {
+  const { page = 1, limit = 20, status, clubId, from, to } = filters;
+  
   try {
-    await connectToDatabase();
+    if (!(await requireSchedulerPermission(schedulerId, 'schedulers:view')).scheduler) {
+      throw new Error(`Scheduler ${schedulerId} not found`);
+    }
     
-    // Update scheduler with execution details
-    await Scheduler.findByIdAndUpdate(schedulerId, {
-      lastRun: new Date(),
-      nextRun: calculateNextRun(),
-      $push: {
-        executionHistory: {
-          timestamp: new Date(),
-          ...executionData
-        }
-      }
-    });
+    const skip = (page - 1) * limit;
     
-    // Revalidate paths
-    revalidatePath('/admin/schedulers');
-    revalidatePath(`/admin/schedulers/${schedulerId}`);
+    // Build query
+    const query: Record<string, unknown> = { schedulerId };
     
-    return true;
-  } catch (error) {
-    console.error('Error updating scheduler execution:', error);
-    return false;
-  }
-}
-
-/**
- * Gets execution history for a scheduler
- * @param schedulerId - The ID of the scheduler
- * @param limit - Number of history entries to return (default: 50)
- * @returns Array of execution history entries
- */
-export async function getSchedulerExecutionHistory(schedulerId: string, limit = 50) {
-  try {
-    await connectToDatabase();
+    if (status) {
+      query.status = status;
+    }
     
-    const scheduler = await Scheduler.findById(schedulerId)
-      .select('executionHistory')
-      .lean();
+    if (clubId) {
+      query['clubs.clubId'] = clubId;
+    }
     
-    if (!scheduler || !scheduler.executionHistory) return [];
+    if (from || to) {
+      query.timestamp = {
+        ...(from ? { $gte: from } : {}),
+        ...(to ? { $lte: to } : {})
+      };
+    }
+    
+    // Get total count for pagination
+    const total = await SchedulerRun.countDocuments(query);
     
-    // Return the most recent entries
-    return scheduler.executionHistory
-    .sort((a: IExecutionHistory, b: IExecutionHistory) => 
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-      )
-      .slice(0, limit);
+    // Get runs with pagination
+    const history = await SchedulerRun.find(query)
+      .sort({ timestamp: -1 })
+      .skip(skip)
+      .limit(limit)
+      .lean();
+    
+    return {
+      history: JSON.parse(JSON.stringify(history)),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
   } catch (error) {
     console.error('Error fetching scheduler execution history:', error);
-    return [];
+    return {
+      history: [],
+      pagination: {
+        page,
+        limit,
+        total: 0,
+        pages: 0
+      }
+    };
   }
 }
-
-/**
- * Helper function to calculate next run time based on schedule
- * @param scheduleConfig - Schedule configuration
- * @returns Next run date
- */
-function calculateNextRun(scheduleConfig?: any): Date {
-  const now = new Date();
-  const nextRun = new Date(now);
-  
-  if (!scheduleConfig) {
-    // Default to next hour if no schedule config
-    nextRun.setHours(nextRun.getHours() + 1);
-    nextRun.setMinutes(0);
-    nextRun.setSeconds(0);
-    nextRun.setMilliseconds(0);
-    return nextRun;
-  }
-  
-  // Simple implementation - in production, you'd want more sophisticated scheduling
-  // This just sets the next run to the next occurrence of the configured time
-  const { startHour, endHour, daysOfWeek } = scheduleConfig;
-  
-  // Find the next valid day and time
-  let daysToAdd = 0;
-  let found = false;
-  
-  while (!found && daysToAdd < 7) {
-    const testDate = new Date(now);
-    testDate.setDate(testDate.getDate() + daysToAdd);
-    testDate.setHours(startHour, 0, 0, 0);
-    
-    if (daysOfWeek.includes(testDate.getDay()) && testDate > now) {
-      nextRun.setTime(testDate.getTime());
-      found = true;
-    } else {
-      daysToAdd++;
-    }
-  }
-  
-  // If no valid time found in the next week, set to next week's first valid day
-  if (!found) {
-    const nextWeek = new Date(now);
-    nextWeek.setDate(nextWeek.getDate() + 7);
-    nextWeek.setHours(startHour, 0, 0, 0);
-    nextRun.setTime(nextWeek.getTime());
-  }
-  
-  return nextRun;
-}
\ No newline at end of file
@@ -1,10 +1,12 @@
 'use server';
 
 import { connectToDatabase } from "@/database/mongoose";
-import User, { UserDocument } from "@/lib/models/user.model";
-import { getSession } from "@/lib/actions/auth.actions";
+import User, { IRoleAssignment } from "@/lib/models/user.model";
 import { revalidatePath } from "next/cache";
 import { auth } from "@/lib/better-auth/auth";
+import { requireAdmin } from "@/lib/utils/authGuard";
+import { SCOPED_ROLES } from "@/lib/config/permissions";
+import { recordAudit } from "@/lib/services/auditService";
 
 // Types
 export interface UserData {
@@ -12,6 +14,7 @@ export interface UserData {
   name?: string;
   email: string;
   role?: "admin" | "user";
+  roleAssignments?: IRoleAssignment[];
   gamertag?: string;
   image?: string;
   createdAt?: Date;
@@ -38,19 +41,11 @@ export interface GetUsersResult {
 
 // Helper function to check if user is admin and get user ID
 async function ensureAdmin() {
-  const result = await getSession();
-  if (!result.success || !result.session?.user) {
-    throw new Error("Unauthorized: Please sign in");
-  }
-  
-  const userRole = (result.session.user as { role?: string })?.role;
-  if (userRole !== "admin") {
-    throw new Error("Forbidden: Admin access required");
-  }
+  const admin = await requireAdmin();
   
   // Get the MongoDB user ID by looking up the user by email
   await connectToDatabase();
-  const userEmail = result.session.user.email;
+  const userEmail = admin.email;
   if (!userEmail) {
     throw new Error("User email not found");
   }
@@ -61,11 +56,37 @@ async function ensureAdmin() {
   }
   
   return {
-    ...result.session.user,
+    ...admin,
     id: dbUser._id?.toString() || (dbUser as any).id,
   };
 }
 
+// Helper function to check scoped roles before they are stored
+// Each role is kept once, with only the scope it takes; scoped roles need at least one league or club.
+function normalizeRoleAssignments(assignments: IRoleAssignment[] = []): IRoleAssignment[] {
+  const normalized = new Map<string, IRoleAssignment>();
+
+  for (const assignment of assignments) {
+    const scopedRole = SCOPED_ROLES.find((role) => role.value === assignment.role);
+    if (!scopedRole) {
+      throw new Error(`Unknown role: ${assignment.role}`);
+    }
+
+    const leagueIds = scopedRole.scope === "leagues" ? [...new Set(assignment.leagueIds || [])] : [];
+    const clubIds = scopedRole.scope === "clubs" ? [...new Set(assignment.clubIds || [])] : [];
+    if (scopedRole.scope === "leagues" && leagueIds.length === 0) {
+      throw new Error(`${scopedRole.label} needs at least one league`);
+    }
+    if (scopedRole.scope === "clubs" && clubIds.length === 0) {
+      throw new Error(`${scopedRole.label} needs at least one club`);
+    }
+
+    normalized.set(assignment.role, { role: assignment.role, leagueIds, clubIds });
+  }
+
+  return [...normalized.values()];
+}
+
 // GET: Fetch all users with pagination, search, and filtering
 export async function getUsers(params: GetUsersParams = {}): Promise<GetUsersResult> {
   try {
@@ -123,6 +144,7 @@ export async function getUsers(params: GetUsersParams = {}): Promise<GetUsersRes
       name: user.name,
       email: user.email,
       role: user.role || "user",
+      roleAssignments: user.roleAssignments || [],
       gamertag: user.gamertag,
       image: user.image,
       createdAt: user.createdAt,
@@ -243,14 +265,15 @@ export async function getUserById(userId: string): Promise<{
     }
 
     const transformedUser: UserData = {
-      id: user._id?.toString() || (user as any).id,
-      name: (user as any).name,
-      email: (user as any).email,
-      role: (user as any).role || "user",
-      gamertag: (user as any).gamertag,
-      image: (user as any).image,
-      createdAt: (user as any).createdAt,
-      updatedAt: (user as any).updatedAt,
+      id: user._id?.toString() || user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role || "user",
+      roleAssignments: user.roleAssignments || [],
+      gamertag: user.gamertag,
+      image: user.image,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
     };
 
     return {
@@ -273,6 +296,7 @@ export async function createUser(data: {
   email: string;
   password: string;
   role?: "admin" | "user";
+  roleAssignments?: IRoleAssignment[];
   gamertag: string; 
 }): Promise<{
   success: boolean;
@@ -280,7 +304,7 @@ export async function createUser(data: {
   error?: string;
 }> {
   try {
-    await ensureAdmin();
+    const currentUser = await ensureAdmin();
     // Note: ensureAdmin already connects to database
     await connectToDatabase();
 
@@ -294,6 +318,7 @@ export async function createUser(data: {
 
     const email = data.email.toLowerCase().trim();
     const gamertag = data.gamertag.trim();
+    const roleAssignments = normalizeRoleAssignments(data.roleAssignments);
 
     // Check if email already exists
     const existingUserByEmail = await User.findOne({ email });
@@ -353,11 +378,11 @@ export async function createUser(data: {
       };
     }
 
-    // Update role if provided (better-auth might not handle custom roles)
-    if (data.role && data.role !== "user") {
+    // Update role and scoped roles if provided (better-auth might not handle custom roles)
+    if ((data.role && data.role !== "user") || roleAssignments.length > 0) {
       await User.findOneAndUpdate(
         { email: data.email.toLowerCase().trim() },
-        { role: data.role },
+        { role: data.role || "user", roleAssignments },
         { new: true }
       );
     }
@@ -375,16 +400,26 @@ export async function createUser(data: {
     }
 
     const transformedUser: UserData = {
-      id: createdUser._id?.toString() || (createdUser as any).id,
-      name: (createdUser as any).name,
-      email: (createdUser as any).email,
-      role: (createdUser as any).role || "user",
-      gamertag: (createdUser as any).gamertag,
-      image: (createdUser as any).image,
-      createdAt: (createdUser as any).createdAt,
-      updatedAt: (createdUser as any).updatedAt,
+      id: createdUser._id?.toString() || createdUser.id,
+      name: createdUser.name,
+      email: createdUser.email,
+      role: createdUser.role || "user",
+      roleAssignments: createdUser.roleAssignments || [],
+      gamertag: createdUser.gamertag,
+      image: createdUser.image,
+      createdAt: createdUser.createdAt,
+      updatedAt: createdUser.updatedAt,
     };
 
+    await recordAudit({
+      actor: currentUser,
+      action: "user.create",
+      targetType: "user",
+      targetId: transformedUser.id!,
+      targetName: transformedUser.email,
+      after: createdUser,
+    });
+
     revalidatePath("/users");
     revalidatePath("/admin/users");
 
@@ -409,6 +444,7 @@ export async function updateUser(
     name?: string;
     email?: string;
     role?: "admin" | "user";
+    roleAssignments?: IRoleAssignment[];
     gamertag?: string; 
   }
 ): Promise<{
@@ -417,12 +453,12 @@ export async function updateUser(
   error?: string;
 }> {
   try {
-    await ensureAdmin();
+    const currentUser = await ensureAdmin();
     // Note: ensureAdmin already connects to database
     await connectToDatabase();
 
     // Check if user exists
-    const existingUser = await User.findById(userId);
+    const existingUser = await User.findById(userId).select("-password");
     if (!existingUser) {
       return {
         success: false,
@@ -483,6 +519,7 @@ export async function updateUser(
     if (data.name !== undefined) updateData.name = data.name;
     if (data.email !== undefined) updateData.email = data.email.toLowerCase().trim();
     if (data.role !== undefined) updateData.role = data.role;
+    if (data.roleAssignments !== undefined) updateData.roleAssignments = normalizeRoleAssignments(data.roleAssignments);
     if (data.gamertag !== undefined) updateData.gamertag = data.gamertag.trim();
 
     // Update user
@@ -500,16 +537,27 @@ export async function updateUser(
     }
 
     const transformedUser: UserData = {
-      id: updatedUser._id?.toString() || (updatedUser as any).id,
-      name: (updatedUser as any).name,
-      email: (updatedUser as any).email,
-      role: (updatedUser as any).role || "user",
-      gamertag: (updatedUser as any).gamertag,
-      image: (updatedUser as any).image,
-      createdAt: (updatedUser as any).createdAt,
-      updatedAt: (updatedUser as any).updatedAt,
+      id: updatedUser._id?.toString() || updatedUser.id,
+      name: updatedUser.name,
+      email: updatedUser.email,
+      role: updatedUser.role || "user",
+      roleAssignments: updatedUser.roleAssignments || [],
+      gamertag: updatedUser.gamertag,
+      image: updatedUser.image,
+      createdAt: updatedUser.createdAt,
+      updatedAt: updatedUser.updatedAt,
     };
 
+    await recordAudit({
+      actor: currentUser,
+      action: "user.update",
+      targetType: "user",
+      targetId: userId,
+      targetName: transformedUser.email,
+      before: existingUser,
+      after: updatedUser,
+    });
+
     revalidatePath("/users");
     revalidatePath("/admin/users");
 
@@ -546,7 +594,7 @@ export async function deleteUser(userId: string): Promise<{
     await connectToDatabase();
 
     // Check if user exists
-    const user = await User.findById(userId);
+    const user = await User.findById(userId).select("-password");
     if (!user) {
       return {
         success: false,
@@ -557,6 +605,15 @@ export async function deleteUser(userId: string): Promise<{
     // Delete user
     await User.findByIdAndDelete(userId);
 
+    await recordAudit({
+      actor: currentUser,
+      action: "user.delete",
+      targetType: "user",
+      targetId: userId,
+      targetName: user.email,
+      before: user,
+    });
+
     revalidatePath("/users");
     revalidatePath("/admin/users");
 
@@ -585,7 +642,7 @@ export async function deleteUsers(userIds: string[]): Promise<{
 
     // Prevent deleting yourself
     const currentUser = await ensureAdmin();
-    const currentUserId = (currentUser as any).id;
+    const currentUserId = currentUser.id;
     const filteredIds = userIds.filter((id) => id !== currentUserId);
 
     if (filteredIds.length === 0) {
@@ -596,8 +653,21 @@ export async function deleteUsers(userIds: string[]): Promise<{
     }
 
     // Delete users
+    const deletedUsers = await User.find({ _id: { $in: filteredIds } }).select("-password");
     const result = await User.deleteMany({ _id: { $in: filteredIds } });
 
+    for (const deletedUser of deletedUsers) {
+      await recordAudit({
+        actor: currentUser,
+        action: "user.delete",
+        targetType: "user",
+        targetId: deletedUser._id.toString(),
+        targetName: deletedUser.email,
+        before: deletedUser,
+        details: { bulk: true },
+      });
+    }
+
     revalidatePath("/users");
     revalidatePath("/admin/users");
 
@@ -640,11 +710,25 @@ export async function updateUsersRole(
     }
 
     // Update roles
+    const changedUsers = await User.find({ _id: { $in: filteredIds }, role: { $ne: role } }).select("email role");
     const result = await User.updateMany(
       { _id: { $in: filteredIds } },
       { $set: { role } }
     );
 
+    for (const changedUser of changedUsers) {
+      await recordAudit({
+        actor: currentUser,
+        action: "user.change-role",
+        targetType: "user",
+        targetId: changedUser._id.toString(),
+        targetName: changedUser.email,
+        before: { role: changedUser.role },
+        after: { role },
+        details: { bulk: true },
+      });
+    }
+
     revalidatePath("/users");
     revalidatePath("/admin/users");
 
@@ -31,19 +31,17 @@ export async function initializeApp(): Promise<void> {
     
     const success = await initializeServices();
     
+    // The web app keeps serving pages without Redis; only queuing scheduler runs is unavailable
     if (!success) {
-      console.error('❌ Application initialization failed');
-      console.error('Exiting process...');
-      process.exit(1);
+      console.error('❌ Application initialization failed, continuing without background services');
+      return;
     }
     
     isInitialized = true;
     console.log('✅ Application initialized successfully');
     
   } catch (error) {
-    console.error('❌ Fatal error during application initialization:', error);
-    console.error('Exiting process...');
-    process.exit(1);
+    console.error('❌ Error during application initialization:', error);
   }
 }
 
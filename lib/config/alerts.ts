@@ -0,0 +1,22 @@
+/**
+ * Alert Configuration
+ *
+ * This file exports the settings used when delivering alert webhooks.
+ * A delivery is retried with an exponential backoff until it succeeds
+ * or runs out of attempts.
+ */
+
+// Number of attempts made to deliver an alert webhook
+export const ALERT_DELIVERY_ATTEMPTS = Math.max(1, parseInt(process.env.ALERT_DELIVERY_ATTEMPTS || '3'));
+
+// Delay before the first retry; doubled for every following retry
+export const ALERT_RETRY_BASE_DELAY_MS = 2 * 1000;
+
+// How long a single webhook request may take before it is aborted
+export const ALERT_REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// Header carrying the HMAC-SHA256 signature of `${timestamp}.${body}`
+export const ALERT_SIGNATURE_HEADER = 'X-Xblade-Signature';
+
+// Header carrying the Unix timestamp (seconds) included in the signature
+export const ALERT_TIMESTAMP_HEADER = 'X-Xblade-Timestamp';
@@ -0,0 +1,40 @@
+/**
+ * Audit Configuration
+ *
+ * This file exports the mutations recorded in the audit log and the kinds
+ * of records they target. Actions are named `<target>.<verb>`.
+ */
+
+// Mutations that are recorded
+export const AUDIT_ACTIONS = [
+  'league.create',
+  'league.update',
+  'league.delete',
+  'season.create',
+  'season.update',
+  'season.delete',
+  'season.add-club',
+  'season.remove-club',
+  'scheduler.create',
+  'scheduler.update',
+  'scheduler.delete',
+  'scheduler.start',
+  'scheduler.stop',
+  'scheduler.run',
+  'club.create',
+  'club.update',
+  'club.delete',
+  'user.create',
+  'user.update',
+  'user.delete',
+  'user.change-role',
+  'player-claim.approve',
+  'player-claim.reject'
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// Kinds of records a mutation can target
+export const AUDIT_TARGET_TYPES = ['league', 'season', 'scheduler', 'club', 'user', 'player-claim'] as const;
+
+export type AuditTargetType = typeof AUDIT_TARGET_TYPES[number];
@@ -0,0 +1,78 @@
+/**
+ * EA API Configuration
+ * 
+ * This file exports the caching and rate limiting policy used when
+ * talking to EA's NHL Pro Clubs API. The policy is enforced through
+ * Redis so every Next.js worker and Bull processor shares one budget.
+ */
+
+// Token bucket settings: up to `capacity` requests in a burst, refilled at `refillPerSecond`
+export interface IRateLimitPolicy {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+// Per-endpoint policy
+export interface IEndpointPolicy {
+  cacheTtlSeconds: number;
+  rateLimit: IRateLimitPolicy;
+}
+
+// Base URL of the EA API; point it at the local stand-in (e.g. http://localhost:3000/api/mock/ea) to work offline
+export const EA_API_BASE_URL = (process.env.EA_API_BASE_URL || 'https://proclubs.ea.com/api/nhl').replace(/\/+$/, '');
+
+// When true, EA requests are answered in-process by the EA API stand-in and never reach the network
+export const EA_API_MOCK_ENABLED = process.env.EA_API_MOCK === 'true';
+
+// Match types clubs play under; matches are stored with the type they were imported as
+export const EA_MATCH_TYPES = [
+  { value: 'club_private', label: 'Club Private' },
+  { value: 'club_public', label: 'Club Public' },
+];
+
+export type EaApiEndpoint = 'clubSearch' | 'clubMatches';
+
+export const EA_API_ENDPOINTS: Record<EaApiEndpoint, IEndpointPolicy> = {
+  // Club search results rarely change, so they can be cached for a long time
+  clubSearch: {
+    cacheTtlSeconds: 60 * 60, // 1 hour
+    rateLimit: { capacity: 5, refillPerSecond: 0.5 }
+  },
+  // Match lists must stay fresh enough for schedulers polling every few minutes
+  clubMatches: {
+    cacheTtlSeconds: 2 * 60, // 2 minutes
+    rateLimit: { capacity: 10, refillPerSecond: 1 }
+  }
+};
+
+// Budget shared by all endpoints across all processes
+export const EA_API_GLOBAL_RATE_LIMIT: IRateLimitPolicy = {
+  capacity: parseInt(process.env.EA_API_RATE_LIMIT_BURST || '10'),
+  refillPerSecond: parseFloat(process.env.EA_API_RATE_LIMIT_PER_SECOND || '2')
+};
+
+// Longest a caller waits for a rate limit token before giving up
+export const EA_API_MAX_RATE_LIMIT_WAIT_MS = 30 * 1000;
+
+// Prefix for every Redis key owned by the EA API client
+export const EA_API_REDIS_PREFIX = 'ea-api';
+
+// Longest a single EA request may take before it is aborted
+export const EA_API_REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// Retry policy for rate limited (429) and failing (5xx, network) requests
+export const EA_API_RETRY = {
+  maxAttempts: 3,
+  baseDelayMs: 500, // doubled on every attempt, with full jitter
+  maxDelayMs: 10 * 1000
+};
+
+// Circuit breaker: after `failureThreshold` failed calls within `failureWindowSeconds`
+// all EA fetching is paused for `cooldownSeconds`, then a single trial request is let through.
+// A trial that never reports back frees the circuit for another after `trialTimeoutSeconds`.
+export const EA_API_CIRCUIT_BREAKER = {
+  failureThreshold: 5,
+  failureWindowSeconds: 5 * 60,
+  cooldownSeconds: 60,
+  trialTimeoutSeconds: 2 * 60
+};
@@ -0,0 +1,54 @@
+/**
+ * Permission Configuration
+ *
+ * This file maps the scoped user roles to the admin permissions they
+ * grant. Admins hold every permission. League managers are limited to
+ * the leagues they run and the clubs playing in them, club captains to
+ * schedulers collecting only for their clubs, and stats editors are not
+ * scoped.
+ */
+
+import type { ScopedRole } from '@/lib/models/user.model';
+
+// Actions on leagues, seasons and schedulers that are checked against a user's roles
+export type Permission =
+  | 'leagues:create'
+  | 'leagues:update'
+  | 'leagues:delete'
+  | 'seasons:manage'
+  | 'schedulers:view'
+  | 'schedulers:run'
+  | 'schedulers:manage';
+
+// Permissions granted by each scoped role
+export const ROLE_PERMISSIONS: Record<ScopedRole, Permission[]> = {
+  'league-manager': ['leagues:update', 'seasons:manage', 'schedulers:view', 'schedulers:run', 'schedulers:manage'],
+  'club-captain': ['schedulers:view', 'schedulers:run'],
+  'stats-editor': ['schedulers:view', 'schedulers:run']
+};
+
+// Scoped roles as offered in the user form, with the kind of scope each one takes
+export const SCOPED_ROLES: {
+  value: ScopedRole;
+  label: string;
+  description: string;
+  scope?: 'leagues' | 'clubs';
+}[] = [
+  {
+    value: 'league-manager',
+    label: 'League Manager',
+    description: 'Edits the chosen leagues, their seasons and the schedulers collecting for them',
+    scope: 'leagues'
+  },
+  {
+    value: 'club-captain',
+    label: 'Club Captain',
+    description: 'Views and runs the schedulers that collect only for the chosen clubs',
+    scope: 'clubs'
+  },
+  {
+    value: 'stats-editor',
+    label: 'Stats Editor',
+    description: 'Views and runs every scheduler to keep match stats up to date'
+  }
+];
@@ -0,0 +1,51 @@
+/**
+ * Scheduler Configuration
+ *
+ * This file exports the settings used when running schedulers on the
+ * Bull queue. Each scheduler run fans out into one child job per club,
+ * and the settings below bound how much work runs at the same time.
+ */
+
+// Number of club import jobs a single process works on at the same time
+export const SCHEDULER_CLUB_CONCURRENCY = Math.max(1, parseInt(process.env.SCHEDULER_CLUB_CONCURRENCY || '3'));
+
+// Upper bound on the delay between retries of a failed club import
+export const SCHEDULER_MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// How long the per-run aggregation state is kept in Redis after a run starts
+export const SCHEDULER_RUN_TTL_SECONDS = 24 * 60 * 60;
+
+// Prefix for every Redis key owned by the scheduler service
+export const SCHEDULER_REDIS_PREFIX = 'scheduler';
+
+// How long a scheduler run's lease lasts without a heartbeat
+export const SCHEDULER_LEASE_TTL_MS = 2 * 60 * 1000;
+
+// How often a running scheduler renews its lease
+export const SCHEDULER_LEASE_HEARTBEAT_MS = 30 * 1000;
+
+// How long a worker stays registered (and keeps cron leadership) without a heartbeat
+export const SCHEDULER_WORKER_TTL_MS = 30 * 1000;
+
+// How often a worker renews its registration and tries to become the cron leader
+export const SCHEDULER_WORKER_HEARTBEAT_MS = 10 * 1000;
+
+// How long scheduler run logs are kept before MongoDB expires them
+export const SCHEDULER_HISTORY_RETENTION_DAYS = Math.max(1, parseInt(process.env.SCHEDULER_HISTORY_RETENTION_DAYS || '90'));
+
+// EA club match requests all schedulers together may plan per hour; polling slows down evenly beyond it
+export const SCHEDULER_POLL_BUDGET_PER_HOUR = Math.max(1, parseInt(process.env.SCHEDULER_POLL_BUDGET_PER_HOUR || '600'));
+
+// Activity tiers for adaptive polling, from most to least active. A club belongs to the first
+// tier whose window covers its last match and is polled every `intervalMultiplier` scheduler intervals.
+export const SCHEDULER_ACTIVITY_TIERS = [
+  { tier: 'hot', lastMatchWithinHours: 24, intervalMultiplier: 1 },
+  { tier: 'active', lastMatchWithinHours: 3 * 24, intervalMultiplier: 2 },
+  { tier: 'quiet', lastMatchWithinHours: 14 * 24, intervalMultiplier: 4 }
+] as const;
+
+// Interval multiplier for clubs without a match inside any activity tier
+export const SCHEDULER_IDLE_INTERVAL_MULTIPLIER = 8;
+
+// How long a scheduler's planned request load counts towards the poll budget without being refreshed
+export const SCHEDULER_POLL_LOAD_TTL_MS = 24 * 60 * 60 * 1000;
@@ -0,0 +1,277 @@
+/**
+ * EA API Stand-in
+ * 
+ * This module imitates EA's NHL Pro Clubs API for development and CI, where
+ * proclubs.ea.com cannot be reached. It serves the recorded `clubs/search`
+ * and `clubs/matches` fixtures and can simulate:
+ * - New matches appearing over time
+ * - Slow responses
+ * - Rate limiting (429 with Retry-After) and outages (503)
+ * - Malformed payloads (invalid JSON) and invalid payloads (valid JSON that
+ *   fails match validation, so the import quarantines it)
+ * 
+ * It is used in-process by eaApiService when EA_API_MOCK=true, and served over
+ * HTTP by the /api/mock/ea route for processes pointed at it via EA_API_BASE_URL.
+ * 
+ * Options changed at runtime are stored in Redis, so the Next server and the
+ * scheduler worker serve the same behaviour. Without Redis each process keeps
+ * its own options.
+ */
+
+import { getRedisClient } from '@/lib/utils/redisClient';
+import { EA_API_REDIS_PREFIX } from '@/lib/config/eaApi';
+import recordedClubs from './fixtures/clubsSearch.json';
+import recordedMatches from './fixtures/clubsMatches.json';
+
+// EA only ever returns a club's most recent matches
+const MATCHES_PER_RESPONSE = 5;
+
+// Simulated match IDs start well above the recorded ones
+const SIMULATED_MATCH_ID_BASE = 190000000000;
+
+const STATE_KEY = `${EA_API_REDIS_PREFIX}:mock:state`;
+
+// Options controlling the stand-in's behaviour
+export interface IEaApiMockOptions {
+  latencyMs: number; // Delay added to every response
+  rateLimitRate: number; // Share of requests (0-1) answered with 429
+  retryAfterSeconds: number; // Retry-After sent with 429 responses
+  serverErrorRate: number; // Share of requests (0-1) answered with 503
+  malformedRate: number; // Share of requests (0-1) answered with a broken payload
+  invalidRate: number; // Share of match requests (0-1) answered with matches that fail validation
+  newMatchIntervalSeconds: number; // A new match between the recorded clubs every N seconds (0 disables)
+}
+
+type RecordedMatch = (typeof recordedMatches)[number];
+
+// The options in effect and when the simulated match clock started
+interface IEaApiMockState {
+  options: IEaApiMockOptions;
+  startedAt: number;
+}
+
+declare global {
+    var eaApiMockState: IEaApiMockState;
+}
+
+/**
+ * Helper function to read a numeric option from the environment
+ */
+function envNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Helper function to build the default options from the environment
+ */
+function defaultOptions(): IEaApiMockOptions {
+  return {
+    latencyMs: envNumber('EA_API_MOCK_LATENCY_MS', 0),
+    rateLimitRate: envNumber('EA_API_MOCK_RATE_LIMIT_RATE', 0),
+    retryAfterSeconds: envNumber('EA_API_MOCK_RETRY_AFTER_SECONDS', 2),
+    serverErrorRate: envNumber('EA_API_MOCK_ERROR_RATE', 0),
+    malformedRate: envNumber('EA_API_MOCK_MALFORMED_RATE', 0),
+    invalidRate: envNumber('EA_API_MOCK_INVALID_RATE', 0),
+    newMatchIntervalSeconds: envNumber('EA_API_MOCK_NEW_MATCH_SECONDS', 0)
+  };
+}
+
+let localState = global.eaApiMockState;
+
+if (!localState) {
+    localState = global.eaApiMockState = { options: defaultOptions(), startedAt: Date.now() };
+}
+
+/**
+ * Helper function to read the shared state from Redis
+ * Falls back to this process's state when Redis is unavailable or nothing was stored yet.
+ */
+async function loadState(): Promise<IEaApiMockState> {
+  try {
+    const client = await getRedisClient();
+    const stored = await client.get(STATE_KEY);
+
+    if (stored) {
+      const state: IEaApiMockState = JSON.parse(stored);
+      // Options added since the state was stored keep their defaults
+      return { ...state, options: { ...defaultOptions(), ...state.options } };
+    }
+  } catch (error) {
+    console.warn('EA API stand-in state unavailable, using this process\'s options:', error);
+  }
+
+  return localState;
+}
+
+/**
+ * Helper function to store the state for every process
+ */
+async function saveState(state: IEaApiMockState): Promise<void> {
+  localState = global.eaApiMockState = state;
+
+  try {
+    const client = await getRedisClient();
+    await client.set(STATE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.warn('EA API stand-in state not shared, only this process uses the new options:', error);
+  }
+}
+
+/**
+ * Checks whether the stand-in may be served over HTTP
+ * @returns True outside production, or when EA_API_MOCK=true
+ */
+export function isEaApiMockServed(): boolean {
+  return process.env.NODE_ENV !== 'production' || process.env.EA_API_MOCK === 'true';
+}
+
+/**
+ * Gets the stand-in's current options
+ */
+export async function getEaApiMockOptions(): Promise<IEaApiMockOptions> {
+  const { options } = await loadState();
+  return { ...options };
+}
+
+/**
+ * Changes the stand-in's behaviour at runtime, for every process sharing Redis
+ * @param options - The options to change; others keep their current value
+ * @returns The options now in effect
+ */
+export async function configureEaApiMock(options: Partial<IEaApiMockOptions>): Promise<IEaApiMockOptions> {
+  const state = await loadState();
+  await saveState({ ...state, options: { ...state.options, ...options } });
+  return getEaApiMockOptions();
+}
+
+/**
+ * Restores the environment defaults and restarts the simulated match clock
+ */
+export async function resetEaApiMock(): Promise<IEaApiMockOptions> {
+  await saveState({ options: defaultOptions(), startedAt: Date.now() });
+  return getEaApiMockOptions();
+}
+
+/**
+ * Answers an EA API request the way EA would
+ * @param input - The request URL; only the path suffix and query are used
+ * @param init - Request options; an abort signal cuts simulated latency short like a real timeout
+ * @returns The response EA would have sent
+ */
+export async function mockEaFetch(input: string | URL, init?: RequestInit): Promise<Response> {
+  const url = new URL(input);
+  const state = await loadState();
+  const { options } = state;
+
+  if (options.latencyMs > 0) {
+    await new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, options.latencyMs);
+      init?.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(init.signal?.reason);
+      }, { once: true });
+    });
+  }
+
+  if (Math.random() < options.rateLimitRate) {
+    return new Response('Too Many Requests', {
+      status: 429,
+      headers: { 'Retry-After': options.retryAfterSeconds.toString() }
+    });
+  }
+
+  if (Math.random() < options.serverErrorRate) {
+    return new Response('Service Unavailable', { status: 503 });
+  }
+
+  if (Math.random() < options.malformedRate) {
+    return new Response('{"matches": [{"matchId": ', {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (url.pathname.endsWith('/clubs/search')) {
+    return Response.json(searchClubs(url.searchParams.get('clubName') || ''));
+  }
+
+  if (url.pathname.endsWith('/clubs/matches')) {
+    const clubId = url.searchParams.get('clubIds') || '';
+    const matchType = url.searchParams.get('matchType') || 'club_private';
+    const matches = matchType === 'club_private' ? findClubMatches(clubId, state) : [];
+
+    if (Math.random() < options.invalidRate) {
+      return Response.json(matches.map(match => invalidateMatch(match, clubId)));
+    }
+
+    return Response.json(matches);
+  }
+
+  return new Response('Not Found', { status: 404 });
+}
+
+/**
+ * Helper function to search the recorded clubs by name (case-insensitive, partial)
+ */
+function searchClubs(clubName: string) {
+  const query = clubName.trim().toLowerCase();
+
+  return Object.fromEntries(
+    Object.entries(recordedClubs).filter(([, club]) => query && club.name.toLowerCase().includes(query))
+  );
+}
+
+/**
+ * Helper function to list a club's most recent recorded and simulated matches (newest first)
+ */
+function findClubMatches(clubId: string, state: IEaApiMockState): RecordedMatch[] {
+  return [...simulatedMatches(state), ...recordedMatches]
+    .filter(match => clubId in match.clubs)
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, MATCHES_PER_RESPONSE);
+}
+
+/**
+ * Helper function to build the matches "played" since the stand-in started
+ * Each simulated match replays a recorded one with a new ID and timestamp, so
+ * repeated calls return the same matches until the next one is due.
+ */
+function simulatedMatches(state: IEaApiMockState): RecordedMatch[] {
+  const interval = state.options.newMatchIntervalSeconds;
+  if (interval <= 0) return [];
+
+  const startedAt = Math.floor(state.startedAt / 1000);
+  const now = Math.floor(Date.now() / 1000);
+  const played = Math.floor((now - startedAt) / interval);
+  const matches: RecordedMatch[] = [];
+
+  for (let n = Math.max(1, played - MATCHES_PER_RESPONSE + 1); n <= played; n++) {
+    const template = recordedMatches[n % recordedMatches.length];
+    const timestamp = startedAt + n * interval;
+    const minutesAgo = Math.floor((now - timestamp) / 60);
+
+    matches.push({
+      ...structuredClone(template),
+      matchId: (SIMULATED_MATCH_ID_BASE + n).toString(),
+      timestamp,
+      timeAgo: minutesAgo >= 60
+        ? { number: Math.floor(minutesAgo / 60), unit: 'hours' }
+        : { number: minutesAgo, unit: 'minutes' }
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Helper function to break a match the way a changed EA payload would
+ * The opponent is dropped from the clubs, so the match fails validation
+ * ("Expected 2 clubs") while the response is still well-formed JSON.
+ */
+function invalidateMatch(match: RecordedMatch, clubId: string) {
+  return {
+    ...match,
+    clubs: Object.fromEntries(Object.entries(match.clubs).filter(([id]) => id === clubId))
+  };
+}
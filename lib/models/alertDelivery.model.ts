@@ -0,0 +1,62 @@
+/**
+ * Alert Delivery Model
+ *
+ * This model stores every webhook delivery made for an alert rule.
+ * It keeps the payload that was sent, how many attempts it took and the
+ * last response or error, so admins can see whether alerts actually
+ * reached their destination.
+ */
+import mongoose, { Schema, Document } from 'mongoose';
+import { AlertRuleType } from '@/lib/models/alertRule.model';
+
+export type AlertDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// Main alert delivery interface
+export interface IAlertDelivery extends Document {
+  ruleId: string;
+  ruleName: string;
+  type: AlertRuleType;
+  schedulerId?: string; // Scheduler the alert is about, for scheduler rules
+  message: string;
+  payload: unknown; // Body sent to the webhook
+  status: AlertDeliveryStatus;
+  attempts: number;
+  responseStatus?: number; // HTTP status of the last attempt
+  lastError?: string;
+  deliveredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AlertDeliverySchema: Schema = new Schema({
+  ruleId: { type: String, required: true },
+  ruleName: { type: String, required: true },
+  type: {
+    type: String,
+    required: true,
+    enum: ['consecutive-failures', 'zero-matches', 'cron-stopped', 'redis-unhealthy']
+  },
+  schedulerId: { type: String },
+  message: { type: String, required: true },
+  payload: { type: Schema.Types.Mixed, required: true },
+  status: {
+    type: String,
+    required: true,
+    enum: ['pending', 'delivered', 'failed'],
+    default: 'pending'
+  },
+  attempts: { type: Number, default: 0 },
+  responseStatus: { type: Number },
+  lastError: { type: String },
+  deliveredAt: { type: Date }
+}, {
+  timestamps: true
+});
+
+// Create index for createdAt to support listing recent deliveries
+AlertDeliverySchema.index({ createdAt: -1 });
+
+// Create compound index for ruleId and createdAt to support a rule's delivery log
+AlertDeliverySchema.index({ ruleId: 1, createdAt: -1 });
+
+export default mongoose.models.AlertDelivery || mongoose.model<IAlertDelivery>('AlertDelivery', AlertDeliverySchema);
@@ -0,0 +1,64 @@
+/**
+ * Alert Rule Model
+ *
+ * This model represents an alert rule in the xblade platform.
+ * It stores when an alert is raised and where it is delivered:
+ * - The condition (consecutive scheduler failures, a scheduling window
+ *   without new matches, the scheduler cron stopping, Redis being unhealthy)
+ * - The schedulers the rule watches (all schedulers when empty)
+ * - The webhook the alert is sent to, its payload format and signing secret
+ * - A cooldown so a condition that persists doesn't flood the webhook
+ */
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Conditions an alert rule can watch:
+// - consecutive-failures: the last `threshold` runs of a scheduler all ended in error
+// - zero-matches: a scheduler's daily window ended without any new match
+// - cron-stopped: the scheduler cron stopped itself after repeated errors
+// - redis-unhealthy: a scheduler worker can't reach Redis
+export type AlertRuleType = 'consecutive-failures' | 'zero-matches' | 'cron-stopped' | 'redis-unhealthy';
+
+// Payload format of the webhook: plain signed JSON, or a Discord-compatible message
+export type AlertWebhookFormat = 'json' | 'discord';
+
+// Main alert rule interface
+export interface IAlertRule extends Document {
+  name: string;
+  type: AlertRuleType;
+  isActive: boolean;
+  schedulerIds: string[]; // Schedulers watched by scheduler rules; empty watches all
+  threshold: number; // Consecutive failures needed by consecutive-failures rules
+  webhookUrl: string;
+  format: AlertWebhookFormat;
+  secret: string; // HMAC secret used to sign deliveries
+  cooldownMinutes: number; // Minimum time between two alerts of the rule
+  lastTriggeredAt?: Date;
+  createdBy: string; // Admin user ID who created the rule
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AlertRuleSchema: Schema = new Schema({
+  name: { type: String, required: true, unique: true },
+  type: {
+    type: String,
+    required: true,
+    enum: ['consecutive-failures', 'zero-matches', 'cron-stopped', 'redis-unhealthy']
+  },
+  isActive: { type: Boolean, default: true },
+  schedulerIds: [{ type: String }],
+  threshold: { type: Number, default: 3, min: 1 },
+  webhookUrl: { type: String, required: true },
+  format: { type: String, enum: ['json', 'discord'], default: 'json' },
+  secret: { type: String, required: true },
+  cooldownMinutes: { type: Number, default: 60, min: 0 },
+  lastTriggeredAt: { type: Date },
+  createdBy: { type: String, required: true }
+}, {
+  timestamps: true
+});
+
+// Create compound index for type and isActive to support finding the rules of a condition
+AlertRuleSchema.index({ type: 1, isActive: 1 });
+
+export default mongoose.models.AlertRule || mongoose.model<IAlertRule>('AlertRule', AlertRuleSchema);
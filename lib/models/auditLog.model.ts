@@ -0,0 +1,118 @@
+/**
+ * Audit Log Model
+ *
+ * This model stores one entry for every admin mutation of leagues,
+ * seasons, schedulers, clubs and users: who acted, what they did to
+ * which record, the fields it changed (before and after) and where the
+ * request came from.
+ *
+ * The log is append-only. Entries are only ever inserted; updating or
+ * deleting them through the model throws, so a mutation can't be hidden
+ * after the fact from within the app.
+ */
+import mongoose, { Schema, Document } from 'mongoose';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES, AuditAction, AuditTargetType } from '@/lib/config/audit';
+
+// Interface for the user who performed a mutation
+export interface IAuditActor {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+}
+
+// Interface for one field changed by a mutation
+export interface IAuditChange {
+  field: string; // Dotted path of the field
+  before?: unknown; // Missing when the field was added
+  after?: unknown; // Missing when the field was removed
+}
+
+// Interface for where the request of a mutation came from
+export interface IAuditRequestMetadata {
+  ip?: string;
+  userAgent?: string;
+  referer?: string; // Page the mutation was made from
+}
+
+// Main audit log interface
+export interface IAuditLog extends Document {
+  actor: IAuditActor;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  targetName?: string; // Name of the target when the entry was written
+  changes: IAuditChange[];
+  details?: Record<string, unknown>; // Context that isn't a field change, e.g. the season a club was added to
+  metadata: IAuditRequestMetadata;
+  createdAt: Date;
+}
+
+const AuditActorSchema: Schema = new Schema({
+  id: { type: String, required: true },
+  email: { type: String, required: true },
+  name: { type: String },
+  role: { type: String, required: true }
+}, { _id: false });
+
+const AuditChangeSchema: Schema = new Schema({
+  field: { type: String, required: true },
+  before: { type: Schema.Types.Mixed },
+  after: { type: Schema.Types.Mixed }
+}, { _id: false });
+
+const AuditRequestMetadataSchema: Schema = new Schema({
+  ip: { type: String },
+  userAgent: { type: String },
+  referer: { type: String }
+}, { _id: false });
+
+const AuditLogSchema: Schema = new Schema({
+  actor: { type: AuditActorSchema, required: true },
+  action: {
+    type: String,
+    required: true,
+    enum: AUDIT_ACTIONS
+  },
+  targetType: {
+    type: String,
+    required: true,
+    enum: AUDIT_TARGET_TYPES
+  },
+  targetId: { type: String, required: true },
+  targetName: { type: String },
+  changes: { type: [AuditChangeSchema], default: [] },
+  details: { type: Schema.Types.Mixed },
+  metadata: { type: AuditRequestMetadataSchema, default: () => ({}) }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Reject every write that would change or remove an existing entry
+const rejectChange = () => {
+  throw new Error('Audit log entries are append-only');
+};
+
+AuditLogSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'],
+  rejectChange
+);
+AuditLogSchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], { document: false, query: true }, rejectChange);
+AuditLogSchema.pre('deleteOne', { document: true, query: false }, rejectChange);
+AuditLogSchema.pre('save', function () {
+  if (!this.isNew) rejectChange();
+});
+
+// Create index for createdAt to support listing the newest entries
+AuditLogSchema.index({ createdAt: -1 });
+
+// Create compound index for actor and createdAt to support filtering by who acted
+AuditLogSchema.index({ 'actor.id': 1, createdAt: -1 });
+
+// Create compound index for action and createdAt to support filtering by action
+AuditLogSchema.index({ action: 1, createdAt: -1 });
+
+// Create compound index for target and createdAt to support the history of a record
+AuditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+
+export default mongoose.models.AuditLog || mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
@@ -7,6 +7,8 @@
  * - Club details and statistics for both teams
  * - Individual player performance data
  * - Aggregate statistics for each team
+ * - Numeric copies of the club and player stats, which EA sends as strings
+ * - The EA match type it was imported as (e.g. "club_private")
  * 
  * This model is the core of the data collection system, preserving match data
  * that would otherwise be deleted by EA after 5 matches. Each match is stored
@@ -193,6 +195,25 @@ export interface ITimeAgo {
   unit: string;
 }
 
+// Interface for numeric copies of the EA stat strings, keyed like `clubs` and `players`
+export interface INormalizedMatchStats {
+  clubs: Record<string, Record<string, number>>;
+  players: Record<string, Record<string, Record<string, number>>>;
+}
+
+// How an EA match payload was handled during an import
+export type MatchImportOutcome = 'new' | 'duplicate' | 'updated' | 'rejected';
+
+// Interface for the number of payloads per outcome of an import
+export type IMatchImportCounts = Record<MatchImportOutcome, number>;
+
+// Interface for an import that failed after EA answered (e.g. the database was unreachable)
+export interface IMatchImportError {
+  type: 'import-failed';
+  message: string;
+  status?: number;
+}
+
 // Main match interface
 export interface IMatch extends Document {
   matchId: string;
@@ -201,6 +222,8 @@ export interface IMatch extends Document {
   clubs: Record<string, IClubStats>;
   players: Record<string, Record<string, IPlayerStats>>;
   aggregate: Record<string, IAggregateStats>;
+  normalized: INormalizedMatchStats;
+  matchType?: string; // e.g., "club_private"; unset on matches stored before it was recorded
   createdAt: Date;
   updatedAt: Date;
 }
@@ -214,7 +237,12 @@ const MatchSchema: Schema = new Schema({
   },
   clubs: { type: Schema.Types.Mixed, required: true },
   players: { type: Schema.Types.Mixed, required: true },
-  aggregate: { type: Schema.Types.Mixed, required: true }
+  aggregate: { type: Schema.Types.Mixed, required: true },
+  normalized: {
+    clubs: { type: Schema.Types.Mixed, default: {} },
+    players: { type: Schema.Types.Mixed, default: {} }
+  },
+  matchType: { type: String }
 }, {
   timestamps: true
 });
@@ -222,6 +250,9 @@ const MatchSchema: Schema = new Schema({
 // Create index for timestamp to support time-based queries
 MatchSchema.index({ timestamp: -1 });
 
+// Create compound index for match type filtering in time order
+MatchSchema.index({ matchType: 1, timestamp: -1 });
+
 // Create a sparse wildcard index on clubs to support dynamic club-existence queries
 MatchSchema.index({ "clubs.$**": 1 }, { sparse: true });
 
@@ -167,6 +167,12 @@ PlayerSchema.index({ clubs: 1 });
 // Create compound index for playerName and clientPlatform to support unique players across platforms
 PlayerSchema.index({ playerName: 1, clientPlatform: 1 });
 
+// Create unique index for userId so a user is linked to at most one player
+PlayerSchema.index({ userId: 1 }, { unique: true, partialFilterExpression: { userId: { $type: "string" } } });
+
+// Create index for matchHistory.matchId to support finding the players of a match
+PlayerSchema.index({ "matchHistory.matchId": 1 });
+
 // Create index for matchHistory.timestamp to support time-based queries
 PlayerSchema.index({ "matchHistory.timestamp": -1 });
 
@@ -0,0 +1,59 @@
+/**
+ * Player Claim Model
+ * 
+ * This model represents a registered user's request to link their account
+ * to an EA player profile in the xblade platform. It stores:
+ * - The requesting user and the claimed player
+ * - The gamertag the claim was matched on
+ * - Review status and the admin who reviewed it
+ * 
+ * Claims start as pending and are approved or rejected by an admin from
+ * the users admin. Approving a claim marks the Player as registered and
+ * links it to the user, which unlocks the user's personal stats dashboard.
+ */
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type PlayerClaimStatus = 'pending' | 'approved' | 'rejected';
+
+// Main player claim interface
+export interface IPlayerClaim extends Document {
+  userId: string; // Reference to the User making the claim
+  playerId: string; // EA player ID being claimed
+  playerName: string; // Player name at the time of the claim
+  gamertag: string; // User's gamertag at the time of the claim
+  status: PlayerClaimStatus;
+  reviewedBy?: string; // Admin user ID who approved or rejected the claim
+  reviewedAt?: Date;
+  note?: string; // Optional reason given when reviewing
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PlayerClaimSchema: Schema = new Schema({
+  userId: { type: String, required: true },
+  playerId: { type: String, required: true },
+  playerName: { type: String, required: true },
+  gamertag: { type: String, required: true },
+  status: {
+    type: String,
+    required: true,
+    enum: ['pending', 'approved', 'rejected'],
+    default: 'pending'
+  },
+  reviewedBy: { type: String },
+  reviewedAt: { type: Date },
+  note: { type: String }
+}, {
+  timestamps: true
+});
+
+// Create index for userId to support finding a user's claims
+PlayerClaimSchema.index({ userId: 1 });
+
+// Create index for status to support listing pending claims for review
+PlayerClaimSchema.index({ status: 1, createdAt: -1 });
+
+// Create compound index for playerId and status to support finding open claims on a player
+PlayerClaimSchema.index({ playerId: 1, status: 1 });
+
+export default mongoose.models.PlayerClaim || mongoose.model<IPlayerClaim>('PlayerClaim', PlayerClaimSchema);
@@ -0,0 +1,51 @@
+/**
+ * Quarantined Match Model
+ * 
+ * This model stores EA match payloads that failed schema validation on ingest.
+ * Instead of saving a broken match (or silently dropping it), the raw payload
+ * is kept here together with the validation issues, so it can be inspected and
+ * the schema or importer fixed without losing the data EA will soon delete.
+ * 
+ * Payloads with a matchId are stored once and counted each time EA returns them again.
+ */
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Interface for a single validation issue
+export interface IValidationIssue {
+  path: string; // Dot path to the invalid field, e.g. "players.123.skgoals"
+  message: string;
+}
+
+// Main quarantined match interface
+export interface IQuarantinedMatch extends Document {
+  matchId?: string; // EA match ID, if the payload had a usable one
+  clubId?: string; // Club whose import returned the payload
+  payload: unknown; // Raw payload as returned by EA
+  issues: IValidationIssue[];
+  occurrences: number; // Times the payload was returned by EA
+  lastSeenAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const QuarantinedMatchSchema: Schema = new Schema({
+  matchId: { type: String },
+  clubId: { type: String },
+  payload: { type: Schema.Types.Mixed, required: true },
+  issues: [{
+    path: { type: String, required: true },
+    message: { type: String, required: true }
+  }],
+  occurrences: { type: Number, default: 1 },
+  lastSeenAt: { type: Date, default: Date.now }
+}, {
+  timestamps: true
+});
+
+// Create unique sparse index for matchId so a payload is quarantined once
+QuarantinedMatchSchema.index({ matchId: 1 }, { unique: true, sparse: true });
+
+// Create index for lastSeenAt to support listing recent quarantined payloads
+QuarantinedMatchSchema.index({ lastSeenAt: -1 });
+
+export default mongoose.models.QuarantinedMatch || mongoose.model<IQuarantinedMatch>('QuarantinedMatch', QuarantinedMatchSchema);
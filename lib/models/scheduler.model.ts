@@ -5,9 +5,10 @@
  * It stores scheduler configuration including:
  * - Basic scheduler details (name, description)
  * - Schedule configuration (hours, days of operation)
- * - Clubs to monitor for data collection
+ * - Clubs to monitor for data collection, listed directly or resolved at run
+ *   time from the seasons and leagues the scheduler targets
  * - Collection settings (frequency, platform)
- * - Status and history information
+ * - Status and a summary of the last run (full run logs live in SchedulerRun)
  * 
  * This model enables admins to create multiple parallel schedulers that
  * run during specific time windows (e.g., 8:30 PM - 11:00 PM EST on
@@ -15,13 +16,26 @@
  * interfering with each other.
  */
 import mongoose, { Schema, Document, Types } from 'mongoose';
+import { IMatchImportCounts } from '@/lib/models/match.model';
+
+// How a scheduler decides when to run:
+// - window: every frequencyMinutes inside a daily time window on selected days
+// - cron: at the times matched by a cron expression
+// - once: every frequencyMinutes between a one-off start and end date
+export type ScheduleMode = 'window' | 'cron' | 'once';
 
 // Interface for schedule configuration
 export interface IScheduleConfig {
+  mode: ScheduleMode;
+  cronExpression?: string; // Five-field cron expression, used in cron mode (e.g., "*/10 20-22 * * 2,3")
+  startDate?: Date; // Start of the one-off range, used in once mode
+  endDate?: Date; // End of the one-off range, used in once mode
   startHour: number; // 0-23
-  endHour: number; // 0-23
-  daysOfWeek: number[]; // 0-6, where 0 is Sunday
-  timezone: string; // e.g., "EST", "UTC"
+  startMinute: number; // 0-59
+  endHour: number; // 0-23; a window ending at or before its start crosses midnight
+  endMinute: number; // 0-59
+  daysOfWeek: number[]; // 0-6, where 0 is Sunday (the day the window starts)
+  timezone: string; // IANA time zone, e.g., "America/New_York", "UTC"
 }
 
 // Interface for collection settings
@@ -33,11 +47,12 @@ export interface ICollectionSettings {
   retryDelayMinutes: number; // Delay between retries
 }
 
-// Interface for execution history
+// Interface for the outcome of a scheduler run
 export interface IExecutionHistory {
   timestamp: Date;
   status: 'success' | 'error' | 'partial';
-  matchesCollected: number;
+  matchesCollected: number; // Newly stored matches
+  importCounts: IMatchImportCounts; // New, duplicate, updated and rejected EA payloads
   clubsProcessed: number;
   error?: string;
   duration: number; // Execution time in milliseconds
@@ -52,18 +67,26 @@ export interface IScheduler extends Document {
   scheduleConfig: IScheduleConfig;
   collectionSettings: ICollectionSettings;
   clubs: string[]; // Array of club IDs to monitor
+  seasonIds: string[]; // Seasons whose clubs are monitored until the season ends
+  leagueIds: string[]; // Leagues whose active seasons' clubs are monitored
   lastRun?: Date;
   nextRun?: Date;
-  executionHistory: IExecutionHistory[];
+  lastExecution?: IExecutionHistory;
   createdAt: Date;
   updatedAt: Date;
 }
 
 const ScheduleConfigSchema: Schema = new Schema({
+  mode: { type: String, enum: ['window', 'cron', 'once'], default: 'window' },
+  cronExpression: { type: String },
+  startDate: { type: Date },
+  endDate: { type: Date },
   startHour: { type: Number, required: true, min: 0, max: 23 },
+  startMinute: { type: Number, default: 0, min: 0, max: 59 },
   endHour: { type: Number, required: true, min: 0, max: 23 },
+  endMinute: { type: Number, default: 0, min: 0, max: 59 },
   daysOfWeek: [{ type: Number, required: true, min: 0, max: 6 }],
-  timezone: { type: String, required: true, default: "EST" }
+  timezone: { type: String, required: true, default: "America/New_York" }
 }, { _id: false });
 
 const CollectionSettingsSchema: Schema = new Schema({
@@ -74,6 +97,13 @@ const CollectionSettingsSchema: Schema = new Schema({
   retryDelayMinutes: { type: Number, required: true, default: 5, min: 1 }
 }, { _id: false });
 
+const ImportCountsSchema: Schema = new Schema({
+  new: { type: Number, default: 0 },
+  duplicate: { type: Number, default: 0 },
+  updated: { type: Number, default: 0 },
+  rejected: { type: Number, default: 0 }
+}, { _id: false });
+
 const ExecutionHistorySchema: Schema = new Schema({
   timestamp: { type: Date, required: true },
   status: { 
@@ -83,6 +113,7 @@ const ExecutionHistorySchema: Schema = new Schema({
     default: 'success'
   },
   matchesCollected: { type: Number, required: true, default: 0 },
+  importCounts: { type: ImportCountsSchema, default: () => ({}) },
   clubsProcessed: { type: Number, required: true, default: 0 },
   error: { type: String },
   duration: { type: Number, required: true }
@@ -96,9 +127,11 @@ const SchedulerSchema: Schema = new Schema({
   scheduleConfig: { type: ScheduleConfigSchema, required: true },
   collectionSettings: { type: CollectionSettingsSchema, required: true },
   clubs: [{ type: String, required: true }],
+  seasonIds: [{ type: String, ref: 'Season' }],
+  leagueIds: [{ type: String, ref: 'League' }],
   lastRun: { type: Date },
   nextRun: { type: Date },
-  executionHistory: [ExecutionHistorySchema]
+  lastExecution: { type: ExecutionHistorySchema }
 }, {
   timestamps: true
 });
@@ -109,13 +142,19 @@ SchedulerSchema.index({ createdBy: 1 });
 // Create index for isActive to support filtering active schedulers
 SchedulerSchema.index({ isActive: 1 });
 
+// Create index for clubs to support finding the schedulers monitoring a club
+SchedulerSchema.index({ clubs: 1 });
+
 // Create index for nextRun to support finding schedulers that need to run
 SchedulerSchema.index({ nextRun: 1 });
 
 // Create compound index for createdBy and isActive to support admin's active schedulers
 SchedulerSchema.index({ createdBy: 1, isActive: 1 });
 
-// Create index for executionHistory.timestamp to support history queries
-SchedulerSchema.index({ "executionHistory.timestamp": -1 });
+// Create index for seasonIds to support finding the schedulers targeting a season
+SchedulerSchema.index({ seasonIds: 1 });
+
+// Create index for leagueIds to support finding the schedulers targeting a league
+SchedulerSchema.index({ leagueIds: 1 });
 
 export default mongoose.models.Scheduler || mongoose.model<IScheduler>('Scheduler', SchedulerSchema);
@@ -0,0 +1,97 @@
+/**
+ * Scheduler Run Model
+ *
+ * This model stores the log of every finished scheduler run, one document
+ * per run, instead of an ever-growing array on the scheduler itself.
+ * Besides the run totals it keeps a per-club breakdown (HTTP status,
+ * matches returned and stored, duration and error), so a failing club
+ * can be found without reading the worker logs.
+ *
+ * Runs expire after SCHEDULER_HISTORY_RETENTION_DAYS through a TTL index.
+ * MongoDB only applies a changed retention to the index after it is
+ * rebuilt (or updated with collMod).
+ */
+import mongoose, { Schema, Document } from 'mongoose';
+import { IMatchImportCounts } from '@/lib/models/match.model';
+import { IExecutionHistory } from '@/lib/models/scheduler.model';
+import { SCHEDULER_HISTORY_RETENTION_DAYS } from '@/lib/config/scheduler';
+
+// Interface for the result of one club within a run
+export interface IClubRunLog {
+  clubId: string;
+  status: 'success' | 'error' | 'skipped';
+  httpStatus?: number; // Status of the EA response; missing when the request never got one
+  matchesReturned: number; // Matches EA returned for the club
+  matchesCollected: number; // Newly stored matches
+  importCounts?: IMatchImportCounts;
+  duration: number; // Time taken by the club's last import attempt in milliseconds
+  error?: string;
+}
+
+// Main scheduler run interface
+export interface ISchedulerRun extends Document, IExecutionHistory {
+  schedulerId: string;
+  runId?: string; // Queue run ID (`${schedulerId}:${jobId}`); missing for migrated runs
+  clubs: IClubRunLog[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ImportCountsSchema: Schema = new Schema({
+  new: { type: Number, default: 0 },
+  duplicate: { type: Number, default: 0 },
+  updated: { type: Number, default: 0 },
+  rejected: { type: Number, default: 0 }
+}, { _id: false });
+
+const ClubRunLogSchema: Schema = new Schema({
+  clubId: { type: String, required: true },
+  status: {
+    type: String,
+    required: true,
+    enum: ['success', 'error', 'skipped']
+  },
+  httpStatus: { type: Number },
+  matchesReturned: { type: Number, default: 0 },
+  matchesCollected: { type: Number, default: 0 },
+  importCounts: { type: ImportCountsSchema },
+  duration: { type: Number, default: 0 },
+  error: { type: String }
+}, { _id: false });
+
+const SchedulerRunSchema: Schema = new Schema({
+  schedulerId: { type: String, required: true },
+  runId: { type: String },
+  timestamp: { type: Date, required: true },
+  status: {
+    type: String,
+    required: true,
+    enum: ['success', 'error', 'partial'],
+    default: 'success'
+  },
+  matchesCollected: { type: Number, required: true, default: 0 },
+  importCounts: { type: ImportCountsSchema, default: () => ({}) },
+  clubsProcessed: { type: Number, required: true, default: 0 },
+  error: { type: String },
+  duration: { type: Number, required: true },
+  clubs: [ClubRunLogSchema]
+}, {
+  timestamps: true
+});
+
+// Create compound index for schedulerId and timestamp to support a scheduler's history
+SchedulerRunSchema.index({ schedulerId: 1, timestamp: -1 });
+
+// Create compound index for schedulerId, status and timestamp to support filtering history by status
+SchedulerRunSchema.index({ schedulerId: 1, status: 1, timestamp: -1 });
+
+// Create compound index for schedulerId and club to support finding the runs of a club
+SchedulerRunSchema.index({ schedulerId: 1, 'clubs.clubId': 1, timestamp: -1 });
+
+// Create unique index for runId so a run is logged only once
+SchedulerRunSchema.index({ runId: 1 }, { unique: true, sparse: true });
+
+// Create TTL index for timestamp to enforce the retention policy
+SchedulerRunSchema.index({ timestamp: 1 }, { expireAfterSeconds: SCHEDULER_HISTORY_RETENTION_DAYS * 24 * 60 * 60 });
+
+export default mongoose.models.SchedulerRun || mongoose.model<ISchedulerRun>('SchedulerRun', SchedulerRunSchema);
@@ -1,5 +1,15 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
 
+// Scoped roles give access to parts of the admin panel without making a user an admin
+export type ScopedRole = "league-manager" | "club-captain" | "stats-editor";
+
+// Interface for a scoped role given to a user
+export interface IRoleAssignment {
+  role: ScopedRole;
+  leagueIds: string[]; // Leagues a league manager runs
+  clubIds: string[]; // Clubs a club captain runs
+}
+
 export interface UserDocument extends Document {
   id?: string;
   name?: string;
@@ -11,8 +21,22 @@ export interface UserDocument extends Document {
   updatedAt?: Date;
   gamertag?: string;
   role?: "admin" | "user";
+  roleAssignments?: IRoleAssignment[];
 }
 
+const RoleAssignmentSchema = new Schema<IRoleAssignment>(
+  {
+    role: {
+      type: String,
+      required: true,
+      enum: ["league-manager", "club-captain", "stats-editor"],
+    },
+    leagueIds: [{ type: String }],
+    clubIds: [{ type: String }],
+  },
+  { _id: false }
+);
+
 const UserSchema = new Schema<UserDocument>(
   {
     id: { type: String },
@@ -25,6 +49,7 @@ const UserSchema = new Schema<UserDocument>(
     updatedAt: { type: Date },
     gamertag: { type: String, unique: true, sparse: true },
     role: { type: String, enum: ["admin", "user"], default: "user" },
+    roleAssignments: { type: [RoleAssignmentSchema], default: [] },
   },
   {
     collection: "user",
@@ -0,0 +1,136 @@
+/**
+ * EA Match Payload Schema
+ * 
+ * This file defines the zod schema used to validate match payloads returned by
+ * EA's `clubs/matches` endpoint before they are stored, and the normalization
+ * that turns EA's string stats ("2", "0.85") into numbers.
+ * 
+ * Only the fields the platform relies on are required. Objects are loose, so
+ * new fields EA adds are kept rather than rejected.
+ */
+
+import { z } from 'zod';
+import { INormalizedMatchStats } from '@/lib/models/match.model';
+
+const NUMERIC_PATTERN = /^-?\d+(\.\d+)?$/;
+
+// EA sends stats as strings; accept numbers too and store them as strings
+const numericStat = z
+  .union([z.string(), z.number()])
+  .transform(value => String(value).trim())
+  .pipe(z.string().regex(NUMERIC_PATTERN, 'Expected a numeric stat'));
+
+const eaPlayerStatsSchema = z.looseObject({
+  playername: z.string().min(1),
+  position: z.string().min(1),
+  clientPlatform: z.string().optional(),
+  skgoals: numericStat,
+  skassists: numericStat,
+  skshots: numericStat,
+  skhits: numericStat,
+  skpim: numericStat,
+  skplusmin: numericStat,
+  glsaves: numericStat,
+  glshots: numericStat,
+  glga: numericStat,
+  ratingOffense: numericStat,
+  ratingDefense: numericStat,
+  ratingTeamplay: numericStat,
+  toiseconds: numericStat
+});
+
+const eaClubStatsSchema = z.looseObject({
+  result: numericStat,
+  score: numericStat,
+  opponentScore: numericStat,
+  opponentClubId: z.string(),
+  shots: numericStat,
+  goals: numericStat.optional(),
+  goalsAgainst: numericStat.optional(),
+  details: z.looseObject({
+    name: z.string().min(1),
+    clubId: z.number()
+  })
+});
+
+export const eaMatchSchema = z
+  .looseObject({
+    matchId: z.union([z.string().min(1), z.number()]).transform(String),
+    timestamp: z.number().int().positive(),
+    timeAgo: z.object({
+      number: z.number(),
+      unit: z.string()
+    }),
+    clubs: z.record(z.string().regex(/^\d+$/, 'Expected a numeric club ID'), eaClubStatsSchema),
+    players: z.record(z.string(), z.record(z.string(), eaPlayerStatsSchema)),
+    aggregate: z.record(z.string(), z.record(z.string(), z.number()))
+  })
+  .superRefine((match, ctx) => {
+    const clubIds = Object.keys(match.clubs);
+
+    if (clubIds.length !== 2) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['clubs'],
+        message: `Expected 2 clubs, received ${clubIds.length}`
+      });
+    }
+
+    for (const clubId of Object.keys(match.players)) {
+      if (!clubIds.includes(clubId)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['players', clubId],
+          message: 'Players listed for a club that is not in the match'
+        });
+      }
+    }
+  });
+
+export type EaMatchPayload = z.infer<typeof eaMatchSchema>;
+
+/**
+ * Converts every numeric stat of a stat object into a number
+ * Non-numeric values (names, positions, score strings, nested objects) are left out.
+ * @param stats - A club or player stat object as sent by EA
+ * @returns The numeric stats keyed by their EA name
+ */
+export function normalizeStats(stats: object): Record<string, number> {
+  const normalized: Record<string, number> = {};
+
+  for (const [key, value] of Object.entries(stats)) {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      normalized[key] = value;
+    } else if (typeof value === 'string' && NUMERIC_PATTERN.test(value.trim())) {
+      normalized[key] = parseFloat(value);
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Builds the numeric copy of a validated match's club and player stats
+ * @param match - A payload that passed eaMatchSchema, or a stored match
+ * @returns Normalized stats keyed like the match's `clubs` and `players`
+ */
+export function normalizeMatchStats(match: {
+  clubs: Record<string, object>;
+  players: Record<string, Record<string, object>>;
+}): INormalizedMatchStats {
+  const clubs: INormalizedMatchStats['clubs'] = {};
+  const players: INormalizedMatchStats['players'] = {};
+
+  for (const [clubId, clubStats] of Object.entries(match.clubs)) {
+    clubs[clubId] = normalizeStats(clubStats);
+  }
+
+  for (const [clubId, clubPlayers] of Object.entries(match.players)) {
+    players[clubId] = {};
+    for (const [playerId, playerStats] of Object.entries(clubPlayers)) {
+      players[clubId][playerId] = normalizeStats(playerStats);
+    }
+  }
+
+  return { clubs, players };
+}
@@ -0,0 +1,226 @@
+/**
+ * Adaptive Polling Service
+ *
+ * EA only returns the last few matches of a club, so a club that plays a
+ * lot loses games when it is polled too rarely, while polling a club that
+ * hasn't played in weeks wastes requests. This service sorts the clubs of
+ * a scheduler into activity tiers by the time of their last stored match
+ * and polls each tier at a multiple of the scheduler's frequency.
+ *
+ * Every scheduler registers the requests per hour it plans in Redis. When
+ * all schedulers together plan more than SCHEDULER_POLL_BUDGET_PER_HOUR,
+ * every interval is stretched by the same factor to stay within budget.
+ */
+
+import Match from '@/lib/models/match.model';
+import { getRedisClient } from '@/lib/utils/redisClient';
+import {
+  SCHEDULER_ACTIVITY_TIERS,
+  SCHEDULER_IDLE_INTERVAL_MULTIPLIER,
+  SCHEDULER_POLL_BUDGET_PER_HOUR,
+  SCHEDULER_POLL_LOAD_TTL_MS,
+  SCHEDULER_REDIS_PREFIX
+} from '@/lib/config/scheduler';
+
+// Activity tier of a club; idle clubs have no match inside any tier's window
+export type ClubActivityTier = typeof SCHEDULER_ACTIVITY_TIERS[number]['tier'] | 'idle';
+
+// Interface for how often a club is polled
+export interface IClubPollPlan {
+  clubId: string;
+  tier: ClubActivityTier;
+  lastMatchAt: string | null; // Time of the club's last stored match inside the longest tier window
+  recentMatches: number; // Stored matches inside the longest tier window
+  intervalMinutes: number; // Effective interval, after the poll budget is applied
+  lastPolledAt: string | null;
+  nextPollAt: string;
+  isDue: boolean; // Whether the club is polled by a run starting now
+}
+
+// Interface for the polling plan of a scheduler
+export interface ISchedulerPollPlan {
+  clubs: IClubPollPlan[];
+  requestsPerHour: number; // Requests per hour the scheduler plans before the budget is applied
+  totalRequestsPerHour: number; // Requests per hour all schedulers plan together
+  budgetPerHour: number;
+  budgetFactor: number; // Factor every interval is stretched by (1 while within budget)
+}
+
+// Interface for a scheduler's entry in the shared poll load
+interface IPollLoad {
+  requestsPerHour: number;
+  updatedAt: number;
+}
+
+// Helper function to build the Redis key holding when each club of a scheduler was last polled
+const pollsKey = (schedulerId: string) => `${SCHEDULER_REDIS_PREFIX}:polls:${schedulerId}`;
+
+// Redis hash of the requests per hour each scheduler plans
+const POLL_LOAD_KEY = `${SCHEDULER_REDIS_PREFIX}:poll-load`;
+
+/**
+ * Helper function to read the last match time and recent match count of clubs
+ * Only matches inside the longest tier window are read.
+ */
+async function getClubActivity(clubIds: string[], at: Date) {
+  const windowHours = Math.max(...SCHEDULER_ACTIVITY_TIERS.map(tier => tier.lastMatchWithinHours));
+  const since = Math.floor(at.getTime() / 1000) - windowHours * 60 * 60;
+
+  const results: { _id: string; lastMatch: number; recentMatches: number }[] = await Match.aggregate([
+    { $match: { timestamp: { $gte: since } } },
+    {
+      $project: {
+        timestamp: 1,
+        clubIds: { $map: { input: { $objectToArray: '$clubs' }, in: '$$this.k' } }
+      }
+    },
+    { $unwind: '$clubIds' },
+    { $match: { clubIds: { $in: clubIds } } },
+    {
+      $group: {
+        _id: '$clubIds',
+        lastMatch: { $max: '$timestamp' },
+        recentMatches: { $sum: 1 }
+      }
+    }
+  ]);
+
+  return new Map(results.map(result => [result._id, result]));
+}
+
+/**
+ * Helper function to find the activity tier of a club from its last match
+ */
+function getActivityTier(lastMatch: number | undefined, at: Date) {
+  if (lastMatch !== undefined) {
+    const hoursSinceMatch = (at.getTime() / 1000 - lastMatch) / (60 * 60);
+    const tier = SCHEDULER_ACTIVITY_TIERS.find(tier => hoursSinceMatch <= tier.lastMatchWithinHours);
+    if (tier) {
+      return { tier: tier.tier as ClubActivityTier, intervalMultiplier: tier.intervalMultiplier as number };
+    }
+  }
+
+  return { tier: 'idle' as ClubActivityTier, intervalMultiplier: SCHEDULER_IDLE_INTERVAL_MULTIPLIER };
+}
+
+/**
+ * Plans how often each club of a scheduler is polled
+ * If Redis is unavailable every club is due and the budget isn't applied, so collection never stops.
+ * @param schedulerId - The ID of the scheduler
+ * @param clubIds - The clubs the scheduler collects for
+ * @param frequencyMinutes - The scheduler's run frequency, the interval of the most active clubs
+ * @param options.register - Store the scheduler's planned load for the shared budget (done by runs)
+ * @param options.at - The instant to plan at (default: now)
+ * @returns The per-club intervals and the budget they were planned within
+ */
+export async function planClubPolls(
+  schedulerId: string,
+  clubIds: string[],
+  frequencyMinutes: number,
+  { register = false, at = new Date() }: { register?: boolean; at?: Date } = {}
+): Promise<ISchedulerPollPlan> {
+  const activity = clubIds.length > 0 ? await getClubActivity(clubIds, at) : new Map();
+
+  const clubTiers = clubIds.map(clubId => {
+    const clubActivity = activity.get(clubId);
+    return { clubId, clubActivity, ...getActivityTier(clubActivity?.lastMatch, at) };
+  });
+
+  const requestsPerHour = clubTiers.reduce(
+    (sum, club) => sum + 60 / (frequencyMinutes * club.intervalMultiplier),
+    0
+  );
+
+  let totalRequestsPerHour = requestsPerHour;
+  let lastPolls: Record<string, string> = {};
+
+  try {
+    const client = await getRedisClient();
+
+    if (register) {
+      const load: IPollLoad = { requestsPerHour, updatedAt: at.getTime() };
+      await client.hSet(POLL_LOAD_KEY, schedulerId, JSON.stringify(load));
+    }
+
+    const [loads, polls] = await Promise.all([
+      client.hGetAll(POLL_LOAD_KEY),
+      client.hGetAll(pollsKey(schedulerId))
+    ]);
+    lastPolls = polls;
+
+    // This scheduler always counts with its current plan; loads not refreshed lately belong to stopped schedulers
+    for (const [loadSchedulerId, value] of Object.entries(loads)) {
+      const load: IPollLoad = JSON.parse(value);
+      if (loadSchedulerId !== schedulerId && at.getTime() - load.updatedAt < SCHEDULER_POLL_LOAD_TTL_MS) {
+        totalRequestsPerHour += load.requestsPerHour;
+      }
+    }
+  } catch (error) {
+    console.warn(`⚠️  Poll state unavailable, polling every club of ${schedulerId}:`, error);
+  }
+
+  const budgetFactor = Math.max(1, totalRequestsPerHour / SCHEDULER_POLL_BUDGET_PER_HOUR);
+
+  const clubs = clubTiers.map(({ clubId, clubActivity, tier, intervalMultiplier }): IClubPollPlan => {
+    // Runs only happen every frequencyMinutes, so intervals are whole multiples of it
+    const intervalMinutes = frequencyMinutes * Math.ceil(intervalMultiplier * budgetFactor);
+    const lastPolledAt = lastPolls[clubId] ? new Date(Number(lastPolls[clubId])) : null;
+    const nextPollAt = lastPolledAt
+      ? new Date(lastPolledAt.getTime() + intervalMinutes * 60 * 1000)
+      : at;
+
+    return {
+      clubId,
+      tier,
+      lastMatchAt: clubActivity ? new Date(clubActivity.lastMatch * 1000).toISOString() : null,
+      recentMatches: clubActivity?.recentMatches ?? 0,
+      intervalMinutes,
+      lastPolledAt: lastPolledAt?.toISOString() ?? null,
+      nextPollAt: nextPollAt.toISOString(),
+      // Half a frequency of slack absorbs runs that start a little early or late
+      isDue: !lastPolledAt || at.getTime() >= nextPollAt.getTime() - (frequencyMinutes * 60 * 1000) / 2
+    };
+  });
+
+  return {
+    clubs,
+    requestsPerHour,
+    totalRequestsPerHour,
+    budgetPerHour: SCHEDULER_POLL_BUDGET_PER_HOUR,
+    budgetFactor
+  };
+}
+
+/**
+ * Records that clubs of a scheduler were polled
+ * @param schedulerId - The ID of the scheduler
+ * @param clubIds - The clubs EA was asked for
+ * @param at - When the run polling them started
+ */
+export async function recordClubPolls(schedulerId: string, clubIds: string[], at: Date) {
+  if (clubIds.length === 0) return;
+
+  try {
+    const client = await getRedisClient();
+    await client.hSet(
+      pollsKey(schedulerId),
+      Object.fromEntries(clubIds.map(clubId => [clubId, at.getTime().toString()]))
+    );
+  } catch (error) {
+    console.warn(`⚠️  Could not record club polls of ${schedulerId}:`, error);
+  }
+}
+
+/**
+ * Removes a scheduler's poll state and its share of the poll budget
+ * @param schedulerId - The ID of the scheduler
+ */
+export async function clearSchedulerPolls(schedulerId: string) {
+  try {
+    const client = await getRedisClient();
+    await client.hDel(POLL_LOAD_KEY, schedulerId);
+    await client.del(pollsKey(schedulerId));
+  } catch (error) {
+    console.warn(`⚠️  Could not clear poll state of ${schedulerId}:`, error);
+  }
+}
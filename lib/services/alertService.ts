@@ -0,0 +1,304 @@
+/**
+ * Alert Service
+ *
+ * This service raises the alerts configured under /admin/alerts and delivers
+ * them to their webhooks. Each delivery is a JSON POST signed with the rule's
+ * secret (HMAC-SHA256 over `${timestamp}.${body}`), or a Discord-compatible
+ * message for Discord webhooks, and is retried with an exponential backoff.
+ *
+ * Every delivery is stored as an AlertDelivery so admins can check that
+ * alerts reached their destination. Alerting is best effort: a failure to
+ * raise or deliver an alert is logged and never breaks the scheduler.
+ */
+
+import { createHmac } from 'crypto';
+import { connectToDatabase } from '@/database/mongoose';
+import AlertRule, { AlertRuleType, IAlertRule } from '@/lib/models/alertRule.model';
+import AlertDelivery from '@/lib/models/alertDelivery.model';
+import Scheduler, { IExecutionHistory } from '@/lib/models/scheduler.model';
+import SchedulerRun from '@/lib/models/schedulerRun.model';
+import { getActiveWindow } from '@/lib/utils/scheduling';
+import {
+  ALERT_DELIVERY_ATTEMPTS,
+  ALERT_REQUEST_TIMEOUT_MS,
+  ALERT_RETRY_BASE_DELAY_MS,
+  ALERT_SIGNATURE_HEADER,
+  ALERT_TIMESTAMP_HEADER
+} from '@/lib/config/alerts';
+
+// Interface for an alert raised by the platform
+export interface IAlert {
+  type: AlertRuleType;
+  message: string;
+  schedulerId?: string;
+  schedulerName?: string;
+  details?: Record<string, unknown>;
+}
+
+// Interface for the result of a webhook delivery
+export interface IAlertDeliveryResult {
+  delivered: boolean;
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+}
+
+// Human readable titles of the alert types
+const ALERT_TITLES: Record<AlertRuleType, string> = {
+  'consecutive-failures': 'Scheduler failing repeatedly',
+  'zero-matches': 'No matches collected',
+  'cron-stopped': 'Scheduler cron stopped',
+  'redis-unhealthy': 'Redis unhealthy'
+};
+
+// Embed colour used in Discord messages (red)
+const DISCORD_ALERT_COLOR = 0xdc2626;
+
+/**
+ * Helper function to wait before retrying a delivery
+ */
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Helper function to build the webhook body of an alert in the rule's format
+ */
+function buildPayload(rule: Pick<IAlertRule, 'name' | 'format'>, alert: IAlert, triggeredAt: Date) {
+  const title = ALERT_TITLES[alert.type];
+
+  if (rule.format === 'discord') {
+    const fields = [
+      { name: 'Rule', value: rule.name, inline: true },
+      ...(alert.schedulerName ? [{ name: 'Scheduler', value: alert.schedulerName, inline: true }] : []),
+      ...Object.entries(alert.details || {}).map(([name, value]) => ({
+        name,
+        value: String(value).slice(0, 1024),
+        inline: true
+      }))
+    ];
+
+    return {
+      content: `🚨 ${title}`,
+      embeds: [{
+        title,
+        description: alert.message,
+        color: DISCORD_ALERT_COLOR,
+        timestamp: triggeredAt.toISOString(),
+        fields
+      }]
+    };
+  }
+
+  return {
+    type: alert.type,
+    title,
+    message: alert.message,
+    rule: rule.name,
+    schedulerId: alert.schedulerId,
+    schedulerName: alert.schedulerName,
+    details: alert.details || {},
+    triggeredAt: triggeredAt.toISOString()
+  };
+}
+
+/**
+ * Signs a webhook body the way receivers are expected to verify it
+ * @param secret - The rule's signing secret
+ * @param timestamp - Unix timestamp in seconds sent in the timestamp header
+ * @param body - The raw JSON body
+ * @returns The hex encoded HMAC-SHA256 signature
+ */
+export function signAlertPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Helper function to POST a body to a webhook, retrying failed attempts
+ * Client errors other than 429 are not retried since they won't succeed later.
+ */
+async function postWebhook(url: string, secret: string, body: string): Promise<IAlertDeliveryResult> {
+  let attempts = 0;
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+
+  while (attempts < ALERT_DELIVERY_ATTEMPTS) {
+    if (attempts > 0) {
+      await sleep(ALERT_RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+    }
+    attempts++;
+
+    try {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [ALERT_TIMESTAMP_HEADER]: timestamp.toString(),
+          [ALERT_SIGNATURE_HEADER]: `sha256=${signAlertPayload(secret, timestamp, body)}`
+        },
+        body,
+        signal: AbortSignal.timeout(ALERT_REQUEST_TIMEOUT_MS)
+      });
+
+      responseStatus = response.status;
+      if (response.ok) {
+        return { delivered: true, attempts, responseStatus };
+      }
+
+      error = `Webhook responded with ${response.status} ${response.statusText}`;
+      if (response.status < 500 && response.status !== 429) break;
+    } catch (requestError) {
+      responseStatus = undefined;
+      error = requestError instanceof Error ? requestError.message : 'Unknown error';
+    }
+  }
+
+  return { delivered: false, attempts, responseStatus, error };
+}
+
+/**
+ * Delivers an alert to a rule's webhook and records the delivery
+ * @param rule - The rule the alert was raised for
+ * @param alert - The alert to deliver
+ * @returns The result of the delivery
+ */
+export async function deliverAlert(rule: IAlertRule, alert: IAlert): Promise<IAlertDeliveryResult> {
+  await connectToDatabase();
+
+  const payload = buildPayload(rule, alert, new Date());
+  const delivery = await AlertDelivery.create({
+    ruleId: rule._id.toString(),
+    ruleName: rule.name,
+    type: alert.type,
+    schedulerId: alert.schedulerId,
+    message: alert.message,
+    payload,
+    status: 'pending'
+  });
+
+  const result = await postWebhook(rule.webhookUrl, rule.secret, JSON.stringify(payload));
+
+  await AlertDelivery.findByIdAndUpdate(delivery._id, {
+    status: result.delivered ? 'delivered' : 'failed',
+    attempts: result.attempts,
+    responseStatus: result.responseStatus,
+    lastError: result.error,
+    deliveredAt: result.delivered ? new Date() : undefined
+  });
+
+  if (result.delivered) {
+    console.log(`📡 Alert "${rule.name}" delivered after ${result.attempts} attempt(s)`);
+  } else {
+    console.error(`❌ Alert "${rule.name}" could not be delivered: ${result.error}`);
+  }
+
+  return result;
+}
+
+/**
+ * Raises an alert on every active rule of its type
+ * Rules watching specific schedulers only fire for those schedulers, and a
+ * rule that fired within its cooldown is skipped.
+ * @param alert - The alert to raise
+ * @param ruleFilter - Extra conditions the rules must match (e.g. their threshold)
+ */
+export async function raiseAlert(alert: IAlert, ruleFilter: Record<string, unknown> = {}): Promise<void> {
+  try {
+    await connectToDatabase();
+
+    const rules: IAlertRule[] = await AlertRule.find({ ...ruleFilter, type: alert.type, isActive: true });
+
+    await Promise.all(rules.map(async (rule) => {
+      if (alert.schedulerId && rule.schedulerIds.length > 0 && !rule.schedulerIds.includes(alert.schedulerId)) {
+        return;
+      }
+
+      // Claim the rule atomically so concurrent workers don't deliver the same alert twice
+      const now = new Date();
+      const cooldownStart = new Date(now.getTime() - rule.cooldownMinutes * 60 * 1000);
+      const claimed = await AlertRule.findOneAndUpdate(
+        {
+          _id: rule._id,
+          $or: [{ lastTriggeredAt: { $exists: false } }, { lastTriggeredAt: { $lte: cooldownStart } }]
+        },
+        { lastTriggeredAt: now }
+      );
+      if (!claimed) return;
+
+      await deliverAlert(rule, alert);
+    }));
+  } catch (error) {
+    console.error(`❌ Error raising ${alert.type} alert:`, error);
+  }
+}
+
+/**
+ * Checks a scheduler's execution history for alert conditions after a run
+ * - consecutive-failures: compared against each rule's threshold
+ * - zero-matches: raised when the run was the last one of an active window
+ *   and no run in that window stored a new match (cron schedules have no window)
+ * @param schedulerId - The ID of the scheduler that just finished a run
+ */
+export async function checkSchedulerRunAlerts(schedulerId: string): Promise<void> {
+  try {
+    await connectToDatabase();
+
+    const [scheduler, lastRun] = await Promise.all([
+      Scheduler.findById(schedulerId)
+        .select('name scheduleConfig nextRun')
+        .lean<{ name: string; scheduleConfig: Parameters<typeof getActiveWindow>[0]; nextRun?: Date }>(),
+      SchedulerRun.findOne({ schedulerId }).sort({ timestamp: -1 }).lean<IExecutionHistory>()
+    ]);
+    if (!scheduler || !lastRun) return;
+
+    // Count the failed runs since the last run that wasn't an error
+    const lastHealthyRun = await SchedulerRun.findOne({ schedulerId, status: { $ne: 'error' } })
+      .sort({ timestamp: -1 })
+      .select('timestamp')
+      .lean<Pick<IExecutionHistory, 'timestamp'>>();
+    const consecutiveFailures = await SchedulerRun.countDocuments({
+      schedulerId,
+      status: 'error',
+      ...(lastHealthyRun ? { timestamp: { $gt: lastHealthyRun.timestamp } } : {})
+    });
+
+    if (consecutiveFailures > 0) {
+      await raiseAlert({
+        type: 'consecutive-failures',
+        message: `Scheduler "${scheduler.name}" failed ${consecutiveFailures} runs in a row`,
+        schedulerId,
+        schedulerName: scheduler.name,
+        details: { 'Consecutive failures': consecutiveFailures, 'Last error': lastRun.error || 'Unknown error' }
+      }, { threshold: { $lte: consecutiveFailures } });
+    }
+
+    // The window the finished run started in
+    const runStartedAt = new Date(new Date(lastRun.timestamp).getTime() - lastRun.duration);
+    const window = getActiveWindow(scheduler.scheduleConfig, runStartedAt);
+    const windowEnded = window && (!scheduler.nextRun || new Date(scheduler.nextRun) > window.end);
+
+    if (window && windowEnded) {
+      const windowRuns: IExecutionHistory[] = await SchedulerRun.find({ schedulerId, timestamp: { $gte: window.start } })
+        .select('matchesCollected')
+        .lean();
+      const matchesCollected = windowRuns.reduce((sum, entry) => sum + entry.matchesCollected, 0);
+
+      if (matchesCollected === 0) {
+        await raiseAlert({
+          type: 'zero-matches',
+          message: `Scheduler "${scheduler.name}" collected no new matches during its window`,
+          schedulerId,
+          schedulerName: scheduler.name,
+          details: {
+            'Window start': window.start.toISOString(),
+            'Window end': window.end.toISOString(),
+            Runs: windowRuns.length
+          }
+        });
+      }
+    }
+  } catch (error) {
+    console.error(`❌ Error checking alerts for scheduler ${schedulerId}:`, error);
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Audit Service
+ *
+ * Server actions call `recordAudit` after every successful mutation of a
+ * league, season, scheduler, club or user, and after every review of a
+ * player claim. The entry is written to the
+ * append-only audit log with the acting user, a field-by-field diff of
+ * the record before and after the mutation, and the request's IP, user
+ * agent and referring page.
+ *
+ * Writing the entry never fails the mutation it describes: the change has
+ * already been made, so a log failure is reported to the server log instead.
+ */
+
+import { headers } from 'next/headers';
+import AuditLog, { IAuditChange, IAuditRequestMetadata } from '@/lib/models/auditLog.model';
+import { AuditAction, AuditTargetType } from '@/lib/config/audit';
+import { IActingUser } from '@/lib/utils/authGuard';
+
+// Fields that change on every write and say nothing about the mutation
+const IGNORED_FIELDS = new Set(['_id', '__v', 'createdAt', 'updatedAt']);
+
+// Fields whose values are never written to the log
+const REDACTED_FIELDS = new Set(['password', 'secret']);
+
+// Interface for a mutation to record
+export interface IAuditEntry {
+  actor: IActingUser;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  targetName?: string;
+  before?: unknown; // The record before the mutation (omit for creations)
+  after?: unknown; // The record after the mutation (omit for deletions)
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Helper function to turn a document into plain JSON values
+ */
+function toSnapshot(value: unknown): unknown {
+  return value === undefined || value === null ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Helper function to check whether a value is a plain object to diff field by field
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Helper function to collect the changed fields between two snapshots
+ * Nested objects are compared field by field; arrays and other values are compared whole.
+ */
+function collectChanges(before: unknown, after: unknown, path: string, changes: IAuditChange[]) {
+  // The record itself is always split into fields, even when it was created or deleted
+  const isRoot = !path && (isPlainObject(before) || isPlainObject(after));
+
+  if (isRoot || (isPlainObject(before) && isPlainObject(after))) {
+    const beforeObject = isPlainObject(before) ? before : {};
+    const afterObject = isPlainObject(after) ? after : {};
+    const fields = new Set([...Object.keys(beforeObject), ...Object.keys(afterObject)]);
+
+    for (const field of fields) {
+      if (IGNORED_FIELDS.has(field)) continue;
+      collectChanges(beforeObject[field], afterObject[field], path ? `${path}.${field}` : field, changes);
+    }
+    return;
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) return;
+
+  const field = path.split('.').pop() as string;
+  const redacted = REDACTED_FIELDS.has(field);
+
+  changes.push({
+    field: path,
+    ...(before !== undefined && { before: redacted ? '[redacted]' : before }),
+    ...(after !== undefined && { after: redacted ? '[redacted]' : after })
+  });
+}
+
+/**
+ * Computes the fields a mutation changed
+ * @param before - The record before the mutation (undefined for creations)
+ * @param after - The record after the mutation (undefined for deletions)
+ * @returns The changed fields with their old and new values
+ */
+export function diffAuditSnapshots(before: unknown, after: unknown): IAuditChange[] {
+  const changes: IAuditChange[] = [];
+  collectChanges(toSnapshot(before), toSnapshot(after), '', changes);
+  return changes;
+}
+
+/**
+ * Helper function to read where the current request came from
+ * Mutations made outside a request (e.g. from a script) have no metadata.
+ */
+async function getRequestMetadata(): Promise<IAuditRequestMetadata> {
+  try {
+    const requestHeaders = await headers();
+    const forwardedFor = requestHeaders.get('x-forwarded-for');
+
+    return {
+      ip: forwardedFor?.split(',')[0].trim() || requestHeaders.get('x-real-ip') || undefined,
+      userAgent: requestHeaders.get('user-agent') || undefined,
+      referer: requestHeaders.get('referer') || undefined
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Records a mutation in the audit log
+ * @param entry - The mutation, with the record before and after it
+ */
+export async function recordAudit(entry: IAuditEntry) {
+  try {
+    const { actor, before, after, ...target } = entry;
+
+    await AuditLog.create({
+      ...target,
+      actor: {
+        id: actor.id,
+        email: actor.email,
+        name: actor.name,
+        role: actor.role
+      },
+      changes: diffAuditSnapshots(before, after),
+      metadata: await getRequestMetadata()
+    });
+  } catch (error) {
+    console.error(`❌ Failed to record audit entry ${entry.action} for ${entry.targetType} ${entry.targetId}:`, error);
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * EA API Cache
+ * 
+ * This service caches EA API responses in Redis so every process serving
+ * requests or running scheduler jobs shares the same cached data. Entries
+ * expire through Redis TTLs configured per endpoint. When Redis is not
+ * reachable, caching is skipped rather than failing the request.
+ */
+
+import { getRedisClient } from '@/lib/utils/redisClient';
+import { EA_API_ENDPOINTS, EA_API_REDIS_PREFIX, EaApiEndpoint } from '@/lib/config/eaApi';
+
+const CACHE_PREFIX = `${EA_API_REDIS_PREFIX}:cache`;
+
+/**
+ * Helper function to build the Redis key for a cached response
+ */
+function cacheKey(endpoint: EaApiEndpoint, key: string): string {
+  return `${CACHE_PREFIX}:${endpoint}:${key}`;
+}
+
+/**
+ * Gets a cached response
+ * @param endpoint - The EA API endpoint the response came from
+ * @param key - The request-specific cache key
+ * @returns The cached data or null if missing or Redis is unavailable
+ */
+export async function getCachedResponse<T>(endpoint: EaApiEndpoint, key: string): Promise<T | null> {
+  try {
+    const client = await getRedisClient();
+    const value = await client.get(cacheKey(endpoint, key));
+    return value ? JSON.parse(value) as T : null;
+  } catch (error) {
+    console.warn(`EA API cache read failed for ${endpoint}:${key}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Stores a response using the endpoint's TTL
+ * @param endpoint - The EA API endpoint the response came from
+ * @param key - The request-specific cache key
+ * @param data - The response data to cache
+ */
+export async function setCachedResponse(endpoint: EaApiEndpoint, key: string, data: unknown): Promise<void> {
+  try {
+    const client = await getRedisClient();
+    await client.set(cacheKey(endpoint, key), JSON.stringify(data), {
+      EX: EA_API_ENDPOINTS[endpoint].cacheTtlSeconds
+    });
+  } catch (error) {
+    console.warn(`EA API cache write failed for ${endpoint}:${key}:`, error);
+  }
+}
+
+/**
+ * Clears all cached EA API responses
+ * @returns Number of entries removed
+ */
+export async function clearEaApiCache(): Promise<number> {
+  const client = await getRedisClient();
+  let removed = 0;
+
+  for await (const key of client.scanIterator({ MATCH: `${CACHE_PREFIX}:*`, COUNT: 100 })) {
+    removed += await client.del(key);
+  }
+
+  return removed;
+}
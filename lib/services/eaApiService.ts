@@ -4,16 +4,48 @@
  * This service handles communication with EA's NHL Pro Clubs API.
  * It provides functions to fetch club data and match data with proper
  * error handling, caching, and rate limiting to ensure reliable data
- * collection for the scheduler system.
+ * collection for the scheduler system. Responses are cached and requests
+ * are rate limited through Redis so the policy holds across processes.
  */
 
-// Cache for API responses to avoid excessive calls
-const apiCache = new Map();
-const CACHE_TTL = 5 * 60 * 1000; // 5 minutes cache
+import { IClub } from '@/lib/models/club.model';
+import { IMatch } from '@/lib/models/match.model';
+import {
+  EaApiEndpoint,
+  EA_API_BASE_URL,
+  EA_API_MOCK_ENABLED,
+  EA_API_REQUEST_TIMEOUT_MS,
+  EA_API_RETRY,
+  EA_API_MAX_RATE_LIMIT_WAIT_MS
+} from '@/lib/config/eaApi';
+import { getCachedResponse, setCachedResponse, clearEaApiCache } from '@/lib/services/eaApiCache';
+import { acquireRequestToken } from '@/lib/services/eaRateLimiter';
+import { acquireEaCallPermit, recordEaFailure, recordEaSuccess, releaseEaCircuitTrial } from '@/lib/services/eaCircuitBreaker';
+import { mockEaFetch } from '@/lib/mocks/eaApi/eaApiMock';
+
+// Kinds of failure an EA call can end with
+export type EaApiErrorType = 'rate-limited' | 'not-found' | 'upstream-down' | 'malformed-payload';
+
+// Interface for a failed EA call
+export interface IEaApiError {
+  type: EaApiErrorType;
+  message: string;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+// Result of an EA call: either the data or a typed error, never both
+export type EaApiResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: IEaApiError };
+
+// Raw EA payloads, keyed by club ID for search results
+export type EaClubSearchData = Record<string, Partial<IClub>>;
+export type EaClubMatchesData = Partial<IMatch>[];
 
 // Common headers required by EA's API
 const EA_API_HEADERS = {
-  "Host": "proclubs.ea.com",
+  "Host": new URL(EA_API_BASE_URL).host,
   "sec-ch-ua-platform": "\"Windows\"",
   "user-agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36",
   "accept": "application/json",
@@ -29,123 +61,237 @@ const EA_API_HEADERS = {
 };
 
 /**
- * Helper function to check if cached data is still valid
+ * Helper function to wait before the next attempt
  */
-function isCacheValid(timestamp: number): boolean {
-  return Date.now() - timestamp < CACHE_TTL;
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
 }
 
 /**
- * Fetches club ID by club name from EA's API
- * @param clubName - The name of the club to search for
- * @param platform - The platform (default: "common-gen5")
- * @returns Club data object or null if not found
+ * Helper function to calculate an exponential backoff delay with full jitter
+ */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(EA_API_RETRY.maxDelayMs, EA_API_RETRY.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Helper function to read a Retry-After header (seconds or HTTP date)
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
  */
-export async function getClubId(clubName: string, platform = "common-gen5") {
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Helper function to make a single EA request and classify the outcome
+ * @returns The parsed body, or a typed error with whether it is worth retrying
+ */
+async function requestEaApi(
+  url: string,
+  isValid: (data: unknown) => boolean
+): Promise<EaApiResult<unknown> & { retryable?: boolean }> {
+  let response: Response;
+
   try {
-    // Check cache first
-    const cacheKey = `club-${clubName}-${platform}`;
-    const cachedData = apiCache.get(cacheKey);
-    
-    if (cachedData && isCacheValid(cachedData.timestamp)) {
-      return cachedData.data;
-    }
+    // The local stand-in answers in-process when enabled, so no network is needed
+    const eaFetch = EA_API_MOCK_ENABLED ? mockEaFetch : fetch;
 
-    // Construct URL with proper encoding
-    const url = `https://proclubs.ea.com/api/nhl/clubs/search?platform=${platform}&clubName=${encodeURIComponent(clubName)}`;
-    
-    // Make API request
-    const response = await fetch(url, {
+    response = await eaFetch(url, {
       method: "GET",
       headers: EA_API_HEADERS,
       // Add cache control to prevent browser caching
-      cache: "no-store"
+      cache: "no-store",
+      signal: AbortSignal.timeout(EA_API_REQUEST_TIMEOUT_MS)
     });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { ok: false, retryable: true, error: { type: 'upstream-down', message: `Request failed: ${message}` } };
+  }
 
-    if (!response.ok) {
-      throw new Error(`API request failed with status ${response.status}`);
-    }
+  const { status } = response;
+
+  if (status === 429) {
+    return {
+      ok: false,
+      retryable: true,
+      error: {
+        type: 'rate-limited',
+        message: 'EA API rate limit reached',
+        status,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+      }
+    };
+  }
 
+  if (status === 404) {
+    return { ok: false, error: { type: 'not-found', message: 'EA API resource not found', status } };
+  }
+
+  if (!response.ok) {
+    return {
+      ok: false,
+      retryable: status >= 500,
+      error: { type: 'upstream-down', message: `API request failed with status ${status}`, status }
+    };
+  }
+
+  try {
     const data = await response.json();
-    
-    // Cache the response
-    apiCache.set(cacheKey, {
-      data,
-      timestamp: Date.now()
-    });
 
-    return data;
-  } catch (error) {
-    console.error(`Error fetching club ID for ${clubName}:`, error);
-    return null;
+    if (!isValid(data)) {
+      return { ok: false, error: { type: 'malformed-payload', message: 'Unexpected EA API response shape', status } };
+    }
+
+    return { ok: true, data };
+  } catch {
+    return { ok: false, error: { type: 'malformed-payload', message: 'EA API response is not valid JSON', status } };
   }
 }
 
 /**
- * Fetches match data for a specific club from EA's API
- * @param clubId - The ID of the club
- * @param platform - The platform (default: "common-gen5")
- * @param matchType - The type of match (default: "club_private")
- * @returns Array of match objects or null if error
+ * Helper function to fetch an EA endpoint through the shared cache, rate limiter and circuit breaker
+ * Rate limited and failing requests are retried with jittered exponential backoff,
+ * waiting at least as long as EA asks for in Retry-After.
+ * @param endpoint - The EA API endpoint being called
+ * @param cacheKey - The request-specific cache key
+ * @param url - The full request URL
+ * @param isValid - Checks that the parsed body has the expected shape
+ * @returns The parsed response body or a typed error
  */
-export async function getClubMatches(
-  clubId: string, 
-  platform = "common-gen5",
-  matchType = "club_private"
-) {
-  try {
-    // Check cache first
-    const cacheKey = `matches-${clubId}-${platform}-${matchType}`;
-    const cachedData = apiCache.get(cacheKey);
-    
-    if (cachedData && isCacheValid(cachedData.timestamp)) {
-      return cachedData.data;
+async function fetchEaApi<T>(
+  endpoint: EaApiEndpoint,
+  cacheKey: string,
+  url: string,
+  isValid: (data: unknown) => boolean
+): Promise<EaApiResult<T>> {
+  // Check cache first
+  const cachedData = await getCachedResponse<T>(endpoint, cacheKey);
+  if (cachedData !== null) {
+    return { ok: true, data: cachedData };
+  }
+
+  let lastError: IEaApiError | undefined;
+  let isTrial = false;
+
+  for (let attempt = 0; attempt < EA_API_RETRY.maxAttempts; attempt++) {
+    // Don't call EA at all while it is known to be down; a trial call keeps its turn through its retries
+    if (!isTrial) {
+      const permit = await acquireEaCallPermit();
+      if (permit === 'denied') {
+        return { ok: false, error: { type: 'upstream-down', message: 'EA API circuit is open, requests are paused' } };
+      }
+      isTrial = permit === 'trial';
     }
 
-    // Construct URL
-    const url = `https://proclubs.ea.com/api/nhl/clubs/matches?matchType=${matchType}&platform=${platform}&clubIds=${clubId}`;
-    
-    // Make API request
-    const response = await fetch(url, {
-      method: "GET",
-      headers: EA_API_HEADERS,
-      // Add cache control to prevent browser caching
-      cache: "no-store"
-    });
+    // Wait for a slot in the shared request budget
+    try {
+      await acquireRequestToken(endpoint);
+    } catch (error) {
+      if (isTrial) {
+        await releaseEaCircuitTrial();
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { ok: false, error: { type: 'rate-limited', message } };
+    }
+
+    const result = await requestEaApi(url, isValid);
+
+    if (result.ok) {
+      await recordEaSuccess();
+
+      // Cache the response
+      await setCachedResponse(endpoint, cacheKey, result.data);
 
-    if (!response.ok) {
-      throw new Error(`API request failed with status ${response.status}`);
+      return { ok: true, data: result.data as T };
     }
 
-    const data = await response.json();
-    
-    // Cache the response
-    apiCache.set(cacheKey, {
-      data,
-      timestamp: Date.now()
-    });
+    lastError = result.error;
+    if (!result.retryable || attempt === EA_API_RETRY.maxAttempts - 1) break;
 
-    return data;
-  } catch (error) {
-    console.error(`Error fetching matches for club ${clubId}:`, error);
-    return null;
+    const delay = Math.max(backoffDelay(attempt), lastError.retryAfterMs ?? 0);
+    if (delay > EA_API_MAX_RATE_LIMIT_WAIT_MS) break;
+
+    console.warn(`⚠️  EA ${endpoint} request failed (${lastError.message}), retrying in ${delay}ms`);
+    await sleep(delay);
+  }
+
+  // Only outages count toward opening the circuit
+  if (lastError?.type === 'upstream-down') {
+    await recordEaFailure();
+  } else if (isTrial) {
+    await releaseEaCircuitTrial();
+  }
+
+  return { ok: false, error: lastError! };
+}
+
+/**
+ * Fetches club ID by club name from EA's API
+ * @param clubName - The name of the club to search for
+ * @param platform - The platform (default: "common-gen5")
+ * @returns Club search results keyed by club ID, or a typed error
+ */
+export async function getClubId(
+  clubName: string,
+  platform = "common-gen5"
+): Promise<EaApiResult<EaClubSearchData>> {
+  // Construct URL with proper encoding
+  const url = `${EA_API_BASE_URL}/clubs/search?platform=${platform}&clubName=${encodeURIComponent(clubName)}`;
+
+  const result = await fetchEaApi<EaClubSearchData>(
+    "clubSearch",
+    `${platform}:${clubName.toLowerCase()}`,
+    url,
+    data => typeof data === "object" && data !== null
+  );
+
+  if (!result.ok) {
+    console.error(`Error fetching club ID for ${clubName}:`, result.error.message);
   }
+
+  return result;
 }
 
 /**
- * Clears expired entries from the cache
+ * Fetches match data for a specific club from EA's API
+ * @param clubId - The ID of the club
+ * @param platform - The platform (default: "common-gen5")
+ * @param matchType - The type of match (default: "club_private")
+ * @returns Array of match objects, or a typed error
  */
-export function clearExpiredCache() {
-  for (const [key, value] of apiCache.entries()) {
-    if (!isCacheValid(value.timestamp)) {
-      apiCache.delete(key);
-    }
+export async function getClubMatches(
+  clubId: string, 
+  platform = "common-gen5",
+  matchType = "club_private"
+): Promise<EaApiResult<EaClubMatchesData>> {
+  // Construct URL
+  const url = `${EA_API_BASE_URL}/clubs/matches?matchType=${matchType}&platform=${platform}&clubIds=${clubId}`;
+
+  const result = await fetchEaApi<EaClubMatchesData>(
+    "clubMatches",
+    `${platform}:${matchType}:${clubId}`,
+    url,
+    data => Array.isArray(data)
+  );
+
+  if (!result.ok) {
+    console.error(`Error fetching matches for club ${clubId}:`, result.error.message);
   }
+
+  return result;
 }
 
 /**
- * Clears all cache entries
+ * Clears all cached EA API responses shared through Redis
+ * @returns Number of entries removed
  */
-export function clearAllCache() {
-  apiCache.clear();
-}
\ No newline at end of file
+export async function clearAllCache() {
+  return clearEaApiCache();
+}
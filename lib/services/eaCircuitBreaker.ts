@@ -0,0 +1,144 @@
+/**
+ * EA API Circuit Breaker
+ * 
+ * This service tracks consecutive EA API failures in Redis. Once too many
+ * calls fail, the circuit opens and every process stops calling EA (including
+ * scheduler fetching) until the cooldown passes. The next call is then a trial:
+ * success closes the circuit, failure opens it again straight away. Only one
+ * caller across all processes makes the trial; the others are turned away
+ * until it is over.
+ */
+
+import { getRedisClient } from '@/lib/utils/redisClient';
+import { EA_API_CIRCUIT_BREAKER, EA_API_REDIS_PREFIX } from '@/lib/config/eaApi';
+
+const FAILURES_KEY = `${EA_API_REDIS_PREFIX}:circuit:failures`;
+const OPEN_KEY = `${EA_API_REDIS_PREFIX}:circuit:open`;
+const TRIAL_KEY = `${EA_API_REDIS_PREFIX}:circuit:trial`;
+
+export type EaCircuitState = 'closed' | 'open' | 'half-open';
+
+// Whether an EA call may go ahead, and whether it is the half-open circuit's trial
+export type EaCallPermit = 'allowed' | 'trial' | 'denied';
+
+// Interface for the circuit breaker status
+export interface IEaCircuitStatus {
+  state: EaCircuitState;
+  failures: number;
+  openUntil: Date | null;
+}
+
+/**
+ * Gets the current circuit breaker status
+ * If Redis is unavailable the circuit is reported closed so fetching can continue.
+ * @returns The circuit state, recent failure count and when an open circuit closes
+ */
+export async function getEaCircuitStatus(): Promise<IEaCircuitStatus> {
+  try {
+    const client = await getRedisClient();
+    const [failures, openUntil] = await Promise.all([
+      client.get(FAILURES_KEY),
+      client.get(OPEN_KEY)
+    ]);
+
+    const failureCount = parseInt(failures || '0');
+
+    if (openUntil) {
+      return { state: 'open', failures: failureCount, openUntil: new Date(parseInt(openUntil)) };
+    }
+
+    return {
+      state: failureCount >= EA_API_CIRCUIT_BREAKER.failureThreshold ? 'half-open' : 'closed',
+      failures: failureCount,
+      openUntil: null
+    };
+  } catch (error) {
+    console.warn('EA API circuit breaker unavailable:', error);
+    return { state: 'closed', failures: 0, openUntil: null };
+  }
+}
+
+/**
+ * Checks whether EA calls are currently paused
+ * @returns True if the circuit is open
+ */
+export async function isEaCircuitOpen(): Promise<boolean> {
+  const status = await getEaCircuitStatus();
+  return status.state === 'open';
+}
+
+/**
+ * Checks whether an EA call may go ahead
+ * While the circuit is half-open, the first caller to claim the trial is let
+ * through and every other caller is denied until the trial is over.
+ * @returns 'allowed' while closed, 'trial' for the claimed trial, 'denied' otherwise
+ */
+export async function acquireEaCallPermit(): Promise<EaCallPermit> {
+  const status = await getEaCircuitStatus();
+  if (status.state === 'closed') return 'allowed';
+  if (status.state === 'open') return 'denied';
+
+  try {
+    const client = await getRedisClient();
+    const claimed = await client.set(TRIAL_KEY, Date.now().toString(), {
+      PX: EA_API_CIRCUIT_BREAKER.trialTimeoutSeconds * 1000,
+      NX: true
+    });
+
+    return claimed ? 'trial' : 'denied';
+  } catch (error) {
+    console.warn('EA API circuit breaker unavailable:', error);
+    return 'allowed';
+  }
+}
+
+/**
+ * Ends a trial that neither succeeded nor failed with an outage, so another caller can try
+ */
+export async function releaseEaCircuitTrial(): Promise<void> {
+  try {
+    const client = await getRedisClient();
+    await client.del(TRIAL_KEY);
+  } catch (error) {
+    console.warn('EA API circuit breaker unavailable:', error);
+  }
+}
+
+/**
+ * Records a successful EA call, closing the circuit
+ */
+export async function recordEaSuccess(): Promise<void> {
+  try {
+    const client = await getRedisClient();
+    await client.del([FAILURES_KEY, OPEN_KEY, TRIAL_KEY]);
+  } catch (error) {
+    console.warn('EA API circuit breaker unavailable:', error);
+  }
+}
+
+/**
+ * Records a failed EA call, opening the circuit once the threshold is reached
+ */
+export async function recordEaFailure(): Promise<void> {
+  try {
+    const client = await getRedisClient();
+    const failures = await client.incr(FAILURES_KEY);
+    await client.expire(FAILURES_KEY, EA_API_CIRCUIT_BREAKER.failureWindowSeconds);
+
+    if (failures >= EA_API_CIRCUIT_BREAKER.failureThreshold) {
+      const cooldownMs = EA_API_CIRCUIT_BREAKER.cooldownSeconds * 1000;
+      const opened = await client.set(OPEN_KEY, (Date.now() + cooldownMs).toString(), {
+        PX: cooldownMs,
+        NX: true
+      });
+
+      if (opened) {
+        // The next half-open period gets a trial of its own
+        await client.del(TRIAL_KEY);
+        console.error(`❌ EA API circuit opened after ${failures} failures, pausing EA requests for ${EA_API_CIRCUIT_BREAKER.cooldownSeconds}s`);
+      }
+    }
+  } catch (error) {
+    console.warn('EA API circuit breaker unavailable:', error);
+  }
+}
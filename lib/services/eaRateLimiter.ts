@@ -0,0 +1,91 @@
+/**
+ * EA API Rate Limiter
+ * 
+ * This service implements a token bucket rate limiter stored in Redis.
+ * Each EA request must take a token from both its endpoint's bucket and
+ * the global bucket, so schedulers running in parallel across processes
+ * share one politeness policy towards proclubs.ea.com.
+ */
+
+import { getRedisClient } from '@/lib/utils/redisClient';
+import {
+  EA_API_ENDPOINTS,
+  EA_API_GLOBAL_RATE_LIMIT,
+  EA_API_MAX_RATE_LIMIT_WAIT_MS,
+  EA_API_REDIS_PREFIX,
+  EaApiEndpoint
+} from '@/lib/config/eaApi';
+
+const RATE_LIMIT_PREFIX = `${EA_API_REDIS_PREFIX}:ratelimit`;
+
+// Refills and takes one token from every bucket atomically, only if all buckets have one.
+// Returns 0 when the tokens were taken, otherwise the milliseconds to wait before retrying.
+// ARGV holds capacity and refill-per-millisecond pairs, one pair per key.
+const TAKE_TOKEN_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local buckets = {}
+local wait = 0
+
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[i * 2 - 1])
+  local refill = tonumber(ARGV[i * 2])
+  local state = redis.call('HMGET', key, 'tokens', 'ts')
+  local tokens = tonumber(state[1]) or capacity
+  local ts = tonumber(state[2]) or now
+  tokens = math.min(capacity, tokens + math.max(0, now - ts) * refill)
+  if tokens < 1 then
+    wait = math.max(wait, math.ceil((1 - tokens) / refill))
+  end
+  buckets[i] = { key, capacity, refill, tokens }
+end
+
+for _, bucket in ipairs(buckets) do
+  local tokens = bucket[4]
+  if wait == 0 then
+    tokens = tokens - 1
+  end
+  redis.call('HSET', bucket[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+  redis.call('PEXPIRE', bucket[1], math.ceil(bucket[2] / bucket[3]) * 2)
+end
+
+return wait
+`;
+
+/**
+ * Waits until a request to an endpoint is allowed by the shared rate limits
+ * If Redis is unavailable the request is allowed so data collection can continue.
+ * @param endpoint - The EA API endpoint about to be called
+ * @throws Error if no token becomes available within the maximum wait
+ */
+export async function acquireRequestToken(endpoint: EaApiEndpoint): Promise<void> {
+  const endpointLimit = EA_API_ENDPOINTS[endpoint].rateLimit;
+  const deadline = Date.now() + EA_API_MAX_RATE_LIMIT_WAIT_MS;
+
+  const keys = [`${RATE_LIMIT_PREFIX}:global`, `${RATE_LIMIT_PREFIX}:${endpoint}`];
+  const args = [EA_API_GLOBAL_RATE_LIMIT, endpointLimit].flatMap(limit => [
+    limit.capacity.toString(),
+    (limit.refillPerSecond / 1000).toString()
+  ]);
+
+  while (true) {
+    let waitMs: number;
+
+    try {
+      const client = await getRedisClient();
+      waitMs = Number(await client.eval(TAKE_TOKEN_SCRIPT, { keys, arguments: args }));
+    } catch (error) {
+      console.warn(`EA API rate limiter unavailable, allowing ${endpoint} request:`, error);
+      return;
+    }
+
+    if (waitMs <= 0) return;
+
+    const remaining = deadline - Date.now();
+    if (waitMs > remaining) {
+      throw new Error(`EA API rate limit budget exhausted for ${endpoint}`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+  }
+}
@@ -4,20 +4,61 @@
  * This file handles the initialization of all required services
  * for the application, ensuring dependencies are available
  * before starting up critical components.
+ * 
+ * The web app only enqueues scheduler jobs and reads their status. The Bull
+ * processors and the scheduler cron run in the scheduler worker process
+ * (workers/scheduler.ts), which calls `initializeWorkerServices`.
  */
 
 import { checkRedisHealth } from '@/lib/utils/redisHealthCheck';
 import { initializeSchedulerService } from '@/lib/services/schedulerService';
-import { startSchedulerCron, stopSchedulerCron, getSchedulerCronStatus } from '@/lib/services/schedulerCronService';
+import { startSchedulerLeaderElection, stopSchedulerLeaderElection, getSchedulerWorkerStatus } from '@/lib/services/schedulerLeader';
+import { getEaCircuitStatus, IEaCircuitStatus } from '@/lib/services/eaCircuitBreaker';
+import { backfillMatchTypes, backfillNormalizedMatchStats } from '@/lib/services/matchImportService';
+import { migrateEmbeddedExecutionHistory } from '@/lib/services/schedulerRunService';
+
+let isWorker = false;
 
 /**
- * Initializes all services required for the application
+ * Initializes the services required by the web app
  * @returns True if all services initialized successfully, false otherwise
  */
 export async function initializeServices(): Promise<boolean> {
   try {
     console.log('Initializing services...');
     
+    // Check Redis connection; scheduler jobs can't be enqueued without it
+    console.log('Checking Redis connection...');
+    const redisHealthy = await checkRedisHealth();
+    
+    if (!redisHealthy) {
+      console.error('❌ Redis is not accessible. Schedulers can not be queued.');
+      console.error('Please check your Redis configuration and connection.');
+      return false;
+    }
+    
+    console.log('✅ Redis connection verified');
+    console.log('ℹ️  Scheduler jobs are processed by the scheduler worker (npm run worker)');
+    
+    console.log('✅ All services initialized successfully');
+    return true;
+    
+  } catch (error) {
+    console.error('❌ Error initializing services:', error);
+    return false;
+  }
+}
+
+/**
+ * Initializes the services run by the scheduler worker process
+ * The worker processes scheduler jobs and competes with other workers
+ * to be the single cron leader.
+ * @returns True if all services initialized successfully, false otherwise
+ */
+export async function initializeWorkerServices(): Promise<boolean> {
+  try {
+    console.log('Initializing worker services...');
+    
     // Check Redis connection first
     console.log('Checking Redis connection...');
     const redisHealthy = await checkRedisHealth();
@@ -33,24 +74,40 @@ export async function initializeServices(): Promise<boolean> {
     // Initialize scheduler service
     console.log('Initializing scheduler service...');
     initializeSchedulerService();
+    isWorker = true;
     console.log('✅ Scheduler service initialized');
     
-    // Start scheduler cron service
-    console.log('Starting scheduler cron service...');
-    const cronStarted = startSchedulerCron();
-    if (!cronStarted) {
-      console.error('❌ Failed to start scheduler cron service');
-      // Don't fail initialization if cron fails, but log the error
-      // The scheduler can still be run manually
-    } else {
-      console.log('✅ Scheduler cron service started');
-    }
+    // Only the elected leader among the workers runs the scheduler cron
+    console.log('Joining scheduler cron leader election...');
+    await startSchedulerLeaderElection();
+    console.log('✅ Scheduler cron leader election started');
     
-    console.log('✅ All services initialized successfully');
+    // Add numeric stat copies to matches stored before they existed (no-op once done)
+    backfillNormalizedMatchStats().then((updated) => {
+      if (updated > 0) {
+        console.log(`✅ Normalized stats backfilled for ${updated} matches`);
+      }
+    });
+    
+    // Add the scheduler's match type to matches imported before types were recorded (no-op once done)
+    backfillMatchTypes().then((updated) => {
+      if (updated > 0) {
+        console.log(`✅ Match types backfilled for ${updated} matches`);
+      }
+    });
+    
+    // Move run history embedded in scheduler documents into its own collection (no-op once done)
+    migrateEmbeddedExecutionHistory().then((migrated) => {
+      if (migrated > 0) {
+        console.log(`✅ Execution history moved to scheduler runs for ${migrated} schedulers`);
+      }
+    });
+    
+    console.log('✅ All worker services initialized successfully');
     return true;
     
   } catch (error) {
-    console.error('❌ Error initializing services:', error);
+    console.error('❌ Error initializing worker services:', error);
     return false;
   }
 }
@@ -63,13 +120,11 @@ export async function shutdownServices(): Promise<void> {
     try {
       console.log('Shutting down services...');
       
-      // Stop scheduler cron service
-      console.log('Stopping scheduler cron service...');
-      const cronStopped = stopSchedulerCron();
-      if (cronStopped) {
-        console.log('✅ Scheduler cron service stopped');
-      } else {
-        console.warn('⚠️  Scheduler cron service was not running');
+      // Stop the scheduler cron and hand leadership to another worker
+      if (isWorker) {
+        console.log('Leaving scheduler cron leader election...');
+        await stopSchedulerLeaderElection();
+        console.log('✅ Scheduler cron leader election stopped');
       }
       
       // Import and close scheduler service queues
@@ -102,31 +157,43 @@ export async function getServicesHealth(): Promise<{
       errorCount: number;
       nextCheckIn?: number;
     };
+    eaApi: boolean;
+    eaApiStatus?: IEaCircuitStatus;
     overall: boolean;
   }> {
     try {
       const redisHealthy = await checkRedisHealth();
       
-      // Check scheduler service health
+      // Check scheduler worker and cron health, as published by the workers
       let schedulerHealthy = false;
-      try {
-        const schedulerServiceModule = await import('./schedulerService');
-        const status = await schedulerServiceModule.getSchedulerJobStatus();
-        schedulerHealthy = status !== null;
-      } catch (error) {
-        schedulerHealthy = false;
-      }
-      
-      // Check cron service health
       let cronHealthy = false;
       let cronStatus;
       try {
-        cronStatus = getSchedulerCronStatus();
-        cronHealthy = cronStatus.isRunning && cronStatus.errorCount < 5;
+        const workerStatus = await getSchedulerWorkerStatus();
+        schedulerHealthy = workerStatus.workers.length > 0;
+        
+        if (workerStatus.cronStatus) {
+          const { isRunning, lastCheckTime, errorCount } = workerStatus.cronStatus;
+          cronStatus = {
+            isRunning,
+            lastCheckTime,
+            errorCount,
+            // The cron checks about once a minute
+            nextCheckIn: isRunning && lastCheckTime
+              ? Math.max(0, 60000 - (Date.now() - lastCheckTime.getTime()))
+              : undefined
+          };
+          cronHealthy = isRunning && errorCount < 5;
+        }
       } catch (error) {
+        schedulerHealthy = false;
         cronHealthy = false;
       }
       
+      // Check EA API circuit breaker; an open circuit means scheduler fetching is paused
+      const eaApiStatus = await getEaCircuitStatus();
+      const eaApiHealthy = eaApiStatus.state !== 'open';
+      
       return {
         redis: redisHealthy,
         scheduler: schedulerHealthy,
@@ -135,7 +202,9 @@ export async function getServicesHealth(): Promise<{
           ...cronStatus,
           lastCheckTime: cronStatus.lastCheckTime || null
         } : undefined,
-        overall: redisHealthy && schedulerHealthy && cronHealthy
+        eaApi: eaApiHealthy,
+        eaApiStatus,
+        overall: redisHealthy && schedulerHealthy && cronHealthy && eaApiHealthy
       };
     } catch (error) {
       console.error('Error checking services health:', error);
@@ -143,6 +212,7 @@ export async function getServicesHealth(): Promise<{
         redis: false,
         scheduler: false,
         cron: false,
+        eaApi: false,
         overall: false
       };
     }
@@ -0,0 +1,316 @@
+/**
+ * Match Import Service
+ *
+ * This service stores the matches EA returns for a club: payloads are
+ * validated and either saved (with a numeric stat copy and the players they
+ * list) or quarantined. It also holds the one-off backfills for matches stored
+ * before a field existed. It is called by the scheduler worker only and is
+ * deliberately not a server action, so clients can't write matches.
+ */
+
+import { connectToDatabase } from '@/database/mongoose';
+import Match, { IMatch, IMatchImportCounts, IMatchImportError, MatchImportOutcome } from '@/lib/models/match.model';
+import QuarantinedMatch from '@/lib/models/quarantinedMatch.model';
+import Scheduler from '@/lib/models/scheduler.model';
+import { eaMatchSchema, normalizeMatchStats } from '@/lib/schemas/eaMatch.schema';
+import { getClubMatches, IEaApiError } from '@/lib/services/eaApiService';
+import { ingestPlayersFromMatch, ingestMissingPlayersFromMatch } from '@/lib/services/playerIngestService';
+import { resolveSchedulerClubs } from '@/lib/services/schedulerRunService';
+import { revalidatePaths } from '@/lib/utils/revalidation';
+
+/**
+ * Creates a new match in the database
+ * The payload is validated against the EA match schema first; invalid payloads
+ * are quarantined instead of stored. A numeric copy of the club and player
+ * stats is saved alongside EA's string stats.
+ * @param matchData - The match data to create
+ * @param sourceClubId - The club whose import returned the match, if any
+ * @param matchType - The EA match type the match was played as, if known
+ * @returns The created (or already stored) match or null if invalid or error
+ */
+export async function createMatch(matchData: Partial<IMatch>, sourceClubId?: string, matchType?: string) {
+  try {
+    await connectToDatabase();
+    
+    const { match } = await saveMatch(matchData, sourceClubId, matchType);
+    
+    return match ? JSON.parse(JSON.stringify(match)) : null;
+  } catch (error) {
+    console.error('Error creating match:', error);
+    return null;
+  }
+}
+
+/**
+ * Helper function to store an EA match payload and report what happened to it
+ * - new: the match was not stored yet and has been created
+ * - duplicate: the match is already stored with identical stats
+ * - updated: the match is already stored but EA now reports different stats,
+ *   so the stored stats are replaced (player histories are not re-ingested)
+ * Players missing a stored match from their history (e.g. because ingesting
+ * them failed after the match was saved) are ingested when it is seen again.
+ * - rejected: the payload failed validation and was quarantined
+ * EA payloads don't carry the match type, so the type requested from EA is
+ * stored with the match (and added to stored matches that lack it).
+ */
+async function saveMatch(
+  matchData: Partial<IMatch>,
+  sourceClubId?: string,
+  matchType?: string
+): Promise<{ outcome: MatchImportOutcome; match: IMatch | null }> {
+  const parsed = eaMatchSchema.safeParse(matchData);
+  if (!parsed.success) {
+    await quarantineMatch(matchData, parsed.error.issues, sourceClubId);
+    return { outcome: 'rejected', match: null };
+  }
+  
+  const payload = parsed.data;
+  
+  // Check if match already exists to prevent duplicates
+  const existingMatch = await Match.findOne({ matchId: payload.matchId });
+  if (existingMatch) {
+    if (matchType && !existingMatch.matchType) {
+      existingMatch.matchType = matchType;
+    }
+    
+    const stats = ({ clubs, players, aggregate }: Pick<IMatch, 'clubs' | 'players' | 'aggregate'>) =>
+      JSON.stringify({ clubs, players, aggregate });
+    
+    if (stats(existingMatch) === stats(payload as unknown as IMatch)) {
+      if (existingMatch.isModified('matchType')) {
+        await existingMatch.save();
+      }
+      await ingestMissingPlayersFromMatch(existingMatch);
+      return { outcome: 'duplicate', match: existingMatch };
+    }
+    
+    existingMatch.set({
+      clubs: payload.clubs,
+      players: payload.players,
+      aggregate: payload.aggregate,
+      normalized: normalizeMatchStats(payload)
+    });
+    await existingMatch.save();
+    await ingestMissingPlayersFromMatch(existingMatch);
+    
+    revalidatePaths('/admin/matches');
+    
+    return { outcome: 'updated', match: existingMatch };
+  }
+  
+  const newMatch = new Match({
+    ...payload,
+    matchType,
+    normalized: normalizeMatchStats(payload)
+  });
+  await newMatch.save();
+  
+  // Populate player profiles from the stored match
+  await ingestPlayersFromMatch(newMatch);
+  
+  // Revalidate relevant paths
+  revalidatePaths('/admin/matches', `/admin/clubs/${Object.keys(payload.clubs)[0]}`);
+  
+  return { outcome: 'new', match: newMatch };
+}
+
+/**
+ * Helper function to store an invalid EA payload with its validation issues
+ * A payload with a matchId is stored once and counted on every repeat.
+ */
+async function quarantineMatch(
+  payload: unknown,
+  issues: { path: PropertyKey[]; message: string }[],
+  clubId?: string
+) {
+  const rawMatchId = (payload as { matchId?: unknown } | null)?.matchId;
+  const matchId = typeof rawMatchId === 'string' || typeof rawMatchId === 'number'
+    ? String(rawMatchId)
+    : undefined;
+  
+  const quarantineData = {
+    clubId,
+    payload,
+    issues: issues.map(issue => ({
+      path: issue.path.map(String).join('.') || '(root)',
+      message: issue.message
+    })),
+    lastSeenAt: new Date()
+  };
+  
+  console.warn(`⚠️  Quarantined invalid EA match payload ${matchId ?? '(no matchId)'}: ${quarantineData.issues[0]?.path} - ${quarantineData.issues[0]?.message}`);
+  
+  if (!matchId) {
+    await QuarantinedMatch.create(quarantineData);
+    return;
+  }
+  
+  await QuarantinedMatch.updateOne(
+    { matchId },
+    { $set: quarantineData, $inc: { occurrences: 1 } },
+    { upsert: true }
+  );
+}
+
+/**
+ * Imports matches for a club from EA API
+ * @param clubId - The ID of the club to import matches for
+ * @param platform - The platform (default: "common-gen5")
+ * @param matchType - The type of match (default: "club_private")
+ * @returns Object with the newly stored matches, the count of new, duplicate, updated and
+ * rejected payloads, the number of matches EA returned and, if the EA request or storing
+ * its matches failed, the typed error
+ */
+export async function importMatchesFromEA(
+  clubId: string, 
+  platform = "common-gen5",
+  matchType = "club_private"
+): Promise<{
+  matches: IMatch[];
+  counts: IMatchImportCounts;
+  matchesReturned: number;
+  error?: IEaApiError | IMatchImportError;
+}> {
+  const counts: IMatchImportCounts = { new: 0, duplicate: 0, updated: 0, rejected: 0 };
+  let matchesReturned = 0;
+  
+  try {
+    // Fetch match data from EA API
+    const result = await getClubMatches(clubId, platform, matchType);
+    
+    if (!result.ok) {
+      return { matches: [], counts, matchesReturned: 0, error: result.error };
+    }
+    
+    matchesReturned = result.data.length;
+    if (matchesReturned === 0) {
+      return { matches: [], counts, matchesReturned };
+    }
+    
+    await connectToDatabase();
+    
+    const importedMatches = [];
+    
+    // Process each match
+    for (const matchData of result.data) {
+      try {
+        const { outcome, match } = await saveMatch(matchData, clubId, matchType);
+        counts[outcome]++;
+        
+        if (outcome === 'new' && match) {
+          importedMatches.push(JSON.parse(JSON.stringify(match)));
+        }
+      } catch (error) {
+        // Another import stored the same match first
+        if ((error as { code?: number }).code === 11000) {
+          counts.duplicate++;
+          continue;
+        }
+        console.error(`Error saving EA match for club ${clubId}:`, error);
+      }
+    }
+    
+    // Revalidate paths to show new matches
+    revalidatePaths('/admin/matches', `/admin/clubs/${clubId}`);
+    
+    return { matches: importedMatches, counts, matchesReturned };
+  } catch (error) {
+    console.error('Error importing matches from EA:', error);
+    return {
+      matches: [],
+      counts,
+      matchesReturned,
+      error: { type: 'import-failed', message: error instanceof Error ? error.message : 'Unknown error' }
+    };
+  }
+}
+
+/**
+ * Adds the numeric stat copy to matches stored before it existed
+ * Safe to run repeatedly; only matches without normalized stats are touched.
+ * @returns Number of matches updated
+ */
+export async function backfillNormalizedMatchStats() {
+  try {
+    await connectToDatabase();
+    
+    let updated = 0;
+    const cursor = Match.find({ 'normalized.clubs': { $exists: false } })
+      .select('clubs players')
+      .lean()
+      .cursor();
+    
+    for await (const match of cursor) {
+      await Match.updateOne(
+        { _id: match._id },
+        { $set: { normalized: normalizeMatchStats(match as Pick<IMatch, 'clubs' | 'players'>) } }
+      );
+      updated++;
+    }
+    
+    return updated;
+  } catch (error) {
+    console.error('Error backfilling normalized match stats:', error);
+    return 0;
+  }
+}
+
+/**
+ * Adds the match type to matches stored before imports recorded it
+ * Imports only request the type their scheduler is set to, so untyped matches
+ * get that type. If schedulers use different types, a club's matches get the
+ * type of the schedulers collecting for it, and matches of clubs whose
+ * schedulers disagree (or that no scheduler collects for) stay untyped.
+ * Safe to run repeatedly; only matches without a type are touched.
+ * @returns Number of matches updated
+ */
+export async function backfillMatchTypes() {
+  try {
+    await connectToDatabase();
+    
+    const untyped = { matchType: { $exists: false } };
+    if (!(await Match.exists(untyped))) return 0;
+    
+    const schedulers = await Scheduler.find().select('collectionSettings.matchType');
+    const matchTypes = new Set(schedulers.map(scheduler => scheduler.collectionSettings.matchType));
+    
+    // Every import so far requested the same type (EA's default if no scheduler exists yet)
+    if (matchTypes.size <= 1) {
+      const [matchType = 'club_private'] = matchTypes;
+      const result = await Match.updateMany(untyped, { $set: { matchType } });
+      return result.modifiedCount;
+    }
+    
+    const clubMatchTypes = new Map<string, Set<string>>();
+    for (const scheduler of schedulers) {
+      const resolved = await resolveSchedulerClubs(scheduler._id.toString());
+      for (const clubId of resolved?.clubs || []) {
+        const types = clubMatchTypes.get(clubId) || new Set<string>();
+        types.add(scheduler.collectionSettings.matchType);
+        clubMatchTypes.set(clubId, types);
+      }
+    }
+    
+    let updated = 0;
+    for (const [clubId, types] of clubMatchTypes) {
+      if (types.size !== 1) continue;
+      
+      const [matchType] = types;
+      const result = await Match.updateMany(
+        { ...untyped, [`clubs.${clubId}`]: { $exists: true } },
+        { $set: { matchType } }
+      );
+      updated += result.modifiedCount;
+    }
+    
+    const remaining = await Match.countDocuments(untyped);
+    if (remaining > 0) {
+      console.warn(`⚠️  ${remaining} matches keep no match type: no scheduler, or schedulers of different types, collect for their clubs`);
+    }
+    
+    return updated;
+  } catch (error) {
+    console.error('Error backfilling match types:', error);
+    return 0;
+  }
+}
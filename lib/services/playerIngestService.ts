@@ -0,0 +1,170 @@
+/**
+ * Player Ingest Service
+ *
+ * This service derives players from the per-player stat lines of stored
+ * matches. It is called by the match import only and is deliberately not a
+ * server action, so clients can't write player histories.
+ */
+
+import { connectToDatabase } from '@/database/mongoose';
+import Player, { IPlayerStats } from '@/lib/models/player.model';
+import { IMatch } from '@/lib/models/match.model';
+import { statToNumber } from '@/lib/utils/playerStats';
+
+/**
+ * Ingests every player stat line of a match into the Player collection
+ *
+ * For each player in `match.players[clubId][playerId]` the player is upserted
+ * (name, platform, position, clubs), a match history entry is appended and the
+ * counting career stats are incremented. The append is guarded on the matchId
+ * so ingesting the same match twice never double-counts.
+ *
+ * @param match - The stored match to ingest players from
+ * @returns Number of players whose history gained this match
+ */
+export async function ingestPlayersFromMatch(
+  match: Pick<IMatch, 'matchId' | 'timestamp' | 'players'>
+) {
+  try {
+    await connectToDatabase();
+
+    let playersIngested = 0;
+
+    for (const [clubId, clubPlayers] of Object.entries(match.players || {})) {
+      for (const [playerId, stats] of Object.entries(clubPlayers || {})) {
+        const ingested = await ingestPlayerStats(
+          playerId,
+          clubId,
+          match.matchId,
+          match.timestamp,
+          stats as IPlayerStats
+        );
+
+        if (ingested) {
+          playersIngested++;
+        }
+      }
+    }
+
+    return playersIngested;
+  } catch (error) {
+    console.error(`Error ingesting players from match ${match.matchId}:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Ingests the players of a stored match whose history is missing it
+ * A failed ingest leaves the match stored but some histories without it;
+ * running this when the match is seen again repairs them.
+ * @param match - The stored match to check
+ * @returns Number of players whose history gained this match
+ */
+export async function ingestMissingPlayersFromMatch(
+  match: Pick<IMatch, 'matchId' | 'timestamp' | 'players'>
+) {
+  try {
+    await connectToDatabase();
+
+    const expected = Object.values(match.players || {})
+      .reduce((count, clubPlayers) => count + Object.keys(clubPlayers || {}).length, 0);
+    const ingested = await Player.countDocuments({ 'matchHistory.matchId': match.matchId });
+
+    if (ingested >= expected) return 0;
+
+    return ingestPlayersFromMatch(match);
+  } catch (error) {
+    console.error(`Error checking player histories for match ${match.matchId}:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Helper function to record one player's stat line for one match
+ * @returns True if the match was newly added to the player's history
+ */
+async function ingestPlayerStats(
+  playerId: string,
+  clubId: string,
+  matchId: string,
+  timestamp: number,
+  stats: IPlayerStats
+): Promise<boolean> {
+  // Upsert the player's identity first so the guarded update below always has a target
+  await Player.updateOne(
+    { playerId },
+    {
+      $set: {
+        playerName: stats.playername || playerId,
+        clientPlatform: stats.clientPlatform || 'unknown',
+        position: stats.position || 'unknown'
+      },
+      $addToSet: { clubs: clubId }
+    },
+    { upsert: true }
+  );
+
+  const goals = statToNumber(stats.skgoals);
+  const assists = statToNumber(stats.skassists);
+  const total = (field: string) => ({ $ifNull: [`$careerStats.${field}`, 0] });
+  const increment = (field: string, value: number) => ({ $add: [total(field), value] });
+  // Running average over the games played, including this one
+  const average = (field: string, value: string) => ({
+    $divide: [
+      { $add: [{ $multiply: [total(`avgRating.${field}`), total('totalMatches')] }, statToNumber(value)] },
+      { $add: [total('totalMatches'), 1] }
+    ]
+  });
+
+  // Only matches not yet in the history are appended and counted. The totals and the
+  // stats derived from them change in one update, so concurrent ingests can't interleave.
+  const result = await Player.updateOne(
+    { playerId, 'matchHistory.matchId': { $ne: matchId } },
+    [
+      {
+        $set: {
+          matchHistory: {
+            $concatArrays: [
+              { $ifNull: ['$matchHistory', []] },
+              [{ $literal: { matchId, timestamp, clubId, stats } }]
+            ]
+          },
+          'careerStats.totalMatches': increment('totalMatches', 1),
+          'careerStats.totalGoals': increment('totalGoals', goals),
+          'careerStats.totalAssists': increment('totalAssists', assists),
+          'careerStats.totalPoints': increment('totalPoints', goals + assists),
+          'careerStats.totalShots': increment('totalShots', statToNumber(stats.skshots)),
+          'careerStats.totalHits': increment('totalHits', statToNumber(stats.skhits)),
+          'careerStats.totalPIM': increment('totalPIM', statToNumber(stats.skpim)),
+          'careerStats.plusMinus': increment('plusMinus', statToNumber(stats.skplusmin)),
+          'careerStats.avgRating.offense': average('offense', stats.ratingOffense),
+          'careerStats.avgRating.defense': average('defense', stats.ratingDefense),
+          'careerStats.avgRating.teamplay': average('teamplay', stats.ratingTeamplay),
+          updatedAt: '$$NOW'
+        }
+      },
+      {
+        // Derived from the totals set by the previous stage
+        $set: {
+          'careerStats.shotPercentage': {
+            $cond: [
+              { $gt: ['$careerStats.totalShots', 0] },
+              {
+                $divide: [
+                  { $round: [{ $multiply: [{ $divide: ['$careerStats.totalGoals', '$careerStats.totalShots'] }, 10000] }, 0] },
+                  100
+                ]
+              },
+              0
+            ]
+          }
+        }
+      }
+    ],
+    { updatePipeline: true }
+  );
+
+  if (result.modifiedCount === 0) return false;
+
+  return true;
+}
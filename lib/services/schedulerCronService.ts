@@ -9,6 +9,7 @@
  */
 
 import { checkAndScheduleSchedulers } from '@/lib/services/schedulerService';
+import { raiseAlert } from '@/lib/services/alertService';
 
 let cronInterval: NodeJS.Timeout | null = null;
 let isRunning = false;
@@ -113,6 +114,12 @@ async function runSchedulerCheck(): Promise<void> {
       // Log the issue for monitoring
       console.error('⚠️  Scheduler cron service stopped due to repeated errors.');
       console.error('⚠️  Please check the system logs and restart the service when the issue is resolved.');
+      
+      raiseAlert({
+        type: 'cron-stopped',
+        message: `Scheduler cron stopped after ${errorCount} consecutive errors`,
+        details: { 'Last error': errorMessage }
+      });
     }
     
     throw error;
@@ -0,0 +1,89 @@
+/**
+ * Scheduler Events Service
+ *
+ * This service broadcasts scheduler run lifecycle events over Redis pub/sub.
+ * Bull processors may run in any process, so events are published to a
+ * per-scheduler channel and the admin UI receives them through the
+ * server-sent events endpoint at /api/admin/schedulers/[id]/events.
+ */
+
+import { getRedisClient } from '@/lib/utils/redisClient';
+import { SCHEDULER_REDIS_PREFIX } from '@/lib/config/scheduler';
+import { IExecutionHistory } from '@/lib/models/scheduler.model';
+import { IMatchImportCounts } from '@/lib/models/match.model';
+
+export type SchedulerEventType = 'queued' | 'club-started' | 'club-finished' | 'completed' | 'failed' | 'skipped';
+
+// Interface for a scheduler lifecycle event
+export interface ISchedulerEvent {
+  type: SchedulerEventType;
+  schedulerId: string;
+  timestamp: string;
+  jobId?: string;
+  runId?: string;
+  clubId?: string;
+  runAt?: string; // When a queued run is due
+  clubsCompleted?: number;
+  clubsTotal?: number;
+  status?: IExecutionHistory['status'] | 'skipped';
+  matchesCollected?: number;
+  importCounts?: IMatchImportCounts;
+  error?: string;
+}
+
+// Helper function to build the pub/sub channel of a scheduler
+const eventsChannel = (schedulerId: string) => `${SCHEDULER_REDIS_PREFIX}:events:${schedulerId}`;
+
+/**
+ * Publishes a scheduler lifecycle event
+ * Events are best effort: a Redis failure is logged and never fails the run.
+ * @param event - The event to publish (the timestamp is added here)
+ */
+export async function publishSchedulerEvent(event: Omit<ISchedulerEvent, 'timestamp'>) {
+  try {
+    const client = await getRedisClient();
+    await client.publish(
+      eventsChannel(event.schedulerId),
+      JSON.stringify({ ...event, timestamp: new Date().toISOString() })
+    );
+  } catch (error) {
+    console.warn(`⚠️  Could not publish scheduler ${event.type} event:`, error);
+  }
+}
+
+/**
+ * Subscribes to the lifecycle events of a scheduler
+ * Subscribing needs a dedicated Redis connection, which is closed on unsubscribe.
+ * @param schedulerId - The ID of the scheduler
+ * @param listener - Called with every event received
+ * @returns A function that unsubscribes and closes the connection
+ */
+export async function subscribeToSchedulerEvents(
+  schedulerId: string,
+  listener: (event: ISchedulerEvent) => void
+): Promise<() => Promise<void>> {
+  const client = await getRedisClient();
+  const subscriber = client.duplicate();
+
+  subscriber.on('error', (error) => {
+    console.error('Scheduler events subscriber error:', error);
+  });
+
+  await subscriber.connect();
+  await subscriber.subscribe(eventsChannel(schedulerId), (message) => {
+    try {
+      listener(JSON.parse(message));
+    } catch (error) {
+      console.error('Invalid scheduler event message:', error);
+    }
+  });
+
+  return async () => {
+    try {
+      await subscriber.unsubscribe();
+      await subscriber.quit();
+    } catch (error) {
+      console.warn('⚠️  Error closing scheduler events subscriber:', error);
+    }
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Scheduler Leader Service
+ *
+ * This service coordinates scheduler workers through Redis. Every worker
+ * registers itself with a heartbeat, and exactly one of them, the leader,
+ * runs the scheduler cron. When the leader stops or crashes its leadership
+ * expires and another worker takes over on its next heartbeat.
+ *
+ * The web app reads the published worker and cron status from Redis
+ * instead of running the processors itself.
+ */
+
+import { hostname } from 'os';
+import { getRedisClient } from '@/lib/utils/redisClient';
+import {
+  SCHEDULER_REDIS_PREFIX,
+  SCHEDULER_WORKER_HEARTBEAT_MS,
+  SCHEDULER_WORKER_TTL_MS
+} from '@/lib/config/scheduler';
+import { startSchedulerCron, stopSchedulerCron, getSchedulerCronStatus } from '@/lib/services/schedulerCronService';
+import { raiseAlert } from '@/lib/services/alertService';
+
+// Interface for the cron status published by the leader
+export interface IPublishedCronStatus {
+  workerId: string;
+  isRunning: boolean;
+  lastCheckTime: Date | null;
+  errorCount: number;
+}
+
+// Interface for the status of the scheduler workers
+export interface ISchedulerWorkerStatus {
+  workers: string[];
+  leader: string | null;
+  cronStatus: IPublishedCronStatus | null;
+}
+
+// Identifies this process among the workers
+const WORKER_ID = `${hostname()}:${process.pid}`;
+
+const LEADER_KEY = `${SCHEDULER_REDIS_PREFIX}:cron-leader`;
+const CRON_STATUS_KEY = `${SCHEDULER_REDIS_PREFIX}:cron-status`;
+const workerKey = (workerId: string) => `${SCHEDULER_REDIS_PREFIX}:worker:${workerId}`;
+
+// Takes leadership if nobody holds it, or extends it if this worker already does
+const CLAIM_LEADERSHIP_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+if current == ARGV[1] then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  return 1
+end
+return 0
+`;
+
+// Gives up leadership only if this worker holds it
+const RESIGN_LEADERSHIP_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+let heartbeat: NodeJS.Timeout | null = null;
+let isLeader = false;
+
+// Whether the last heartbeat reached Redis; an outage alerts once, when it starts
+let isRedisReachable = true;
+
+/**
+ * Helper function to register this worker, claim leadership and start or stop the cron
+ */
+async function runHeartbeat() {
+  try {
+    const client = await getRedisClient();
+    const ttl = SCHEDULER_WORKER_TTL_MS.toString();
+
+    await client.set(workerKey(WORKER_ID), new Date().toISOString(), { PX: SCHEDULER_WORKER_TTL_MS });
+
+    if (!isRedisReachable) {
+      console.log(`✅ Scheduler worker ${WORKER_ID} reached Redis again`);
+      isRedisReachable = true;
+    }
+
+    const claimed = Number(await client.eval(CLAIM_LEADERSHIP_SCRIPT, {
+      keys: [LEADER_KEY],
+      arguments: [WORKER_ID, ttl]
+    })) === 1;
+
+    if (claimed && !isLeader) {
+      console.log(`👑 Worker ${WORKER_ID} is now the scheduler cron leader`);
+      isLeader = true;
+      startSchedulerCron();
+    } else if (!claimed && isLeader) {
+      console.warn(`⚠️  Worker ${WORKER_ID} lost scheduler cron leadership`);
+      isLeader = false;
+      stopSchedulerCron();
+    }
+
+    if (isLeader) {
+      const cronStatus = getSchedulerCronStatus();
+      await client.set(CRON_STATUS_KEY, JSON.stringify({
+        workerId: WORKER_ID,
+        isRunning: cronStatus.isRunning,
+        lastCheckTime: cronStatus.lastCheckTime,
+        errorCount: cronStatus.errorCount
+      }), { PX: SCHEDULER_WORKER_TTL_MS });
+    }
+  } catch (error) {
+    console.error('❌ Scheduler worker heartbeat failed:', error);
+
+    // Alert rules live in MongoDB, so they can still be delivered without Redis.
+    // Heartbeats keep failing for the whole outage, so only its start is alerted.
+    if (isRedisReachable) {
+      isRedisReachable = false;
+      raiseAlert({
+        type: 'redis-unhealthy',
+        message: `Scheduler worker ${WORKER_ID} can't reach Redis`,
+        details: { Worker: WORKER_ID, Error: error instanceof Error ? error.message : 'Unknown error' }
+      });
+    }
+
+    // Without Redis another worker may take over, so don't keep ticking
+    if (isLeader) {
+      isLeader = false;
+      stopSchedulerCron();
+    }
+  }
+}
+
+/**
+ * Starts registering this worker and competing for cron leadership
+ * @returns Promise that resolves after the first heartbeat
+ */
+export async function startSchedulerLeaderElection(): Promise<void> {
+  if (heartbeat) {
+    console.warn('⚠️  Scheduler leader election is already running');
+    return;
+  }
+
+  await runHeartbeat();
+  heartbeat = setInterval(() => {
+    runHeartbeat();
+  }, SCHEDULER_WORKER_HEARTBEAT_MS);
+}
+
+/**
+ * Stops the heartbeat, stops the cron and hands leadership to another worker
+ */
+export async function stopSchedulerLeaderElection(): Promise<void> {
+  if (heartbeat) {
+    clearInterval(heartbeat);
+    heartbeat = null;
+  }
+
+  if (isLeader) {
+    isLeader = false;
+    stopSchedulerCron();
+  }
+
+  try {
+    const client = await getRedisClient();
+    await client.eval(RESIGN_LEADERSHIP_SCRIPT, { keys: [LEADER_KEY], arguments: [WORKER_ID] });
+    await client.del(workerKey(WORKER_ID));
+  } catch (error) {
+    console.warn('⚠️  Could not resign scheduler cron leadership:', error);
+  }
+}
+
+/**
+ * Gets the registered workers, the cron leader and the leader's cron status
+ * @returns The status published by the scheduler workers
+ */
+export async function getSchedulerWorkerStatus(): Promise<ISchedulerWorkerStatus> {
+  const client = await getRedisClient();
+
+  const workers: string[] = [];
+  for await (const key of client.scanIterator({ MATCH: workerKey('*'), COUNT: 100 })) {
+    workers.push(key.slice(workerKey('').length));
+  }
+
+  const [leader, cronStatusJson] = await Promise.all([
+    client.get(LEADER_KEY),
+    client.get(CRON_STATUS_KEY)
+  ]);
+
+  let cronStatus: IPublishedCronStatus | null = null;
+  if (cronStatusJson) {
+    const parsed = JSON.parse(cronStatusJson);
+    cronStatus = {
+      ...parsed,
+      lastCheckTime: parsed.lastCheckTime ? new Date(parsed.lastCheckTime) : null
+    };
+  }
+
+  return { workers, leader, cronStatus };
+}
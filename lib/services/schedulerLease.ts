@@ -0,0 +1,167 @@
+/**
+ * Scheduler Lease Service
+ *
+ * This service keeps a scheduler from running twice at the same time.
+ * Before a run starts it takes a per-scheduler lease in Redis; the lease
+ * expires on its own unless the run keeps renewing it, so a crashed run
+ * never blocks its scheduler for longer than the lease TTL.
+ *
+ * Queue runs, manual runs and the cron tick all honour the same lease.
+ */
+
+import { getRedisClient } from '@/lib/utils/redisClient';
+import {
+  SCHEDULER_LEASE_HEARTBEAT_MS,
+  SCHEDULER_LEASE_TTL_MS,
+  SCHEDULER_REDIS_PREFIX
+} from '@/lib/config/scheduler';
+
+// Interface for a held lease; the token identifies the run holding it
+export interface ISchedulerLease {
+  schedulerId: string;
+  token: string;
+}
+
+// Takes the lease if it is free or already held with the same token (a retried run)
+const ACQUIRE_LEASE_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+if current == ARGV[1] then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  return 1
+end
+return 0
+`;
+
+// Extends the lease only while it is still held with the given token
+const RENEW_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+// Releases the lease only while it is still held with the given token
+const RELEASE_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+// Helper function to build the Redis key of a scheduler's lease
+const leaseKey = (schedulerId: string) => `${SCHEDULER_REDIS_PREFIX}:lease:${schedulerId}`;
+
+/**
+ * Takes the run lease of a scheduler
+ * If Redis is unavailable the lease is granted, since no queued run can start without Redis either.
+ * @param schedulerId - The ID of the scheduler
+ * @param token - Identifies the run taking the lease
+ * @param ttlMs - How long the lease lasts without renewal
+ * @returns The lease, or null if another run holds it
+ */
+export async function acquireSchedulerLease(
+  schedulerId: string,
+  token: string,
+  ttlMs = SCHEDULER_LEASE_TTL_MS
+): Promise<ISchedulerLease | null> {
+  try {
+    const client = await getRedisClient();
+    const acquired = Number(await client.eval(ACQUIRE_LEASE_SCRIPT, {
+      keys: [leaseKey(schedulerId)],
+      arguments: [token, ttlMs.toString()]
+    }));
+
+    return acquired === 1 ? { schedulerId, token } : null;
+  } catch (error) {
+    console.warn(`⚠️  Scheduler lease unavailable, allowing run of ${schedulerId}:`, error);
+    return { schedulerId, token };
+  }
+}
+
+// Helper function to extend a held lease; Redis errors are left to the caller
+async function extendLease(lease: ISchedulerLease, ttlMs: number): Promise<boolean> {
+  const client = await getRedisClient();
+  const renewed = Number(await client.eval(RENEW_LEASE_SCRIPT, {
+    keys: [leaseKey(lease.schedulerId)],
+    arguments: [lease.token, ttlMs.toString()]
+  }));
+
+  return renewed === 1;
+}
+
+/**
+ * Extends a held lease
+ * @param lease - The lease to renew
+ * @param ttlMs - How long the lease lasts from now
+ * @returns True if the lease is still held
+ */
+export async function renewSchedulerLease(lease: ISchedulerLease, ttlMs = SCHEDULER_LEASE_TTL_MS): Promise<boolean> {
+  try {
+    return await extendLease(lease, ttlMs);
+  } catch (error) {
+    console.warn(`⚠️  Could not renew lease of scheduler ${lease.schedulerId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Releases a held lease so the scheduler can run again
+ * @param lease - The lease to release
+ */
+export async function releaseSchedulerLease(lease: ISchedulerLease): Promise<void> {
+  try {
+    const client = await getRedisClient();
+    await client.eval(RELEASE_LEASE_SCRIPT, {
+      keys: [leaseKey(lease.schedulerId)],
+      arguments: [lease.token]
+    });
+  } catch (error) {
+    console.warn(`⚠️  Could not release lease of scheduler ${lease.schedulerId}:`, error);
+  }
+}
+
+/**
+ * Renews a lease periodically while work is in progress
+ * The heartbeat stops by itself once another run holds the lease or it was released.
+ * @param lease - The lease to keep alive
+ * @param onLost - Called instead of warning when the lease is no longer held
+ * @returns A function that stops the heartbeat
+ */
+export function startLeaseHeartbeat(lease: ISchedulerLease, onLost?: () => void): () => void {
+  const heartbeat = setInterval(() => {
+    extendLease(lease, SCHEDULER_LEASE_TTL_MS).then((renewed) => {
+      if (renewed) return;
+
+      clearInterval(heartbeat);
+      if (onLost) {
+        onLost();
+      } else {
+        console.warn(`⚠️  Lease of scheduler ${lease.schedulerId} was lost during the run`);
+      }
+    }).catch((error) => {
+      // The next beat tries again while the lease has time left
+      console.warn(`⚠️  Could not renew lease of scheduler ${lease.schedulerId}:`, error);
+    });
+  }, SCHEDULER_LEASE_HEARTBEAT_MS);
+
+  return () => clearInterval(heartbeat);
+}
+
+/**
+ * Checks whether a run currently holds a scheduler's lease
+ * @param schedulerId - The ID of the scheduler
+ * @returns True if the scheduler is running
+ */
+export async function isSchedulerRunning(schedulerId: string): Promise<boolean> {
+  try {
+    const client = await getRedisClient();
+    return (await client.exists(leaseKey(schedulerId))) === 1;
+  } catch (error) {
+    console.warn(`⚠️  Scheduler lease unavailable for ${schedulerId}:`, error);
+    return false;
+  }
+}
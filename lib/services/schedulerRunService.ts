@@ -0,0 +1,183 @@
+/**
+ * Scheduler Run Service
+ *
+ * This service holds the scheduler reads and writes made by the scheduler
+ * worker: finding due schedulers, resolving the clubs they collect for,
+ * logging finished runs and migrating old run history. It is deliberately
+ * not a server action, so clients can't call it; admin routes that show its
+ * results check permissions themselves.
+ */
+
+import { connectToDatabase } from '@/database/mongoose';
+import Scheduler, { IExecutionHistory } from '@/lib/models/scheduler.model';
+import SchedulerRun, { IClubRunLog } from '@/lib/models/schedulerRun.model';
+import Season, { ISeason } from '@/lib/models/season.model';
+import { getClubsForSeason } from '@/lib/actions/league.actions';
+import { calculateNextRun } from '@/lib/utils/scheduling';
+import { revalidatePaths } from '@/lib/utils/revalidation';
+
+/**
+ * Resolves the clubs a scheduler collects for
+ * The scheduler's own club list is combined with the clubs of the seasons it
+ * targets and of the active seasons of the leagues it targets. A season stops
+ * contributing clubs once its end date has passed.
+ * @param schedulerId - The ID of the scheduler
+ * @param at - The instant to resolve at (default: now)
+ * @returns The resolved club IDs, the targeted seasons and whether every
+ *   targeted season has ended and left no clubs to collect, or null if error
+ */
+export async function resolveSchedulerClubs(schedulerId: string, at = new Date()) {
+  try {
+    await connectToDatabase();
+    
+    const scheduler = await Scheduler.findById(schedulerId).select('clubs seasonIds leagueIds');
+    if (!scheduler) return null;
+    
+    const seasonIds: string[] = scheduler.seasonIds || [];
+    const leagueIds: string[] = scheduler.leagueIds || [];
+    const hasTargets = seasonIds.length > 0 || leagueIds.length > 0;
+    
+    const seasons: ISeason[] = hasTargets
+      ? await Season.find({
+          $or: [
+            { _id: { $in: seasonIds } },
+            { leagueId: { $in: leagueIds }, isActive: true }
+          ]
+        }).sort({ startDate: -1 })
+      : [];
+    
+    const clubs = new Set<string>(scheduler.clubs);
+    const resolvedSeasons = [];
+    
+    for (const season of seasons) {
+      const hasEnded = !!season.endDate && season.endDate <= at;
+      const seasonClubs: string[] = hasEnded
+        ? []
+        : (await getClubsForSeason(season._id.toString())).map((club: { clubId: string }) => club.clubId);
+      
+      seasonClubs.forEach(clubId => clubs.add(clubId));
+      resolvedSeasons.push({
+        seasonId: season._id.toString(),
+        name: season.name,
+        leagueId: season.leagueId,
+        endDate: season.endDate?.toISOString(),
+        hasEnded,
+        clubs: seasonClubs
+      });
+    }
+    
+    return {
+      clubs: [...clubs],
+      seasons: resolvedSeasons,
+      targetsEnded: clubs.size === 0 && resolvedSeasons.length > 0 && resolvedSeasons.every(season => season.hasEnded)
+    };
+  } catch (error) {
+    console.error('Error resolving scheduler clubs:', error);
+    return null;
+  }
+}
+
+/**
+ * Gets schedulers that need to run
+ * @returns Array of schedulers that are due to run
+ */
+export async function getSchedulersToRun() {
+  try {
+    await connectToDatabase();
+    
+    const now = new Date();
+    
+    const schedulers = await Scheduler.find({
+      isActive: true,
+      nextRun: { $lte: now }
+    });
+    
+    return JSON.parse(JSON.stringify(schedulers));
+  } catch (error) {
+    console.error('Error fetching schedulers to run:', error);
+    return [];
+  }
+}
+
+/**
+ * Logs a finished scheduler run and stores its summary on the scheduler
+ * @param schedulerId - The ID of the scheduler
+ * @param executionData - The run totals, its per-club results and the queue run ID
+ * @returns True if successful, false otherwise
+ */
+export async function updateSchedulerExecution(
+  schedulerId: string, 
+  executionData: Omit<IExecutionHistory, 'timestamp'> & { runId?: string; clubs: IClubRunLog[] }
+) {
+  try {
+    await connectToDatabase();
+    
+    const scheduler = await Scheduler.findById(schedulerId);
+    if (!scheduler) return false;
+    
+    const { runId, clubs, ...summary } = executionData;
+    const lastExecution = { timestamp: new Date(), ...summary };
+    
+    await SchedulerRun.create({ schedulerId, runId, clubs, ...lastExecution });
+    
+    // Update scheduler with execution details
+    await Scheduler.findByIdAndUpdate(schedulerId, {
+      lastRun: lastExecution.timestamp,
+      nextRun: calculateNextRun(scheduler.scheduleConfig, scheduler.collectionSettings.frequencyMinutes),
+      lastExecution
+    });
+    
+    // Revalidate paths (a no-op when called from the scheduler worker)
+    revalidatePaths('/admin/schedulers', `/admin/schedulers/${schedulerId}`);
+    
+    return true;
+  } catch (error) {
+    console.error('Error updating scheduler execution:', error);
+    return false;
+  }
+}
+
+/**
+ * Moves the execution history embedded in scheduler documents into SchedulerRun
+ * Schedulers created before runs had their own collection kept every run in an
+ * `executionHistory` array. Runs older than the retention period are dropped by
+ * the TTL index after the move.
+ * @returns Number of schedulers migrated
+ */
+export async function migrateEmbeddedExecutionHistory() {
+  try {
+    await connectToDatabase();
+    
+    // The field is no longer in the schema, so read the raw documents
+    const legacySchedulers = await Scheduler.collection
+      .find({ executionHistory: { $exists: true } }, { projection: { executionHistory: 1 } })
+      .toArray();
+    
+    for (const legacy of legacySchedulers) {
+      const history: IExecutionHistory[] = legacy.executionHistory || [];
+      const schedulerId = legacy._id.toString();
+      
+      if (history.length > 0) {
+        await SchedulerRun.insertMany(history.map(entry => ({ ...entry, schedulerId, clubs: [] })));
+      }
+      
+      const lastExecution = history.reduce<IExecutionHistory | undefined>(
+        (latest, entry) => !latest || new Date(entry.timestamp) > new Date(latest.timestamp) ? entry : latest,
+        undefined
+      );
+      
+      await Scheduler.collection.updateOne(
+        { _id: legacy._id },
+        {
+          $unset: { executionHistory: '' },
+          ...(lastExecution ? { $set: { lastExecution } } : {})
+        }
+      );
+    }
+    
+    return legacySchedulers.length;
+  } catch (error) {
+    console.error('Error migrating scheduler execution history:', error);
+    return 0;
+  }
+}
@@ -7,15 +7,50 @@
  * 
  * This service integrates with Redis for queue management and provides
  * job processing, error handling, and execution tracking.
+ * 
+ * Each scheduler run enqueues one `import-club` child job per club. Clubs
+ * are imported concurrently and retried on their own, and the last club to
+ * finish aggregates the results into the run's execution history entry.
+ * 
+ * A run holds its scheduler's lease (see schedulerLease.ts) from the moment
+ * the parent job starts until the last club finishes, using the run ID as
+ * the lease token. The process that fanned the run out keeps renewing the
+ * lease while its clubs are queued.
+ * 
+ * Queued runs only import the clubs that are due according to their
+ * activity (see adaptivePolling.ts); manual runs import every club.
  */
 
-import Queue from 'bull';
+import Queue, { Job } from 'bull';
 import { redisConfig } from '@/lib/config/redis'; // Import the Redis configuration
+import {
+  SCHEDULER_CLUB_CONCURRENCY,
+  SCHEDULER_LEASE_TTL_MS,
+  SCHEDULER_MAX_RETRY_DELAY_MS,
+  SCHEDULER_REDIS_PREFIX,
+  SCHEDULER_RUN_TTL_SECONDS
+} from '@/lib/config/scheduler';
 import { connectToDatabase } from '@/database/mongoose';
-import Scheduler, { IScheduler } from '@/lib/models/scheduler.model';
-import { updateSchedulerExecution, getSchedulersToRun } from '@/lib/actions/scheduler.actions';
-import { importMatchesFromEA } from '@/lib/actions/match.actions';
+import Scheduler, { IExecutionHistory } from '@/lib/models/scheduler.model';
+import { IClubRunLog } from '@/lib/models/schedulerRun.model';
+import { updateSchedulerExecution, getSchedulersToRun, resolveSchedulerClubs } from '@/lib/services/schedulerRunService';
+import { importMatchesFromEA } from '@/lib/services/matchImportService';
+import { isEaCircuitOpen } from '@/lib/services/eaCircuitBreaker';
 import Club from '@/lib/models/club.model';
+import { IMatchImportCounts, MatchImportOutcome } from '@/lib/models/match.model';
+import { calculateNextRun } from '@/lib/utils/scheduling';
+import { getRedisClient } from '@/lib/utils/redisClient';
+import { publishSchedulerEvent } from '@/lib/services/schedulerEvents';
+import { checkSchedulerRunAlerts } from '@/lib/services/alertService';
+import { clearSchedulerPolls, planClubPolls, recordClubPolls } from '@/lib/services/adaptivePolling';
+import {
+  acquireSchedulerLease,
+  isSchedulerRunning,
+  releaseSchedulerLease,
+  renewSchedulerLease,
+  startLeaseHeartbeat,
+  ISchedulerLease
+} from '@/lib/services/schedulerLease';
 
 // Create a new queue for scheduler jobs
 const schedulerQueue = new Queue('scheduler processing', {
@@ -33,14 +68,286 @@ const schedulerQueue = new Queue('scheduler processing', {
 
 
 
+// Result of importing one club's matches within a scheduler run
+type IClubRunResult = Omit<IClubRunLog, 'clubId'>;
+
+// Data of a per-club child job
+interface IClubImportJobData {
+  schedulerId: string;
+  runId: string;
+  clubId: string;
+  clubsTotal: number;
+  platform: string;
+  matchType: string;
+}
+
+// Starts the aggregation state of a run unless a previous attempt already did
+const START_RUN_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 1 then
+  return 0
+end
+redis.call('HSET', KEYS[1], 'schedulerId', ARGV[1], 'startedAt', ARGV[2], 'total', ARGV[3], 'remaining', ARGV[3])
+redis.call('EXPIRE', KEYS[1], ARGV[4])
+return 1
+`;
+
+// Records a club's result once and returns how many clubs are still outstanding (-1 if already recorded)
+const RECORD_CLUB_RESULT_SCRIPT = `
+if redis.call('HSETNX', KEYS[2], ARGV[1], ARGV[2]) == 0 then
+  return -1
+end
+redis.call('EXPIRE', KEYS[2], ARGV[3])
+return redis.call('HINCRBY', KEYS[1], 'remaining', -1)
+`;
+
+// Helper functions to build the Redis keys of a run
+const runKey = (runId: string) => `${SCHEDULER_REDIS_PREFIX}:run:${runId}`;
+const runResultsKey = (runId: string) => `${SCHEDULER_REDIS_PREFIX}:run:${runId}:clubs`;
+
+// Lease heartbeats of the runs this process fanned out, by run ID
+const runHeartbeats = new Map<string, () => void>();
+
+/**
+ * Helper function to stop renewing the lease of a run fanned out by this process
+ * @param runId - The ID of the scheduler run
+ */
+function stopRunHeartbeat(runId: string) {
+  runHeartbeats.get(runId)?.();
+  runHeartbeats.delete(runId);
+}
+
+/**
+ * Helper function to record a club's result and finish the run after the last club
+ * @param job - The club's import job
+ * @param result - The outcome of the club's import
+ */
+async function recordClubResult(job: Job<IClubImportJobData>, result: IClubRunResult) {
+  const { schedulerId, runId, clubId, clubsTotal } = job.data;
+  const client = await getRedisClient();
+  
+  let remaining = Number(await client.eval(RECORD_CLUB_RESULT_SCRIPT, {
+    keys: [runKey(runId), runResultsKey(runId)],
+    arguments: [clubId, JSON.stringify(result), SCHEDULER_RUN_TTL_SECONDS.toString()]
+  }));
+  
+  if (remaining === -1) {
+    // A retried job whose result was already recorded may have crashed before finishing the run
+    remaining = Number(await client.hGet(runKey(runId), 'remaining') ?? -1);
+  } else {
+    await job.progress(100);
+    await publishSchedulerEvent({
+      type: 'club-finished',
+      schedulerId,
+      jobId: String(job.id),
+      runId,
+      clubId,
+      clubsCompleted: clubsTotal - remaining,
+      clubsTotal,
+      status: result.status,
+      matchesCollected: result.matchesCollected,
+      importCounts: result.importCounts,
+      error: result.error
+    });
+  }
+  
+  if (remaining === 0) {
+    await finishSchedulerRun(runId);
+  }
+}
+
+/**
+ * Helper function to aggregate the club results of a run into an execution history entry
+ * A run where some clubs failed is partial; a run where every club failed is an error.
+ * Only the first call for a run publishes it, raises alerts and queues the next run.
+ * @param runId - The ID of the scheduler run
+ */
+async function finishSchedulerRun(runId: string) {
+  const client = await getRedisClient();
+  const [run, clubResults] = await Promise.all([
+    client.hGetAll(runKey(runId)),
+    client.hGetAll(runResultsKey(runId))
+  ]);
+  
+  if (!run.schedulerId) return;
+  
+  let matchesCollected = 0;
+  let clubsProcessed = 0;
+  const importCounts: IMatchImportCounts = { new: 0, duplicate: 0, updated: 0, rejected: 0 };
+  const errors: string[] = [];
+  const clubs: IClubRunLog[] = [];
+  const polledClubs: string[] = [];
+  
+  for (const [clubId, value] of Object.entries(clubResults)) {
+    const result: IClubRunResult = JSON.parse(value);
+    clubs.push({ clubId, ...result });
+    if (result.status === 'skipped') continue;
+    
+    polledClubs.push(clubId);
+    clubsProcessed++;
+    matchesCollected += result.matchesCollected;
+    for (const outcome of Object.keys(importCounts) as MatchImportOutcome[]) {
+      importCounts[outcome] += result.importCounts?.[outcome] ?? 0;
+    }
+    
+    if (result.status === 'error') {
+      errors.push(`Club ${clubId}: ${result.error}`);
+    }
+  }
+  
+  let status: IExecutionHistory['status'] = 'success';
+  if (errors.length > 0) {
+    status = errors.length < clubsProcessed ? 'partial' : 'error';
+  }
+  
+  // Update scheduler with execution details (also stores the next run time)
+  await updateSchedulerExecution(run.schedulerId, {
+    runId,
+    clubs,
+    status,
+    matchesCollected,
+    importCounts,
+    clubsProcessed,
+    error: errors.length > 0 ? errors.join('; ') : undefined,
+    duration: Date.now() - Number(run.startedAt)
+  });
+  
+  // A retried or stalled last club can finish the run twice: only the call that removes the run's state goes on
+  if (await client.del(runKey(runId)) === 0) return;
+  await client.del(runResultsKey(runId));
+  
+  // Skipped clubs were never requested, so they stay due for the next run
+  await recordClubPolls(run.schedulerId, polledClubs, new Date(Number(run.startedAt)));
+  
+  await releaseSchedulerLease({ schedulerId: run.schedulerId, token: runId });
+  stopRunHeartbeat(runId);
+  
+  await publishSchedulerEvent({
+    type: 'completed',
+    schedulerId: run.schedulerId,
+    runId,
+    clubsCompleted: Number(run.total),
+    clubsTotal: Number(run.total),
+    status,
+    matchesCollected,
+    importCounts,
+    error: errors.length > 0 ? errors.join('; ') : undefined
+  });
+  
+  // Alerts are delivered in the background so retries don't hold up the run
+  checkSchedulerRunAlerts(run.schedulerId);
+  
+  // Schedule next run if still active
+  const scheduler = await Scheduler.findById(run.schedulerId);
+  if (scheduler?.isActive) {
+    const nextRun = calculateNextRun(
+      scheduler.scheduleConfig,
+      scheduler.collectionSettings.frequencyMinutes
+    );
+    
+    if (nextRun) {
+      await scheduleNextRun(run.schedulerId, nextRun);
+    }
+  }
+  
+  console.log(`Scheduler run ${runId} finished: ${status}, ${importCounts.new} new / ${importCounts.duplicate} duplicate / ${importCounts.updated} updated / ${importCounts.rejected} rejected matches from ${clubsProcessed} clubs`);
+}
+
+/**
+ * Helper function to import one club's matches for a scheduler run
+ * Retryable EA errors are thrown so Bull retries the job; the result is
+ * recorded once the import succeeds or the last attempt has been made.
+ */
+async function processClubImport(job: Job<IClubImportJobData>): Promise<IClubRunResult> {
+  const { schedulerId, runId, clubId, clubsTotal, platform, matchType } = job.data;
+  const isLastAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+  const lease: ISchedulerLease = { schedulerId, token: runId };
+  
+  let result: IClubRunResult;
+  
+  await job.progress(0);
+  await publishSchedulerEvent({
+    type: 'club-started',
+    schedulerId,
+    jobId: String(job.id),
+    runId,
+    clubId,
+    clubsTotal
+  });
+  
+  // Keep the run's lease alive while this club is being imported
+  const stopHeartbeat = startLeaseHeartbeat(lease);
+  const attemptStartedAt = Date.now();
+  
+  try {
+    await connectToDatabase();
+    
+    // Verify club exists
+    const club = await Club.findOne({ clubId });
+    
+    if (!club) {
+      console.warn(`Club ${clubId} not found, skipping`);
+      result = { status: 'skipped', matchesReturned: 0, matchesCollected: 0, duration: Date.now() - attemptStartedAt };
+    } else if (await isEaCircuitOpen()) {
+      // Don't call EA for the remaining clubs while it is down
+      result = {
+        status: 'error',
+        matchesReturned: 0,
+        matchesCollected: 0,
+        duration: Date.now() - attemptStartedAt,
+        error: 'upstream-down - EA API circuit is open'
+      };
+    } else {
+      await job.progress(50);
+      const { matches, counts, matchesReturned, error } = await importMatchesFromEA(clubId, platform, matchType);
+      
+      if (error && (error.type === 'rate-limited' || error.type === 'upstream-down') && !isLastAttempt) {
+        throw new Error(`${error.type} - ${error.message}`);
+      }
+      
+      result = {
+        status: error ? 'error' : 'success',
+        // EA answered successfully unless the error says otherwise (cached responses were 200s too)
+        httpStatus: error ? error.status : 200,
+        matchesReturned,
+        matchesCollected: matches.length,
+        importCounts: counts,
+        duration: Date.now() - attemptStartedAt,
+        error: error ? `${error.type} - ${error.message}` : undefined
+      };
+    }
+  } catch (error) {
+    if (!isLastAttempt) {
+      // Hold the lease through the retry delay, then retry the club
+      const backoff = job.opts.backoff;
+      const retryDelay = typeof backoff === 'object' ? backoff.delay ?? 0 : backoff ?? 0;
+      await renewSchedulerLease(lease, retryDelay + SCHEDULER_LEASE_TTL_MS);
+      throw error;
+    }
+    
+    result = {
+      status: 'error',
+      matchesReturned: 0,
+      matchesCollected: 0,
+      duration: Date.now() - attemptStartedAt,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  } finally {
+    stopHeartbeat();
+  }
+  
+  await recordClubResult(job, result);
+  return result;
+}
+
 /**
  * Initializes the scheduler service
  * Sets up job processors and event handlers
  */
 export function initializeSchedulerService() {
-  // Process scheduler jobs
+  // Process scheduler jobs: each run fans out into one child job per club
   schedulerQueue.process('run-scheduler', async (job) => {
-    const { schedulerId } = job.data;
+    const { schedulerId, pollAllClubs } = job.data;
+    let lease: ISchedulerLease | null = null;
     
     try {
       await connectToDatabase();
@@ -51,88 +358,92 @@ export function initializeSchedulerService() {
         throw new Error(`Scheduler ${schedulerId} not found or inactive`);
       }
       
-      const startTime = Date.now();
-      let matchesCollected = 0;
-      let clubsProcessed = 0;
-      let status: 'success' | 'error' | 'partial' = 'success';
-      let errorMessage: string | undefined;
+      const runId = `${schedulerId}:${job.id}`;
       
-      try {
-        // Process each club in the scheduler
-        for (const clubId of scheduler.clubs) {
-          // Verify club exists
-          const club = await Club.findOne({ clubId });
-          if (!club) {
-            console.warn(`Club ${clubId} not found, skipping`);
-            continue;
-          }
-          
-          clubsProcessed++;
-          
-          // Import matches for this club
-          const matches = await importMatchesFromEA(
-            clubId,
-            scheduler.collectionSettings.platform,
-            scheduler.collectionSettings.matchType
-          );
-          
-          if (matches) {
-            matchesCollected += matches.length;
-          }
-        }
-        
-        // Update scheduler with execution details
-        await updateSchedulerExecution(schedulerId, {
-          status,
-          matchesCollected,
-          clubsProcessed,
-          error: errorMessage,
-          duration: Date.now() - startTime
-        });
-        
-        // Calculate next run time
-        const nextRun = calculateNextRun(scheduler.scheduleConfig);
+      // Never start a run while another run (queued or manual) of this scheduler is in progress
+      lease = await acquireSchedulerLease(schedulerId, runId);
+      if (!lease) {
+        console.warn(`⚠️  Scheduler ${schedulerId} is already running, skipping job ${job.id}`);
         
-        // Update scheduler with next run time
-        await Scheduler.findByIdAndUpdate(schedulerId, {
-          lastRun: new Date(),
-          nextRun
+        // The run was announced as queued, so tell listeners it will not happen
+        await publishSchedulerEvent({
+          type: 'skipped',
+          schedulerId,
+          jobId: String(job.id),
+          runId,
+          error: 'Another run of this scheduler is in progress'
         });
-        
-        // Schedule next run if active
-        if (scheduler.isActive) {
-          await scheduleNextRun(schedulerId, nextRun);
-        }
-        
-        return {
-          status,
-          matchesCollected,
-          clubsProcessed,
-          duration: Date.now() - startTime
-        };
-        
-      } catch (error) {
-        status = 'error';
-        errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        
-        // Update scheduler with error
-        await updateSchedulerExecution(schedulerId, {
-          status,
-          matchesCollected,
-          clubsProcessed,
-          error: errorMessage,
-          duration: Date.now() - startTime
-        });
-        
-        throw error; // Re-throw to mark job as failed
+        return { runId, alreadyRunning: true };
+      }
+      
+      // Clubs of targeted seasons are resolved now so clubs added to a season are picked up
+      const resolved = await resolveSchedulerClubs(schedulerId);
+      if (!resolved) {
+        throw new Error(`Could not resolve the clubs of scheduler ${schedulerId}`);
+      }
+      
+      if (resolved.targetsEnded) {
+        // Every targeted season is over: stop collecting instead of running empty
+        await Scheduler.findByIdAndUpdate(schedulerId, { isActive: false, nextRun: undefined });
+        await clearSchedulerPolls(schedulerId);
+        await releaseSchedulerLease(lease);
+        console.log(`🛑 Scheduler ${schedulerId} stopped: all of its seasons have ended`);
+        return { runId, seasonsEnded: true };
+      }
+      
+      const { platform, matchType, frequencyMinutes, retryAttempts, retryDelayMinutes } = scheduler.collectionSettings;
+      
+      // Active clubs are polled every run and quieter ones less often, within the shared request budget
+      const pollPlan = await planClubPolls(schedulerId, resolved.clubs, frequencyMinutes, { register: true });
+      const clubs = pollAllClubs
+        ? resolved.clubs
+        : pollPlan.clubs.filter(club => club.isDue).map(club => club.clubId);
+      
+      const client = await getRedisClient();
+      await client.eval(START_RUN_SCRIPT, {
+        keys: [runKey(runId)],
+        arguments: [schedulerId, Date.now().toString(), clubs.length.toString(), SCHEDULER_RUN_TTL_SECONDS.toString()]
+      });
+      
+      if (clubs.length === 0) {
+        await finishSchedulerRun(runId);
+        return { runId, clubsQueued: 0 };
       }
       
+      // Child job IDs are derived from the run so a retried parent doesn't enqueue clubs twice
+      await schedulerQueue.addBulk(clubs.map(clubId => ({
+        name: 'import-club',
+        data: { schedulerId, runId, clubId, clubsTotal: clubs.length, platform, matchType },
+        opts: {
+          jobId: `${runId}:${clubId}`,
+          attempts: Math.max(0, retryAttempts) + 1,
+          backoff: {
+            type: 'fixed',
+            delay: Math.min(retryDelayMinutes * 60 * 1000, SCHEDULER_MAX_RETRY_DELAY_MS)
+          }
+        }
+      })));
+      
+      // Queued clubs may wait behind other runs' clubs, so the lease is renewed until the run finishes
+      runHeartbeats.set(runId, startLeaseHeartbeat(lease, () => runHeartbeats.delete(runId)));
+      
+      return { runId, clubsQueued: clubs.length };
+      
     } catch (error) {
       console.error(`Error processing scheduler job for ${schedulerId}:`, error);
+      
+      // Let a retry of this job (or another run) take the lease again
+      if (lease) {
+        await releaseSchedulerLease(lease);
+      }
+      
       throw error;
     }
   });
   
+  // Process per-club import jobs with bounded concurrency
+  schedulerQueue.process('import-club', SCHEDULER_CLUB_CONCURRENCY, processClubImport);
+  
   // Handle job completion
   schedulerQueue.on('completed', (job, result) => {
     console.log(`Scheduler job ${job.id} completed with result:`, result);
@@ -141,6 +452,16 @@ export function initializeSchedulerService() {
   // Handle job failure
   schedulerQueue.on('failed', (job, err) => {
     console.error(`Scheduler job ${job.id} failed:`, err);
+    
+    // Runs that fail for good never reach the aggregation step, so report them here
+    if (job.name === 'run-scheduler' && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+      publishSchedulerEvent({
+        type: 'failed',
+        schedulerId: job.data.schedulerId,
+        jobId: String(job.id),
+        error: err.message
+      });
+    }
   });
   
   // Handle job stalled
@@ -155,13 +476,14 @@ export function initializeSchedulerService() {
  * Adds a scheduler job to the queue
  * @param schedulerId - The ID of the scheduler to run
  * @param delay - Optional delay in milliseconds before running
+ * @param pollAllClubs - Import every club instead of only the clubs due by their activity
  * @returns The created job
  */
-export async function addSchedulerJob(schedulerId: string, delay = 0) {
+export async function addSchedulerJob(schedulerId: string, delay = 0, pollAllClubs = false) {
   try {
     const job = await schedulerQueue.add(
       'run-scheduler',
-      { schedulerId },
+      { schedulerId, pollAllClubs },
       { 
         delay,
         attempts: 3,
@@ -173,6 +495,14 @@ export async function addSchedulerJob(schedulerId: string, delay = 0) {
     );
     
     console.log(`Added scheduler job ${job.id} for scheduler ${schedulerId}`);
+    
+    await publishSchedulerEvent({
+      type: 'queued',
+      schedulerId,
+      jobId: String(job.id),
+      runAt: new Date(Date.now() + delay).toISOString()
+    });
+    
     return job;
   } catch (error) {
     console.error(`Error adding scheduler job for ${schedulerId}:`, error);
@@ -203,9 +533,20 @@ export async function scheduleNextRun(schedulerId: string, nextRun: Date) {
  */
 export async function checkAndScheduleSchedulers() {
   try {
+    // Pause all scheduler fetching while EA is down
+    if (await isEaCircuitOpen()) {
+      console.warn('⚠️  EA API circuit is open, skipping scheduler check');
+      return;
+    }
+    
     const schedulers = await getSchedulersToRun();
     
     for (const scheduler of schedulers) {
+      // Skip schedulers whose previous or manual run still holds the lease
+      if (await isSchedulerRunning(scheduler._id.toString())) {
+        continue;
+      }
+      
       // Add to queue if not already queued
       const waitingJobs = await schedulerQueue.getWaiting();
       const activeJobs = await schedulerQueue.getActive();
@@ -306,56 +647,6 @@ export async function clearSchedulerQueue() {
     }
   }
 
-/**
- * Helper function to calculate next run time based on schedule
- * @param scheduleConfig - Schedule configuration
- * @returns Next run date
- */
-function calculateNextRun(scheduleConfig: any): Date {
-  const now = new Date();
-  const nextRun = new Date(now);
-  
-  if (!scheduleConfig) {
-    // Default to next hour if no schedule config
-    nextRun.setHours(nextRun.getHours() + 1);
-    nextRun.setMinutes(0);
-    nextRun.setSeconds(0);
-    nextRun.setMilliseconds(0);
-    return nextRun;
-  }
-  
-  // Simple implementation - in production, you'd want more sophisticated scheduling
-  // This just sets the next run to the next occurrence of the configured time
-  const { startHour, endHour, daysOfWeek } = scheduleConfig;
-  
-  // Find the next valid day and time
-  let daysToAdd = 0;
-  let found = false;
-  
-  while (!found && daysToAdd < 7) {
-    const testDate = new Date(now);
-    testDate.setDate(testDate.getDate() + daysToAdd);
-    testDate.setHours(startHour, 0, 0, 0);
-    
-    if (daysOfWeek.includes(testDate.getDay()) && testDate > now) {
-      nextRun.setTime(testDate.getTime());
-      found = true;
-    } else {
-      daysToAdd++;
-    }
-  }
-  
-  // If no valid time found in the next week, set to next week's first valid day
-  if (!found) {
-    const nextWeek = new Date(now);
-    nextWeek.setDate(nextWeek.getDate() + 7);
-    nextWeek.setHours(startHour, 0, 0, 0);
-    nextRun.setTime(nextWeek.getTime());
-  }
-  
-  return nextRun;
-}
-
 /**
  * Gracefully shuts down the scheduler service
  * Called when the application is stopping
@@ -363,6 +654,9 @@ function calculateNextRun(scheduleConfig: any): Date {
 export async function shutdownServices(): Promise<void> {
     try {
       console.log('Shutting down scheduler service...');
+      for (const runId of [...runHeartbeats.keys()]) {
+        stopRunHeartbeat(runId);
+      }
       await schedulerQueue.close();
       console.log('✅ Scheduler queue closed');
     } catch (error) {
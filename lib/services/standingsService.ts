@@ -0,0 +1,201 @@
+/**
+ * Standings Service
+ *
+ * This service builds the standings table for a season. It collects every
+ * match played between two of the season's clubs inside the season's date
+ * window and aggregates them into per-club records (GP, W, L, OTL, points,
+ * goals, streak and last-10), ranked the way hockey tables are ranked.
+ */
+
+import { connectToDatabase } from '@/database/mongoose';
+import Match, { IClubStats } from '@/lib/models/match.model';
+import Club from '@/lib/models/club.model';
+import { ISeason } from '@/lib/models/season.model';
+import { getMatchOutcome, MatchOutcome } from '@/lib/utils/matchResults';
+
+// Points awarded for each outcome
+const POINTS_PER_WIN = 2;
+const POINTS_PER_OTL = 1;
+
+// Number of most recent games used for the last-10 column
+const LAST_GAMES_COUNT = 10;
+
+// Interface for a single row of the standings table
+export interface IStandingsRow {
+  rank: number;
+  clubId: string;
+  clubName: string;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  otLosses: number;
+  points: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifferential: number;
+  streak: string; // e.g. "W3", "L1", "OTL2"
+  lastTen: string; // W-L-OTL over the last 10 games, e.g. "6-3-1"
+}
+
+/**
+ * Computes the standings table for a season
+ * @param season - The season to compute standings for
+ * @returns Ranked standings rows, one per club in the season
+ */
+export async function computeSeasonStandings(
+  season: Pick<ISeason, 'clubs' | 'startDate' | 'endDate'>
+): Promise<IStandingsRow[]> {
+  const clubIds = season.clubs || [];
+  if (!clubIds.length) return [];
+
+  await connectToDatabase();
+
+  const [matches, clubs] = await Promise.all([
+    findSeasonMatches(season),
+    Club.find({ clubId: { $in: clubIds } }).select('clubId name').lean()
+  ]);
+
+  const clubNames = new Map<string, string>(
+    clubs.map((club: { clubId: string; name: string }) => [club.clubId, club.name])
+  );
+
+  // Outcomes per club in chronological order
+  const outcomes = new Map<string, MatchOutcome[]>();
+  const goals = new Map<string, { goalsFor: number; goalsAgainst: number }>();
+
+  for (const clubId of clubIds) {
+    outcomes.set(clubId, []);
+    goals.set(clubId, { goalsFor: 0, goalsAgainst: 0 });
+  }
+
+  for (const match of matches) {
+    const matchClubs = match.clubs as Record<string, IClubStats>;
+
+    for (const clubId of Object.keys(matchClubs)) {
+      const clubData = matchClubs[clubId];
+      const clubGoals = goals.get(clubId)!;
+      const outcome = getMatchOutcome(clubData.result);
+
+      // A result EA reports with an unknown code is left out rather than guessed
+      if (!outcome) {
+        console.warn(`⚠️  Skipping match ${match.matchId} for club ${clubId} in standings: unknown result code "${clubData.result}"`);
+        continue;
+      }
+
+      outcomes.get(clubId)!.push(outcome);
+      clubGoals.goalsFor += parseInt(clubData.goals ?? clubData.score ?? '0', 10) || 0;
+      clubGoals.goalsAgainst += parseInt(clubData.goalsAgainst ?? clubData.opponentScore ?? '0', 10) || 0;
+    }
+  }
+
+  const rows = clubIds.map(clubId => {
+    const clubOutcomes = outcomes.get(clubId)!;
+    const { goalsFor, goalsAgainst } = goals.get(clubId)!;
+    const wins = countOutcomes(clubOutcomes, 'W');
+    const losses = countOutcomes(clubOutcomes, 'L');
+    const otLosses = countOutcomes(clubOutcomes, 'OTL');
+    const lastGames = clubOutcomes.slice(-LAST_GAMES_COUNT);
+
+    return {
+      rank: 0,
+      clubId,
+      clubName: clubNames.get(clubId) || clubId,
+      gamesPlayed: clubOutcomes.length,
+      wins,
+      losses,
+      otLosses,
+      points: wins * POINTS_PER_WIN + otLosses * POINTS_PER_OTL,
+      goalsFor,
+      goalsAgainst,
+      goalDifferential: goalsFor - goalsAgainst,
+      streak: calculateStreak(clubOutcomes),
+      lastTen: [
+        countOutcomes(lastGames, 'W'),
+        countOutcomes(lastGames, 'L'),
+        countOutcomes(lastGames, 'OTL')
+      ].join('-')
+    };
+  });
+
+  // Rank by points, then wins, then goal differential, then goals for
+  rows.sort((a, b) =>
+    b.points - a.points ||
+    b.wins - a.wins ||
+    b.goalDifferential - a.goalDifferential ||
+    b.goalsFor - a.goalsFor
+  );
+
+  return rows.map((row, index) => ({ ...row, rank: index + 1 }));
+}
+
+/**
+ * Builds the query for matches played between two clubs of a season within its date window
+ * @param season - The season to build the query for
+ * @returns The match query, or null if the season has no clubs
+ */
+export function buildSeasonMatchQuery(
+  season: Pick<ISeason, 'clubs' | 'startDate' | 'endDate'>
+) {
+  const clubIds = season.clubs || [];
+  if (!clubIds.length) return null;
+
+  // Match timestamps are stored in seconds
+  const start = new Date(season.startDate).getTime() / 1000;
+  const end = (season.endDate ? new Date(season.endDate).getTime() : Date.now()) / 1000;
+  const participants = { $map: { input: { $objectToArray: '$clubs' }, in: '$$this.k' } };
+
+  return {
+    timestamp: { $gte: start, $lte: end },
+    $or: clubIds.map(clubId => ({ [`clubs.${clubId}`]: { $exists: true } })),
+    // Only games between two clubs of this season count
+    $expr: {
+      $and: [
+        { $eq: [{ $size: participants }, 2] },
+        { $setIsSubset: [participants, clubIds] }
+      ]
+    }
+  };
+}
+
+/**
+ * Finds every match played between two clubs of a season within its date window
+ * @param season - The season to find matches for
+ * @returns Matches in chronological order (oldest first)
+ */
+export async function findSeasonMatches(
+  season: Pick<ISeason, 'clubs' | 'startDate' | 'endDate'>
+) {
+  const query = buildSeasonMatchQuery(season);
+  if (!query) return [];
+
+  await connectToDatabase();
+
+  return Match.find(query)
+    .sort({ timestamp: 1 })
+    .lean();
+}
+
+/**
+ * Helper function to count a specific outcome
+ */
+function countOutcomes(outcomes: MatchOutcome[], outcome: MatchOutcome): number {
+  return outcomes.filter(o => o === outcome).length;
+}
+
+/**
+ * Helper function to describe the current streak
+ * @param outcomes - Outcomes in chronological order
+ * @returns Streak string such as "W3", or "-" if no games were played
+ */
+function calculateStreak(outcomes: MatchOutcome[]): string {
+  if (!outcomes.length) return '-';
+
+  const latest = outcomes[outcomes.length - 1];
+  let length = 0;
+
+  for (let i = outcomes.length - 1; i >= 0 && outcomes[i] === latest; i--) {
+    length++;
+  }
+
+  return `${latest}${length}`;
+}
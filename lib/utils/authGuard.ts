@@ -0,0 +1,212 @@
+/**
+ * Authorization Guard
+ *
+ * Admin API routes and server actions resolve the acting user through
+ * these helpers instead of trusting anything the client sends: the
+ * better-auth session decides who is signed in, and the user's role
+ * and scoped role assignments decide what they may do.
+ *
+ * Route handlers are wrapped with `withAdminAuth`, which answers
+ * unauthorized requests with a 401 or 403 JSON error. Server actions call
+ * `requireAdmin` or `requirePermission` themselves, since they can be
+ * invoked without a route; only actions know which league or club a
+ * request touches, so scoped permissions are checked there.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/actions/auth.actions';
+import { connectToDatabase } from '@/database/mongoose';
+import User, { IRoleAssignment } from '@/lib/models/user.model';
+import { Permission, ROLE_PERMISSIONS } from '@/lib/config/permissions';
+
+// Interface for the signed-in user a request acts as
+export interface IActingUser {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  roleAssignments: IRoleAssignment[]; // Scoped roles; empty for admins, who hold every permission
+}
+
+// Interface for the leagues and clubs an action touches
+export interface IPermissionTarget {
+  leagueIds?: string[];
+  clubIds?: string[];
+  clubLeagueIds?: Record<string, string[]>; // Leagues each club plays a season in, for league managers
+}
+
+// Error thrown when a request isn't signed in (401) or lacks a permission (403)
+export class AuthorizationError extends Error {
+  status: 401 | 403;
+
+  constructor(status: 401 | 403, message: string) {
+    super(message);
+    this.name = 'AuthorizationError';
+    this.status = status;
+  }
+}
+
+/**
+ * Resolves the signed-in user of the current request
+ * @param requestHeaders - Headers of the request (default: the current Next.js request)
+ * @returns The acting user
+ * @throws AuthorizationError (401) if nobody is signed in
+ */
+export async function requireUser(requestHeaders?: Headers): Promise<IActingUser> {
+  const result = await getSession(requestHeaders);
+  const user = result.success ? result.session?.user : null;
+
+  if (!user) {
+    throw new AuthorizationError(401, 'Unauthorized: Please sign in');
+  }
+
+  const role = (user as { role?: string }).role || 'user';
+
+  // Scoped roles aren't part of the session, so they are read from the user record
+  let roleAssignments: IRoleAssignment[] = [];
+  if (role !== 'admin') {
+    await connectToDatabase();
+    const dbUser = await User.findOne({ email: user.email.toLowerCase().trim() })
+      .select('roleAssignments')
+      .lean<{ roleAssignments?: IRoleAssignment[] }>();
+    roleAssignments = dbUser?.roleAssignments ?? [];
+  }
+
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role,
+    roleAssignments
+  };
+}
+
+/**
+ * Resolves the signed-in user of the current request and checks that they are an admin
+ * @param requestHeaders - Headers of the request (default: the current Next.js request)
+ * @returns The acting admin
+ * @throws AuthorizationError (401) if nobody is signed in, (403) if the user isn't an admin
+ */
+export async function requireAdmin(requestHeaders?: Headers): Promise<IActingUser> {
+  const user = await requireUser(requestHeaders);
+
+  if (user.role !== 'admin') {
+    throw new AuthorizationError(403, 'Forbidden: Admin access required');
+  }
+
+  return user;
+}
+
+/**
+ * Checks whether a user holds a permission
+ * Scopes add up across a user's assignments: every league of the target must
+ * be run by the user, and every club must be captained by them or play in a
+ * league they run. Without a target the check passes if the user holds the
+ * permission in any scope, leaving it to the caller to limit results.
+ * @param user - The acting user
+ * @param permission - The permission to check
+ * @param target - The leagues and clubs the action touches
+ * @returns True if the user may perform the action
+ */
+export function hasPermission(user: IActingUser, permission: Permission, target?: IPermissionTarget) {
+  if (user.role === 'admin') return true;
+
+  const assignments = user.roleAssignments.filter(assignment => ROLE_PERMISSIONS[assignment.role]?.includes(permission));
+  if (assignments.length === 0) return false;
+  if (!target) return true;
+
+  // Stats editors aren't limited to any leagues or clubs
+  if (assignments.some(assignment => assignment.role === 'stats-editor')) return true;
+
+  const leagueIds = assignments.flatMap(assignment => assignment.role === 'league-manager' ? assignment.leagueIds : []);
+  const clubIds = assignments.flatMap(assignment => assignment.role === 'club-captain' ? assignment.clubIds : []);
+  const targetLeagueIds = target.leagueIds ?? [];
+  const targetClubIds = target.clubIds ?? [];
+
+  return targetLeagueIds.length + targetClubIds.length > 0
+    && targetLeagueIds.every(leagueId => leagueIds.includes(leagueId))
+    && targetClubIds.every(clubId =>
+      clubIds.includes(clubId) || (target.clubLeagueIds?.[clubId] ?? []).some(leagueId => leagueIds.includes(leagueId))
+    );
+}
+
+/**
+ * Resolves the signed-in user of the current request and checks a permission
+ * @param permission - The permission the action needs
+ * @param target - The leagues and clubs the action touches (omit to check for the permission in any scope)
+ * @param requestHeaders - Headers of the request (default: the current Next.js request)
+ * @returns The acting user
+ * @throws AuthorizationError (401) if nobody is signed in, (403) if the user lacks the permission
+ */
+export async function requirePermission(
+  permission: Permission,
+  target?: IPermissionTarget,
+  requestHeaders?: Headers
+): Promise<IActingUser> {
+  const user = await requireUser(requestHeaders);
+
+  if (!hasPermission(user, permission, target)) {
+    throw new AuthorizationError(403, 'Forbidden: Missing permission');
+  }
+
+  return user;
+}
+
+/**
+ * Resolves the signed-in user of the current request and checks that they may use the admin panel
+ * Admins and users with at least one scoped role may; what they see there is limited by their permissions.
+ * @param requestHeaders - Headers of the request (default: the current Next.js request)
+ * @returns The acting user
+ * @throws AuthorizationError (401) if nobody is signed in, (403) if the user has no admin access
+ */
+export async function requireAdminPanelAccess(requestHeaders?: Headers): Promise<IActingUser> {
+  const user = await requireUser(requestHeaders);
+
+  if (user.role !== 'admin' && user.roleAssignments.length === 0) {
+    throw new AuthorizationError(403, 'Forbidden: Admin access required');
+  }
+
+  return user;
+}
+
+/**
+ * Builds the JSON response for a failed authorization
+ * @param error - The authorization error
+ * @returns A 401 or 403 response with an `error` message
+ */
+export function authorizationErrorResponse(error: AuthorizationError) {
+  return NextResponse.json(
+    { error: error.message },
+    { status: error.status }
+  );
+}
+
+/**
+ * Wraps an admin API route handler so it only runs for signed-in admins,
+ * or for users holding the given permission in some scope
+ * The acting user is passed to the handler as its third argument.
+ * @param handler - The route handler
+ * @param permission - Optional permission that also admits users with scoped roles
+ * @returns A route handler answering 401 or 403 JSON errors for anyone else
+ */
+export function withAdminAuth<C = unknown>(
+  handler: (request: NextRequest, context: C, user: IActingUser) => Promise<Response>,
+  permission?: Permission
+) {
+  return async (request: NextRequest, context: C) => {
+    let user: IActingUser;
+
+    try {
+      user = permission
+        ? await requirePermission(permission, undefined, request.headers)
+        : await requireAdmin(request.headers);
+    } catch (error) {
+      if (error instanceof AuthorizationError) {
+        return authorizationErrorResponse(error);
+      }
+      throw error;
+    }
+
+    return handler(request, context, user);
+  };
+}
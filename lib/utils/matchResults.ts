@@ -0,0 +1,34 @@
+/**
+ * Match Result Utility
+ *
+ * EA reports the outcome of a match from each club's perspective as a
+ * numeric `result` code (sent as a string). This utility maps those codes
+ * to wins, losses and overtime losses so every consumer classifies
+ * results the same way. Codes it doesn't know are left unclassified
+ * rather than guessed, so they never earn standings points.
+ */
+
+// Result codes EA uses for a win (regulation, overtime and opponent DNF)
+export const WIN_RESULT_CODES = [1, 5, 16385];
+
+// Result codes EA uses for a loss (regulation and own DNF)
+export const LOSS_RESULT_CODES = [2, 10];
+
+// Result codes EA uses for an overtime loss
+export const OTL_RESULT_CODES = [6];
+
+export type MatchOutcome = 'W' | 'L' | 'OTL';
+
+/**
+ * Classifies an EA result code
+ * @param result - The EA result code
+ * @returns The match outcome, or null if the code is missing or unknown
+ */
+export function getMatchOutcome(result: string | number | undefined): MatchOutcome | null {
+  const code = typeof result === 'number' ? result : parseInt(result ?? '', 10);
+
+  if (WIN_RESULT_CODES.includes(code)) return 'W';
+  if (LOSS_RESULT_CODES.includes(code)) return 'L';
+  if (OTL_RESULT_CODES.includes(code)) return 'OTL';
+  return null;
+}
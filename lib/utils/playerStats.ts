@@ -0,0 +1,128 @@
+/**
+ * Player Stats Utility
+ *
+ * EA reports every per-match player stat as a string. This utility sums
+ * a set of per-match stat lines into skater and goalie totals so career,
+ * season and game-log views all derive their numbers the same way.
+ */
+
+import { IPlayerStats } from '@/lib/models/player.model';
+
+// Interface for summed skater stats
+export interface ISkaterTotals {
+  gamesPlayed: number;
+  goals: number;
+  assists: number;
+  points: number;
+  plusMinus: number;
+  shots: number;
+  shotPercentage: number;
+  hits: number;
+  pim: number;
+  takeaways: number;
+  giveaways: number;
+  blockedShots: number;
+}
+
+// Interface for summed goalie stats
+export interface IGoalieTotals {
+  gamesPlayed: number;
+  saves: number;
+  shotsAgainst: number;
+  goalsAgainst: number;
+  savePercentage: number;
+  goalsAgainstAverage: number;
+  shutouts: number;
+}
+
+/**
+ * Converts an EA stat string into a number
+ * @param value - The raw stat value
+ * @returns The numeric value, or 0 if it cannot be parsed
+ */
+export function statToNumber(value: string | number | undefined): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(value ?? '');
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * Checks whether a stat line was played in goal
+ * @param stats - The per-match stat line
+ * @returns True if the player was the goalie in that match
+ */
+export function isGoalieLine(stats: Pick<IPlayerStats, 'position'>): boolean {
+  return stats.position?.toLowerCase() === 'goalie';
+}
+
+/**
+ * Sums per-match stat lines into skater and goalie totals
+ * Lines played in goal count toward the goalie totals only
+ * @param lines - The per-match stat lines
+ * @returns Object with skater and goalie totals
+ */
+export function summarizePlayerStats(lines: IPlayerStats[]): {
+  skater: ISkaterTotals;
+  goalie: IGoalieTotals;
+} {
+  const skater: ISkaterTotals = {
+    gamesPlayed: 0,
+    goals: 0,
+    assists: 0,
+    points: 0,
+    plusMinus: 0,
+    shots: 0,
+    shotPercentage: 0,
+    hits: 0,
+    pim: 0,
+    takeaways: 0,
+    giveaways: 0,
+    blockedShots: 0
+  };
+
+  const goalie: IGoalieTotals = {
+    gamesPlayed: 0,
+    saves: 0,
+    shotsAgainst: 0,
+    goalsAgainst: 0,
+    savePercentage: 0,
+    goalsAgainstAverage: 0,
+    shutouts: 0
+  };
+
+  for (const stats of lines) {
+    if (isGoalieLine(stats)) {
+      const goalsAgainst = statToNumber(stats.glga);
+      goalie.gamesPlayed++;
+      goalie.saves += statToNumber(stats.glsaves);
+      goalie.shotsAgainst += statToNumber(stats.glshots);
+      goalie.goalsAgainst += goalsAgainst;
+      if (goalsAgainst === 0) goalie.shutouts++;
+      continue;
+    }
+
+    skater.gamesPlayed++;
+    skater.goals += statToNumber(stats.skgoals);
+    skater.assists += statToNumber(stats.skassists);
+    skater.plusMinus += statToNumber(stats.skplusmin);
+    skater.shots += statToNumber(stats.skshots);
+    skater.hits += statToNumber(stats.skhits);
+    skater.pim += statToNumber(stats.skpim);
+    skater.takeaways += statToNumber(stats.sktakeaways);
+    skater.giveaways += statToNumber(stats.skgiveaways);
+    skater.blockedShots += statToNumber(stats.skbs);
+  }
+
+  skater.points = skater.goals + skater.assists;
+  skater.shotPercentage = skater.shots > 0
+    ? Math.round((skater.goals / skater.shots) * 1000) / 10
+    : 0;
+
+  goalie.savePercentage = goalie.shotsAgainst > 0
+    ? Math.round((goalie.saves / goalie.shotsAgainst) * 1000) / 1000
+    : 0;
+  goalie.goalsAgainstAverage = goalie.gamesPlayed > 0
+    ? Math.round((goalie.goalsAgainst / goalie.gamesPlayed) * 100) / 100
+    : 0;
+
+  return { skater, goalie };
+}
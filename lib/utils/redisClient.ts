@@ -0,0 +1,90 @@
+/**
+ * Redis Client Utility
+ * 
+ * This utility provides a single shared Redis connection per process for
+ * features that need Redis outside of Bull (caching, rate limiting).
+ * The connection is created lazily and reused across hot reloads.
+ *
+ * Callers fall back to working without Redis when it fails, so the client
+ * fails fast instead of waiting for Redis to come back: connecting times
+ * out, reconnecting gives up after a few attempts, and commands issued
+ * while disconnected are rejected instead of queued.
+ */
+
+import { createClient } from 'redis';
+import { redisConfig } from '@/lib/config/redis';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+// Longest a single connection attempt may take
+const CONNECT_TIMEOUT_MS = 2000;
+
+// Reconnection attempts before the client gives up and closes
+const MAX_RECONNECT_ATTEMPTS = 3;
+
+// After a failed connection, calls are rejected without retrying for this long
+const RECONNECT_COOLDOWN_MS = 30 * 1000;
+
+declare global {
+    var redisClientCache: {
+        client: RedisClient | null;
+        promise: Promise<RedisClient> | null;
+        failedAt: number | null;
+    }
+}
+
+let cached = global.redisClientCache;
+
+if (!cached) {
+    cached = global.redisClientCache = { client: null, promise: null, failedAt: null };
+}
+
+/**
+ * Gets the shared Redis client, connecting on first use
+ * @returns The connected Redis client
+ * @throws If Redis cannot be reached, or could not be reached moments ago
+ */
+export async function getRedisClient(): Promise<RedisClient> {
+  if (cached.client?.isReady) return cached.client;
+
+  // A client that gave up reconnecting is closed for good; the next call starts a new one
+  if (cached.client && !cached.client.isOpen) {
+    cached.client = null;
+    cached.promise = null;
+  }
+
+  if (!cached.promise) {
+    if (cached.failedAt && Date.now() - cached.failedAt < RECONNECT_COOLDOWN_MS) {
+      throw new Error('Redis is unavailable');
+    }
+
+    const client = createClient({
+      ...redisConfig,
+      socket: {
+        ...redisConfig.socket,
+        connectTimeout: CONNECT_TIMEOUT_MS,
+        reconnectStrategy: (retries: number, cause: Error) =>
+          retries >= MAX_RECONNECT_ATTEMPTS ? cause : Math.min(100 * 2 ** retries, 1000)
+      },
+      disableOfflineQueue: true
+    });
+
+    // Log connection errors instead of crashing the process; the client reconnects on its own
+    client.on('error', (error) => {
+      console.error('Redis client error:', error);
+    });
+
+    cached.promise = client.connect().then(() => client);
+  }
+
+  try {
+    cached.client = await cached.promise;
+    cached.failedAt = null;
+  } catch (error) {
+    cached.promise = null;
+    cached.failedAt = Date.now();
+    throw error;
+  }
+
+  return cached.client;
+}
@@ -0,0 +1,24 @@
+/**
+ * Revalidation Utility
+ *
+ * Server actions refresh cached pages with `revalidatePath`, which only
+ * works inside a Next.js request. The same actions also run in background
+ * jobs (the scheduler worker), where there is nothing to revalidate; pages
+ * there are refreshed on their next request instead.
+ */
+
+import { revalidatePath } from 'next/cache';
+
+/**
+ * Revalidates the given paths when called from a Next.js request
+ * @param paths - The paths to revalidate
+ */
+export function revalidatePaths(...paths: string[]) {
+  for (const path of paths) {
+    try {
+      revalidatePath(path);
+    } catch {
+      // Outside a Next.js request (e.g. the scheduler worker) there is no cache to revalidate
+    }
+  }
+}
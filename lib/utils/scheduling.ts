@@ -0,0 +1,457 @@
+/**
+ * Scheduling Utility
+ *
+ * This utility calculates when a scheduler should run. A scheduler is active
+ * inside a daily window (e.g. 8:30 PM - 11:00 PM) on selected days of the week,
+ * in its own IANA time zone, and runs every `frequencyMinutes` within that window.
+ *
+ * - Wall-clock times are resolved in the scheduler's time zone, so windows
+ *   follow daylight saving time changes.
+ * - A window whose end is at or before its start crosses midnight and ends on
+ *   the following day. `daysOfWeek` refers to the day the window starts.
+ * - Runs happen at the window start and every `frequencyMinutes` after it,
+ *   up to and including the window end.
+ *
+ * Two other modes are supported: `cron` runs at the times matched by a
+ * five-field cron expression (in the scheduler's time zone), and `once` runs
+ * every `frequencyMinutes` inside a single one-off date range.
+ */
+
+import { IScheduleConfig } from '@/lib/models/scheduler.model';
+
+const MINUTE_MS = 60 * 1000;
+
+// Abbreviations used by schedulers created before IANA time zones were supported
+const LEGACY_TIME_ZONES: Record<string, string> = {
+  EST: 'America/New_York',
+  EDT: 'America/New_York',
+  CST: 'America/Chicago',
+  CDT: 'America/Chicago',
+  MST: 'America/Denver',
+  MDT: 'America/Denver',
+  PST: 'America/Los_Angeles',
+  PDT: 'America/Los_Angeles',
+  GMT: 'UTC'
+};
+
+// Allowed values for each cron field, in expression order
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }
+];
+
+// Cron runs are searched for at most this many days ahead
+const CRON_SEARCH_DAYS = 366;
+
+// The parts of the schedule configuration the calculation needs
+export type ScheduleWindowConfig = Pick<IScheduleConfig, 'startHour' | 'endHour' | 'daysOfWeek' | 'timezone'> &
+  Partial<Pick<IScheduleConfig, 'startMinute' | 'endMinute' | 'mode' | 'cronExpression' | 'startDate' | 'endDate'>>;
+
+// Interface for a parsed cron expression
+export interface ICronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  daysOfWeek: number[];
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+// Interface for one occurrence of a scheduler's active window
+export interface IScheduleWindow {
+  start: Date;
+  end: Date;
+}
+
+// Interface for a calendar date in a time zone
+interface ILocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+/**
+ * Resolves a scheduler's time zone to a valid IANA time zone
+ * Legacy abbreviations (EST, PST, ...) map to the matching region so DST is honored.
+ * @param timezone - The configured time zone
+ * @returns An IANA time zone name, or "UTC" if the value is not recognized
+ */
+export function resolveTimeZone(timezone?: string): string {
+  const candidate = timezone ? LEGACY_TIME_ZONES[timezone.toUpperCase()] || timezone : 'UTC';
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: candidate });
+    return candidate;
+  } catch {
+    console.warn(`⚠️  Unknown time zone "${timezone}", using UTC`);
+    return 'UTC';
+  }
+}
+
+/**
+ * Helper function to read the wall-clock date and time of an instant in a time zone
+ */
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(date);
+
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find(part => part.type === type)?.value || '0');
+
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second')
+  };
+}
+
+/**
+ * Helper function to get a time zone's offset from UTC at an instant
+ * @returns Offset in milliseconds (e.g. -4 hours for New York in summer)
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Converts a wall-clock time in a time zone to an instant
+ * Times skipped by a DST change resolve to the same wall-clock time after the change.
+ * @param date - The calendar date in the time zone
+ * @param hour - The hour (0-23)
+ * @param minute - The minute (0-59)
+ * @param timeZone - An IANA time zone
+ * @returns The matching instant
+ */
+export function zonedTimeToUtc(date: ILocalDate, hour: number, minute: number, timeZone: string): Date {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+
+  // The offset at the guess can differ from the offset at the result around DST changes
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  const offset = getTimeZoneOffset(new Date(firstGuess), timeZone);
+  const secondGuess = wallClock - offset;
+
+  if (getTimeZoneOffset(new Date(secondGuess), timeZone) === offset) {
+    return new Date(secondGuess);
+  }
+
+  // The wall-clock time does not exist (skipped by the DST change); use the later instant
+  return new Date(Math.max(firstGuess, secondGuess));
+}
+
+/**
+ * Formats an instant as a "YYYY-MM-DDTHH:mm" wall-clock value in a time zone
+ * @param date - The instant to format
+ * @param timezone - The scheduler's time zone
+ * @returns A value suitable for a datetime-local input
+ */
+export function toZonedDateTimeString(date: Date | string, timezone: string): string {
+  const parts = getZonedParts(new Date(date), resolveTimeZone(timezone));
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}`;
+}
+
+/**
+ * Reads a "YYYY-MM-DDTHH:mm" wall-clock value in a time zone
+ * @param value - The value of a datetime-local input
+ * @param timezone - The scheduler's time zone
+ * @returns The matching instant, or null if the value is incomplete
+ */
+export function fromZonedDateTimeString(value: string, timezone: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  return zonedTimeToUtc({ year, month, day }, hour, minute, resolveTimeZone(timezone));
+}
+
+/**
+ * Helper function to move a calendar date by a number of days
+ * @returns The new date and its day of the week (0 is Sunday)
+ */
+function addDays(date: ILocalDate, days: number): ILocalDate & { dayOfWeek: number } {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    dayOfWeek: shifted.getUTCDay()
+  };
+}
+
+/**
+ * Gets the windows that start on the days around an instant, in chronological order
+ * @param config - The schedule configuration
+ * In once mode this is the one-off date range.
+ * @param from - The instant to look around
+ * @param days - How many days after `from` to include
+ * @returns Windows starting from the day before `from` (which may still be open)
+ */
+export function getScheduleWindows(config: ScheduleWindowConfig, from: Date, days = 8): IScheduleWindow[] {
+  if (config.mode === 'once') {
+    return config.startDate && config.endDate
+      ? [{ start: new Date(config.startDate), end: new Date(config.endDate) }]
+      : [];
+  }
+
+  const timeZone = resolveTimeZone(config.timezone);
+  const today = getZonedParts(from, timeZone);
+  const startMinutes = config.startHour * 60 + (config.startMinute ?? 0);
+  const endMinutes = config.endHour * 60 + (config.endMinute ?? 0);
+  const crossesMidnight = endMinutes <= startMinutes;
+  const windows: IScheduleWindow[] = [];
+
+  for (let offset = -1; offset <= days; offset++) {
+    const day = addDays(today, offset);
+    if (!config.daysOfWeek.includes(day.dayOfWeek)) continue;
+
+    const endDay = crossesMidnight ? addDays(day, 1) : day;
+
+    windows.push({
+      start: zonedTimeToUtc(day, config.startHour, config.startMinute ?? 0, timeZone),
+      end: zonedTimeToUtc(endDay, config.endHour, config.endMinute ?? 0, timeZone)
+    });
+  }
+
+  return windows;
+}
+
+/**
+ * Gets the window a scheduler is active in at an instant
+ * @param config - The schedule configuration
+ * @param at - The instant to check (default: now)
+ * @returns The open window, or null if the scheduler is outside its window
+ */
+export function getActiveWindow(config: ScheduleWindowConfig, at = new Date()): IScheduleWindow | null {
+  // Cron runs are points in time rather than windows
+  if (config.mode === 'cron') return null;
+
+  return getScheduleWindows(config, at, 0).find(window => window.start <= at && at <= window.end) || null;
+}
+
+/**
+ * Calculates the next time a scheduler should run
+ * @param config - The schedule configuration
+ * @param frequencyMinutes - Minutes between runs inside the window
+ * @param from - The instant to calculate from (default: now); the result is always after it
+ * @returns The next run, or null if the schedule will not run again
+ */
+export function calculateNextRun(
+  config: ScheduleWindowConfig,
+  frequencyMinutes: number,
+  from = new Date()
+): Date | null {
+  if (config.mode === 'cron') {
+    if (!config.cronExpression) return null;
+    return getNextCronRun(parseCronExpression(config.cronExpression), resolveTimeZone(config.timezone), from);
+  }
+
+  const frequencyMs = Math.max(1, frequencyMinutes) * MINUTE_MS;
+
+  for (const window of getScheduleWindows(config, from)) {
+    if (window.end <= from) continue;
+
+    if (from < window.start) return window.start;
+
+    // Next step on the window's grid after `from`
+    const steps = Math.floor((from.getTime() - window.start.getTime()) / frequencyMs) + 1;
+    const nextRun = new Date(window.start.getTime() + steps * frequencyMs);
+
+    if (nextRun <= window.end) return nextRun;
+  }
+
+  return null;
+}
+
+/**
+ * Lists the next runs of a scheduler
+ * @param config - The schedule configuration
+ * @param frequencyMinutes - Minutes between runs inside the window
+ * @param count - Number of runs to list
+ * @param from - The instant to start from (default: now)
+ * @returns Up to `count` upcoming runs in chronological order
+ */
+export function getUpcomingRuns(
+  config: ScheduleWindowConfig,
+  frequencyMinutes: number,
+  count: number,
+  from = new Date()
+): Date[] {
+  const runs: Date[] = [];
+  let cursor = from;
+
+  while (runs.length < count) {
+    const nextRun = calculateNextRun(config, frequencyMinutes, cursor);
+    if (!nextRun) break;
+
+    runs.push(nextRun);
+    cursor = nextRun;
+  }
+
+  return runs;
+}
+
+/**
+ * Helper function to parse one cron field into its matching values
+ */
+function parseCronField(field: string, spec: (typeof CRON_FIELDS)[number]): number[] {
+  const values = new Set<number>();
+
+  const toNumber = (token: string) => {
+    const nameIndex = spec.names?.indexOf(token.toUpperCase()) ?? -1;
+    const value = nameIndex >= 0 ? nameIndex + (spec.name === 'month' ? 1 : 0) : Number(token);
+
+    if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+      throw new Error(`Invalid ${spec.name} value "${token}"`);
+    }
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepToken] = part.split('/');
+    const step = stepToken === undefined ? 1 : Number(stepToken);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${spec.name} step "${stepToken}"`);
+    }
+
+    let start = spec.min;
+    let end = spec.max;
+
+    if (range !== '*') {
+      const [first, last] = range.split('-');
+      start = toNumber(first);
+      end = last === undefined ? (stepToken === undefined ? start : spec.max) : toNumber(last);
+
+      if (end < start) {
+        throw new Error(`Invalid ${spec.name} range "${range}"`);
+      }
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+/**
+ * Parses a five-field cron expression (minute hour day-of-month month day-of-week)
+ * Supports `*`, lists, ranges, steps and month/day names (e.g. "30 20 * * TUE,WED").
+ * @param expression - The cron expression
+ * @returns The parsed schedule
+ * @throws Error describing the first invalid field
+ */
+export function parseCronExpression(expression: string): ICronSchedule {
+  const fields = expression.trim().split(/\s+/);
+
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new Error(`Cron expression must have ${CRON_FIELDS.length} fields, found ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseCronField(field, CRON_FIELDS[index])
+  );
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    // 7 is an alias for Sunday
+    daysOfWeek: [...new Set(daysOfWeek.map(day => day % 7))],
+    restrictsDayOfMonth: fields[2] !== '*',
+    restrictsDayOfWeek: fields[4] !== '*'
+  };
+}
+
+/**
+ * Helper function to check whether a cron schedule runs on a calendar date
+ * As in standard cron, when both day fields are restricted either one may match.
+ */
+function cronMatchesDay(cron: ICronSchedule, day: ILocalDate & { dayOfWeek: number }): boolean {
+  if (!cron.months.includes(day.month)) return false;
+
+  const dayOfMonthMatches = cron.daysOfMonth.includes(day.day);
+  const dayOfWeekMatches = cron.daysOfWeek.includes(day.dayOfWeek);
+
+  if (cron.restrictsDayOfMonth && cron.restrictsDayOfWeek) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+
+  return dayOfMonthMatches && dayOfWeekMatches;
+}
+
+/**
+ * Gets the next time a cron schedule matches
+ * @param cron - The parsed cron schedule
+ * @param timeZone - An IANA time zone the expression is read in
+ * @param from - The instant to calculate from; the result is always after it
+ * @returns The next matching instant, or null if none within a year
+ */
+export function getNextCronRun(cron: ICronSchedule, timeZone: string, from: Date): Date | null {
+  const today = getZonedParts(from, timeZone);
+
+  for (let offset = 0; offset <= CRON_SEARCH_DAYS; offset++) {
+    const day = addDays(today, offset);
+    if (!cronMatchesDay(cron, day)) continue;
+
+    for (const hour of cron.hours) {
+      // Earlier hours of today have already passed
+      if (offset === 0 && hour < today.hour) continue;
+
+      for (const minute of cron.minutes) {
+        const run = zonedTimeToUtc(day, hour, minute, timeZone);
+        if (run > from) return run;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks a schedule configuration for mistakes that would stop it from running
+ * @param config - The schedule configuration
+ * @returns A description of the problem, or null if the configuration is valid
+ */
+export function validateScheduleConfig(config: ScheduleWindowConfig): string | null {
+  switch (config.mode ?? 'window') {
+    case 'cron':
+      if (!config.cronExpression?.trim()) return 'A cron expression is required';
+      try {
+        parseCronExpression(config.cronExpression);
+      } catch (error) {
+        return error instanceof Error ? error.message : 'Invalid cron expression';
+      }
+      return null;
+
+    case 'once':
+      if (!config.startDate || !config.endDate) return 'A start and end date are required';
+      if (new Date(config.endDate) <= new Date(config.startDate)) return 'The end date must be after the start date';
+      return null;
+
+    default:
+      if (!config.daysOfWeek?.length) return 'Select at least one day of the week';
+      return null;
+  }
+}
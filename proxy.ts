@@ -1,10 +1,28 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { getSession } from "./lib/actions/auth.actions";
+import { AuthorizationError, authorizationErrorResponse, requireAdminPanelAccess } from "./lib/utils/authGuard";
+
+// Admin sections open to users with scoped roles (league managers, club captains, stats editors)
+const SCOPED_ADMIN_SECTIONS = ["/admin/leagues", "/admin/schedulers"];
 
 export async function proxy(request: NextRequest) {
   const pathname = request.nextUrl.pathname;
   
+  // Admin API routes answer with 401/403 JSON instead of redirecting to sign-in
+  // (each route checks its own permission through withAdminAuth)
+  if (pathname.startsWith("/api/admin")) {
+    try {
+      await requireAdminPanelAccess(request.headers);
+    } catch (error) {
+      if (error instanceof AuthorizationError) {
+        return authorizationErrorResponse(error);
+      }
+      throw error;
+    }
+    return NextResponse.next();
+  }
+  
   // Allow /admin (exact path) to be public - it's the landing page
   // Return early for /admin to skip protection
   if (pathname === "/admin") {
@@ -14,12 +32,28 @@ export async function proxy(request: NextRequest) {
   // Protect all /admin/* sub-routes (except /admin itself)
   // Also protect /welcome-admin route
   if ((pathname.startsWith("/admin") && pathname !== "/admin") || pathname === "/welcome-admin") {
-    const result = await getSession(request.headers);
+    const isScopedSection = SCOPED_ADMIN_SECTIONS.some(
+      (section) => pathname === section || pathname.startsWith(`${section}/`)
+    );
+    let allowed = false;
+
+    if (isScopedSection) {
+      // Users with a scoped role may open these sections; their actions limit what they see
+      try {
+        await requireAdminPanelAccess(request.headers);
+        allowed = true;
+      } catch (error) {
+        if (!(error instanceof AuthorizationError)) throw error;
+      }
+    } else {
+      const result = await getSession(request.headers);
+      const session = result.success ? result.session : null;
+      const userRole = (session?.user as { role?: string })?.role;
+      allowed = !!session && userRole === "admin";
+    }
 
-    // If no session or user is not admin, redirect to sign-in
-    const session = result.success ? result.session : null;
-    const userRole = (session?.user as { role?: string })?.role;
-    if (!session || userRole !== "admin") {
+    // If no session or the user may not open the page, redirect to sign-in
+    if (!allowed) {
       const signInUrl = new URL("/sign-in", request.url);
       signInUrl.searchParams.set("redirect", request.nextUrl.pathname);
       return NextResponse.redirect(signInUrl);
@@ -30,5 +64,5 @@ export async function proxy(request: NextRequest) {
 }
 
 export const config = {
-  matcher: ["/admin/:path*", "/admin", "/welcome-admin"],
+  matcher: ["/admin/:path*", "/admin", "/welcome-admin", "/api/admin/:path*"],
 };
\ No newline at end of file
@@ -0,0 +1,128 @@
+/**
+ * Admin API Route Authorization Tests
+ *
+ * Every admin API route, and every route changing the EA API stand-in's
+ * settings, is wrapped with `withAdminAuth`. These tests call the handlers
+ * without a session and with a signed-in user who has no admin access, and
+ * check that they answer with a 401 or 403 JSON error before the handler
+ * reaches the database.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getSession } from '@/lib/actions/auth.actions';
+import { connectToDatabase } from '@/database/mongoose';
+import User from '@/lib/models/user.model';
+
+vi.mock('@/lib/actions/auth.actions', () => ({ getSession: vi.fn() }));
+vi.mock('@/database/mongoose', () => ({ connectToDatabase: vi.fn() }));
+// Creates a Bull queue on load
+vi.mock('@/lib/services/schedulerService', () => ({}));
+
+type RouteHandler = (request: NextRequest, context: unknown) => Promise<Response>;
+
+// Every admin route handler (and the EA API stand-in's settings), and whether it admits scoped roles through a permission
+const routes: { path: string; method: string; load: () => Promise<Record<string, unknown>>; permission?: boolean }[] = [
+  { path: '/api/admin/alerts', method: 'GET', load: () => import('@/app/api/admin/alerts/route') },
+  { path: '/api/admin/alerts', method: 'POST', load: () => import('@/app/api/admin/alerts/route') },
+  { path: '/api/admin/alerts/id', method: 'PUT', load: () => import('@/app/api/admin/alerts/[id]/route') },
+  { path: '/api/admin/alerts/id', method: 'DELETE', load: () => import('@/app/api/admin/alerts/[id]/route') },
+  { path: '/api/admin/alerts/id/test', method: 'POST', load: () => import('@/app/api/admin/alerts/[id]/test/route') },
+  { path: '/api/admin/alerts/deliveries', method: 'GET', load: () => import('@/app/api/admin/alerts/deliveries/route') },
+  { path: '/api/admin/audit', method: 'GET', load: () => import('@/app/api/admin/audit/route') },
+  { path: '/api/admin/audit/export', method: 'GET', load: () => import('@/app/api/admin/audit/export/route') },
+  { path: '/api/admin/clubs', method: 'GET', load: () => import('@/app/api/admin/clubs/route') },
+  { path: '/api/admin/clubs/search', method: 'GET', load: () => import('@/app/api/admin/clubs/search/route') },
+  { path: '/api/admin/clubs/import', method: 'POST', load: () => import('@/app/api/admin/clubs/import/route') },
+  { path: '/api/admin/clubs/id', method: 'GET', load: () => import('@/app/api/admin/clubs/[clubId]/route') },
+  { path: '/api/admin/clubs/id', method: 'DELETE', load: () => import('@/app/api/admin/clubs/[clubId]/route') },
+  { path: '/api/admin/matches', method: 'GET', load: () => import('@/app/api/admin/matches/route') },
+  { path: '/api/admin/leagues', method: 'GET', load: () => import('@/app/api/admin/leagues/route'), permission: true },
+  { path: '/api/admin/leagues', method: 'POST', load: () => import('@/app/api/admin/leagues/route') },
+  { path: '/api/admin/leagues/id', method: 'GET', load: () => import('@/app/api/admin/leagues/[id]/route'), permission: true },
+  { path: '/api/admin/leagues/id', method: 'PUT', load: () => import('@/app/api/admin/leagues/[id]/route'), permission: true },
+  { path: '/api/admin/leagues/id', method: 'DELETE', load: () => import('@/app/api/admin/leagues/[id]/route') },
+  { path: '/api/admin/leagues/id/seasons', method: 'GET', load: () => import('@/app/api/admin/leagues/[id]/seasons/route'), permission: true },
+  { path: '/api/admin/leagues/id/seasons', method: 'POST', load: () => import('@/app/api/admin/leagues/[id]/seasons/route'), permission: true },
+  { path: '/api/admin/leagues/id/seasons/id', method: 'GET', load: () => import('@/app/api/admin/leagues/[id]/seasons/[seasonId]/route'), permission: true },
+  { path: '/api/admin/leagues/id/seasons/id', method: 'PUT', load: () => import('@/app/api/admin/leagues/[id]/seasons/[seasonId]/route'), permission: true },
+  { path: '/api/admin/leagues/id/seasons/id', method: 'DELETE', load: () => import('@/app/api/admin/leagues/[id]/seasons/[seasonId]/route'), permission: true },
+  { path: '/api/admin/leagues/id/seasons/id/clubs', method: 'GET', load: () => import('@/app/api/admin/leagues/[id]/seasons/[seasonId]/clubs/route'), permission: true },
+  { path: '/api/admin/leagues/id/seasons/id/clubs', method: 'POST', load: () => import('@/app/api/admin/leagues/[id]/seasons/[seasonId]/clubs/route'), permission: true },
+  { path: '/api/admin/leagues/id/seasons/id/clubs/id', method: 'DELETE', load: () => import('@/app/api/admin/leagues/[id]/seasons/[seasonId]/clubs/[clubId]/route'), permission: true },
+  { path: '/api/admin/schedulers', method: 'GET', load: () => import('@/app/api/admin/schedulers/route'), permission: true },
+  { path: '/api/admin/schedulers', method: 'POST', load: () => import('@/app/api/admin/schedulers/route'), permission: true },
+  { path: '/api/admin/schedulers/id', method: 'GET', load: () => import('@/app/api/admin/schedulers/[id]/route'), permission: true },
+  { path: '/api/admin/schedulers/id', method: 'PUT', load: () => import('@/app/api/admin/schedulers/[id]/route'), permission: true },
+  { path: '/api/admin/schedulers/id', method: 'DELETE', load: () => import('@/app/api/admin/schedulers/[id]/route'), permission: true },
+  { path: '/api/admin/schedulers/id/clubs', method: 'GET', load: () => import('@/app/api/admin/schedulers/[id]/clubs/route'), permission: true },
+  { path: '/api/admin/schedulers/id/events', method: 'GET', load: () => import('@/app/api/admin/schedulers/[id]/events/route'), permission: true },
+  { path: '/api/admin/schedulers/id/history', method: 'GET', load: () => import('@/app/api/admin/schedulers/[id]/history/route'), permission: true },
+  { path: '/api/admin/schedulers/id/polling', method: 'GET', load: () => import('@/app/api/admin/schedulers/[id]/polling/route'), permission: true },
+  { path: '/api/admin/schedulers/id/run', method: 'POST', load: () => import('@/app/api/admin/schedulers/[id]/run/route'), permission: true },
+  { path: '/api/admin/schedulers/id/start', method: 'POST', load: () => import('@/app/api/admin/schedulers/[id]/start/route'), permission: true },
+  { path: '/api/admin/schedulers/id/stop', method: 'POST', load: () => import('@/app/api/admin/schedulers/[id]/stop/route'), permission: true },
+  { path: '/api/mock/ea/config', method: 'POST', load: () => import('@/app/api/mock/ea/config/route') },
+  { path: '/api/mock/ea/config', method: 'DELETE', load: () => import('@/app/api/mock/ea/config/route') }
+];
+
+// Route parameters for every dynamic segment
+const context = { params: Promise.resolve({ id: 'id', seasonId: 'id', clubId: 'id' }) };
+
+/**
+ * Helper function to call a route handler the way Next.js would
+ */
+async function callRoute(route: (typeof routes)[number]) {
+  const handler = (await route.load())[route.method] as RouteHandler;
+  const request = new NextRequest(`http://localhost${route.path}`, {
+    method: route.method,
+    ...(['POST', 'PUT'].includes(route.method) ? { body: '{}' } : {})
+  });
+
+  return handler(request, context);
+}
+
+/**
+ * Helper function to sign in a user without the admin role or any scoped role
+ */
+function signInRegularUser() {
+  vi.mocked(getSession).mockResolvedValue({
+    success: true,
+    session: { user: { id: 'user-1', email: 'user@example.com', name: 'User', role: 'user' } }
+  } as unknown as Awaited<ReturnType<typeof getSession>>);
+
+  vi.spyOn(User, 'findOne').mockReturnValue({
+    select: () => ({ lean: async () => ({ roleAssignments: [] }) })
+  } as unknown as ReturnType<typeof User.findOne>);
+}
+
+describe('admin API routes', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(getSession).mockReset();
+    vi.mocked(connectToDatabase).mockClear();
+  });
+
+  it.each(routes)('$method $path answers 401 without a session', async (route) => {
+    vi.mocked(getSession).mockResolvedValue({ success: true, session: null } as Awaited<ReturnType<typeof getSession>>);
+
+    const response = await callRoute(route);
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Unauthorized: Please sign in' });
+    expect(connectToDatabase).not.toHaveBeenCalled();
+  });
+
+  it.each(routes)('$method $path answers 403 to a user without admin access', async (route) => {
+    signInRegularUser();
+
+    const response = await callRoute(route);
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({
+      error: route.permission ? 'Forbidden: Missing permission' : 'Forbidden: Admin access required'
+    });
+    // Only the user's role assignments were read
+    expect(connectToDatabase).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Scoped Permission Tests
+ *
+ * League managers and club captains may only act on what their role
+ * assignments cover. These tests check `hasPermission` against scheduler
+ * targets that reach beyond a user's scope, such as a manager adding a club
+ * from another league or a captain adding clubs and leagues next to their own.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { hasPermission, IActingUser, IPermissionTarget } from '@/lib/utils/authGuard';
+import { IRoleAssignment } from '@/lib/models/user.model';
+
+vi.mock('@/lib/actions/auth.actions', () => ({ getSession: vi.fn() }));
+vi.mock('@/database/mongoose', () => ({ connectToDatabase: vi.fn() }));
+
+/**
+ * Helper function to build a signed-in user with the given role assignments
+ */
+function createUser(...roleAssignments: IRoleAssignment[]): IActingUser {
+  return { id: 'user-1', email: 'user@example.com', name: 'User', role: 'user', roleAssignments };
+}
+
+const manager = createUser({ role: 'league-manager', leagueIds: ['league-a'], clubIds: [] });
+const captain = createUser({ role: 'club-captain', leagueIds: [], clubIds: ['club-1'] });
+
+// Club 1 and club 2 play in league A, club 3 only in league B
+const clubLeagueIds = { 'club-1': ['league-a'], 'club-2': ['league-a'], 'club-3': ['league-b'] };
+
+/**
+ * Helper function to build the target of a scheduler
+ */
+function schedulerTarget(leagueIds: string[], clubIds: string[]): IPermissionTarget {
+  return { leagueIds, clubIds, clubLeagueIds };
+}
+
+describe('hasPermission', () => {
+  it('lets admins do anything', () => {
+    const admin: IActingUser = { ...createUser(), role: 'admin' };
+
+    expect(hasPermission(admin, 'leagues:delete')).toBe(true);
+    expect(hasPermission(admin, 'schedulers:manage', schedulerTarget(['league-b'], ['club-3']))).toBe(true);
+  });
+
+  it('refuses permissions the role does not grant', () => {
+    expect(hasPermission(captain, 'schedulers:manage', schedulerTarget([], ['club-1']))).toBe(false);
+    expect(hasPermission(createUser(), 'schedulers:view')).toBe(false);
+  });
+
+  describe('league managers', () => {
+    it('may manage schedulers for their league and its clubs', () => {
+      expect(hasPermission(manager, 'schedulers:manage', schedulerTarget(['league-a'], ['club-1', 'club-2']))).toBe(true);
+      expect(hasPermission(manager, 'schedulers:manage', schedulerTarget([], ['club-2']))).toBe(true);
+    });
+
+    it('may not add a club from another league to a scheduler in their league', () => {
+      expect(hasPermission(manager, 'schedulers:manage', schedulerTarget(['league-a'], ['club-1', 'club-3']))).toBe(false);
+    });
+
+    it('may not add a club that plays in no league', () => {
+      expect(hasPermission(manager, 'schedulers:manage', schedulerTarget(['league-a'], ['club-9']))).toBe(false);
+    });
+
+    it('may not target another league', () => {
+      expect(hasPermission(manager, 'schedulers:manage', schedulerTarget(['league-a', 'league-b'], []))).toBe(false);
+      expect(hasPermission(manager, 'leagues:update', { leagueIds: ['league-b'] })).toBe(false);
+    });
+
+    it('may not act on an empty target', () => {
+      expect(hasPermission(manager, 'schedulers:manage', schedulerTarget([], []))).toBe(false);
+    });
+  });
+
+  describe('club captains', () => {
+    it('may run schedulers collecting only for their clubs', () => {
+      expect(hasPermission(captain, 'schedulers:run', schedulerTarget([], ['club-1']))).toBe(true);
+    });
+
+    it('may not reach other clubs through a scheduler listing their club', () => {
+      expect(hasPermission(captain, 'schedulers:run', schedulerTarget([], ['club-1', 'club-2']))).toBe(false);
+    });
+
+    it('may not reach leagues or seasons through a scheduler listing their club', () => {
+      expect(hasPermission(captain, 'schedulers:run', schedulerTarget(['league-a'], ['club-1']))).toBe(false);
+    });
+  });
+
+  it('adds up the scopes of a user with several assignments', () => {
+    const user = createUser(
+      { role: 'league-manager', leagueIds: ['league-a'], clubIds: [] },
+      { role: 'club-captain', leagueIds: [], clubIds: ['club-3'] }
+    );
+
+    expect(hasPermission(user, 'schedulers:run', schedulerTarget(['league-a'], ['club-2', 'club-3']))).toBe(true);
+    // The captaincy doesn't grant schedulers:manage, so it adds nothing there
+    expect(hasPermission(user, 'schedulers:manage', schedulerTarget(['league-a'], ['club-2', 'club-3']))).toBe(false);
+  });
+
+  it('does not limit stats editors', () => {
+    const editor = createUser({ role: 'stats-editor', leagueIds: [], clubIds: [] });
+
+    expect(hasPermission(editor, 'schedulers:run', schedulerTarget(['league-b'], ['club-3']))).toBe(true);
+    expect(hasPermission(editor, 'schedulers:manage', schedulerTarget(['league-b'], ['club-3']))).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Server Action Authorization Tests
+ *
+ * Server actions can be called by any client, signed in or not. These
+ * tests call the guarded match, player claim and scheduler actions without
+ * a session and check that they fail before reaching the database, and that
+ * the functions only the scheduler worker may call are not exported as
+ * server actions.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSession } from '@/lib/actions/auth.actions';
+import { connectToDatabase } from '@/database/mongoose';
+import { AuthorizationError } from '@/lib/utils/authGuard';
+import * as matchActions from '@/lib/actions/match.actions';
+import * as playerActions from '@/lib/actions/player.actions';
+import * as playerClaimActions from '@/lib/actions/playerClaim.actions';
+import * as schedulerActions from '@/lib/actions/scheduler.actions';
+
+vi.mock('@/lib/actions/auth.actions', () => ({ getSession: vi.fn() }));
+vi.mock('@/database/mongoose', () => ({ connectToDatabase: vi.fn() }));
+// Creates a Bull queue on load
+vi.mock('@/lib/services/schedulerService', () => ({}));
+
+const emptyPage = (key: string) => ({
+  [key]: [],
+  pagination: { page: 1, limit: 10, total: 0, pages: 0 }
+});
+
+// Guarded actions, called without a session, and what they return when refused
+const guardedActions: { name: string; call: () => Promise<unknown>; refused: unknown }[] = [
+  { name: 'getQuarantinedMatches', call: () => matchActions.getQuarantinedMatches(), refused: emptyPage('quarantined') },
+  {
+    name: 'requestPlayerClaim',
+    call: () => playerClaimActions.requestPlayerClaim('player'),
+    refused: { success: false, error: 'Failed to request claim: Unauthorized: Please sign in' }
+  },
+  {
+    name: 'getPlayerClaims',
+    call: () => playerClaimActions.getPlayerClaims(),
+    refused: { success: false, error: 'Failed to fetch claims: Unauthorized: Please sign in' }
+  },
+  {
+    name: 'approvePlayerClaim',
+    call: () => playerClaimActions.approvePlayerClaim('claim'),
+    refused: { success: false, error: 'Failed to approve claim: Unauthorized: Please sign in' }
+  },
+  {
+    name: 'rejectPlayerClaim',
+    call: () => playerClaimActions.rejectPlayerClaim('claim'),
+    refused: { success: false, error: 'Failed to reject claim: Unauthorized: Please sign in' }
+  },
+  { name: 'createScheduler', call: () => schedulerActions.createScheduler({ name: 'Nightly' }), refused: null },
+  { name: 'getSchedulerById', call: () => schedulerActions.getSchedulerById('id'), refused: null },
+  { name: 'getSchedulers', call: () => schedulerActions.getSchedulers(), refused: emptyPage('schedulers') },
+  { name: 'updateScheduler', call: () => schedulerActions.updateScheduler('id', { name: 'Nightly' }), refused: null },
+  { name: 'deleteScheduler', call: () => schedulerActions.deleteScheduler('id'), refused: false },
+  { name: 'startScheduler', call: () => schedulerActions.startScheduler('id'), refused: null },
+  { name: 'stopScheduler', call: () => schedulerActions.stopScheduler('id'), refused: null },
+  { name: 'runSchedulerManually', call: () => schedulerActions.runSchedulerManually('id'), refused: null },
+  { name: 'getSchedulerPollPlan', call: () => schedulerActions.getSchedulerPollPlan('id'), refused: null },
+  {
+    name: 'getSchedulerExecutionHistory',
+    call: () => schedulerActions.getSchedulerExecutionHistory('id'),
+    refused: { history: [], pagination: { page: 1, limit: 20, total: 0, pages: 0 } }
+  }
+];
+
+describe('guarded server actions', () => {
+  beforeEach(() => {
+    vi.mocked(getSession).mockResolvedValue({ success: true, session: null } as Awaited<ReturnType<typeof getSession>>);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(connectToDatabase).mockClear();
+  });
+
+  it.each(guardedActions)('$name refuses anonymous calls', async ({ call, refused }) => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await call()).toEqual(refused);
+    expect(consoleError).toHaveBeenCalledWith(expect.any(String), expect.any(AuthorizationError));
+    expect(consoleError.mock.calls[0][1]).toMatchObject({ status: 401 });
+    expect(connectToDatabase).not.toHaveBeenCalled();
+  });
+});
+
+describe('worker-only functions', () => {
+  it.each([
+    ['match', matchActions, ['createMatch', 'importMatchesFromEA', 'backfillNormalizedMatchStats', 'backfillMatchTypes']],
+    ['player', playerActions, ['ingestPlayersFromMatch', 'ingestMissingPlayersFromMatch']],
+    ['scheduler', schedulerActions, ['resolveSchedulerClubs', 'getSchedulersToRun', 'updateSchedulerExecution', 'migrateEmbeddedExecutionHistory']]
+  ])('are not exported by the %s actions', (_, actions, workerOnly) => {
+    for (const name of workerOnly) {
+      expect(actions).not.toHaveProperty(name);
+    }
+  });
+});
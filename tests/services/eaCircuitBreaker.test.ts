@@ -0,0 +1,148 @@
+/**
+ * EA API Circuit Breaker Tests
+ *
+ * Once the cooldown of an open circuit has passed, a single trial call
+ * decides whether EA is back. These tests run the breaker against an
+ * in-memory Redis and check that concurrent callers get one trial between
+ * them, and that the others are denied until it succeeds or fails.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  acquireEaCallPermit,
+  getEaCircuitStatus,
+  recordEaFailure,
+  recordEaSuccess,
+  releaseEaCircuitTrial
+} from '@/lib/services/eaCircuitBreaker';
+import { EA_API_CIRCUIT_BREAKER } from '@/lib/config/eaApi';
+
+const { redis } = vi.hoisted(() => {
+  const values = new Map<string, { value: string; expiresAt: number }>();
+
+  const read = (key: string) => {
+    const entry = values.get(key);
+    if (entry && entry.expiresAt <= Date.now()) values.delete(key);
+    return values.get(key)?.value ?? null;
+  };
+
+  // Just enough of Redis for the breaker's counters and flags
+  const redis = {
+    reset: () => values.clear(),
+    client: {
+      get: async (key: string) => read(key),
+      set: async (key: string, value: string, options: { PX?: number; NX?: boolean } = {}) => {
+        if (options.NX && read(key) !== null) return null;
+        values.set(key, { value, expiresAt: options.PX ? Date.now() + options.PX : Infinity });
+        return 'OK';
+      },
+      del: async (keys: string | string[]) => {
+        let removed = 0;
+        for (const key of [keys].flat()) {
+          if (read(key) !== null) removed++;
+          values.delete(key);
+        }
+        return removed;
+      },
+      incr: async (key: string) => {
+        const entry = values.get(key);
+        const value = String(Number(read(key) ?? 0) + 1);
+        values.set(key, { value, expiresAt: entry?.expiresAt ?? Infinity });
+        return Number(value);
+      },
+      expire: async (key: string, seconds: number) => {
+        const value = read(key);
+        if (value !== null) values.set(key, { value, expiresAt: Date.now() + seconds * 1000 });
+        return value === null ? 0 : 1;
+      }
+    }
+  };
+
+  return { redis };
+});
+
+vi.mock('@/lib/utils/redisClient', () => ({ getRedisClient: async () => redis.client }));
+
+/**
+ * Helper function to open the circuit and let its cooldown pass
+ */
+async function reachHalfOpen() {
+  for (let i = 0; i < EA_API_CIRCUIT_BREAKER.failureThreshold; i++) {
+    await recordEaFailure();
+  }
+  expect((await getEaCircuitStatus()).state).toBe('open');
+
+  vi.setSystemTime(Date.now() + EA_API_CIRCUIT_BREAKER.cooldownSeconds * 1000);
+  expect((await getEaCircuitStatus()).state).toBe('half-open');
+}
+
+/**
+ * Helper function to ask for permits from several callers at once
+ */
+function acquirePermits(callers: number) {
+  return Promise.all(Array.from({ length: callers }, () => acquireEaCallPermit()));
+}
+
+describe('EA API circuit breaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    redis.reset();
+  });
+
+  it('allows every call while closed and none while open', async () => {
+    expect(await acquirePermits(3)).toEqual(['allowed', 'allowed', 'allowed']);
+
+    for (let i = 0; i < EA_API_CIRCUIT_BREAKER.failureThreshold; i++) {
+      await recordEaFailure();
+    }
+
+    expect(await acquirePermits(3)).toEqual(['denied', 'denied', 'denied']);
+  });
+
+  it('lets one of several concurrent callers make the trial', async () => {
+    await reachHalfOpen();
+
+    const permits = await acquirePermits(5);
+
+    expect(permits.filter(permit => permit === 'trial')).toHaveLength(1);
+    expect(permits.filter(permit => permit === 'denied')).toHaveLength(4);
+    expect(await acquireEaCallPermit()).toBe('denied');
+  });
+
+  it('closes the circuit for everyone when the trial succeeds', async () => {
+    await reachHalfOpen();
+    await acquireEaCallPermit();
+
+    await recordEaSuccess();
+
+    expect(await acquirePermits(3)).toEqual(['allowed', 'allowed', 'allowed']);
+  });
+
+  it('opens the circuit again when the trial fails, with a new trial after the cooldown', async () => {
+    await reachHalfOpen();
+    await acquireEaCallPermit();
+
+    await recordEaFailure();
+    expect(await acquirePermits(3)).toEqual(['denied', 'denied', 'denied']);
+
+    vi.setSystemTime(Date.now() + EA_API_CIRCUIT_BREAKER.cooldownSeconds * 1000);
+    expect((await acquirePermits(3)).sort()).toEqual(['denied', 'denied', 'trial']);
+  });
+
+  it('hands the trial to another caller when it ends without a verdict or times out', async () => {
+    await reachHalfOpen();
+    await acquireEaCallPermit();
+
+    await releaseEaCircuitTrial();
+    expect(await acquireEaCallPermit()).toBe('trial');
+
+    vi.setSystemTime(Date.now() + EA_API_CIRCUIT_BREAKER.trialTimeoutSeconds * 1000);
+    expect(await acquireEaCallPermit()).toBe('trial');
+  });
+});
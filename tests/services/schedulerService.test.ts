@@ -0,0 +1,240 @@
+/**
+ * Scheduler Service Tests
+ *
+ * A scheduler run fans out into one `import-club` job per club and holds the
+ * scheduler's lease until the last club finishes. These tests run the Bull
+ * processors against an in-memory Redis and check that the lease outlives
+ * club jobs left waiting in the queue, that a run refused by the lease is
+ * reported, and that a run is only finished once.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Job } from 'bull';
+import Scheduler from '@/lib/models/scheduler.model';
+import Club from '@/lib/models/club.model';
+import { resolveSchedulerClubs, updateSchedulerExecution } from '@/lib/services/schedulerRunService';
+import { importMatchesFromEA } from '@/lib/services/matchImportService';
+import { planClubPolls } from '@/lib/services/adaptivePolling';
+import { isSchedulerRunning } from '@/lib/services/schedulerLease';
+import { SCHEDULER_LEASE_TTL_MS } from '@/lib/config/scheduler';
+import { initializeSchedulerService } from '@/lib/services/schedulerService';
+
+type Processor = (job: Job) => Promise<unknown>;
+
+const { processors, queue, redis } = vi.hoisted(() => {
+  const processors = new Map<string, (job: unknown) => Promise<unknown>>();
+
+  // Queued jobs are only recorded; tests run them through the captured processors
+  const queue = {
+    process: (name: string, ...args: unknown[]) => {
+      processors.set(name, args[args.length - 1] as (job: unknown) => Promise<unknown>);
+    },
+    addBulk: async (jobs: unknown[]) => jobs,
+    add: async () => ({ id: 'next' }),
+    on: () => {},
+    close: async () => {}
+  };
+
+  // Just enough of Redis for the lease, run aggregation and event scripts
+  const strings = new Map<string, { value: string; expiresAt: number }>();
+  const hashes = new Map<string, Record<string, string>>();
+  const published: { channel: string; message: Record<string, unknown> }[] = [];
+
+  const getString = (key: string) => {
+    const entry = strings.get(key);
+    if (entry && entry.expiresAt <= Date.now()) strings.delete(key);
+    return strings.get(key)?.value ?? null;
+  };
+
+  const redis = {
+    strings,
+    hashes,
+    published,
+    reset: () => {
+      strings.clear();
+      hashes.clear();
+      published.length = 0;
+    },
+    client: {
+      eval: async (script: string, { keys, arguments: args }: { keys: string[]; arguments: string[] }) => {
+        if (script.includes('HSETNX')) {
+          const results = hashes.get(keys[1]) ?? {};
+          if (args[0] in results) return -1;
+          hashes.set(keys[1], { ...results, [args[0]]: args[1] });
+          const run = hashes.get(keys[0]) ?? {};
+          run.remaining = String(Number(run.remaining) - 1);
+          hashes.set(keys[0], run);
+          return Number(run.remaining);
+        }
+        if (script.includes("'HSET'")) {
+          if (hashes.has(keys[0])) return 0;
+          hashes.set(keys[0], { schedulerId: args[0], startedAt: args[1], total: args[2], remaining: args[2] });
+          return 1;
+        }
+        if (script.includes("'SET'")) {
+          const current = getString(keys[0]);
+          if (current && current !== args[0]) return 0;
+          strings.set(keys[0], { value: args[0], expiresAt: Date.now() + Number(args[1]) });
+          return 1;
+        }
+        if (getString(keys[0]) !== args[0]) return 0;
+        if (script.includes('PEXPIRE')) {
+          strings.set(keys[0], { value: args[0], expiresAt: Date.now() + Number(args[1]) });
+        } else {
+          strings.delete(keys[0]);
+        }
+        return 1;
+      },
+      exists: async (key: string) => (getString(key) === null ? 0 : 1),
+      hGet: async (key: string, field: string) => hashes.get(key)?.[field] ?? null,
+      hGetAll: async (key: string) => ({ ...(hashes.get(key) ?? {}) }),
+      del: async (keys: string | string[]) => {
+        let removed = 0;
+        for (const key of [keys].flat()) {
+          if (hashes.delete(key) || strings.delete(key)) removed++;
+        }
+        return removed;
+      },
+      publish: async (channel: string, message: string) => {
+        published.push({ channel, message: JSON.parse(message) });
+        return 1;
+      }
+    }
+  };
+
+  return { processors, queue, redis };
+});
+
+vi.mock('bull', () => ({ default: vi.fn(function () { return queue; }) }));
+vi.mock('@/lib/utils/redisClient', () => ({ getRedisClient: async () => redis.client }));
+vi.mock('@/database/mongoose', () => ({ connectToDatabase: vi.fn() }));
+vi.mock('@/lib/models/scheduler.model', () => ({ default: { findById: vi.fn(), findByIdAndUpdate: vi.fn() } }));
+vi.mock('@/lib/models/club.model', () => ({ default: { findOne: vi.fn() } }));
+vi.mock('@/lib/services/schedulerRunService', () => ({
+  updateSchedulerExecution: vi.fn(),
+  getSchedulersToRun: vi.fn(),
+  resolveSchedulerClubs: vi.fn()
+}));
+vi.mock('@/lib/services/matchImportService', () => ({ importMatchesFromEA: vi.fn() }));
+vi.mock('@/lib/services/eaCircuitBreaker', () => ({ isEaCircuitOpen: async () => false }));
+vi.mock('@/lib/services/alertService', () => ({ checkSchedulerRunAlerts: vi.fn() }));
+vi.mock('@/lib/services/adaptivePolling', () => ({
+  clearSchedulerPolls: vi.fn(),
+  planClubPolls: vi.fn(),
+  recordClubPolls: vi.fn()
+}));
+
+const SCHEDULER_ID = 'scheduler-1';
+const CLUBS = ['club-1', 'club-2', 'club-3'];
+
+/**
+ * Helper function to build a Bull job for a processor
+ */
+function createJob(id: string, name: string, data: Record<string, unknown>, attempts = 1) {
+  return { id, name, data, attemptsMade: 0, opts: { attempts }, progress: vi.fn() } as unknown as Job;
+}
+
+/**
+ * Helper function to start a run and return the club jobs it queued
+ */
+async function startRun(jobId: string) {
+  const addBulk = vi.spyOn(queue, 'addBulk');
+  const result = await processors.get('run-scheduler')!(
+    createJob(jobId, 'run-scheduler', { schedulerId: SCHEDULER_ID, pollAllClubs: true })
+  );
+  const clubJobs = (addBulk.mock.calls.at(-1)?.[0] ?? []) as { data: Record<string, unknown>; opts: { jobId: string } }[];
+
+  return {
+    result,
+    clubJobs: clubJobs.map(({ data, opts }) => createJob(opts.jobId, 'import-club', data))
+  };
+}
+
+/**
+ * Helper function to run a queued club job
+ */
+function runClubJob(job: Job) {
+  return (processors.get('import-club') as Processor)(job);
+}
+
+describe('scheduler runs', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    vi.mocked(Scheduler.findById).mockResolvedValue({
+      isActive: true,
+      scheduleConfig: { mode: 'cron', cronExpression: '*/15 * * * *', timezone: 'UTC' },
+      collectionSettings: { platform: 'common-gen5', matchType: 'leagueMatch', frequencyMinutes: 15, retryAttempts: 0, retryDelayMinutes: 1 }
+    });
+    vi.mocked(resolveSchedulerClubs).mockResolvedValue({ clubs: CLUBS, targetsEnded: false } as Awaited<ReturnType<typeof resolveSchedulerClubs>>);
+    vi.mocked(planClubPolls).mockResolvedValue({ clubs: [] } as unknown as Awaited<ReturnType<typeof planClubPolls>>);
+    vi.mocked(updateSchedulerExecution).mockResolvedValue(true);
+    vi.mocked(Club.findOne).mockResolvedValue({ clubId: 'club' });
+    vi.mocked(importMatchesFromEA).mockResolvedValue({
+      matches: [],
+      counts: { new: 0, duplicate: 0, updated: 0, rejected: 0 },
+      matchesReturned: 0
+    } as unknown as Awaited<ReturnType<typeof importMatchesFromEA>>);
+
+    initializeSchedulerService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+    redis.reset();
+  });
+
+  it('holds the lease while its club jobs wait in the queue', async () => {
+    const { result, clubJobs } = await startRun('1');
+    expect(result).toEqual({ runId: `${SCHEDULER_ID}:1`, clubsQueued: CLUBS.length });
+
+    // No club job has started yet, well past the lease TTL
+    await vi.advanceTimersByTimeAsync(5 * SCHEDULER_LEASE_TTL_MS);
+
+    expect(await isSchedulerRunning(SCHEDULER_ID)).toBe(true);
+    expect((await startRun('2')).result).toEqual({ runId: `${SCHEDULER_ID}:2`, alreadyRunning: true });
+
+    for (const job of clubJobs) {
+      await runClubJob(job);
+    }
+
+    expect(await isSchedulerRunning(SCHEDULER_ID)).toBe(false);
+
+    // The heartbeat stopped with the run, so a new run can take the lease
+    await vi.advanceTimersByTimeAsync(5 * SCHEDULER_LEASE_TTL_MS);
+    expect((await startRun('3')).result).toEqual({ runId: `${SCHEDULER_ID}:3`, clubsQueued: CLUBS.length });
+  });
+
+  it('publishes a skipped event for a run queued while another run holds the lease', async () => {
+    await startRun('1');
+    await startRun('2');
+
+    expect(redis.published.map(({ message }) => message)).toContainEqual(expect.objectContaining({
+      type: 'skipped',
+      schedulerId: SCHEDULER_ID,
+      jobId: '2',
+      runId: `${SCHEDULER_ID}:2`
+    }));
+  });
+
+  it('finishes a run once when its last club job runs again', async () => {
+    const add = vi.spyOn(queue, 'add');
+    const { clubJobs } = await startRun('1');
+
+    for (const job of clubJobs.slice(0, -1)) {
+      await runClubJob(job);
+    }
+    // A stalled last club job is run again while its first attempt is still finishing the run
+    const lastJob = clubJobs[clubJobs.length - 1];
+    await Promise.all([runClubJob(lastJob), runClubJob(lastJob)]);
+
+    const completed = redis.published.filter(({ message }) => message.type === 'completed');
+    expect(completed).toHaveLength(1);
+    // Only one next run was queued
+    expect(add).toHaveBeenCalledTimes(1);
+  });
+});
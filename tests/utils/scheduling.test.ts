@@ -0,0 +1,269 @@
+/**
+ * Scheduling Utility Tests
+ *
+ * These tests cover how scheduler windows, cron runs and one-off ranges are
+ * turned into instants, including the days New York switches to and from
+ * daylight saving time (2026-03-08 and 2026-11-01) and windows that cross
+ * midnight.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  calculateNextRun,
+  getActiveWindow,
+  getNextCronRun,
+  getScheduleWindows,
+  parseCronExpression,
+  ScheduleWindowConfig,
+  validateScheduleConfig,
+  zonedTimeToUtc
+} from '@/lib/utils/scheduling';
+
+const NEW_YORK = 'America/New_York';
+
+// Saturday 8:00 PM - 11:00 PM and Sunday 8:00 PM - 11:00 PM in New York
+const weekendEvenings: ScheduleWindowConfig = {
+  startHour: 20,
+  startMinute: 0,
+  endHour: 23,
+  endMinute: 0,
+  daysOfWeek: [0, 6],
+  timezone: NEW_YORK
+};
+
+// Friday 10:00 PM until Saturday 2:00 AM in UTC
+const fridayNights: ScheduleWindowConfig = {
+  startHour: 22,
+  startMinute: 0,
+  endHour: 2,
+  endMinute: 0,
+  daysOfWeek: [5],
+  timezone: 'UTC'
+};
+
+describe('zonedTimeToUtc', () => {
+  it('applies standard time in winter and daylight time in summer', () => {
+    expect(zonedTimeToUtc({ year: 2026, month: 1, day: 15 }, 20, 30, NEW_YORK))
+      .toEqual(new Date('2026-01-16T01:30:00Z'));
+    expect(zonedTimeToUtc({ year: 2026, month: 7, day: 15 }, 20, 30, NEW_YORK))
+      .toEqual(new Date('2026-07-16T00:30:00Z'));
+  });
+
+  it('uses the new offset right after the spring change', () => {
+    expect(zonedTimeToUtc({ year: 2026, month: 3, day: 8 }, 1, 30, NEW_YORK))
+      .toEqual(new Date('2026-03-08T06:30:00Z'));
+    expect(zonedTimeToUtc({ year: 2026, month: 3, day: 8 }, 3, 0, NEW_YORK))
+      .toEqual(new Date('2026-03-08T07:00:00Z'));
+  });
+
+  it('moves a time skipped by the spring change to the same wall-clock time after it', () => {
+    // 2:30 AM does not exist; 2:30 EST is 3:30 EDT
+    expect(zonedTimeToUtc({ year: 2026, month: 3, day: 8 }, 2, 30, NEW_YORK))
+      .toEqual(new Date('2026-03-08T07:30:00Z'));
+  });
+
+  it('resolves a time repeated by the autumn change to its first occurrence', () => {
+    // 1:30 AM happens in EDT and again in EST
+    expect(zonedTimeToUtc({ year: 2026, month: 11, day: 1 }, 1, 30, NEW_YORK))
+      .toEqual(new Date('2026-11-01T05:30:00Z'));
+    expect(zonedTimeToUtc({ year: 2026, month: 11, day: 1 }, 3, 0, NEW_YORK))
+      .toEqual(new Date('2026-11-01T08:00:00Z'));
+  });
+
+  it('treats UTC as having no offset', () => {
+    expect(zonedTimeToUtc({ year: 2026, month: 3, day: 8 }, 2, 30, 'UTC'))
+      .toEqual(new Date('2026-03-08T02:30:00Z'));
+  });
+});
+
+describe('getScheduleWindows', () => {
+  it('lists the windows of the selected days, starting the day before', () => {
+    // Friday 2026-03-06, noon in New York
+    const windows = getScheduleWindows(weekendEvenings, new Date('2026-03-06T17:00:00Z'), 2);
+
+    expect(windows).toEqual([
+      { start: new Date('2026-03-08T01:00:00Z'), end: new Date('2026-03-08T04:00:00Z') },
+      // Sunday's window is in daylight time, an hour earlier in UTC
+      { start: new Date('2026-03-09T00:00:00Z'), end: new Date('2026-03-09T03:00:00Z') }
+    ]);
+  });
+
+  it('keeps wall-clock times across the autumn change', () => {
+    const windows = getScheduleWindows(weekendEvenings, new Date('2026-10-30T16:00:00Z'), 2);
+
+    expect(windows).toEqual([
+      { start: new Date('2026-11-01T00:00:00Z'), end: new Date('2026-11-01T03:00:00Z') },
+      { start: new Date('2026-11-02T01:00:00Z'), end: new Date('2026-11-02T04:00:00Z') }
+    ]);
+  });
+
+  it('ends a window that crosses midnight on the following day', () => {
+    // Thursday 2026-01-08
+    const windows = getScheduleWindows(fridayNights, new Date('2026-01-08T12:00:00Z'), 1);
+
+    expect(windows).toEqual([
+      { start: new Date('2026-01-09T22:00:00Z'), end: new Date('2026-01-10T02:00:00Z') }
+    ]);
+  });
+
+  it('shortens a window crossing midnight into the spring change by the skipped hour', () => {
+    const overnight: ScheduleWindowConfig = { ...fridayNights, endHour: 4, daysOfWeek: [6], timezone: NEW_YORK };
+    const [window] = getScheduleWindows(overnight, new Date('2026-03-07T12:00:00Z'), 0);
+
+    // Saturday 10:00 PM EST until Sunday 4:00 AM EDT: five hours instead of six
+    expect(window).toEqual({ start: new Date('2026-03-08T03:00:00Z'), end: new Date('2026-03-08T08:00:00Z') });
+  });
+
+  it('returns the one-off range in once mode', () => {
+    const once: ScheduleWindowConfig = {
+      ...weekendEvenings,
+      mode: 'once',
+      startDate: new Date('2026-05-01T18:00:00Z'),
+      endDate: new Date('2026-05-01T22:00:00Z')
+    };
+
+    expect(getScheduleWindows(once, new Date('2026-04-01T00:00:00Z'))).toEqual([
+      { start: new Date('2026-05-01T18:00:00Z'), end: new Date('2026-05-01T22:00:00Z') }
+    ]);
+    expect(getScheduleWindows({ ...once, endDate: undefined }, new Date('2026-04-01T00:00:00Z'))).toEqual([]);
+  });
+});
+
+describe('calculateNextRun', () => {
+  it('runs at the start of the next window when outside one', () => {
+    expect(calculateNextRun(weekendEvenings, 30, new Date('2026-03-06T17:00:00Z')))
+      .toEqual(new Date('2026-03-08T01:00:00Z'));
+  });
+
+  it('runs on the window grid while inside a window', () => {
+    // Sunday 2026-03-08, 8:10 PM EDT
+    expect(calculateNextRun(weekendEvenings, 30, new Date('2026-03-09T00:10:00Z')))
+      .toEqual(new Date('2026-03-09T00:30:00Z'));
+    // Exactly on a run, the next one follows
+    expect(calculateNextRun(weekendEvenings, 30, new Date('2026-03-09T00:30:00Z')))
+      .toEqual(new Date('2026-03-09T01:00:00Z'));
+  });
+
+  it('runs at the window end and then waits for the next window', () => {
+    // Sunday 2026-03-08, 10:50 PM EDT; the window ends at 11:00 PM
+    expect(calculateNextRun(weekendEvenings, 30, new Date('2026-03-09T02:50:00Z')))
+      .toEqual(new Date('2026-03-09T03:00:00Z'));
+    // After it closes, the next run is Saturday 2026-03-14 at 8:00 PM EDT
+    expect(calculateNextRun(weekendEvenings, 30, new Date('2026-03-09T03:00:00Z')))
+      .toEqual(new Date('2026-03-15T00:00:00Z'));
+  });
+
+  it('keeps running after midnight in a window that started the day before', () => {
+    // Saturday 2026-01-10, 1:10 AM: inside Friday's window
+    expect(getActiveWindow(fridayNights, new Date('2026-01-10T01:10:00Z'))).toEqual({
+      start: new Date('2026-01-09T22:00:00Z'),
+      end: new Date('2026-01-10T02:00:00Z')
+    });
+    expect(calculateNextRun(fridayNights, 30, new Date('2026-01-10T01:10:00Z')))
+      .toEqual(new Date('2026-01-10T01:30:00Z'));
+    expect(calculateNextRun(fridayNights, 30, new Date('2026-01-10T01:50:00Z')))
+      .toEqual(new Date('2026-01-10T02:00:00Z'));
+    expect(calculateNextRun(fridayNights, 30, new Date('2026-01-10T02:10:00Z')))
+      .toEqual(new Date('2026-01-16T22:00:00Z'));
+  });
+
+  it('follows daylight saving time for legacy time zone abbreviations', () => {
+    expect(calculateNextRun({ ...weekendEvenings, timezone: 'EST' }, 30, new Date('2026-07-01T12:00:00Z')))
+      .toEqual(new Date('2026-07-05T00:00:00Z'));
+  });
+
+  it('runs inside the one-off range in once mode and stops after it', () => {
+    const once: ScheduleWindowConfig = {
+      ...weekendEvenings,
+      mode: 'once',
+      startDate: new Date('2026-05-01T18:00:00Z'),
+      endDate: new Date('2026-05-01T19:00:00Z')
+    };
+
+    expect(calculateNextRun(once, 20, new Date('2026-04-30T00:00:00Z'))).toEqual(new Date('2026-05-01T18:00:00Z'));
+    expect(calculateNextRun(once, 20, new Date('2026-05-01T18:05:00Z'))).toEqual(new Date('2026-05-01T18:20:00Z'));
+    expect(calculateNextRun(once, 20, new Date('2026-05-01T19:00:00Z'))).toBeNull();
+  });
+
+  it('uses the cron expression in cron mode', () => {
+    const cron: ScheduleWindowConfig = { ...weekendEvenings, mode: 'cron', cronExpression: '*/15 21 * * SAT' };
+
+    expect(calculateNextRun(cron, 30, new Date('2026-03-07T12:00:00Z'))).toEqual(new Date('2026-03-08T02:00:00Z'));
+    expect(calculateNextRun({ ...cron, cronExpression: undefined }, 30, new Date('2026-03-07T12:00:00Z'))).toBeNull();
+  });
+});
+
+describe('getNextCronRun', () => {
+  it('finds the next matching minute later the same day', () => {
+    const cron = parseCronExpression('0,30 20-22 * * *');
+
+    expect(getNextCronRun(cron, 'UTC', new Date('2026-01-08T20:45:00Z'))).toEqual(new Date('2026-01-08T21:00:00Z'));
+    expect(getNextCronRun(cron, 'UTC', new Date('2026-01-08T22:30:00Z'))).toEqual(new Date('2026-01-09T20:00:00Z'));
+  });
+
+  it('reads the expression in the time zone across daylight saving changes', () => {
+    const cron = parseCronExpression('30 20 * * *');
+
+    // 8:30 PM EST on Saturday, then 8:30 PM EDT on Sunday
+    expect(getNextCronRun(cron, NEW_YORK, new Date('2026-03-07T12:00:00Z'))).toEqual(new Date('2026-03-08T01:30:00Z'));
+    expect(getNextCronRun(cron, NEW_YORK, new Date('2026-03-08T01:30:00Z'))).toEqual(new Date('2026-03-09T00:30:00Z'));
+    // And back to EST after the autumn change
+    expect(getNextCronRun(cron, NEW_YORK, new Date('2026-11-01T12:00:00Z'))).toEqual(new Date('2026-11-02T01:30:00Z'));
+  });
+
+  it('runs a time skipped by the spring change after the change', () => {
+    const cron = parseCronExpression('30 2 * * *');
+
+    expect(getNextCronRun(cron, NEW_YORK, new Date('2026-03-08T05:00:00Z'))).toEqual(new Date('2026-03-08T07:30:00Z'));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // Noon on the 1st of the month or on Mondays; Tuesday 2026-06-02 is followed by Monday 2026-06-08
+    const cron = parseCronExpression('0 12 1 * MON');
+
+    expect(getNextCronRun(cron, 'UTC', new Date('2026-06-02T00:00:00Z'))).toEqual(new Date('2026-06-08T12:00:00Z'));
+    expect(getNextCronRun(cron, 'UTC', new Date('2026-06-29T13:00:00Z'))).toEqual(new Date('2026-07-01T12:00:00Z'));
+  });
+
+  it('returns null when nothing matches within a year', () => {
+    expect(getNextCronRun(parseCronExpression('0 0 31 2 *'), 'UTC', new Date('2026-01-01T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('validateScheduleConfig', () => {
+  it('requires at least one day in window mode', () => {
+    expect(validateScheduleConfig(weekendEvenings)).toBeNull();
+    expect(validateScheduleConfig({ ...weekendEvenings, daysOfWeek: [] })).toBe('Select at least one day of the week');
+  });
+
+  it('accepts a window that crosses midnight', () => {
+    expect(validateScheduleConfig(fridayNights)).toBeNull();
+  });
+
+  it('requires a valid cron expression in cron mode', () => {
+    const cron: ScheduleWindowConfig = { ...weekendEvenings, mode: 'cron' };
+
+    expect(validateScheduleConfig({ ...cron, cronExpression: '*/10 20-22 * * 2,3' })).toBeNull();
+    expect(validateScheduleConfig({ ...cron, cronExpression: ' ' })).toBe('A cron expression is required');
+    expect(validateScheduleConfig({ ...cron, cronExpression: '0 20 * *' })).toBe('Cron expression must have 5 fields, found 4');
+    expect(validateScheduleConfig({ ...cron, cronExpression: '60 20 * * *' })).toBe('Invalid minute value "60"');
+    expect(validateScheduleConfig({ ...cron, cronExpression: '0 22-20 * * *' })).toBe('Invalid hour range "22-20"');
+  });
+
+  it('requires an end after the start in once mode', () => {
+    const once: ScheduleWindowConfig = { ...weekendEvenings, mode: 'once' };
+
+    expect(validateScheduleConfig({
+      ...once,
+      startDate: new Date('2026-05-01T18:00:00Z'),
+      endDate: new Date('2026-05-01T19:00:00Z')
+    })).toBeNull();
+    expect(validateScheduleConfig({ ...once, startDate: new Date('2026-05-01T18:00:00Z') }))
+      .toBe('A start and end date are required');
+    expect(validateScheduleConfig({
+      ...once,
+      startDate: new Date('2026-05-01T18:00:00Z'),
+      endDate: new Date('2026-05-01T18:00:00Z')
+    })).toBe('The end date must be after the start date');
+  });
+});
@@ -0,0 +1,21 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./', import.meta.url))
+    }
+  },
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    // Modules reading the Redis configuration fail to load without it; tests never connect
+    env: {
+      REDIS_HOST: '127.0.0.1',
+      REDIS_PORT: '6379',
+      REDIS_PASSWORD: 'test',
+      REDIS_DB: '0'
+    }
+  }
+});
@@ -0,0 +1,17 @@
+/**
+ * Worker Environment Loading
+ *
+ * Next.js loads the .env files for the web app; the worker loads the same
+ * files itself. It must be imported before any module that reads
+ * environment variables at load time (e.g. the Redis configuration).
+ * Variables already set in the environment are never overwritten.
+ */
+
+import { existsSync } from 'fs';
+
+// Earlier files win, matching Next.js precedence
+for (const file of ['.env.local', '.env']) {
+  if (existsSync(file)) {
+    process.loadEnvFile(file);
+  }
+}
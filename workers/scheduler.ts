@@ -0,0 +1,70 @@
+/**
+ * Scheduler Worker
+ *
+ * Standalone process that runs the Bull scheduler processors and, while it
+ * is the elected leader, the scheduler cron. The web app only enqueues jobs
+ * and reads their status, so this worker must run alongside it:
+ *
+ *   npm run worker
+ *
+ * Any number of workers can run; they share the job queue and elect a
+ * single cron leader through Redis.
+ */
+
+import './loadEnv';
+import { initializeWorkerServices, shutdownServices } from '@/lib/services/initializeServices';
+
+let isShuttingDown = false;
+
+/**
+ * Stops the worker's services and exits
+ * @param exitCode - The process exit code
+ */
+async function shutdown(exitCode: number): Promise<void> {
+  if (isShuttingDown) return;
+  isShuttingDown = true;
+
+  console.log('🛑 Stopping scheduler worker...');
+
+  try {
+    await shutdownServices();
+    console.log('✅ Scheduler worker stopped');
+  } catch (error) {
+    console.error('❌ Error stopping scheduler worker:', error);
+    exitCode = 1;
+  }
+
+  process.exit(exitCode);
+}
+
+/**
+ * Starts the worker's services
+ */
+async function main(): Promise<void> {
+  console.log('🚀 Starting scheduler worker...');
+
+  const success = await initializeWorkerServices();
+  if (!success) {
+    console.error('❌ Scheduler worker failed to start');
+    process.exit(1);
+  }
+
+  console.log('✅ Scheduler worker running');
+}
+
+process.on('SIGINT', () => {
+  console.log('\n📡 Received SIGINT signal, initiating graceful shutdown...');
+  shutdown(0);
+});
+
+process.on('SIGTERM', () => {
+  console.log('\n📡 Received SIGTERM signal, initiating graceful shutdown...');
+  shutdown(0);
+});
+
+process.on('unhandledRejection', (reason) => {
+  console.error('❌ Unhandled Rejection:', reason);
+  shutdown(1);
+});
+
+main();